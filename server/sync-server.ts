@@ -0,0 +1,184 @@
+// Minimal self-hosted sync server for the panel.
+//
+//   npm run sync-server
+//
+// Environment:
+//   PORT            port to listen on (default 8787)
+//   SYNC_DATA_FILE  JSON file holding the replicated records (default ./sync-data.json)
+//   SYNC_TOKEN      optional shared secret, sent by clients as "Authorization: Bearer <token>"
+//
+// Every record is kept with the timestamp of its last write and a server
+// sequence number. Clients push their pending changes and receive everything
+// written after their cursor; the newest `updatedAt` wins for each record.
+
+import { createServer, IncomingMessage, ServerResponse } from 'node:http';
+import { readFile, writeFile, rename } from 'node:fs/promises';
+import { existsSync } from 'node:fs';
+import path from 'node:path';
+import type { AuditEntity, SyncChange, SyncRequest, SyncResponse } from '../src/types';
+
+interface StoredRecord extends SyncChange {
+  seq: number;
+  clientId: string;
+}
+
+interface SyncState {
+  seq: number;
+  records: Record<string, StoredRecord>;
+}
+
+const PORT = Number(process.env.PORT) || 8787;
+const DATA_FILE = path.resolve(process.env.SYNC_DATA_FILE || 'sync-data.json');
+const TOKEN = process.env.SYNC_TOKEN || '';
+const MAX_BODY_BYTES = 50 * 1024 * 1024;
+
+// Anything else would be replicated to clients that have nowhere to put it
+const ENTITIES: readonly AuditEntity[] = ['customers', 'servers', 'plans', 'renewals', 'manualAdditions', 'settings'];
+
+const keyOf = (change: Pick<SyncChange, 'entity' | 'id'>) => `${change.entity}:${change.id}`;
+
+const loadState = async (): Promise<SyncState> => {
+  if (!existsSync(DATA_FILE)) return { seq: 0, records: {} };
+  return JSON.parse(await readFile(DATA_FILE, 'utf8'));
+};
+
+// Write to a temporary file first so a crash never leaves a truncated data file.
+const saveState = async (state: SyncState) => {
+  const tmp = `${DATA_FILE}.tmp`;
+  await writeFile(tmp, JSON.stringify(state));
+  await rename(tmp, DATA_FILE);
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null;
+
+const isValidChange = (change: unknown): change is SyncChange =>
+  isObject(change) && ENTITIES.includes(change.entity as AuditEntity) && typeof change.id === 'string' &&
+  typeof change.updatedAt === 'string' &&
+  (change.record === null || (isObject(change.record) && !Array.isArray(change.record) && change.record.id === change.id));
+
+const isValidRequest = (body: unknown): body is SyncRequest =>
+  isObject(body) && typeof body.clientId === 'string' && typeof body.cursor === 'number' &&
+  Array.isArray(body.changes) && body.changes.every(isValidChange);
+
+// Works on a copy of `current`, so nothing is served before it has been saved.
+const applySync = (current: SyncState, request: SyncRequest): { state: SyncState; response: SyncResponse } => {
+  const state: SyncState = { seq: current.seq, records: { ...current.records } };
+  const rejected: StoredRecord[] = [];
+  const acceptedKeys = new Set<string>();
+
+  request.changes.forEach(change => {
+    const key = keyOf(change);
+    const existing = Object.hasOwn(state.records, key) ? state.records[key] : undefined;
+    if (existing && existing.updatedAt > change.updatedAt) {
+      // The client is behind on this record: make sure it gets the winner back.
+      rejected.push(existing);
+      return;
+    }
+    state.seq += 1;
+    state.records[key] = { ...change, seq: state.seq, clientId: request.clientId };
+    acceptedKeys.add(key);
+  });
+
+  const fresh = Object.values(state.records).filter(r => r.seq > request.cursor && !acceptedKeys.has(keyOf(r)));
+  const outgoing = new Map<string, StoredRecord>();
+  [...fresh, ...rejected].forEach(r => outgoing.set(keyOf(r), r));
+
+  return {
+    state,
+    response: {
+      cursor: state.seq,
+      changes: [...outgoing.values()]
+        .sort((a, b) => a.seq - b.seq)
+        .map(({ entity, id, record, updatedAt }) => ({ entity, id, record, updatedAt }))
+    }
+  };
+};
+
+class PayloadTooLargeError extends Error {}
+
+const readBody = (req: IncomingMessage) =>
+  new Promise<string>((resolve, reject) => {
+    let size = 0;
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        // Keep draining the upload so the 413 response can still reach the client
+        chunks.length = 0;
+        reject(new PayloadTooLargeError());
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    req.on('error', reject);
+  });
+
+const send = (res: ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+
+const start = async () => {
+  let state = await loadState();
+  // Requests are handled one at a time so that sequence numbers and file writes never interleave.
+  let queue = Promise.resolve();
+
+  const server = createServer((req, res) => {
+    res.setHeader('Access-Control-Allow-Origin', '*');
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+    res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204);
+      res.end();
+      return;
+    }
+    if (req.method === 'GET' && req.url === '/health') {
+      send(res, 200, { ok: true, cursor: state.seq });
+      return;
+    }
+    if (req.method !== 'POST' || req.url !== '/sync') {
+      send(res, 404, { error: 'Not found' });
+      return;
+    }
+    if (TOKEN && req.headers.authorization !== `Bearer ${TOKEN}`) {
+      send(res, 401, { error: 'Unauthorized' });
+      return;
+    }
+
+    queue = queue.then(async () => {
+      try {
+        let body: unknown;
+        try {
+          body = JSON.parse(await readBody(req));
+        } catch (err) {
+          if (err instanceof PayloadTooLargeError) send(res, 413, { error: 'Payload too large' });
+          else send(res, 400, { error: 'Invalid JSON' });
+          return;
+        }
+        if (!isValidRequest(body)) {
+          send(res, 400, { error: 'Invalid sync request' });
+          return;
+        }
+        const { state: next, response } = applySync(state, body);
+        if (body.changes.length > 0) await saveState(next);
+        state = next;
+        send(res, 200, response);
+      } catch (err) {
+        console.error('Sync failed:', err);
+        send(res, 500, { error: 'Sync failed' });
+      }
+    });
+  });
+
+  server.listen(PORT, () => {
+    console.log(`Sync server listening on http://localhost:${PORT} (data: ${DATA_FILE})`);
+  });
+};
+
+start().catch(err => {
+  console.error(err);
+  process.exit(1);
+});
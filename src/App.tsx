@@ -1,26 +1,112 @@
 // VERSÃO: 2.1 - LIMPEZA DEFINITIVA (Vercel Fix)
-import { useState } from 'react';
-import { Customer, Server, Plan } from './types';
+import { useState, useEffect } from 'react';
+import { Customer, Server, Plan, Tab } from './types';
 import { Dashboard } from './views/Dashboard';
 import { Customers } from './views/Customers';
 import { Servers } from './views/Servers';
 import { Plans } from './views/Plans';
 import { Storage } from './views/Storage';
-import { Layout, Users, Server as ServerIcon, Receipt, LayoutDashboard, Database } from 'lucide-react';
+import { History } from './views/History';
+import { Trash } from './views/Trash';
+import { Duplicates } from './views/Duplicates';
+import { Trials } from './views/Trials';
+import { Referrals } from './views/Referrals';
+import { WinBack } from './views/WinBack';
+import { Debtors } from './views/Debtors';
+import { CustomerDetail } from './views/CustomerDetail';
+import { CommandPalette } from './views/CommandPalette';
+import { Layout, Users, Server as ServerIcon, Receipt, LayoutDashboard, Database, Hourglass, Undo2, Redo2, History as HistoryIcon, Lock, Search } from 'lucide-react';
+import { actionLabel } from './audit';
 import { useStore } from './store';
+import { useSegments } from './segments';
+import { AppLock } from './lock';
+import { PaletteIntent, PaletteTarget } from './palette';
 import { AnimatePresence, motion } from 'framer-motion';
 
-function App() {
-  const [activeTab, setActiveTab] = useState('dashboard');
+interface AppProps {
+  lock: AppLock;
+}
+
+function App({ lock }: AppProps) {
+  const [activeTab, setActiveTab] = useState<Tab>('dashboard');
+  const [selectedCustomerId, setSelectedCustomerId] = useState<string | null>(null);
+  const [returnTab, setReturnTab] = useState<Tab>('customers');
+  const [isPaletteOpen, setIsPaletteOpen] = useState(false);
+  // Action picked in the palette, carried out by the screen it belongs to
+  const [intent, setIntent] = useState<PaletteIntent | null>(null);
 
   const {
-    customers, addCustomer, updateCustomer, deleteCustomer, bulkUpdateCustomers,
-    servers, addServer, updateServer, deleteServer, setServers,
-    plans, addPlan, updatePlan, deletePlan, setPlans,
-    renewals, addRenewal, setRenewals,
-    manualAdditions, addManualAddition, updateManualAddition, deleteManualAddition, setManualAdditions,
-    whatsappMessage, setWhatsappMessage
+    customers, addCustomerWithRenewal, updateCustomer, deleteCustomer, bulkApply, importCustomers, mergeCustomers,
+    trials, startTrial, convertTrial, referralReward, updateReferralReward,
+    lifecycles, lifecycleThresholds, updateLifecycleThresholds,
+    allCustomers, trashedCustomers, restoreCustomer, purgeCustomers,
+    servers, addServer, updateServer, deleteServer, archiveServer, unarchiveServer,
+    plans, addPlan, updatePlan, deletePlan, archivePlan, unarchivePlan,
+    renewals, renewCustomer, markNotified, balances, addPayment,
+    manualAdditions, addManualAddition, updateManualAddition, deleteManualAddition,
+    whatsappMessage, setWhatsappMessage,
+    importData,
+    sync,
+    undo, redo, canUndo, canRedo, lastAction, auditRevision,
+    loading
   } = useStore();
+  const segments = useSegments();
+
+  // Ctrl+K opens the palette from anywhere. Ctrl+Z / Ctrl+Shift+Z (or Ctrl+Y)
+  // are left alone while typing so fields keep their native undo.
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || lock.status === 'locked') return;
+      if (e.key.toLowerCase() === 'k') {
+        e.preventDefault();
+        setIsPaletteOpen(open => !open);
+        return;
+      }
+      const target = e.target as HTMLElement;
+      if (target.closest('input, textarea, select, [contenteditable="true"]')) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+      } else if (key === 'y' || (key === 'z' && e.shiftKey)) {
+        e.preventDefault();
+        redo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-[#0f0f0f] flex flex-col items-center justify-center space-y-4">
+        <div className="bg-[#c8a646] p-3 rounded-2xl animate-pulse">
+          <Layout className="text-[#0f0f0f]" size={28} />
+        </div>
+        <span className="text-xs text-gray-500 uppercase tracking-widest font-bold">Carregando dados...</span>
+      </div>
+    );
+  }
+
+  const openCustomer = (id: string) => {
+    setSelectedCustomerId(id);
+    // Going from one profile to another (e.g. a referral) keeps the original way back
+    if (activeTab !== 'customer') setReturnTab(activeTab);
+    setActiveTab('customer');
+  };
+
+  const selectedCustomer = allCustomers.find(c => c.id === selectedCustomerId);
+
+  const handlePaletteSelect = (target: PaletteTarget) => {
+    if (target.kind === 'customer') {
+      openCustomer(target.id);
+    } else if (target.kind === 'tab') {
+      setActiveTab(target.tab);
+    } else {
+      setIntent(target.intent);
+      setActiveTab(target.intent.kind === 'exportBackup' ? 'storage' : 'customers');
+    }
+  };
 
   const renderContent = () => {
     switch (activeTab) {
@@ -31,24 +117,46 @@ function App() {
             servers={servers}
             plans={plans}
             whatsappMessage={whatsappMessage}
-            updateCustomer={updateCustomer}
             renewals={renewals}
-            addRenewal={addRenewal}
+            renewCustomer={renewCustomer}
+            markNotified={markNotified}
             manualAdditions={manualAdditions}
+            openCustomer={openCustomer}
+            openWinBack={() => setActiveTab('winback')}
+            openDebtors={() => setActiveTab('debtors')}
+            lifecycles={lifecycles}
+            balances={balances}
           />
         );
       case 'customers':
         return (
           <Customers
             customers={customers}
+            allCustomers={allCustomers}
             servers={servers}
             plans={plans}
+            renewals={renewals}
             whatsappMessage={whatsappMessage}
-            addCustomer={addCustomer}
             updateCustomer={updateCustomer}
             deleteCustomer={deleteCustomer}
-            bulkUpdateCustomers={bulkUpdateCustomers}
-            addRenewal={addRenewal}
+            importCustomers={importCustomers}
+            addCustomerWithRenewal={addCustomerWithRenewal}
+            renewCustomer={renewCustomer}
+            markNotified={markNotified}
+            trashCount={trashedCustomers.length}
+            openTrash={() => setActiveTab('trash')}
+            openDuplicates={() => setActiveTab('duplicates')}
+            openReferrals={() => setActiveTab('referrals')}
+            openDebtors={() => setActiveTab('debtors')}
+            openCustomer={openCustomer}
+            segments={segments}
+            lifecycles={lifecycles}
+            balances={balances}
+            intent={intent}
+            onIntentHandled={() => setIntent(null)}
+            bulkApply={bulkApply}
+            undo={undo}
+            lastAction={lastAction}
           />
         );
       case 'servers':
@@ -57,50 +165,159 @@ function App() {
             servers={servers}
             customers={customers}
             plans={plans}
+            renewals={renewals}
             addServer={addServer}
             updateServer={updateServer}
             deleteServer={deleteServer}
+            archiveServer={archiveServer}
+            unarchiveServer={unarchiveServer}
+            lifecycles={lifecycles}
           />
         );
       case 'plans':
         return (
           <Plans
             plans={plans}
+            customers={customers}
+            renewals={renewals}
             updatePlan={(id, price) => updatePlan(id, { defaultPrice: price })}
+            deletePlan={deletePlan}
+            archivePlan={archivePlan}
+            unarchivePlan={unarchivePlan}
             whatsappMessage={whatsappMessage}
             setWhatsappMessage={setWhatsappMessage}
             addManualAddition={addManualAddition}
             manualAdditions={manualAdditions}
+            lifecycleThresholds={lifecycleThresholds}
+            updateLifecycleThresholds={updateLifecycleThresholds}
           />
         );
       case 'storage':
         return (
           <Storage
-            customers={customers}
+            customers={allCustomers}
             servers={servers}
             plans={plans}
             renewals={renewals}
             manualAdditions={manualAdditions}
-            bulkUpdateCustomers={bulkUpdateCustomers}
-            setServers={setServers}
-            setPlans={setPlans}
-            setRenewals={setRenewals}
-            setManualAdditions={setManualAdditions}
+            whatsappMessage={whatsappMessage}
+            importData={importData}
+            openHistory={() => setActiveTab('history')}
+            sync={sync}
+            lock={lock}
+            intent={intent}
+            onIntentHandled={() => setIntent(null)}
+          />
+        );
+      case 'history':
+        return <History servers={servers} plans={plans} auditRevision={auditRevision} />;
+      case 'customer':
+        if (!selectedCustomer) return null;
+        return (
+          <CustomerDetail
+            customer={selectedCustomer}
+            servers={servers}
+            plans={plans}
+            renewals={renewals}
+            customers={allCustomers}
+            lifecycles={lifecycles}
+            addPayment={addPayment}
+            auditRevision={auditRevision}
+            onBack={() => setActiveTab(returnTab)}
+            openCustomer={openCustomer}
+          />
+        );
+      case 'trash':
+        return (
+          <Trash
+            trashedCustomers={trashedCustomers}
+            servers={servers}
+            plans={plans}
+            renewals={renewals}
+            restoreCustomer={restoreCustomer}
+            purgeCustomers={purgeCustomers}
+          />
+        );
+      case 'trials':
+        return (
+          <Trials
+            trials={trials}
+            allCustomers={allCustomers}
+            servers={servers}
+            plans={plans}
+            startTrial={startTrial}
+            convertTrial={convertTrial}
+            customers={customers}
+            deleteCustomer={deleteCustomer}
+            openCustomer={openCustomer}
+          />
+        );
+      case 'referrals':
+        return (
+          <Referrals
+            customers={[...customers, ...trials]}
+            referralReward={referralReward}
+            updateReferralReward={updateReferralReward}
+            openCustomer={openCustomer}
+          />
+        );
+      case 'winback':
+        return (
+          <WinBack
+            customers={customers}
+            servers={servers}
+            renewals={renewals}
+            lifecycles={lifecycles}
+            openCustomer={openCustomer}
+          />
+        );
+      case 'debtors':
+        return (
+          <Debtors
+            customers={customers}
+            servers={servers}
+            renewals={renewals}
+            balances={balances}
+            addPayment={addPayment}
+            openCustomer={openCustomer}
+          />
+        );
+      case 'duplicates':
+        return (
+          <Duplicates
+            customers={customers}
+            servers={servers}
+            plans={plans}
+            renewals={renewals}
+            mergeCustomers={mergeCustomers}
+            openCustomer={openCustomer}
           />
         );
       default:
-        return <Dashboard customers={customers} servers={servers} plans={plans} whatsappMessage={whatsappMessage} updateCustomer={updateCustomer} renewals={renewals} addRenewal={addRenewal} manualAdditions={manualAdditions} />;
+        return <Dashboard customers={customers} servers={servers} plans={plans} whatsappMessage={whatsappMessage} renewals={renewals} renewCustomer={renewCustomer} markNotified={markNotified} manualAdditions={manualAdditions} openCustomer={openCustomer} openWinBack={() => setActiveTab('winback')} openDebtors={() => setActiveTab('debtors')} lifecycles={lifecycles} balances={balances} />;
     }
   };
 
-  const menuItems = [
+  const menuItems: { id: Tab; label: string; icon: typeof Layout }[] = [
     { id: 'dashboard', label: 'Início', icon: LayoutDashboard },
     { id: 'customers', label: 'Clientes', icon: Users },
+    { id: 'trials', label: 'Testes', icon: Hourglass },
     { id: 'servers', label: 'Servidores', icon: ServerIcon },
     { id: 'plans', label: 'Planos/Setup', icon: Receipt },
     { id: 'storage', label: 'Dados', icon: Database },
   ];
 
+  // Screens reached from inside other tabs
+  const screenTitles: Partial<Record<Tab, string>> = {
+    history: 'Histórico',
+    trash: 'Lixeira',
+    duplicates: 'Duplicados',
+    referrals: 'Indicações',
+    winback: 'Recuperar',
+    debtors: 'Devedores',
+    customer: 'Cliente',
+  };
+
   return (
     <div className="min-h-screen bg-[#0f0f0f] text-white">
       {/* Sidebar Desktop */}
@@ -133,10 +350,51 @@ function App() {
       <div className="md:ml-64 min-h-screen">
         <header className="fixed top-0 right-0 left-0 md:left-64 h-16 bg-[#0f0f0f]/80 backdrop-blur-xl border-b border-white/5 z-10 p-4 flex items-center justify-between">
           <h1 className="text-lg font-bold tracking-tight uppercase">
-            {menuItems.find(i => i.id === activeTab)?.label}
+            {menuItems.find(i => i.id === activeTab)?.label || screenTitles[activeTab]}
           </h1>
-          <div className="bg-[#1a1a1a] px-3 py-1 rounded-full border border-white/10 text-[10px] uppercase font-bold text-[#c8a646]">
-            Versão Local 1.5
+          <div className="flex items-center space-x-2">
+            <button
+              onClick={() => setIsPaletteOpen(true)}
+              title="Buscar (Ctrl+K)"
+              className="p-2 rounded-full bg-[#1a1a1a] border border-white/10 text-gray-300 hover:text-white transition-colors"
+            >
+              <Search size={16} />
+            </button>
+            <button
+              onClick={undo}
+              disabled={!canUndo}
+              title={canUndo ? `Desfazer: ${actionLabel(lastAction || '')} (Ctrl+Z)` : 'Nada para desfazer'}
+              className="p-2 rounded-full bg-[#1a1a1a] border border-white/10 text-gray-300 hover:text-white disabled:opacity-30 disabled:hover:text-gray-300 transition-colors"
+            >
+              <Undo2 size={16} />
+            </button>
+            <button
+              onClick={redo}
+              disabled={!canRedo}
+              title="Refazer (Ctrl+Shift+Z)"
+              className="p-2 rounded-full bg-[#1a1a1a] border border-white/10 text-gray-300 hover:text-white disabled:opacity-30 disabled:hover:text-gray-300 transition-colors"
+            >
+              <Redo2 size={16} />
+            </button>
+            <button
+              onClick={() => setActiveTab('history')}
+              title="Histórico de alterações"
+              className={`p-2 rounded-full border border-white/10 transition-colors ${activeTab === 'history' ? 'bg-[#c8a646] text-[#0f0f0f]' : 'bg-[#1a1a1a] text-gray-300 hover:text-white'}`}
+            >
+              <HistoryIcon size={16} />
+            </button>
+            {lock.config && (
+              <button
+                onClick={lock.lockNow}
+                title="Bloquear"
+                className="p-2 rounded-full bg-[#1a1a1a] border border-white/10 text-gray-300 hover:text-white transition-colors"
+              >
+                <Lock size={16} />
+              </button>
+            )}
+            <div className="hidden sm:block bg-[#1a1a1a] px-3 py-1 rounded-full border border-white/10 text-[10px] uppercase font-bold text-[#c8a646]">
+              Versão Local 1.5
+            </div>
           </div>
         </header>
 
@@ -155,6 +413,21 @@ function App() {
         </main>
       </div>
 
+      {isPaletteOpen && (
+        <CommandPalette
+          data={{
+            customers: [...customers, ...trials],
+            servers,
+            plans,
+            renewals,
+            tabs: [...menuItems, ...Object.entries(screenTitles).map(([id, label]) => ({ id: id as Tab, label: label! }))]
+              .filter(tab => tab.id !== 'customer')
+          }}
+          onSelect={handlePaletteSelect}
+          onClose={() => setIsPaletteOpen(false)}
+        />
+      )}
+
       {/* Bottom Nav Mobile */}
       <div className="md:hidden fixed bottom-0 left-0 right-0 bg-[#1a1a1a]/80 backdrop-blur-2xl border-t border-white/10 flex justify-around p-4 z-20">
         {menuItems.map((item) => (
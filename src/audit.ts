@@ -0,0 +1,147 @@
+import { AuditChange, AuditEntity, AuditEntry, Customer, EntityRecord, ManualAddition, Plan, Renewal, Server } from './types';
+
+export const ACTION_LABELS: Record<string, string> = {
+  addCustomer: 'Cliente adicionado',
+  updateCustomer: 'Cliente editado',
+  deleteCustomer: 'Cliente movido para a lixeira',
+  restoreCustomer: 'Cliente restaurado da lixeira',
+  purgeCustomers: 'Cliente excluído definitivamente',
+  purgeTrash: 'Lixeira esvaziada automaticamente',
+  bulkUpdateCustomers: 'Clientes alterados em massa',
+  importCustomers: 'Clientes importados da planilha',
+  mergeCustomers: 'Cadastros duplicados mesclados',
+  startTrial: 'Teste iniciado',
+  convertTrial: 'Teste convertido em cliente',
+  expireTrials: 'Testes expirados automaticamente',
+  updateLifecycle: 'Situação dos clientes atualizada',
+  bulkRenew: 'Clientes renovados em massa',
+  bulkMoveServer: 'Clientes movidos de servidor',
+  bulkChangePlan: 'Plano alterado em massa',
+  bulkExtendDueDate: 'Vencimentos estendidos em massa',
+  bulkAddTags: 'Etiquetas adicionadas em massa',
+  bulkRemoveTags: 'Etiquetas removidas em massa',
+  bulkDelete: 'Clientes movidos para a lixeira em massa',
+  addServer: 'Servidor adicionado',
+  updateServer: 'Servidor editado',
+  deleteServer: 'Servidor excluído',
+  archiveServer: 'Servidor arquivado',
+  unarchiveServer: 'Servidor reativado',
+  addPlan: 'Plano adicionado',
+  updatePlan: 'Plano editado',
+  deletePlan: 'Plano excluído',
+  archivePlan: 'Plano arquivado',
+  unarchivePlan: 'Plano reativado',
+  addRenewal: 'Renovação registrada',
+  renewCustomer: 'Cliente renovado',
+  addPayment: 'Pagamento recebido',
+  notifyCustomer: 'Aviso enviado pelo WhatsApp',
+  addManualAddition: 'Saldo manual lançado',
+  updateManualAddition: 'Saldo manual editado',
+  deleteManualAddition: 'Saldo manual excluído',
+  setWhatsappMessage: 'Mensagem do WhatsApp alterada',
+  importData: 'Backup importado',
+  undo: 'Desfeito',
+  redo: 'Refeito'
+};
+
+export const ENTITY_LABELS: Record<AuditEntity, string> = {
+  customers: 'Cliente',
+  servers: 'Servidor',
+  plans: 'Plano',
+  renewals: 'Renovação',
+  manualAdditions: 'Saldo manual',
+  settings: 'Configuração'
+};
+
+export const FIELD_LABELS: Record<string, string> = {
+  name: 'Nome',
+  phone: 'Telefone',
+  serverId: 'Servidor',
+  planId: 'Plano',
+  customerId: 'Cliente',
+  amountPaid: 'Valor',
+  amount: 'Valor',
+  cost: 'Custo',
+  dueDate: 'Vencimento',
+  lastNotifiedDate: 'Última notificação',
+  tags: 'Etiquetas',
+  username: 'Usuário',
+  password: 'Senha',
+  screens: 'Telas',
+  device: 'Dispositivo/App',
+  macAddress: 'MAC',
+  notes: 'Observações',
+  trialStartedAt: 'Início do teste',
+  trialEndsAt: 'Fim do teste',
+  trialExpiredAt: 'Teste expirado em',
+  convertedAt: 'Convertido em',
+  referredBy: 'Indicado por',
+  referralRewardedAt: 'Indicação recompensada em',
+  credit: 'Crédito',
+  creditUsed: 'Crédito usado',
+  paymentMethod: 'Forma de pagamento',
+  amountDue: 'Valor devido',
+  payments: 'Pagamentos',
+  lifecycle: 'Situação',
+  lifecycleSince: 'Situação desde',
+  deletedAt: 'Na lixeira desde',
+  costPerActive: 'Custo por ativo',
+  defaultPrice: 'Preço padrão',
+  months: 'Meses',
+  archivedAt: 'Arquivado em',
+  date: 'Data',
+  previousDueDate: 'Vencimento anterior',
+  newDueDate: 'Novo vencimento',
+  description: 'Descrição',
+  value: 'Valor',
+  whatsappMessage: 'Mensagem WhatsApp'
+};
+
+export const actionLabel = (action: string) => ACTION_LABELS[action] || action;
+
+export const change = (entity: AuditEntity, before: EntityRecord | null, after: EntityRecord | null): AuditChange => ({
+  entity,
+  id: (after || before)!.id,
+  before,
+  after
+});
+
+// Value of any field of a logged record, whatever its entity
+export const fieldValue = (record: EntityRecord | null, field: string): unknown =>
+  record ? (record as unknown as Record<string, unknown>)[field] : undefined;
+
+// Fields whose value differs between both sides of a change (bookkeeping fields excluded).
+export const changedFields = ({ before, after }: AuditChange) => {
+  const keys = new Set([...Object.keys(before || {}), ...Object.keys(after || {})]);
+  keys.delete('id');
+  keys.delete('updatedAt');
+  return [...keys].filter(key =>
+    JSON.stringify(fieldValue(before, key)) !== JSON.stringify(fieldValue(after, key))
+  );
+};
+
+export const recordLabel = (change: AuditChange) => {
+  const record = change.after || change.before;
+  if (!record) return change.id;
+  switch (change.entity) {
+    case 'customers':
+    case 'servers':
+    case 'plans':
+      return (record as Customer | Server | Plan).name;
+    case 'manualAdditions':
+      return (record as ManualAddition).description || 'Sem descrição';
+    case 'renewals':
+      return (record as Renewal).date?.slice(0, 10) || change.id;
+    case 'settings':
+      return FIELD_LABELS[record.id] || record.id;
+  }
+};
+
+export const entrySummary = (entry: AuditEntry) => {
+  const [first] = entry.changes;
+  if (!first) return actionLabel(entry.action);
+  const label = recordLabel(first);
+  return entry.changes.length > 1
+    ? `${actionLabel(entry.action)} (${entry.changes.length} registros)`
+    : `${actionLabel(entry.action)}: ${label}`;
+};
@@ -0,0 +1,389 @@
+import { AppData, CollectionName, Customer, Server, Plan, Renewal, RenewalPayment, PaymentMethod, ManualAddition, LifecycleState } from './types';
+import { COLLECTIONS } from './db';
+import { LIFECYCLE_STATES } from './lifecycle';
+import { PAYMENT_METHOD_LABELS } from './renewal';
+
+// 1.3 adds `updatedAt` on every record and the WhatsApp message.
+export const BACKUP_VERSION = '1.3';
+
+export const COLLECTION_LABELS: Record<CollectionName, string> = {
+  customers: 'Clientes',
+  servers: 'Servidores',
+  plans: 'Planos',
+  renewals: 'Renovações',
+  manualAdditions: 'Adições Manuais'
+};
+
+type RecordOf<K extends CollectionName> = AppData[K][number];
+
+export const buildBackup = (data: AppData) => ({
+  ...data,
+  version: BACKUP_VERSION,
+  exportDate: new Date().toISOString()
+});
+
+export interface InvalidRecord {
+  collection: CollectionName;
+  index: number;
+  id?: string;
+  errors: string[];
+}
+
+export interface ParsedBackup {
+  version: string;
+  exportDate: string | null;
+  collections: Partial<{ [K in CollectionName]: AppData[K] }>;
+  whatsappMessage?: string;
+  invalid: InvalidRecord[];
+}
+
+type Validator<T> = (raw: unknown) => { record?: T; errors: string[] };
+
+// A parsed JSON object whose fields are still to be checked
+type RawRecord = Record<string, unknown>;
+
+const asRecord = (value: unknown): RawRecord =>
+  value && typeof value === 'object' && !Array.isArray(value) ? value as RawRecord : {};
+
+// Accepts "1234.56" as well as the Brazilian "1.234,56"
+// Numbers typed the Brazilian way: the comma is the decimal separator and dots
+// group thousands, so "1.234" and "1.234,5" are 1234 and 1234.5. A dot only reads
+// as a decimal point when it can't be grouping ("29.90", "0.5").
+const THOUSANDS = /^-?\d{1,3}(\.\d{3})+$/;
+
+const toNumber = (value: unknown) => {
+  if (typeof value === 'number') return value;
+  if (typeof value !== 'string' || value.trim() === '') return NaN;
+  const text = value.trim();
+  if (text.includes(',')) return parseFloat(text.replace(/\./g, '').replace(',', '.'));
+  return parseFloat(THOUSANDS.test(text) ? text.replace(/\./g, '') : text);
+};
+
+const oneOf = <T extends string>(options: readonly T[], value: unknown) =>
+  options.includes(value as T) ? value as T : undefined;
+
+// Versions compare part by part, so "1.10" comes after "1.9"
+const compareVersions = (a: string, b: string) => {
+  const [x, y] = [a, b].map(version => version.split('.').map(part => parseInt(part, 10) || 0));
+  for (let i = 0; i < Math.max(x.length, y.length); i++) {
+    const diff = (x[i] || 0) - (y[i] || 0);
+    if (diff !== 0) return diff;
+  }
+  return 0;
+};
+
+const isDateString = (value: unknown) => typeof value === 'string' && !isNaN(new Date(value).getTime());
+
+const optionalString = (value: unknown) => typeof value === 'string' && value ? value : undefined;
+
+const optionalStrings = (value: unknown) => {
+  if (!Array.isArray(value)) return undefined;
+  const strings = value.filter((item): item is string => typeof item === 'string' && item !== '');
+  return strings.length > 0 ? strings : undefined;
+};
+
+const optionalNumber = (value: unknown) => {
+  const number = toNumber(value);
+  return isNaN(number) ? undefined : number;
+};
+
+const paymentMethod = (value: unknown) => oneOf(Object.keys(PAYMENT_METHOD_LABELS) as PaymentMethod[], value);
+
+// Later payments of a renewal; broken entries are dropped rather than failing the record
+const optionalPayments = (value: unknown) => {
+  if (!Array.isArray(value)) return undefined;
+  const payments: RenewalPayment[] = value.map(asRecord).flatMap(p =>
+    typeof p.id === 'string' && !isNaN(toNumber(p.amount)) && isDateString(p.date)
+      ? [{ id: p.id, amount: toNumber(p.amount), date: p.date as string, method: paymentMethod(p.method) }]
+      : []
+  );
+  return payments.length > 0 ? payments : undefined;
+};
+
+// Small field checker shared by the record validators below.
+const fields = (raw: RawRecord) => {
+  const errors: string[] = [];
+  const str = (key: string, label: string) => {
+    const value = raw[key];
+    if (typeof value === 'number') return String(value);
+    if (typeof value !== 'string' || !value.trim()) {
+      errors.push(`${label} ausente`);
+      return '';
+    }
+    return value;
+  };
+  const num = (key: string, label: string) => {
+    const value = toNumber(raw[key]);
+    if (isNaN(value)) errors.push(`${label} inválido`);
+    return value;
+  };
+  const date = (key: string, label: string) => {
+    const value = raw[key];
+    if (!isDateString(value)) {
+      errors.push(`${label} inválida`);
+      return '';
+    }
+    return value as string;
+  };
+  return { errors, str, num, date };
+};
+
+const validateServer: Validator<Server> = (input) => {
+  const raw = asRecord(input);
+  const f = fields(raw);
+  const record: Server = {
+    id: f.str('id', 'ID'),
+    name: f.str('name', 'Nome'),
+    costPerActive: f.num('costPerActive', 'Custo por ativo'),
+    archivedAt: optionalString(raw.archivedAt),
+    updatedAt: optionalString(raw.updatedAt)
+  };
+  return f.errors.length ? { errors: f.errors } : { record, errors: [] };
+};
+
+const validatePlan: Validator<Plan> = (input) => {
+  const raw = asRecord(input);
+  const f = fields(raw);
+  const record: Plan = {
+    id: f.str('id', 'ID'),
+    name: f.str('name', 'Nome'),
+    defaultPrice: f.num('defaultPrice', 'Preço padrão'),
+    months: f.num('months', 'Meses'),
+    archivedAt: optionalString(raw.archivedAt),
+    updatedAt: optionalString(raw.updatedAt)
+  };
+  if (!f.errors.length && record.months <= 0) f.errors.push('Meses deve ser maior que zero');
+  return f.errors.length ? { errors: f.errors } : { record, errors: [] };
+};
+
+const validateCustomer: Validator<Customer> = (input) => {
+  const raw = asRecord(input);
+  const f = fields(raw);
+  const phone = raw.phone ?? '';
+  const record: Customer = {
+    id: f.str('id', 'ID'),
+    name: f.str('name', 'Nome'),
+    phone: typeof phone === 'number' ? String(phone) : typeof phone === 'string' ? phone : '',
+    serverId: f.str('serverId', 'Servidor'),
+    planId: f.str('planId', 'Plano'),
+    amountPaid: f.num('amountPaid', 'Valor'),
+    dueDate: f.date('dueDate', 'Data de vencimento'),
+    lastNotifiedDate: optionalString(raw.lastNotifiedDate),
+    tags: optionalStrings(raw.tags),
+    username: optionalString(raw.username),
+    password: optionalString(raw.password),
+    screens: optionalNumber(raw.screens),
+    device: optionalString(raw.device),
+    macAddress: optionalString(raw.macAddress),
+    notes: optionalString(raw.notes),
+    trialStartedAt: optionalString(raw.trialStartedAt),
+    trialEndsAt: optionalString(raw.trialEndsAt),
+    trialExpiredAt: optionalString(raw.trialExpiredAt),
+    convertedAt: optionalString(raw.convertedAt),
+    referredBy: optionalString(raw.referredBy),
+    referralRewardedAt: optionalString(raw.referralRewardedAt),
+    credit: optionalNumber(raw.credit),
+    lifecycle: oneOf<LifecycleState>(LIFECYCLE_STATES, raw.lifecycle),
+    lifecycleSince: optionalString(raw.lifecycleSince),
+    deletedAt: optionalString(raw.deletedAt),
+    updatedAt: optionalString(raw.updatedAt)
+  };
+  if (typeof phone !== 'string' && typeof phone !== 'number') f.errors.push('Telefone inválido');
+  return f.errors.length ? { errors: f.errors } : { record, errors: [] };
+};
+
+const validateRenewal: Validator<Renewal> = (input) => {
+  const raw = asRecord(input);
+  const f = fields(raw);
+  const record: Renewal = {
+    id: f.str('id', 'ID'),
+    customerId: f.str('customerId', 'Cliente'),
+    serverId: f.str('serverId', 'Servidor'),
+    planId: f.str('planId', 'Plano'),
+    amount: f.num('amount', 'Valor'),
+    cost: f.num('cost', 'Custo'),
+    date: f.date('date', 'Data'),
+    previousDueDate: optionalString(raw.previousDueDate),
+    newDueDate: optionalString(raw.newDueDate),
+    creditUsed: optionalNumber(raw.creditUsed),
+    paymentMethod: paymentMethod(raw.paymentMethod),
+    amountDue: optionalNumber(raw.amountDue),
+    payments: optionalPayments(raw.payments),
+    updatedAt: optionalString(raw.updatedAt)
+  };
+  return f.errors.length ? { errors: f.errors } : { record, errors: [] };
+};
+
+const validateManualAddition: Validator<ManualAddition> = (input) => {
+  const raw = asRecord(input);
+  const f = fields(raw);
+  const record: ManualAddition = {
+    id: f.str('id', 'ID'),
+    amount: f.num('amount', 'Valor'),
+    date: f.date('date', 'Data'),
+    description: typeof raw.description === 'string' ? raw.description : '',
+    updatedAt: optionalString(raw.updatedAt)
+  };
+  return f.errors.length ? { errors: f.errors } : { record, errors: [] };
+};
+
+const validators: { [K in CollectionName]: Validator<RecordOf<K>> } = {
+  customers: validateCustomer,
+  servers: validateServer,
+  plans: validatePlan,
+  renewals: validateRenewal,
+  manualAdditions: validateManualAddition
+};
+
+// Brings older backup layouts up to the current one before validation.
+const upgradeBackup = (json: RawRecord) => {
+  const version = typeof json.version === 'string' ? json.version : '1.0';
+  const upgraded: RawRecord = { ...json };
+
+  if (compareVersions(version, '1.2') < 0 && Array.isArray(json.renewals)) {
+    // Before 1.2 renewals had no plan or cost: borrow the plan from the customer.
+    const customers = Array.isArray(json.customers) ? (json.customers as unknown[]).map(asRecord) : [];
+    upgraded.renewals = (json.renewals as unknown[]).map(asRecord).map(r => ({
+      ...r,
+      planId: r.planId ?? customers.find(c => c.id === r.customerId)?.planId,
+      cost: r.cost ?? 0
+    }));
+  }
+
+  return { version, upgraded };
+};
+
+export class BackupFormatError extends Error {}
+
+export const parseBackup = (input: unknown): ParsedBackup => {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    throw new BackupFormatError('O arquivo não é um backup válido.');
+  }
+  const json = input as RawRecord;
+  if (typeof json.version === 'string' && compareVersions(json.version, BACKUP_VERSION) > 0) {
+    throw new BackupFormatError(`Backup da versão ${json.version} é mais novo que este aplicativo (${BACKUP_VERSION}).`);
+  }
+
+  const { version, upgraded } = upgradeBackup(json);
+  if (!COLLECTIONS.some(name => Array.isArray(upgraded[name]))) {
+    throw new BackupFormatError('Nenhum dado encontrado no arquivo.');
+  }
+
+  const collections: ParsedBackup['collections'] = {};
+  const invalid: InvalidRecord[] = [];
+
+  COLLECTIONS.forEach(<K extends CollectionName>(name: K) => {
+    if (!Array.isArray(upgraded[name])) return;
+    const valid: RecordOf<K>[] = [];
+    const seen = new Set<string>();
+    (upgraded[name] as unknown[]).forEach((raw, index) => {
+      const { record, errors } = validators[name](raw);
+      if (record && seen.has(record.id)) {
+        invalid.push({ collection: name, index, id: record.id, errors: ['ID duplicado no arquivo'] });
+      } else if (record) {
+        seen.add(record.id);
+        valid.push(record);
+      } else {
+        const { id } = asRecord(raw);
+        invalid.push({ collection: name, index, id: typeof id === 'string' ? id : undefined, errors });
+      }
+    });
+    collections[name] = valid as AppData[K];
+  });
+
+  return {
+    version,
+    exportDate: isDateString(upgraded.exportDate) ? upgraded.exportDate as string : null,
+    collections,
+    whatsappMessage: typeof upgraded.whatsappMessage === 'string' ? upgraded.whatsappMessage : undefined,
+    invalid
+  };
+};
+
+export interface RecordPair<T> {
+  local: T;
+  incoming: T;
+}
+
+export interface CollectionDiff<T> {
+  added: T[];
+  changed: RecordPair<T>[];
+  conflicts: RecordPair<T>[];
+  unchanged: number;
+}
+
+export type BackupDiff = { [K in CollectionName]: CollectionDiff<RecordOf<K>> };
+
+// Bookkeeping and derived fields (the lifecycle is worked out again on load) don't make records differ
+const stripMeta = ({ updatedAt, lifecycle, lifecycleSince, ...rest }: { updatedAt?: string; lifecycle?: unknown; lifecycleSince?: unknown }) => rest;
+
+const sameRecord = (a: object, b: object) => {
+  const normalize = (record: object) =>
+    JSON.stringify(Object.entries(stripMeta(record)).filter(([, v]) => v !== undefined).sort(([x], [y]) => x.localeCompare(y)));
+  return normalize(a) === normalize(b);
+};
+
+// A record is "changed" when only the backup differs from what we have. It is a
+// conflict when the local copy was also edited after the backup was exported.
+export const diffBackup = (current: AppData, parsed: ParsedBackup): BackupDiff => {
+  const diff = {} as BackupDiff;
+  COLLECTIONS.forEach(<K extends CollectionName>(name: K) => {
+    const result: CollectionDiff<RecordOf<K>> = { added: [], changed: [], conflicts: [], unchanged: 0 };
+    const localById = new Map<string, RecordOf<K>>(current[name].map(item => [item.id, item] as [string, RecordOf<K>]));
+    ((parsed.collections[name] || []) as RecordOf<K>[]).forEach(incoming => {
+      const local = localById.get(incoming.id);
+      if (!local) {
+        result.added.push(incoming);
+      } else if (sameRecord(local, incoming)) {
+        result.unchanged += 1;
+      } else if (local.updatedAt && (!parsed.exportDate || local.updatedAt > parsed.exportDate)) {
+        result.conflicts.push({ local, incoming });
+      } else {
+        result.changed.push({ local, incoming });
+      }
+    });
+    (diff as Record<K, CollectionDiff<RecordOf<K>>>)[name] = result;
+  });
+  return diff;
+};
+
+export type ImportMode = 'replace' | 'merge';
+export type ConflictChoice = 'local' | 'incoming';
+
+export const conflictKey = (collection: CollectionName, id: string) => `${collection}:${id}`;
+
+// Builds the dataset that results from importing `parsed` into `current`.
+// Collections missing from the backup are always left untouched.
+export const applyBackup = (
+  current: AppData,
+  parsed: ParsedBackup,
+  diff: BackupDiff,
+  mode: ImportMode,
+  choices: Record<string, ConflictChoice>
+): AppData => {
+  const next: AppData = { ...current, whatsappMessage: parsed.whatsappMessage ?? current.whatsappMessage };
+
+  COLLECTIONS.forEach(<K extends CollectionName>(name: K) => {
+    const incoming = parsed.collections[name] as RecordOf<K>[] | undefined;
+    if (!incoming) return;
+
+    if (mode === 'replace') {
+      Object.assign(next, { [name]: incoming });
+      return;
+    }
+
+    const replacements = new Map<string, RecordOf<K>>();
+    const { added, changed, conflicts } = diff[name] as CollectionDiff<RecordOf<K>>;
+    changed.forEach(pair => replacements.set(pair.incoming.id, pair.incoming));
+    conflicts.forEach(pair => {
+      if (choices[conflictKey(name, pair.incoming.id)] === 'incoming') {
+        replacements.set(pair.incoming.id, pair.incoming);
+      }
+    });
+    Object.assign(next, {
+      [name]: [...(current[name] as RecordOf<K>[]).map(item => replacements.get(item.id) ?? item), ...added]
+    });
+  });
+
+  return next;
+};
@@ -0,0 +1,103 @@
+import { Customer, Plan, Server } from './types';
+import { addDays, format } from 'date-fns';
+import { parseLocalDate, isActiveOn, startOfToday } from './dates';
+import { normalizeTag } from './segments';
+
+/**
+ * One change applied to every selected customer. For renewals and plan
+ * changes, a missing `serverId`/`amount` keeps each customer's own server or
+ * uses the plan's default price.
+ */
+export type BulkAction =
+  | { kind: 'renew'; planId: string; serverId?: string; amount?: number }
+  | { kind: 'moveServer'; serverId: string }
+  | { kind: 'changePlan'; planId: string; amount?: number }
+  | { kind: 'extendDueDate'; days: number }
+  | { kind: 'addTags'; tags: string[] }
+  | { kind: 'removeTags'; tags: string[] }
+  | { kind: 'delete' };
+
+export type BulkKind = BulkAction['kind'];
+
+export const BULK_LABELS: Record<BulkKind, string> = {
+  renew: 'Renovar',
+  moveServer: 'Mover de servidor',
+  changePlan: 'Trocar plano/valor',
+  extendDueDate: 'Estender vencimento',
+  addTags: 'Adicionar etiquetas',
+  removeTags: 'Remover etiquetas',
+  delete: 'Excluir'
+};
+
+// Audit action recorded for each bulk kind
+export const BULK_AUDIT_ACTIONS: Record<BulkKind, string> = {
+  renew: 'bulkRenew',
+  moveServer: 'bulkMoveServer',
+  changePlan: 'bulkChangePlan',
+  extendDueDate: 'bulkExtendDueDate',
+  addTags: 'bulkAddTags',
+  removeTags: 'bulkRemoveTags',
+  delete: 'bulkDelete'
+};
+
+const withTags = (tags: string[]) => tags.length > 0 ? tags : undefined;
+
+// Extra days count from the current due date, or from today once it has lapsed.
+const extendedDueDate = (customer: Customer, days: number, today: Date) => {
+  const base = isActiveOn(customer.dueDate, today) ? parseLocalDate(customer.dueDate) : today;
+  return format(addDays(base, days), 'yyyy-MM-dd');
+};
+
+/**
+ * The customer fields a bulk action changes, or null when it leaves the
+ * customer as it is. Renewals and deletion are handled by the store since they
+ * create renewal records or move customers to the trash.
+ */
+export const bulkPatch = (customer: Customer, action: BulkAction, plans: Plan[], today = startOfToday()): Partial<Customer> | null => {
+  switch (action.kind) {
+    case 'moveServer':
+      return customer.serverId === action.serverId ? null : { serverId: action.serverId };
+    case 'changePlan': {
+      const plan = plans.find(p => p.id === action.planId);
+      if (!plan) return null;
+      return { planId: plan.id, amountPaid: action.amount ?? plan.defaultPrice };
+    }
+    case 'extendDueDate':
+      return action.days > 0 ? { dueDate: extendedDueDate(customer, action.days, today) } : null;
+    case 'addTags': {
+      const current = customer.tags || [];
+      const added = action.tags.map(normalizeTag).filter(tag => tag && !current.includes(tag));
+      return added.length > 0 ? { tags: [...current, ...added] } : null;
+    }
+    case 'removeTags': {
+      const current = customer.tags || [];
+      const remaining = current.filter(tag => !action.tags.includes(tag));
+      return remaining.length !== current.length ? { tags: withTags(remaining) } : null;
+    }
+    default:
+      return null;
+  }
+};
+
+// One-line description for the confirmation summary.
+export const describeBulkAction = (action: BulkAction, servers: Server[], plans: Plan[], formatCurrency: (value: number) => string) => {
+  const serverName = (id?: string) => servers.find(s => s.id === id)?.name || 'servidor removido';
+  const plan = 'planId' in action ? plans.find(p => p.id === action.planId) : undefined;
+  switch (action.kind) {
+    case 'renew':
+      return `Renovar no plano ${plan?.name || '?'}${action.serverId ? ` em ${serverName(action.serverId)}` : ''}, ` +
+        `${action.amount !== undefined ? formatCurrency(action.amount) : `valor padrão (${formatCurrency(plan?.defaultPrice || 0)})`} cada, registrando uma renovação por cliente`;
+    case 'moveServer':
+      return `Mover para o servidor ${serverName(action.serverId)}`;
+    case 'changePlan':
+      return `Trocar para o plano ${plan?.name || '?'} por ${formatCurrency(action.amount ?? plan?.defaultPrice ?? 0)}`;
+    case 'extendDueDate':
+      return `Estender o vencimento em ${action.days} ${action.days === 1 ? 'dia' : 'dias'}`;
+    case 'addTags':
+      return `Adicionar as etiquetas: ${action.tags.join(', ')}`;
+    case 'removeTags':
+      return `Remover as etiquetas: ${action.tags.join(', ')}`;
+    case 'delete':
+      return 'Mover para a lixeira';
+  }
+};
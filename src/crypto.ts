@@ -0,0 +1,119 @@
+// WebCrypto helpers shared by encrypted backups, the app lock and encryption at rest.
+
+export const PBKDF2_ITERATIONS = 310000;
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+
+export const ENCRYPTED_BACKUP_FORMAT = 'arf-backup-encrypted';
+
+/**
+ * Envelope written by `encryptBackup`:
+ *
+ * {
+ *   "format": "arf-backup-encrypted",
+ *   "version": 1,
+ *   "kdf": { "name": "PBKDF2", "hash": "SHA-256", "iterations": 310000, "salt": "<base64>" },
+ *   "cipher": { "name": "AES-GCM", "iv": "<base64>" },
+ *   "data": "<base64>"
+ * }
+ *
+ * `data` is the AES-GCM ciphertext (tag appended) of the UTF-8 plain backup JSON,
+ * keyed with 256 bits derived from the passphrase and `salt`.
+ */
+export interface EncryptedEnvelope {
+  format: typeof ENCRYPTED_BACKUP_FORMAT;
+  version: 1;
+  kdf: { name: 'PBKDF2'; hash: 'SHA-256'; iterations: number; salt: string };
+  cipher: { name: 'AES-GCM'; iv: string };
+  data: string;
+}
+
+export class WrongPassphraseError extends Error {
+  constructor() {
+    super('Senha incorreta ou arquivo corrompido.');
+  }
+}
+
+export const toBase64 = (bytes: Uint8Array) => {
+  let binary = '';
+  // Chunked so large backups don't overflow the argument limit of fromCharCode
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+export const fromBase64 = (value: string) => Uint8Array.from(atob(value), char => char.charCodeAt(0));
+
+export const randomBytes = (length: number) => crypto.getRandomValues(new Uint8Array(length));
+
+export const deriveKey = async (passphrase: string, salt: Uint8Array, iterations = PBKDF2_ITERATIONS) => {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+export const isEncryptedBackup = (json: unknown): json is EncryptedEnvelope =>
+  typeof json === 'object' && json !== null && 'format' in json && json.format === ENCRYPTED_BACKUP_FORMAT;
+
+export const encryptBackup = async (backup: object, passphrase: string): Promise<EncryptedEnvelope> => {
+  const salt = randomBytes(SALT_BYTES);
+  const iv = randomBytes(IV_BYTES);
+  const key = await deriveKey(passphrase, salt);
+  const plain = new TextEncoder().encode(JSON.stringify(backup));
+  const cipher = new Uint8Array(await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, plain));
+  return {
+    format: ENCRYPTED_BACKUP_FORMAT,
+    version: 1,
+    kdf: { name: 'PBKDF2', hash: 'SHA-256', iterations: PBKDF2_ITERATIONS, salt: toBase64(salt) },
+    cipher: { name: 'AES-GCM', iv: toBase64(iv) },
+    data: toBase64(cipher)
+  };
+};
+
+export const decryptBackup = async (envelope: EncryptedEnvelope, passphrase: string) => {
+  if (envelope.version !== 1 || envelope.kdf?.name !== 'PBKDF2' || envelope.cipher?.name !== 'AES-GCM') {
+    throw new Error('Formato de criptografia não suportado.');
+  }
+  const key = await deriveKey(passphrase, fromBase64(envelope.kdf.salt), envelope.kdf.iterations);
+  let plain: ArrayBuffer;
+  try {
+    plain = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(envelope.cipher.iv) }, key, fromBase64(envelope.data));
+  } catch {
+    // AES-GCM authentication fails the same way for a wrong key and for tampered data
+    throw new WrongPassphraseError();
+  }
+  return JSON.parse(new TextDecoder().decode(plain));
+};
+
+export interface EncryptedPayload {
+  iv: string;
+  data: string;
+}
+
+// Per-record encryption used for data at rest (see db.ts).
+export const encryptJson = async (key: CryptoKey, value: unknown): Promise<EncryptedPayload> => {
+  const iv = randomBytes(IV_BYTES);
+  const plain = new TextEncoder().encode(JSON.stringify(value));
+  const cipher = new Uint8Array(await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, plain));
+  return { iv: toBase64(iv), data: toBase64(cipher) };
+};
+
+export const decryptJson = async <T,>(key: CryptoKey, payload: EncryptedPayload): Promise<T> => {
+  const plain = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(payload.iv) }, key, fromBase64(payload.data));
+  return JSON.parse(new TextDecoder().decode(plain));
+};
+
+// Salted PBKDF2 hash of a PIN/password, for verification only (never used as a key).
+export const hashSecret = async (secret: string, salt: Uint8Array, iterations = PBKDF2_ITERATIONS) => {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(secret), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits({ name: 'PBKDF2', hash: 'SHA-256', salt, iterations }, material, 256);
+  return toBase64(new Uint8Array(bits));
+};
+
+export const newSalt = () => randomBytes(SALT_BYTES);
@@ -0,0 +1,23 @@
+import { differenceInDays, isAfter } from 'date-fns';
+
+// Parses YYYY-MM-DD as local midnight (new Date() would read it as UTC)
+export const parseLocalDate = (dateStr: string | undefined | null) => {
+  if (!dateStr || typeof dateStr !== 'string') return new Date(NaN);
+  const parts = dateStr.split('T')[0].split('-');
+  if (parts.length !== 3) return new Date(dateStr);
+  const [y, m, d] = parts.map(Number);
+  if (isNaN(y) || isNaN(m) || isNaN(d)) return new Date(NaN);
+  return new Date(y, m - 1, d);
+};
+
+export const startOfToday = () => {
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+  return today;
+};
+
+// A customer stays active through the whole due date
+export const isActiveOn = (dueDate: string, today: Date) => {
+  const due = parseLocalDate(dueDate);
+  return isAfter(due, today) || differenceInDays(due, today) === 0;
+};
@@ -0,0 +1,355 @@
+import { AppData, AuditEntry, CollectionName, Customer, ManualAddition, Plan, Renewal, Server, SettingValue } from './types';
+import { EncryptedPayload, encryptJson, decryptJson } from './crypto';
+import { normalizePhone } from './phone';
+
+export const DB_NAME = 'arf_canais';
+
+// Bump when object stores change and add the matching entry to `schemaMigrations`.
+export const SCHEMA_VERSION = 4;
+
+export const COLLECTIONS: CollectionName[] = ['customers', 'servers', 'plans', 'renewals', 'manualAdditions'];
+
+export const DEFAULT_WHATSAPP_MESSAGE =
+  'Olá {nome}! Seu acesso está vencendo {dias} ({vencimento}). O valor para renovação é {valor}. Como deseja prosseguir?';
+
+const DEFAULT_PLANS: Plan[] = [
+  { id: '1', name: 'Mensal', months: 1, defaultPrice: 30 },
+  { id: '2', name: 'Trimestral', months: 3, defaultPrice: 80 },
+  { id: 'gratuito', name: 'Gratuito', months: 1, defaultPrice: 0 }
+];
+
+// Keys used by the localStorage persistence that predates IndexedDB.
+const LEGACY_KEYS: Record<CollectionName | 'whatsappMessage', string> = {
+  customers: 'arf_customers',
+  servers: 'arf_servers',
+  plans: 'arf_plans',
+  renewals: 'arf_renewals',
+  manualAdditions: 'arf_manual_additions',
+  whatsappMessage: 'arf_message_v2'
+};
+
+// Object store changes, keyed by the schema version that introduces them.
+// Every step runs inside the `versionchange` transaction, oldest first.
+const schemaMigrations: Record<number, (db: IDBDatabase) => void> = {
+  1: (db) => {
+    COLLECTIONS.forEach(name => db.createObjectStore(name, { keyPath: 'id' }));
+    db.createObjectStore('settings', { keyPath: 'id' });
+  },
+  2: (db) => {
+    db.createObjectStore('auditLog', { keyPath: 'id' });
+  },
+  3: (db) => {
+    // Metadata and payload are split so listing restore points stays cheap.
+    db.createObjectStore('restorePoints', { keyPath: 'id' });
+    db.createObjectStore('restorePointData', { keyPath: 'id' });
+  },
+  4: (db) => {
+    // Local changes waiting to be pushed to the sync server, one per record
+    db.createObjectStore('syncOutbox', { keyPath: 'key' });
+  }
+};
+
+interface DataMigration {
+  version: number;
+  description: string;
+  migrate: (data: AppData) => AppData;
+}
+
+const readLegacy = <T,>(key: string): T | null => {
+  const saved = localStorage.getItem(key);
+  if (!saved) return null;
+  try {
+    return JSON.parse(saved) as T;
+  } catch (err) {
+    console.error('Erro ao ler dados antigos:', key, err);
+    return null;
+  }
+};
+
+// Record-level upgrades applied once, in order, after the stores are loaded.
+// The reached version is kept in the `dataVersion` setting.
+const dataMigrations: DataMigration[] = [
+  {
+    version: 1,
+    description: 'Importa os dados salvos no localStorage',
+    migrate: (data) => {
+      const hasStoredData = COLLECTIONS.some(name => data[name].length > 0);
+      if (hasStoredData) return data;
+
+      const legacy = { ...data };
+      COLLECTIONS.forEach(<K extends CollectionName>(name: K) => {
+        const saved = readLegacy<AppData[K]>(LEGACY_KEYS[name]);
+        if (Array.isArray(saved)) legacy[name] = saved;
+      });
+      const message = localStorage.getItem(LEGACY_KEYS.whatsappMessage);
+      if (message) legacy.whatsappMessage = message;
+      return legacy;
+    }
+  },
+  {
+    version: 2,
+    description: 'Normaliza os telefones dos clientes para +55 DDD número',
+    migrate: (data) => {
+      // Rewritten numbers count as edits, so sync and backups pick them up
+      const updatedAt = new Date().toISOString();
+      return {
+        ...data,
+        customers: data.customers.map(c => {
+          if (typeof c.phone !== 'string') return c;
+          const phone = normalizePhone(c.phone);
+          return phone === c.phone ? c : { ...c, phone, updatedAt };
+        })
+      };
+    }
+  }
+];
+
+export const DATA_VERSION = dataMigrations[dataMigrations.length - 1].version;
+
+export const promisify = <T,>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const transactionDone = (tx: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const openDb = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, SCHEMA_VERSION);
+      request.onupgradeneeded = (event) => {
+        for (let v = event.oldVersion + 1; v <= SCHEMA_VERSION; v++) {
+          schemaMigrations[v]?.(request.result);
+        }
+      };
+      request.onsuccess = () => {
+        const db = request.result;
+        // Another tab upgraded the schema: release this connection so it can proceed.
+        db.onversionchange = () => db.close();
+        resolve(db);
+      };
+      request.onerror = () => reject(request.error);
+      request.onblocked = () => console.warn('Atualização do banco bloqueada por outra aba aberta.');
+    });
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+// Stores whose records are encrypted at rest while a data key is set (see lock.ts).
+// Each record is kept as { <key>, enc } so it can still be addressed by its key.
+export const ENCRYPTED_STORES = [...COLLECTIONS, 'auditLog', 'restorePointData', 'syncOutbox'];
+
+const keyPathOf = (name: string) => name === 'syncOutbox' ? 'key' : 'id';
+
+let dataKey: CryptoKey | null = null;
+
+export const setDataKey = (key: CryptoKey | null) => { dataKey = key; };
+
+export class DataLockedError extends Error {
+  constructor() {
+    super('Os dados estão criptografados. Desbloqueie o app para continuar.');
+  }
+}
+
+const isSealed = (record: unknown): record is { enc: EncryptedPayload } => {
+  const enc = (record as { enc?: Partial<EncryptedPayload> } | null | undefined)?.enc;
+  return typeof enc?.iv === 'string' && typeof enc?.data === 'string';
+};
+
+// Encrypts records before they are written. Done ahead of opening the
+// transaction, since IndexedDB transactions don't survive an await.
+export const sealRecords = async <T,>(name: string, records: T[], key = dataKey): Promise<unknown[]> => {
+  if (!key || !ENCRYPTED_STORES.includes(name)) return records;
+  const keyPath = keyPathOf(name);
+  return Promise.all(records.map(async record => ({ [keyPath]: (record as Record<string, unknown>)[keyPath], enc: await encryptJson(key, record) })));
+};
+
+// Plain records (written before encryption was turned on) pass through untouched.
+export const openRecords = <T,>(records: unknown[]): Promise<T[]> =>
+  Promise.all(records.map(record => {
+    if (!isSealed(record)) return record as T;
+    if (!dataKey) throw new DataLockedError();
+    return decryptJson<T>(dataKey, record.enc);
+  }));
+
+export const readStore = async <T,>(name: string) => {
+  const db = await openDb();
+  const records = await promisify(db.transaction(name, 'readonly').objectStore(name).getAll());
+  return openRecords<T>(records);
+};
+
+export const readRecord = async <T,>(name: string, key: string) => {
+  const db = await openDb();
+  const record = await promisify(db.transaction(name, 'readonly').objectStore(name).get(key));
+  if (record === undefined) return undefined;
+  return (await openRecords<T>([record]))[0];
+};
+
+export const getSetting = async <T,>(key: string): Promise<T | undefined> => {
+  const db = await openDb();
+  const record = await promisify(db.transaction('settings', 'readonly').objectStore('settings').get(key)) as SettingValue | undefined;
+  return record?.value as T | undefined;
+};
+
+export const putSetting = async (key: string, value: unknown) => {
+  const db = await openDb();
+  const tx = db.transaction('settings', 'readwrite');
+  tx.objectStore('settings').put({ id: key, value } satisfies SettingValue);
+  await transactionDone(tx);
+};
+
+// Replaces the full contents of every collection in a single transaction.
+export const saveAll = async (data: AppData) => {
+  const sealed = await Promise.all(COLLECTIONS.map(name => sealRecords(name, data[name] as unknown[])));
+  const db = await openDb();
+  const tx = db.transaction([...COLLECTIONS, 'settings'], 'readwrite');
+  COLLECTIONS.forEach((name, index) => {
+    const store = tx.objectStore(name);
+    store.clear();
+    sealed[index].forEach(item => store.put(item));
+  });
+  tx.objectStore('settings').put({ id: 'whatsappMessage', value: data.whatsappMessage });
+  await transactionDone(tx);
+};
+
+// Writes only the records that changed between two versions of a collection.
+// Unchanged records keep their object identity in React state, so a reference check is enough.
+export const saveCollectionDiff = async <T extends { id: string }>(name: CollectionName, prev: T[], next: T[]) => {
+  const prevById = new Map(prev.map(item => [item.id, item]));
+  const nextIds = new Set(next.map(item => item.id));
+  const puts = next.filter(item => prevById.get(item.id) !== item);
+  const deletes = prev.filter(item => !nextIds.has(item.id)).map(item => item.id);
+  if (puts.length === 0 && deletes.length === 0) return;
+
+  const sealed = await sealRecords(name, puts);
+  const db = await openDb();
+  const tx = db.transaction(name, 'readwrite');
+  const store = tx.objectStore(name);
+  sealed.forEach(item => store.put(item));
+  deletes.forEach(id => store.delete(id));
+  await transactionDone(tx);
+};
+
+export const appendAuditEntry = async (entry: AuditEntry) => {
+  const [sealed] = await sealRecords('auditLog', [entry]);
+  const db = await openDb();
+  const tx = db.transaction('auditLog', 'readwrite');
+  tx.objectStore('auditLog').put(sealed);
+  await transactionDone(tx);
+};
+
+// Newest first
+export const getAuditLog = async () => {
+  const entries = await readStore<AuditEntry>('auditLog');
+  return entries.sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+};
+
+const ensureDefaultPlans = (plans: Plan[]) => {
+  if (plans.length === 0) return DEFAULT_PLANS;
+  // Ensure 'Gratuito' is always there
+  if (!plans.find(p => p.id === 'gratuito')) {
+    return [...plans, DEFAULT_PLANS[2]];
+  }
+  return plans;
+};
+
+// Current contents of the stores, without migrations or defaults.
+export const readCollections = async (): Promise<AppData> => {
+  const [customers, servers, plans, renewals, manualAdditions] = await Promise.all([
+    readStore<Customer>('customers'),
+    readStore<Server>('servers'),
+    readStore<Plan>('plans'),
+    readStore<Renewal>('renewals'),
+    readStore<ManualAddition>('manualAdditions')
+  ]);
+  const message = await getSetting<string>('whatsappMessage');
+  return { customers, servers, plans, renewals, manualAdditions, whatsappMessage: message || DEFAULT_WHATSAPP_MESSAGE };
+};
+
+let loadPromise: Promise<AppData> | null = null;
+
+const load = async (): Promise<AppData> => {
+  const storedVersion = (await getSetting<number>('dataVersion')) || 0;
+  let data = await readCollections();
+
+  const pending = dataMigrations.filter(m => m.version > storedVersion);
+  pending.forEach(m => { data = m.migrate(data); });
+  data = { ...data, plans: ensureDefaultPlans(data.plans) };
+
+  if (pending.length > 0) {
+    await saveAll(data);
+    await putSetting('dataVersion', DATA_VERSION);
+    if (storedVersion < 1) {
+      Object.values(LEGACY_KEYS).forEach(key => localStorage.removeItem(key));
+    }
+  }
+
+  return data;
+};
+
+// Loads every collection, running pending migrations first. Shared so that
+// concurrent callers (e.g. StrictMode double effects) never migrate twice.
+export const loadAll = () => {
+  if (!loadPromise) {
+    loadPromise = load();
+    loadPromise.catch(() => { loadPromise = null; });
+  }
+  return loadPromise;
+};
+
+// Erases the dataset and its history. Restore points and preferences are kept
+// so that "Limpar Tudo" itself can be reverted. The next load starts over as on
+// a first run (default plans saved again), and sync drops the changes queued
+// before the wipe and pulls from the start.
+export const clearDatabase = async () => {
+  const db = await openDb();
+  const tx = db.transaction([...COLLECTIONS, 'auditLog', 'syncOutbox', 'settings'], 'readwrite');
+  COLLECTIONS.forEach(name => tx.objectStore(name).clear());
+  tx.objectStore('auditLog').clear();
+  tx.objectStore('syncOutbox').clear();
+  ['whatsappMessage', 'dataVersion', 'syncMeta'].forEach(key => tx.objectStore('settings').delete(key));
+  await transactionDone(tx);
+  loadPromise = null;
+  Object.values(LEGACY_KEYS).forEach(key => localStorage.removeItem(key));
+};
+
+// Re-encrypts every protected store with `nextKey` (or decrypts it when null).
+// `settings` are written in the same transaction so the lock configuration
+// can never disagree with the data it describes.
+export const rewriteEncryptedStores = async (nextKey: CryptoKey | null, settings: SettingValue[] = [], removeSettings: string[] = []) => {
+  const contents = await Promise.all(ENCRYPTED_STORES.map(name => readStore<unknown>(name)));
+  const sealed = await Promise.all(ENCRYPTED_STORES.map((name, index) => sealRecords(name, contents[index], nextKey)));
+  const db = await openDb();
+  const tx = db.transaction([...ENCRYPTED_STORES, 'settings'], 'readwrite');
+  ENCRYPTED_STORES.forEach((name, index) => {
+    const store = tx.objectStore(name);
+    store.clear();
+    sealed[index].forEach(item => store.put(item));
+  });
+  settings.forEach(setting => tx.objectStore('settings').put(setting));
+  removeSettings.forEach(key => tx.objectStore('settings').delete(key));
+  await transactionDone(tx);
+  dataKey = nextKey;
+};
+
+export const getStorageEstimate = async () => {
+  if (!navigator.storage?.estimate) return null;
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+  return { usage, quota };
+};
+
+// Asks the browser not to evict our data under storage pressure.
+export const requestPersistentStorage = async () => {
+  if (!navigator.storage?.persist) return false;
+  if (await navigator.storage.persisted()) return true;
+  return navigator.storage.persist();
+};
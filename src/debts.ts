@@ -0,0 +1,87 @@
+import { Customer, Renewal, RenewalPayment, PaymentMethod } from './types';
+import { v4 as uuidv4 } from 'uuid';
+
+// Money is compared in cents, so 0.1 + 0.2 still settles a 0.30 debt
+const toCents = (value: number) => Math.round(value * 100);
+
+// What is still owed on one renewal; 0 for the ones paid in full.
+export const renewalBalance = (renewal: Renewal) =>
+  renewal.amountDue === undefined ? 0 : Math.max(0, toCents(renewal.amountDue) - toCents(renewal.amount)) / 100;
+
+/**
+ * Every payment of a renewal, each with its own date. What was paid with the
+ * renewal itself is not stored on its own: it is `amount` minus the later payments.
+ */
+export const renewalPayments = (renewal: Renewal): RenewalPayment[] => {
+  const later = renewal.payments || [];
+  const initial = toCents(renewal.amount) - later.reduce((sum, p) => sum + toCents(p.amount), 0);
+  return [
+    ...(initial > 0 ? [{ id: renewal.id, amount: initial / 100, date: renewal.date, method: renewal.paymentMethod }] : []),
+    ...later
+  ];
+};
+
+// Cash received from `renewals`, each payment counted on the day it came in.
+// Without bounds, everything received so far.
+export const receivedBetween = (renewals: Renewal[], start?: Date, end?: Date) =>
+  renewals.reduce((sum, r) => sum + renewalPayments(r).reduce((acc, p) => {
+    const time = new Date(p.date).getTime();
+    const inRange = (!start || time >= start.getTime()) && (!end || time <= end.getTime());
+    return inRange ? acc + toCents(p.amount) : acc;
+  }, 0), 0) / 100;
+
+export type Balances = Map<string, number>;
+
+// Outstanding balance of every customer that owes something
+export const customerBalances = (renewals: Renewal[]) => {
+  const balances: Balances = new Map();
+  renewals.forEach(r => {
+    const balance = renewalBalance(r);
+    if (balance > 0) balances.set(r.customerId, (toCents(balances.get(r.customerId) || 0) + toCents(balance)) / 100);
+  });
+  return balances;
+};
+
+export const totalBalance = (balances: Balances, ids?: string[]) =>
+  (ids || [...balances.keys()]).reduce((sum, id) => sum + toCents(balances.get(id) || 0), 0) / 100;
+
+// Renewals of a customer with something left to pay, oldest first
+export const openRenewals = (customerId: string, renewals: Renewal[]) =>
+  renewals
+    .filter(r => r.customerId === customerId && renewalBalance(r) > 0)
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+/**
+ * Spreads a payment over `renewals` (in the order given), settling each before
+ * moving to the next, and returns the updated records. Whatever goes beyond the
+ * total owed is left out.
+ */
+export const allocatePayment = (renewals: Renewal[], amount: number, method: PaymentMethod | undefined, date: string) => {
+  let left = toCents(amount);
+  const updated: Renewal[] = [];
+  for (const renewal of renewals) {
+    if (left <= 0) break;
+    const applied = Math.min(left, toCents(renewalBalance(renewal)));
+    if (applied <= 0) continue;
+    left -= applied;
+    const payment: RenewalPayment = { id: uuidv4(), amount: applied / 100, date, method };
+    updated.push({
+      ...renewal,
+      amount: (toCents(renewal.amount) + applied) / 100,
+      payments: [...(renewal.payments || []), payment]
+    });
+  }
+  return updated;
+};
+
+// Customers that owe money, biggest debts first
+export const debtorList = (customers: Customer[], renewals: Renewal[], balances: Balances) =>
+  customers
+    .filter(c => (balances.get(c.id) || 0) > 0)
+    .map(customer => {
+      const open = openRenewals(customer.id, renewals);
+      return { customer, balance: balances.get(customer.id) || 0, openRenewals: open, since: open[0]?.date };
+    })
+    .sort((a, b) => b.balance - a.balance || a.customer.name.localeCompare(b.customer.name));
+
+export const DEBT_MESSAGE = 'Olá {nome}! Passando para lembrar do saldo em aberto de {valor} referente à sua assinatura. Qualquer dúvida, estou à disposição.';
@@ -0,0 +1,154 @@
+import { Customer, Renewal } from './types';
+import { phoneKey } from './phone';
+import { getSetting, putSetting } from './db';
+
+// Names at least this similar (0..1) are treated as the same person
+export const NAME_SIMILARITY_THRESHOLD = 0.85;
+
+export type DuplicateReason = 'phone' | 'name';
+
+export interface DuplicateGroup {
+  key: string; // Sorted ids, stable across renders
+  customers: Customer[];
+  reasons: DuplicateReason[];
+}
+
+// Fields the merge screen lets the user pick from one of the records
+export const MERGE_FIELDS = [
+  'name', 'phone', 'serverId', 'planId', 'amountPaid', 'dueDate',
+  'username', 'password', 'screens', 'device', 'macAddress', 'notes'
+] as const satisfies readonly (keyof Customer)[];
+
+export type MergeField = typeof MERGE_FIELDS[number];
+
+export const normalizeName = (name: string) =>
+  name.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/[^a-z0-9 ]/g, ' ').replace(/\s+/g, ' ').trim();
+
+const levenshtein = (a: string, b: string) => {
+  let prev = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i];
+    for (let j = 1; j <= b.length; j++) {
+      row[j] = Math.min(prev[j] + 1, row[j - 1] + 1, prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    prev = row;
+  }
+  return prev[b.length];
+};
+
+/**
+ * 1 for identical names, 0 for nothing in common. Besides edit distance, a
+ * name whose words are all contained in the other ("Maria Silva" and "Maria
+ * da Silva Santos") counts as a match.
+ */
+export const nameSimilarity = (a: string, b: string) => {
+  const x = normalizeName(a);
+  const y = normalizeName(b);
+  if (!x || !y) return 0;
+  if (x === y) return 1;
+  const xWords = x.split(' ');
+  const yWords = y.split(' ');
+  const [shorter, longer] = xWords.length <= yWords.length ? [xWords, yWords] : [yWords, xWords];
+  if (shorter.length >= 2 && shorter.every(word => longer.includes(word))) return 0.9;
+  return 1 - levenshtein(x, y) / Math.max(x.length, y.length);
+};
+
+const groupKey = (customers: Customer[]) => customers.map(c => c.id).sort().join(':');
+
+/**
+ * Groups customers that share a phone number or have very similar names.
+ * Names are only compared within the same first word, which keeps this fast
+ * for large lists. Groups in `ignored` are left out.
+ */
+export const findDuplicateGroups = (customers: Customer[], ignored: string[] = []): DuplicateGroup[] => {
+  const parent = new Map(customers.map(c => [c.id, c.id]));
+  const reasons = new Map<string, Set<DuplicateReason>>();
+  const find = (id: string): string => {
+    const p = parent.get(id)!;
+    if (p === id) return id;
+    const root = find(p);
+    parent.set(id, root);
+    return root;
+  };
+  const link = (a: string, b: string, reason: DuplicateReason) => {
+    const ra = find(a);
+    const rb = find(b);
+    const merged = new Set([...(reasons.get(ra) || []), ...(reasons.get(rb) || []), reason]);
+    parent.set(rb, ra);
+    reasons.set(ra, merged);
+  };
+
+  const byPhone = new Map<string, Customer>();
+  customers.forEach(c => {
+    const key = phoneKey(c.phone || '');
+    if (key.length < 10) return;
+    const first = byPhone.get(key);
+    if (first) link(first.id, c.id, 'phone');
+    else byPhone.set(key, c);
+  });
+
+  const byFirstWord = new Map<string, Customer[]>();
+  customers.forEach(c => {
+    const first = normalizeName(c.name).split(' ')[0];
+    if (!first) return;
+    byFirstWord.set(first, [...(byFirstWord.get(first) || []), c]);
+  });
+  byFirstWord.forEach(bucket => {
+    for (let i = 0; i < bucket.length; i++) {
+      for (let j = i + 1; j < bucket.length; j++) {
+        if (nameSimilarity(bucket[i].name, bucket[j].name) >= NAME_SIMILARITY_THRESHOLD) link(bucket[i].id, bucket[j].id, 'name');
+      }
+    }
+  });
+
+  const groups = new Map<string, Customer[]>();
+  customers.forEach(c => {
+    const root = find(c.id);
+    groups.set(root, [...(groups.get(root) || []), c]);
+  });
+
+  return [...groups.entries()]
+    .filter(([, members]) => members.length > 1)
+    .map(([root, members]) => ({ key: groupKey(members), customers: members, reasons: [...(reasons.get(root) || [])] }))
+    .filter(group => !ignored.includes(group.key));
+};
+
+// The record to keep by default: the one with the most renewals, then the latest due date.
+export const suggestSurvivor = (customers: Customer[], renewals: Renewal[]) => {
+  const count = (c: Customer) => renewals.filter(r => r.customerId === c.id).length;
+  return [...customers].sort((a, b) => count(b) - count(a) || b.dueDate.localeCompare(a.dueDate))[0];
+};
+
+// Field -> id of the record its value is taken from
+export type MergeSources = Record<MergeField, string>;
+
+const isFilled = (value: unknown) => value !== undefined && value !== '';
+
+// Starting choice for each field: the survivor's value, or the first filled-in
+// one. The latest due date always wins so nobody loses paid days.
+export const defaultMergeSources = (survivor: Customer, customers: Customer[]) => {
+  const sources = {} as MergeSources;
+  MERGE_FIELDS.forEach(field => {
+    sources[field] = (isFilled(survivor[field]) ? survivor : customers.find(c => isFilled(c[field])) || survivor).id;
+  });
+  sources.dueDate = [...customers].sort((a, b) => b.dueDate.localeCompare(a.dueDate))[0].id;
+  return sources;
+};
+
+export const mergedValues = (sources: MergeSources, customers: Customer[]) => {
+  const values: Partial<Customer> = {};
+  MERGE_FIELDS.forEach(<F extends MergeField>(field: F) => {
+    values[field] = customers.find(c => c.id === sources[field])?.[field];
+  });
+  return values;
+};
+
+export const mergedTags = (customers: Customer[]) => {
+  const tags = [...new Set(customers.flatMap(c => c.tags || []))];
+  return tags.length > 0 ? tags : undefined;
+};
+
+// Groups marked as "not duplicates", as a device setting like the saved segments.
+export const getIgnoredDuplicates = async () => (await getSetting<string[]>('ignoredDuplicates')) || [];
+
+export const setIgnoredDuplicates = (keys: string[]) => putSetting('ignoredDuplicates', keys);
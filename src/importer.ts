@@ -0,0 +1,280 @@
+import { Customer, Plan, Renewal, Server } from './types';
+import { addMonths, format, isValid, subMonths } from 'date-fns';
+import * as XLSX from 'xlsx';
+import { parseLocalDate } from './dates';
+import { normalizeTag } from './segments';
+import { parsePhone, phoneKey } from './phone';
+
+export type ImportField =
+  | 'name' | 'phone' | 'server' | 'plan' | 'amount' | 'dueDate'
+  | 'username' | 'password' | 'screens' | 'device' | 'macAddress' | 'notes' | 'tags';
+
+/**
+ * Importable fields in the order of `CUSTOMER_HEADERS`. `aliases` are only
+ * used to suggest a mapping; the user confirms it before anything is read.
+ */
+export const IMPORT_FIELDS: { field: ImportField; label: string; required?: boolean; aliases: string[] }[] = [
+  { field: 'name', label: 'Nome', required: true, aliases: ['nome', 'cliente'] },
+  { field: 'phone', label: 'Telefone', required: true, aliases: ['telefone', 'celular', 'whatsapp', 'fone'] },
+  { field: 'server', label: 'Servidor', aliases: ['servidor', 'painel'] },
+  { field: 'plan', label: 'Plano', aliases: ['plano'] },
+  { field: 'amount', label: 'Valor', aliases: ['valor', 'preço', 'preco'] },
+  { field: 'dueDate', label: 'Vencimento', aliases: ['vencimento', 'vence', 'data'] },
+  { field: 'username', label: 'Usuário', aliases: ['usuário', 'usuario', 'login'] },
+  { field: 'password', label: 'Senha', aliases: ['senha'] },
+  { field: 'screens', label: 'Telas', aliases: ['telas'] },
+  { field: 'device', label: 'Dispositivo/App', aliases: ['dispositivo', 'aparelho'] },
+  { field: 'macAddress', label: 'MAC', aliases: ['mac'] },
+  { field: 'notes', label: 'Observações', aliases: ['observ', 'notas'] },
+  { field: 'tags', label: 'Etiquetas', aliases: ['etiqueta', 'tags'] }
+];
+
+// Field -> sheet header
+export type ColumnMapping = Partial<Record<ImportField, string>>;
+
+export type DuplicateMode = 'skip' | 'update' | 'create';
+
+export const DUPLICATE_LABELS: Record<DuplicateMode, string> = {
+  skip: 'Ignorar',
+  update: 'Atualizar existente',
+  create: 'Criar novo'
+};
+
+export interface SheetData {
+  headers: string[];
+  rows: Record<string, unknown>[];
+}
+
+export interface ImportDefaults {
+  serverId: string;
+  planId: string;
+}
+
+export interface ImportRow {
+  line: number; // Row number as shown in the spreadsheet
+  customer: Omit<Customer, 'id'>;
+  errors: string[];
+  duplicateOf?: Customer;
+  provided: ImportField[]; // Fields with a value in the sheet, as opposed to defaults
+}
+
+export interface ImportPlan {
+  create: Customer[];
+  update: { id: string; patch: Partial<Customer> }[];
+  renewals: Omit<Renewal, 'id'>[];
+}
+
+export const readSheet = (data: ArrayBuffer): SheetData => {
+  // `raw` keeps CSV text as typed (no guessing of dates or numbers); it has no effect on XLSX
+  const workbook = XLSX.read(new Uint8Array(data), { type: 'array', cellDates: true, raw: true });
+  const worksheet = workbook.Sheets[workbook.SheetNames[0]];
+  const [headerRow = []] = XLSX.utils.sheet_to_json<unknown[]>(worksheet, { header: 1, blankrows: false });
+  const headers = headerRow.map(h => String(h ?? '').trim()).filter(Boolean);
+  // Raw values, so dates and numbers arrive typed
+  const rows = XLSX.utils.sheet_to_json<Record<string, unknown>>(worksheet, { defval: '' });
+  return { headers, rows };
+};
+
+// Exact label matches first (our own template/export), then the aliases.
+export const guessMapping = (headers: string[]): ColumnMapping => {
+  const mapping: ColumnMapping = {};
+  const used = new Set<string>();
+  const claim = (field: ImportField, header?: string) => {
+    if (!header || used.has(header) || mapping[field]) return;
+    mapping[field] = header;
+    used.add(header);
+  };
+  IMPORT_FIELDS.forEach(({ field, label }) =>
+    claim(field, headers.find(h => h.toLowerCase() === label.toLowerCase() || h.toLowerCase().startsWith(`${label.toLowerCase()} (`))));
+  IMPORT_FIELDS.forEach(({ field, aliases }) =>
+    claim(field, headers.find(h => !used.has(h) && aliases.some(alias => h.toLowerCase().includes(alias)))));
+  return mapping;
+};
+
+// Accepts spreadsheet dates, DD/MM/YYYY text, YYYY-MM-DD text and Excel serial numbers.
+export const parseDueDate = (raw: unknown): string | null => {
+  if (raw instanceof Date) {
+    // SheetJS dates can carry a timezone offset; only the calendar date matters
+    return isValid(raw) ? format(raw, 'yyyy-MM-dd') : null;
+  }
+  const text = String(raw ?? '').trim();
+  if (!text) return null;
+  const parts = text.split('/');
+  if (parts.length === 3) {
+    const [day, month, year] = parts.map(Number);
+    const fullYear = year < 100 ? 2000 + year : year;
+    const date = new Date(fullYear, month - 1, day);
+    return date.getDate() === day && date.getMonth() === month - 1 ? format(date, 'yyyy-MM-dd') : null;
+  }
+  if (/^\d{4}-\d{2}-\d{2}/.test(text)) {
+    const date = parseLocalDate(text);
+    return isValid(date) ? format(date, 'yyyy-MM-dd') : null;
+  }
+  if (/^\d+(\.\d+)?$/.test(text)) {
+    const parsed = XLSX.SSF.parse_date_code(Number(text));
+    return parsed ? format(new Date(parsed.y, parsed.m - 1, parsed.d), 'yyyy-MM-dd') : null;
+  }
+  return null;
+};
+
+const parseAmount = (raw: unknown) => {
+  if (typeof raw === 'number') return raw;
+  const text = String(raw ?? '').replace(/[^\d,.-]/g, '');
+  // "1.234,56" and "35,00" are Brazilian; "35.00" is not
+  const normalized = text.includes(',') ? text.replace(/\./g, '').replace(',', '.') : text;
+  return parseFloat(normalized);
+};
+
+const findByName = <T extends { name: string }>(items: T[], name: string) =>
+  items.find(item => item.name.trim().toLowerCase() === name.toLowerCase());
+
+/**
+ * Turns sheet rows into customers with their validation errors and any
+ * existing customer sharing the phone number. Rows with errors are never
+ * imported.
+ */
+export const parseRows = (
+  sheet: SheetData,
+  mapping: ColumnMapping,
+  defaults: ImportDefaults,
+  context: { servers: Server[]; plans: Plan[]; customers: Customer[] }
+): ImportRow[] => {
+  const { servers, plans, customers } = context;
+  const existingByPhone = new Map(customers.filter(c => c.phone).map(c => [phoneKey(c.phone), c]));
+  const seenPhones = new Set<string>();
+  const rows: ImportRow[] = [];
+
+  sheet.rows.forEach((row, index) => {
+    const cell = (field: ImportField) => {
+      const header = mapping[field];
+      return header ? row[header] : '';
+    };
+    const text = (field: ImportField) => String(cell(field) ?? '').trim();
+
+    const name = text('name');
+    if (!name && !text('phone')) return; // Blank line
+    const errors: string[] = [];
+    if (!name) errors.push('Nome em branco');
+
+    const parsedPhone = parsePhone(text('phone'));
+    const phone = parsedPhone.valid ? parsedPhone.e164 : text('phone');
+    if (!parsedPhone.valid) {
+      errors.push(phone ? `Telefone inválido (${phone}): ${parsedPhone.error}` : parsedPhone.error);
+    } else if (seenPhones.has(phoneKey(phone))) {
+      errors.push('Telefone repetido na planilha');
+    }
+    seenPhones.add(phoneKey(phone));
+
+    const serverName = text('server');
+    const server = serverName ? findByName(servers, serverName) : servers.find(s => s.id === defaults.serverId);
+    if (!server) errors.push(serverName ? `Servidor "${serverName}" não encontrado` : 'Servidor não informado');
+
+    const planName = text('plan');
+    const plan = planName ? findByName(plans, planName) : plans.find(p => p.id === defaults.planId);
+    if (!plan) errors.push(planName ? `Plano "${planName}" não encontrado` : 'Plano não informado');
+
+    let amountPaid = plan?.defaultPrice ?? 0;
+    if (text('amount')) {
+      const parsed = parseAmount(cell('amount'));
+      if (isNaN(parsed)) errors.push(`Valor inválido (${text('amount')})`);
+      else amountPaid = parsed;
+    }
+
+    let dueDate = format(addMonths(new Date(), plan?.months || 1), 'yyyy-MM-dd');
+    if (text('dueDate') || cell('dueDate') instanceof Date) {
+      const parsed = parseDueDate(cell('dueDate'));
+      if (parsed) dueDate = parsed;
+      else errors.push(`Vencimento inválido (${text('dueDate')})`);
+    }
+
+    const screens = parseInt(text('screens'), 10);
+    const tags = [...new Set(text('tags').split(/[,;]/).map(normalizeTag).filter(Boolean))];
+
+    rows.push({
+      line: index + 2,
+      customer: {
+        name,
+        phone,
+        serverId: server?.id || '',
+        planId: plan?.id || '',
+        amountPaid,
+        dueDate,
+        username: text('username') || undefined,
+        password: text('password') || undefined,
+        screens: screens > 0 ? screens : undefined,
+        device: text('device') || undefined,
+        macAddress: text('macAddress').toUpperCase() || undefined,
+        notes: text('notes') || undefined,
+        tags: tags.length > 0 ? tags : undefined
+      },
+      errors,
+      duplicateOf: phone ? existingByPhone.get(phoneKey(phone)) : undefined,
+      provided: IMPORT_FIELDS.map(f => f.field).filter(field => text(field) !== '' || cell(field) instanceof Date)
+    });
+  });
+
+  return rows;
+};
+
+const CUSTOMER_KEYS: Record<ImportField, keyof Customer> = {
+  name: 'name', phone: 'phone', server: 'serverId', plan: 'planId', amount: 'amountPaid', dueDate: 'dueDate',
+  username: 'username', password: 'password', screens: 'screens', device: 'device',
+  macAddress: 'macAddress', notes: 'notes', tags: 'tags'
+};
+
+// Only values actually present in the sheet overwrite an existing customer.
+const updatePatch = (row: ImportRow): Partial<Customer> => {
+  const patch: Partial<Customer> = {};
+  const source: Partial<Customer> = row.customer;
+  const copy = <K extends keyof Customer>(key: K) => {
+    if (source[key] !== undefined) patch[key] = source[key];
+  };
+  row.provided.forEach(field => copy(CUSTOMER_KEYS[field]));
+  return patch;
+};
+
+/**
+ * What the import will write. When `withRenewals` is on, each new customer
+ * gets one renewal for its current period, dated when that period started
+ * (never in the future), instead of a payment dated today.
+ */
+export const buildImportPlan = (
+  rows: ImportRow[],
+  choices: Record<number, DuplicateMode>,
+  withRenewals: boolean,
+  context: { servers: Server[]; plans: Plan[] },
+  newId: () => string
+): ImportPlan => {
+  const plan: ImportPlan = { create: [], update: [], renewals: [] };
+  const now = new Date();
+
+  rows.forEach(row => {
+    if (row.errors.length > 0) return;
+    const mode = row.duplicateOf ? choices[row.line] || 'skip' : 'create';
+    if (mode === 'skip') return;
+    if (mode === 'update' && row.duplicateOf) {
+      plan.update.push({ id: row.duplicateOf.id, patch: updatePatch(row) });
+      return;
+    }
+
+    const customer: Customer = { ...row.customer, id: newId() };
+    plan.create.push(customer);
+    if (!withRenewals) return;
+
+    const customerPlan = context.plans.find(p => p.id === customer.planId);
+    const server = context.servers.find(s => s.id === customer.serverId);
+    const months = customerPlan?.months || 1;
+    const periodStart = subMonths(parseLocalDate(customer.dueDate), months);
+    plan.renewals.push({
+      customerId: customer.id,
+      serverId: customer.serverId,
+      planId: customer.planId,
+      amount: customer.amountPaid,
+      cost: (server?.costPerActive || 0) * months,
+      date: (periodStart < now ? periodStart : now).toISOString(),
+      newDueDate: customer.dueDate
+    });
+  });
+
+  return plan;
+};
@@ -0,0 +1,29 @@
+import { AppData, Customer, Renewal } from './types';
+
+export type ReferencedCollection = 'servers' | 'plans';
+
+export interface References {
+  customers: Customer[];
+  renewals: Renewal[];
+}
+
+const foreignKey = (name: ReferencedCollection) => name === 'servers' ? 'serverId' : 'planId';
+
+// Customers and renewals that would be left pointing at nothing if the record were deleted.
+export const findReferences = (data: Pick<AppData, 'customers' | 'renewals'>, name: ReferencedCollection, id: string): References => {
+  const key = foreignKey(name);
+  return {
+    customers: data.customers.filter(c => c[key] === id),
+    renewals: data.renewals.filter(r => r[key] === id)
+  };
+};
+
+export const hasReferences = (refs: References) => refs.customers.length > 0 || refs.renewals.length > 0;
+
+// Options for pickers: archived records are hidden unless already selected,
+// so editing an old customer doesn't silently switch its server or plan.
+export const selectable = <T extends { id: string; archivedAt?: string }>(items: T[], currentId?: string) =>
+  items.filter(item => !item.archivedAt || item.id === currentId);
+
+// Records by id, for lists that resolve a server or plan per row.
+export const indexById = <T extends { id: string }>(items: T[]) => new Map(items.map(item => [item.id, item]));
@@ -0,0 +1,130 @@
+import { Customer, Renewal, LifecycleState } from './types';
+import { differenceInDays } from 'date-fns';
+import { getSetting, putSetting } from './db';
+import { parseLocalDate } from './dates';
+
+export const LIFECYCLE_STATES: LifecycleState[] = ['new', 'active', 'expiring', 'grace', 'expired', 'churned', 'wonBack'];
+
+export const LIFECYCLE_LABELS: Record<LifecycleState, string> = {
+  new: 'Novo',
+  active: 'Ativo',
+  expiring: 'Vencendo',
+  grace: 'Carência',
+  expired: 'Vencido',
+  churned: 'Perdido',
+  wonBack: 'Recuperado'
+};
+
+export const LIFECYCLE_COLORS: Record<LifecycleState, string> = {
+  new: 'text-blue-400 bg-blue-500/10',
+  active: 'text-green-400 bg-green-500/10',
+  expiring: 'text-yellow-500 bg-yellow-500/10',
+  grace: 'text-orange-400 bg-orange-500/10',
+  expired: 'text-red-400 bg-red-500/10',
+  churned: 'text-gray-400 bg-white/5',
+  wonBack: 'text-[#c8a646] bg-[#c8a646]/10'
+};
+
+// States of a customer whose due date has not passed yet: these count as active
+// in the Dashboard and server totals.
+export const ACTIVE_STATES: LifecycleState[] = ['new', 'active', 'expiring', 'wonBack'];
+
+export const isActiveState = (state: LifecycleState) => ACTIVE_STATES.includes(state);
+
+export interface LifecycleThresholds {
+  newDays: number; // A first-time customer stays "new" this long after its first payment
+  expiringDays: number; // "Vencendo" this many days before the due date
+  graceDays: number; // Tolerance after the due date before counting as expired
+  churnDays: number; // Expired this long counts as lost
+}
+
+export const DEFAULT_LIFECYCLE_THRESHOLDS: LifecycleThresholds = {
+  newDays: 30,
+  expiringDays: 7,
+  graceDays: 3,
+  churnDays: 30
+};
+
+export const THRESHOLD_LABELS: Record<keyof LifecycleThresholds, string> = {
+  newDays: 'Novo até (dias após o 1º pagamento)',
+  expiringDays: 'Vencendo (dias antes do vencimento)',
+  graceDays: 'Carência (dias após o vencimento)',
+  churnDays: 'Perdido após (dias vencido)'
+};
+
+export const getLifecycleThresholds = async () => ({
+  ...DEFAULT_LIFECYCLE_THRESHOLDS,
+  ...(await getSetting<Partial<LifecycleThresholds>>('lifecycleThresholds'))
+});
+
+export const setLifecycleThresholds = (thresholds: LifecycleThresholds) => putSetting('lifecycleThresholds', thresholds);
+
+/**
+ * Where a customer stands on `today`. `renewals` are the customer's own, in
+ * any order. While the due date has not passed, a customer that came back
+ * after being lost is "won back" and a first-time one is "new" until its
+ * second payment; either gives way to "expiring" near the due date.
+ */
+export const lifecycleState = (customer: Customer, renewals: Renewal[], thresholds: LifecycleThresholds, today: Date): LifecycleState => {
+  const daysToDue = differenceInDays(parseLocalDate(customer.dueDate), today);
+  if (isNaN(daysToDue)) return 'expired';
+
+  if (daysToDue < 0) {
+    const overdue = -daysToDue;
+    if (overdue <= thresholds.graceDays) return 'grace';
+    return overdue >= thresholds.churnDays ? 'churned' : 'expired';
+  }
+  if (daysToDue <= thresholds.expiringDays) return 'expiring';
+
+  const sorted = renewals.slice().sort((a, b) => a.date.localeCompare(b.date));
+  const last = sorted[sorted.length - 1];
+  if (last?.previousDueDate) {
+    const lapse = differenceInDays(new Date(last.date), parseLocalDate(last.previousDueDate));
+    if (lapse >= thresholds.churnDays) return 'wonBack';
+  }
+  if (sorted.length === 1 && differenceInDays(today, new Date(sorted[0].date)) <= thresholds.newDays) return 'new';
+  return 'active';
+};
+
+export type Lifecycles = Map<string, LifecycleState>;
+
+// State of every customer by id, computed once for the whole list.
+export const computeLifecycles = (customers: Customer[], renewals: Renewal[], thresholds: LifecycleThresholds, today: Date): Lifecycles => {
+  const byCustomer = new Map<string, Renewal[]>();
+  renewals.forEach(r => byCustomer.set(r.customerId, [...(byCustomer.get(r.customerId) || []), r]));
+  return new Map(customers.map(c => [c.id, lifecycleState(c, byCustomer.get(c.id) || [], thresholds, today)]));
+};
+
+export const countByState = (lifecycles: Lifecycles, ids?: string[]) => {
+  const counts = Object.fromEntries(LIFECYCLE_STATES.map(s => [s, 0])) as Record<LifecycleState, number>;
+  (ids || [...lifecycles.keys()]).forEach(id => {
+    const state = lifecycles.get(id);
+    if (state) counts[state] += 1;
+  });
+  return counts;
+};
+
+// Lifetime value of every customer with renewals: everything it has paid so far.
+export const lifetimeValues = (renewals: Renewal[]) => {
+  const totals = new Map<string, { value: number; count: number }>();
+  renewals.forEach(r => {
+    const total = totals.get(r.customerId) || { value: 0, count: 0 };
+    totals.set(r.customerId, { value: total.value + r.amount, count: total.count + 1 });
+  });
+  return totals;
+};
+
+// Lost customers worth calling back first: highest lifetime value on top.
+export const winBackList = (customers: Customer[], renewals: Renewal[], lifecycles: Lifecycles) => {
+  const totals = lifetimeValues(renewals);
+  return customers
+    .filter(c => lifecycles.get(c.id) === 'churned')
+    .map(customer => ({
+      customer,
+      lifetimeValue: totals.get(customer.id)?.value || 0,
+      renewalCount: totals.get(customer.id)?.count || 0
+    }))
+    .sort((a, b) => b.lifetimeValue - a.lifetimeValue || a.customer.dueDate.localeCompare(b.customer.dueDate));
+};
+
+export const WINBACK_MESSAGE = 'Olá {nome}! Sentimos sua falta por aqui. Que tal voltar? Temos condições especiais para a sua reativação.';
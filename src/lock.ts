@@ -0,0 +1,146 @@
+import { useState, useEffect, useRef } from 'react';
+import { getSetting, rewriteEncryptedStores, setDataKey } from './db';
+import { PBKDF2_ITERATIONS, deriveKey, hashSecret, newSalt, toBase64, fromBase64 } from './crypto';
+
+export type LockKind = 'pin' | 'password';
+
+/**
+ * Stored in plain text in the `lockConfig` setting, since it is needed before
+ * unlocking. It never contains the secret itself: `hash` is PBKDF2 of the
+ * secret with `salt`, and the data key (when `encryptData` is on) is derived
+ * separately from the secret with `dataSalt`.
+ */
+export interface LockConfig {
+  kind: LockKind;
+  salt: string;
+  hash: string;
+  iterations: number;
+  idleMinutes: number; // 0 disables auto-lock
+  encryptData: boolean;
+  dataSalt?: string;
+}
+
+export interface LockOptions {
+  kind: LockKind;
+  secret: string;
+  idleMinutes: number;
+  encryptData: boolean;
+}
+
+export const DEFAULT_IDLE_MINUTES = 5;
+
+// How often idle time is checked while the app is unlocked
+const IDLE_CHECK_MS = 15 * 1000;
+
+const ACTIVITY_EVENTS = ['pointerdown', 'keydown', 'touchstart', 'wheel'] as const;
+
+export const getLockConfig = () => getSetting<LockConfig>('lockConfig');
+
+// Returns an error message, or null when the secret is acceptable.
+export const validateSecret = (kind: LockKind, secret: string) => {
+  if (kind === 'pin') return /^\d{4,8}$/.test(secret) ? null : 'O PIN deve ter de 4 a 8 números.';
+  return secret.length >= 6 ? null : 'A senha deve ter pelo menos 6 caracteres.';
+};
+
+export const verifySecret = async (config: LockConfig, secret: string) =>
+  (await hashSecret(secret, fromBase64(config.salt), config.iterations)) === config.hash;
+
+const deriveDataKey = (config: LockConfig, secret: string) =>
+  deriveKey(secret, fromBase64(config.dataSalt!), config.iterations);
+
+const buildConfig = async ({ kind, secret, idleMinutes, encryptData }: LockOptions): Promise<LockConfig> => {
+  const salt = newSalt();
+  return {
+    kind,
+    salt: toBase64(salt),
+    hash: await hashSecret(secret, salt),
+    iterations: PBKDF2_ITERATIONS,
+    idleMinutes,
+    encryptData,
+    dataSalt: encryptData ? toBase64(newSalt()) : undefined
+  };
+};
+
+// Checks the secret and, for encrypted data, makes the data key available to db.ts.
+export const unlockWith = async (config: LockConfig, secret: string) => {
+  if (!(await verifySecret(config, secret))) return false;
+  setDataKey(config.encryptData ? await deriveDataKey(config, secret) : null);
+  return true;
+};
+
+// Sets up (or replaces) the lock. Stored data is re-encrypted with the new key,
+// or decrypted when encryption is turned off, together with the new config.
+export const saveLock = async (options: LockOptions) => {
+  const config = await buildConfig(options);
+  const nextKey = config.encryptData ? await deriveDataKey(config, options.secret) : null;
+  await rewriteEncryptedStores(nextKey, [{ id: 'lockConfig', value: config }]);
+  return config;
+};
+
+export const removeLock = async () => {
+  await rewriteEncryptedStores(null, [], ['lockConfig']);
+};
+
+export type LockStatus = 'loading' | 'locked' | 'unlocked';
+
+// App-level lock: shown on startup when configured and again after
+// `idleMinutes` without interaction.
+export const useAppLock = () => {
+  const [status, setStatus] = useState<LockStatus>('loading');
+  const [config, setConfig] = useState<LockConfig | null>(null);
+  const lastActivityRef = useRef(Date.now());
+
+  useEffect(() => {
+    getLockConfig()
+      .then(saved => {
+        setConfig(saved || null);
+        setStatus(saved ? 'locked' : 'unlocked');
+      })
+      .catch(err => {
+        console.error('Erro ao carregar bloqueio:', err);
+        setStatus('unlocked');
+      });
+  }, []);
+
+  useEffect(() => {
+    if (status !== 'unlocked' || !config || config.idleMinutes <= 0) return;
+    lastActivityRef.current = Date.now();
+    const markActive = () => { lastActivityRef.current = Date.now(); };
+    // Timers are throttled in background tabs, so time away is also checked on return
+    const check = () => {
+      if (Date.now() - lastActivityRef.current >= config.idleMinutes * 60 * 1000) setStatus('locked');
+    };
+    const handleVisibility = () => { if (document.visibilityState === 'visible') check(); };
+    ACTIVITY_EVENTS.forEach(name => window.addEventListener(name, markActive, { passive: true }));
+    document.addEventListener('visibilitychange', handleVisibility);
+    const timer = setInterval(check, IDLE_CHECK_MS);
+    return () => {
+      ACTIVITY_EVENTS.forEach(name => window.removeEventListener(name, markActive));
+      document.removeEventListener('visibilitychange', handleVisibility);
+      clearInterval(timer);
+    };
+  }, [status, config]);
+
+  const unlock = async (secret: string) => {
+    if (!config || !(await unlockWith(config, secret))) return false;
+    setStatus('unlocked');
+    return true;
+  };
+
+  const lockNow = () => {
+    if (config) setStatus('locked');
+  };
+
+  const configure = async (options: LockOptions) => {
+    setConfig(await saveLock(options));
+  };
+
+  const disable = async () => {
+    await removeLock();
+    setConfig(null);
+  };
+
+  return { status, config, unlock, lockNow, configure, disable };
+};
+
+export type AppLock = ReturnType<typeof useAppLock>;
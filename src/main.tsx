@@ -1,10 +1,11 @@
 import { StrictMode } from 'react';
 import { createRoot } from 'react-dom/client';
 import App from './App';
+import { LockGate } from './views/LockScreen';
 import './index.css';
 
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
-    <App />
+    <LockGate>{lock => <App lock={lock} />}</LockGate>
   </StrictMode>,
 );
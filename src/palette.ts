@@ -0,0 +1,215 @@
+import { Customer, Server, Plan, Renewal, Tab } from './types';
+import { format } from 'date-fns';
+import { phoneDigits, formatPhone } from './phone';
+import { isOpenTrial } from './trials';
+import { indexById } from './integrity';
+import { parseLocalDate } from './dates';
+
+// Something a screen should do as soon as it opens, asked for from the palette
+export type PaletteIntent =
+  | { kind: 'newCustomer' }
+  | { kind: 'renewCustomer'; customerId: string }
+  | { kind: 'exportBackup' };
+
+export type PaletteTarget =
+  | { kind: 'customer'; id: string }
+  | { kind: 'tab'; tab: Tab }
+  | { kind: 'intent'; intent: PaletteIntent };
+
+export type PaletteGroup = 'actions' | 'customers' | 'servers' | 'plans' | 'renewals';
+
+export const GROUP_LABELS: Record<PaletteGroup, string> = {
+  actions: 'Ações',
+  customers: 'Clientes',
+  servers: 'Servidores',
+  plans: 'Planos',
+  renewals: 'Renovações'
+};
+
+const GROUP_LIMITS: Record<PaletteGroup, number> = {
+  actions: 8,
+  customers: 8,
+  servers: 4,
+  plans: 4,
+  renewals: 5
+};
+
+export interface PaletteResult {
+  id: string;
+  group: PaletteGroup;
+  title: string;
+  subtitle?: string;
+  score: number;
+  target: PaletteTarget;
+}
+
+export interface PaletteData {
+  customers: Customer[]; // Customers and open trials, without the trash
+  servers: Server[];
+  plans: Plan[];
+  renewals: Renewal[];
+  tabs: { id: Tab; label: string }[];
+}
+
+// Lowercase and without accents, so "joao" finds "João"
+export const normalizeText = (text: string) => text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+
+const isWordStart = (text: string, index: number) => index === 0 || /[\s\-_.@/(]/.test(text[index - 1]);
+
+// Score of one query word: a whole substring beats scattered letters, and a
+// match at the start of a word beats one in the middle. 0 means no match.
+const wordScore = (word: string, text: string) => {
+  const index = text.indexOf(word);
+  if (index >= 0) return isWordStart(text, index) ? 100 : 70;
+  let from = 0;
+  let gaps = 0;
+  for (let i = 0; i < word.length; i++) {
+    const found = text.indexOf(word[i], from);
+    if (found < 0) return 0;
+    if (i > 0) gaps += found - from;
+    from = found + 1;
+  }
+  return Math.max(1, 40 - gaps * 4);
+};
+
+/**
+ * How well `query` matches `text`, from 0 (no match) to 100. Every word of the
+ * query has to be found; the result is the average of their scores.
+ */
+export const fuzzyScore = (query: string, text: string | undefined) => {
+  if (!text) return 0;
+  const words = normalizeText(query).split(/\s+/).filter(Boolean);
+  if (words.length === 0) return 0;
+  const normalized = normalizeText(text);
+  let total = 0;
+  for (const word of words) {
+    const score = wordScore(word, normalized);
+    if (score === 0) return 0;
+    total += score;
+  }
+  return total / words.length;
+};
+
+// Best score among several fields, each weighted by how telling it is
+const bestScore = (query: string, fields: [string | undefined, number][]) =>
+  Math.max(0, ...fields.map(([text, weight]) => fuzzyScore(query, text) * weight));
+
+// Phone numbers match by digits, typed with or without formatting
+const phoneScore = (query: string, phone: string) => {
+  const digits = phoneDigits(query);
+  if (digits.length < 3 || digits.length < query.replace(/[\s()+-]/g, '').length) return 0;
+  return phoneDigits(phone).includes(digits) ? 90 : 0;
+};
+
+const formatDate = (date: Date) => isNaN(date.getTime()) ? 'data inválida' : format(date, 'dd/MM/yyyy');
+
+const formatCurrency = (val: number) => new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(val);
+
+const RENEWAL_MIN_SCORE = 35;
+
+// "renovar joão" (or just "ren joão") turns customer matches into renewals
+const RENEW_PREFIX = /^\s*ren(o(v(ar?)?)?)?\s+/i;
+
+const actionResults = (query: string, tabs: PaletteData['tabs']): PaletteResult[] => {
+  const actions: Omit<PaletteResult, 'score'>[] = [
+    { id: 'action:newCustomer', group: 'actions', title: 'Novo cliente', target: { kind: 'intent', intent: { kind: 'newCustomer' } } },
+    { id: 'action:exportBackup', group: 'actions', title: 'Exportar backup', target: { kind: 'intent', intent: { kind: 'exportBackup' } } },
+    ...tabs.map(tab => ({ id: `tab:${tab.id}`, group: 'actions' as const, title: `Ir para ${tab.label}`, target: { kind: 'tab' as const, tab: tab.id } }))
+  ];
+  if (!query.trim()) return actions.map(action => ({ ...action, score: 1 }));
+  return actions
+    .map(action => ({ ...action, score: fuzzyScore(query, action.title) }))
+    .filter(action => action.score > 0);
+};
+
+/**
+ * Everything matching `query`, best first within each group. An empty query
+ * lists the actions only; a query starting with "renovar" lists renewals of
+ * the matching customers.
+ */
+export const searchPalette = (query: string, data: PaletteData): PaletteResult[] => {
+  const serverById = indexById(data.servers);
+  const planById = indexById(data.plans);
+  const customerById = indexById(data.customers);
+  const results: PaletteResult[] = [];
+
+  const renewMatch = query.match(RENEW_PREFIX);
+  const customerQuery = renewMatch ? query.slice(renewMatch[0].length) : query;
+
+  if (!renewMatch) results.push(...actionResults(query, data.tabs));
+  if (!customerQuery.trim()) return results;
+
+  data.customers.forEach(customer => {
+    if (renewMatch && isOpenTrial(customer)) return;
+    const score = Math.max(
+      phoneScore(customerQuery, customer.phone),
+      bestScore(customerQuery, [[customer.name, 1], [customer.username, 0.9], [customer.macAddress, 0.9], [customer.notes, 0.6], [customer.tags?.join(' '), 0.6]])
+    );
+    if (score === 0) return;
+    const server = serverById.get(customer.serverId);
+    const due = formatDate(parseLocalDate(customer.dueDate));
+    results.push(renewMatch
+      ? {
+          id: `renew:${customer.id}`,
+          group: 'actions',
+          title: `Renovar ${customer.name}`,
+          subtitle: `${server?.name || 'Sem servidor'} • vence ${due}`,
+          score,
+          target: { kind: 'intent', intent: { kind: 'renewCustomer', customerId: customer.id } }
+        }
+      : {
+          id: `customer:${customer.id}`,
+          group: 'customers',
+          title: customer.name,
+          subtitle: [isOpenTrial(customer) ? 'Teste' : null, formatPhone(customer.phone), server?.name, `vence ${due}`].filter(Boolean).join(' • '),
+          score,
+          target: { kind: 'customer', id: customer.id }
+        });
+  });
+  if (renewMatch) return rank(results);
+
+  data.servers.forEach(server => {
+    const score = fuzzyScore(query, server.name);
+    if (score > 0) results.push({
+      id: `server:${server.id}`, group: 'servers', title: server.name,
+      subtitle: server.archivedAt ? 'Arquivado' : `Custo por ativo ${formatCurrency(server.costPerActive)}`,
+      score, target: { kind: 'tab', tab: 'servers' }
+    });
+  });
+
+  data.plans.forEach(plan => {
+    const score = fuzzyScore(query, plan.name);
+    if (score > 0) results.push({
+      id: `plan:${plan.id}`, group: 'plans', title: plan.name,
+      subtitle: `${formatCurrency(plan.defaultPrice)} • ${plan.months} ${plan.months === 1 ? 'mês' : 'meses'}`,
+      score, target: { kind: 'tab', tab: 'plans' }
+    });
+  });
+
+  data.renewals.forEach(renewal => {
+    const customer = customerById.get(renewal.customerId);
+    if (!customer) return;
+    const date = formatDate(new Date(renewal.date));
+    const plan = planById.get(renewal.planId);
+    const score = bestScore(query, [[`${customer.name} ${date}`, 0.8], [`${formatCurrency(renewal.amount)} ${plan?.name || ''}`, 0.5]]);
+    // There are many renewals per customer: scattered-letter matches would only add noise
+    if (score >= RENEWAL_MIN_SCORE) results.push({
+      id: `renewal:${renewal.id}`, group: 'renewals', title: `${customer.name} • ${formatCurrency(renewal.amount)}`,
+      subtitle: `${date} • ${plan?.name || 'Plano removido'}`,
+      score, target: { kind: 'customer', id: customer.id }
+    });
+  });
+
+  return rank(results);
+};
+
+// Best matches first within each group, groups in a fixed order and capped
+const rank = (results: PaletteResult[]) => {
+  const order = Object.keys(GROUP_LABELS) as PaletteGroup[];
+  return order.flatMap(group =>
+    results
+      .filter(r => r.group === group)
+      .sort((a, b) => b.score - a.score || a.title.localeCompare(b.title))
+      .slice(0, GROUP_LIMITS[group])
+  );
+};
@@ -0,0 +1,47 @@
+const encoder = new TextEncoder();
+
+/**
+ * A one-page PDF showing a JPEG image across the whole page. Enough for
+ * documents drawn on a canvas (receipts) without shipping a PDF library:
+ * the JPEG bytes go in as-is, since PDF readers decode DCT natively.
+ */
+export const jpegToPdf = (jpeg: Uint8Array, pixelWidth: number, pixelHeight: number, pageWidth = 420) => {
+  const pageHeight = Math.round(pageWidth * pixelHeight / pixelWidth);
+  const content = `q ${pageWidth} 0 0 ${pageHeight} 0 0 cm /Im0 Do Q`;
+
+  const objects: (string | Uint8Array)[][] = [
+    ['<< /Type /Catalog /Pages 2 0 R >>'],
+    ['<< /Type /Pages /Kids [3 0 R] /Count 1 >>'],
+    [`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${pageWidth} ${pageHeight}] /Resources << /XObject << /Im0 4 0 R >> >> /Contents 5 0 R >>`],
+    [
+      `<< /Type /XObject /Subtype /Image /Width ${pixelWidth} /Height ${pixelHeight} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${jpeg.length} >>\nstream\n`,
+      jpeg,
+      '\nendstream'
+    ],
+    [`<< /Length ${content.length} >>\nstream\n${content}\nendstream`]
+  ];
+
+  const chunks: Uint8Array[] = [];
+  let length = 0;
+  const push = (part: string | Uint8Array) => {
+    const bytes = typeof part === 'string' ? encoder.encode(part) : part;
+    chunks.push(bytes);
+    length += bytes.length;
+  };
+
+  push('%PDF-1.4\n');
+  const offsets = objects.map((parts, index) => {
+    const offset = length;
+    push(`${index + 1} 0 obj\n`);
+    parts.forEach(push);
+    push('\nendobj\n');
+    return offset;
+  });
+
+  const xref = length;
+  push(`xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`);
+  offsets.forEach(offset => push(`${String(offset).padStart(10, '0')} 00000 n \n`));
+  push(`trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`);
+
+  return new Blob(chunks as BlobPart[], { type: 'application/pdf' });
+};
@@ -0,0 +1,91 @@
+// Brazilian phone numbers: parsing, E.164 normalization and display.
+
+export const COUNTRY_CODE = '55';
+
+// Area codes (DDD) in use by Anatel
+const VALID_DDDS = new Set([
+  11, 12, 13, 14, 15, 16, 17, 18, 19,
+  21, 22, 24, 27, 28,
+  31, 32, 33, 34, 35, 37, 38,
+  41, 42, 43, 44, 45, 46, 47, 48, 49,
+  51, 53, 54, 55,
+  61, 62, 63, 64, 65, 66, 67, 68, 69,
+  71, 73, 74, 75, 77, 79,
+  81, 82, 83, 84, 85, 86, 87, 88, 89,
+  91, 92, 93, 94, 95, 96, 97, 98, 99
+]);
+
+export interface ParsedPhone {
+  valid: boolean;
+  e164: string; // +5511987654321, empty when invalid
+  ddd: string;
+  number: string;
+  mobile: boolean;
+  error: string; // Why the number is invalid, for the form and the import preview
+}
+
+const invalid = (error: string): ParsedPhone => ({ valid: false, e164: '', ddd: '', number: '', mobile: false, error });
+
+export const phoneDigits = (phone: string) => phone.replace(/\D/g, '');
+
+/**
+ * Reads a number as typed: with or without +55, a leading trunk 0, or the
+ * ninth digit. Old eight-digit mobiles (starting with 6-9) get the 9 added;
+ * eight-digit numbers starting with 2-5 are landlines.
+ */
+export const parsePhone = (raw: string): ParsedPhone => {
+  let digits = phoneDigits(raw || '');
+  if (!digits) return invalid('Telefone em branco');
+  if (digits.startsWith(COUNTRY_CODE) && digits.length >= 12) digits = digits.slice(2);
+  digits = digits.replace(/^0+/, '');
+  if (digits.length !== 10 && digits.length !== 11) {
+    return invalid('Informe DDD + número');
+  }
+
+  const ddd = digits.slice(0, 2);
+  if (!VALID_DDDS.has(Number(ddd))) return invalid(`DDD ${ddd} inexistente`);
+
+  let number = digits.slice(2);
+  if (number.length === 9 && number[0] !== '9') {
+    return invalid('Celular com 9 dígitos deve começar com 9');
+  }
+  if (number.length === 8) {
+    if (number[0] === '0' || number[0] === '1') return invalid('Número inválido');
+    if (Number(number[0]) >= 6) number = `9${number}`;
+  }
+
+  return { valid: true, e164: `+${COUNTRY_CODE}${ddd}${number}`, ddd, number, mobile: number.length === 9, error: '' };
+};
+
+export const isValidPhone = (phone: string) => parsePhone(phone).valid;
+
+// What gets stored: E.164 when the number is valid, otherwise the text as typed
+// so nothing is lost and the record can still be flagged and fixed.
+export const normalizePhone = (phone: string) => {
+  const parsed = parsePhone(phone);
+  return parsed.valid ? parsed.e164 : (phone || '').trim();
+};
+
+// Comparable form of a phone number: DDD + number, without the country code.
+export const phoneKey = (phone: string) => {
+  const parsed = parsePhone(phone);
+  if (parsed.valid) return parsed.ddd + parsed.number;
+  const digits = phoneDigits(phone || '');
+  return digits.length >= 12 && digits.startsWith(COUNTRY_CODE) ? digits.slice(2) : digits;
+};
+
+// (11) 98765-4321 for mobiles, (11) 3456-7890 for landlines
+export const formatPhone = (phone: string) => {
+  const parsed = parsePhone(phone);
+  if (!parsed.valid) return phone || '';
+  const split = parsed.number.length - 4;
+  return `(${parsed.ddd}) ${parsed.number.slice(0, split)}-${parsed.number.slice(split)}`;
+};
+
+// Invalid numbers still get a link with their digits, as before, so the
+// user can try anyway; the UI flags them separately.
+export const whatsappUrl = (phone: string, message?: string) => {
+  const parsed = parsePhone(phone);
+  const target = parsed.valid ? parsed.e164.slice(1) : phoneDigits(phone || '');
+  return `https://wa.me/${target}${message !== undefined ? `?text=${encodeURIComponent(message)}` : ''}`;
+};
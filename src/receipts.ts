@@ -0,0 +1,257 @@
+import { Customer, Plan, Renewal, Server, PaymentMethod } from './types';
+import { format } from 'date-fns';
+import { getSetting, putSetting } from './db';
+import { parseLocalDate } from './dates';
+import { formatPhone } from './phone';
+import { PAYMENT_METHOD_LABELS } from './renewal';
+import { jpegToPdf } from './pdf';
+import { renewalBalance } from './debts';
+
+// Business details printed on every receipt
+export interface ReceiptBranding {
+  businessName: string;
+  contact?: string; // WhatsApp, Instagram... shown under the name
+  logo?: string; // Data URL, already scaled down
+}
+
+export const DEFAULT_BRANDING: ReceiptBranding = { businessName: 'ARF Canais' };
+
+// A name left blank in the settings falls back to the default
+export const getReceiptBranding = async (): Promise<ReceiptBranding> => {
+  const stored = await getSetting<ReceiptBranding>('receiptBranding');
+  return { ...stored, businessName: stored?.businessName?.trim() || DEFAULT_BRANDING.businessName };
+};
+
+export const setReceiptBranding = (branding: ReceiptBranding) => putSetting('receiptBranding', branding);
+
+// Largest side (px) of a stored logo
+const LOGO_SIZE = 256;
+
+// Reads an image file into a small PNG data URL, fit for the settings store
+export const loadLogo = (file: File) => new Promise<string>((resolve, reject) => {
+  const url = URL.createObjectURL(file);
+  const image = new Image();
+  image.onload = () => {
+    const scale = Math.min(1, LOGO_SIZE / Math.max(image.width, image.height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(image.width * scale);
+    canvas.height = Math.round(image.height * scale);
+    canvas.getContext('2d')!.drawImage(image, 0, 0, canvas.width, canvas.height);
+    URL.revokeObjectURL(url);
+    resolve(canvas.toDataURL('image/png'));
+  };
+  image.onerror = () => {
+    URL.revokeObjectURL(url);
+    reject(new Error('Imagem inválida'));
+  };
+  image.src = url;
+});
+
+export interface Receipt {
+  number: string;
+  issuedAt: string;
+  customerName: string;
+  customerPhone: string;
+  planName: string;
+  serverName: string;
+  periodFrom?: string; // Due dates before and after the renewal
+  periodTo?: string;
+  amount: number;
+  creditUsed?: number;
+  paymentMethod?: PaymentMethod;
+  balance: number; // Still owed when the renewal was not paid in full
+}
+
+// Stable for a given renewal, so a receipt issued again keeps its number
+// (and no counter has to be shared between devices).
+export const receiptNumber = (renewal: Renewal) => {
+  const date = new Date(renewal.date);
+  const day = isNaN(date.getTime()) ? '00000000' : format(date, 'yyyyMMdd');
+  return `${day}-${renewal.id.replace(/-/g, '').slice(0, 6).toUpperCase()}`;
+};
+
+export const buildReceipt = (renewal: Renewal, customer: Customer | undefined, plan: Plan | undefined, server: Server | undefined): Receipt => ({
+  number: receiptNumber(renewal),
+  issuedAt: renewal.date,
+  customerName: customer?.name || 'Cliente removido',
+  customerPhone: customer ? formatPhone(customer.phone) : '',
+  planName: plan?.name || 'Plano removido',
+  serverName: server?.name || 'Servidor removido',
+  periodFrom: renewal.previousDueDate,
+  periodTo: renewal.newDueDate,
+  amount: renewal.amount,
+  creditUsed: renewal.creditUsed,
+  paymentMethod: renewal.paymentMethod,
+  balance: renewalBalance(renewal)
+});
+
+const formatCurrency = (val: number) => new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(val);
+
+const formatDay = (value?: string) => {
+  const date = parseLocalDate(value);
+  return isNaN(date.getTime()) ? '—' : format(date, 'dd/MM/yyyy');
+};
+
+const formatIssued = (value: string) => {
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? '—' : format(date, "dd/MM/yyyy 'às' HH:mm");
+};
+
+export const receiptPeriod = (receipt: Receipt) =>
+  receipt.periodFrom ? `${formatDay(receipt.periodFrom)} → ${formatDay(receipt.periodTo)}` : `até ${formatDay(receipt.periodTo)}`;
+
+// Label/value lines of the receipt body, shared by the image and the text version
+const receiptLines = (receipt: Receipt): [string, string][] => [
+  ['Cliente', receipt.customerName],
+  ...(receipt.customerPhone ? [['Telefone', receipt.customerPhone] as [string, string]] : []),
+  ['Plano', receipt.planName],
+  ['Servidor', receipt.serverName],
+  ['Período', receiptPeriod(receipt)],
+  ['Pagamento', receipt.paymentMethod ? PAYMENT_METHOD_LABELS[receipt.paymentMethod] : 'Não informado'],
+  ...(receipt.creditUsed ? [['Crédito usado', formatCurrency(receipt.creditUsed)] as [string, string]] : []),
+  ...(receipt.balance > 0 ? [['Saldo em aberto', formatCurrency(receipt.balance)] as [string, string]] : [])
+];
+
+// Plain-text receipt, for the WhatsApp message that goes with the file
+export const receiptText = (receipt: Receipt, branding: ReceiptBranding) => [
+  `*${branding.businessName}* - Recibo nº ${receipt.number}`,
+  `Emitido em ${formatIssued(receipt.issuedAt)}`,
+  '',
+  ...receiptLines(receipt).map(([label, value]) => `${label}: ${value}`),
+  `*Valor pago: ${formatCurrency(receipt.amount)}*`
+].join('\n');
+
+const WIDTH = 1080;
+const PADDING = 80;
+const GOLD = '#c8a646';
+const DARK = '#0f0f0f';
+
+const loadImage = (src: string) => new Promise<HTMLImageElement | null>(resolve => {
+  const image = new Image();
+  image.onload = () => resolve(image);
+  image.onerror = () => resolve(null);
+  image.src = src;
+});
+
+// Cuts `text` with an ellipsis so it fits in `maxWidth`
+const fitText = (ctx: CanvasRenderingContext2D, text: string, maxWidth: number) => {
+  if (ctx.measureText(text).width <= maxWidth) return text;
+  let cut = text;
+  while (cut.length > 1 && ctx.measureText(`${cut}…`).width > maxWidth) cut = cut.slice(0, -1);
+  return `${cut}…`;
+};
+
+/**
+ * The receipt drawn on a canvas in the app's dark and gold colors: business
+ * header, receipt number, one line per detail and the amount paid.
+ */
+export const drawReceipt = async (receipt: Receipt, branding: ReceiptBranding) => {
+  const lines = receiptLines(receipt);
+  const headerHeight = 300;
+  const lineHeight = 90;
+  const height = headerHeight + 140 + lines.length * lineHeight + 340;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = WIDTH;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d')!;
+  ctx.textBaseline = 'middle';
+
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, WIDTH, height);
+
+  // Header
+  ctx.fillStyle = DARK;
+  ctx.fillRect(0, 0, WIDTH, headerHeight);
+  ctx.fillStyle = GOLD;
+  ctx.fillRect(0, headerHeight - 8, WIDTH, 8);
+
+  let nameX = PADDING;
+  const logo = branding.logo ? await loadImage(branding.logo) : null;
+  if (logo) {
+    const size = 150;
+    const scale = Math.min(size / logo.width, size / logo.height);
+    ctx.drawImage(logo, PADDING, (headerHeight - logo.height * scale) / 2, logo.width * scale, logo.height * scale);
+    nameX = PADDING + size + 40;
+  }
+  ctx.fillStyle = GOLD;
+  ctx.font = 'bold 60px sans-serif';
+  ctx.fillText(fitText(ctx, branding.businessName, WIDTH - nameX - PADDING), nameX, branding.contact ? 125 : 150);
+  if (branding.contact) {
+    ctx.fillStyle = '#9ca3af';
+    ctx.font = '34px sans-serif';
+    ctx.fillText(fitText(ctx, branding.contact, WIDTH - nameX - PADDING), nameX, 190);
+  }
+
+  // Title and number
+  let y = headerHeight + 80;
+  ctx.fillStyle = DARK;
+  ctx.font = 'bold 44px sans-serif';
+  ctx.fillText('RECIBO DE PAGAMENTO', PADDING, y);
+  ctx.textAlign = 'right';
+  ctx.fillStyle = '#6b7280';
+  ctx.font = '30px sans-serif';
+  ctx.fillText(`nº ${receipt.number}`, WIDTH - PADDING, y - 18);
+  ctx.fillText(formatIssued(receipt.issuedAt), WIDTH - PADDING, y + 22);
+  ctx.textAlign = 'left';
+
+  // Details
+  y += 60;
+  lines.forEach(([label, value]) => {
+    y += lineHeight;
+    ctx.fillStyle = '#6b7280';
+    ctx.font = '32px sans-serif';
+    ctx.fillText(label.toUpperCase(), PADDING, y);
+    ctx.fillStyle = DARK;
+    ctx.font = 'bold 38px sans-serif';
+    ctx.textAlign = 'right';
+    ctx.fillText(fitText(ctx, value, WIDTH - PADDING * 2 - 300), WIDTH - PADDING, y);
+    ctx.textAlign = 'left';
+    ctx.fillStyle = '#e5e7eb';
+    ctx.fillRect(PADDING, y + lineHeight / 2, WIDTH - PADDING * 2, 2);
+  });
+
+  // Amount
+  y += lineHeight / 2 + 50;
+  ctx.fillStyle = `${GOLD}1f`;
+  ctx.fillRect(PADDING, y, WIDTH - PADDING * 2, 140);
+  ctx.fillStyle = DARK;
+  ctx.font = 'bold 36px sans-serif';
+  ctx.fillText('VALOR PAGO', PADDING + 40, y + 70);
+  ctx.textAlign = 'right';
+  ctx.font = 'bold 64px sans-serif';
+  ctx.fillText(formatCurrency(receipt.amount), WIDTH - PADDING - 40, y + 70);
+  ctx.textAlign = 'center';
+  ctx.fillStyle = '#9ca3af';
+  ctx.font = '28px sans-serif';
+  ctx.fillText('Obrigado pela preferência!', WIDTH / 2, height - 40);
+  ctx.textAlign = 'left';
+
+  return canvas;
+};
+
+const canvasBlob = (canvas: HTMLCanvasElement, type: string, quality?: number) => new Promise<Blob>((resolve, reject) => {
+  canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('Não foi possível gerar a imagem')), type, quality);
+});
+
+export const receiptPng = (canvas: HTMLCanvasElement) => canvasBlob(canvas, 'image/png');
+
+export const receiptPdf = async (canvas: HTMLCanvasElement) => {
+  const jpeg = new Uint8Array(await (await canvasBlob(canvas, 'image/jpeg', 0.92)).arrayBuffer());
+  return jpegToPdf(jpeg, canvas.width, canvas.height);
+};
+
+export const receiptFileName = (receipt: Receipt, extension: 'png' | 'pdf') => `recibo_${receipt.number}.${extension}`;
+
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  URL.revokeObjectURL(url);
+};
+
+// Native share sheet with the file attached, where the browser supports it
+export const canShareFiles = (file: File) =>
+  typeof navigator !== 'undefined' && !!navigator.canShare && navigator.canShare({ files: [file] });
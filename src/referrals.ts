@@ -0,0 +1,92 @@
+import { Customer } from './types';
+import { addDays, format } from 'date-fns';
+import { getSetting, putSetting } from './db';
+import { parseLocalDate, isActiveOn, startOfToday } from './dates';
+
+export type ReferralRewardKind = 'days' | 'credit';
+
+// What the referrer gets once a referred customer makes its first paid renewal
+export interface ReferralReward {
+  kind: ReferralRewardKind;
+  amount: number; // Days, or R$ of account credit
+}
+
+export const DEFAULT_REFERRAL_REWARD: ReferralReward = { kind: 'days', amount: 30 };
+
+export const REWARD_KIND_LABELS: Record<ReferralRewardKind, string> = {
+  days: 'Dias grátis',
+  credit: 'Crédito (R$)'
+};
+
+export const getReferralReward = async () =>
+  (await getSetting<ReferralReward>('referralReward')) ?? DEFAULT_REFERRAL_REWARD;
+
+export const setReferralReward = (reward: ReferralReward) => putSetting('referralReward', reward);
+
+const formatCurrency = (val: number) => new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(val);
+
+export const describeReward = (reward: ReferralReward) =>
+  reward.kind === 'days' ? `${reward.amount} ${reward.amount === 1 ? 'dia' : 'dias'}` : formatCurrency(reward.amount);
+
+// Free days are added to the current due date, or to today once it has lapsed,
+// the same way a renewal counts.
+export const rewardPatch = (referrer: Customer, reward: ReferralReward, today = startOfToday()): Partial<Customer> => {
+  if (reward.kind === 'credit') return { credit: (referrer.credit || 0) + reward.amount };
+  const base = isActiveOn(referrer.dueDate, today) ? parseLocalDate(referrer.dueDate) : today;
+  return { dueDate: format(addDays(base, reward.amount), 'yyyy-MM-dd') };
+};
+
+/**
+ * The referrer to reward when `customer` pays `amount` for a renewal, if any:
+ * only the first paid renewal of a referred customer counts, and only while
+ * the referrer is still around.
+ */
+export const referrerToReward = (customer: Customer, amount: number, customers: Customer[], reward: ReferralReward) => {
+  if (!customer.referredBy || customer.referralRewardedAt || amount <= 0 || reward.amount <= 0) return null;
+  return customers.find(c => c.id === customer.referredBy && !c.deletedAt) || null;
+};
+
+export interface ReferralNode {
+  customer: Customer;
+  children: ReferralNode[];
+}
+
+// Everyone referred by `rootId`, directly or further down. Ids already on the
+// path are skipped so a bad cycle in the data cannot loop forever.
+export const referralTree = (rootId: string, customers: Customer[], path: string[] = [rootId]): ReferralNode[] =>
+  customers
+    .filter(c => c.referredBy === rootId && !path.includes(c.id))
+    .sort((a, b) => a.name.localeCompare(b.name))
+    .map(customer => ({ customer, children: referralTree(customer.id, customers, [...path, customer.id]) }));
+
+export const countTree = (nodes: ReferralNode[]): number =>
+  nodes.reduce((sum, node) => sum + 1 + countTree(node.children), 0);
+
+// Customers that can be picked as the referrer of `customer` (not itself nor anyone below it)
+export const referrerOptions = (customers: Customer[], customerId?: string) => {
+  if (!customerId) return customers;
+  const below = new Set<string>();
+  const walk = (nodes: ReferralNode[]) => nodes.forEach(node => { below.add(node.customer.id); walk(node.children); });
+  walk(referralTree(customerId, customers));
+  return customers.filter(c => c.id !== customerId && !below.has(c.id));
+};
+
+export interface LeaderboardRow {
+  customer: Customer;
+  referred: number;
+  converted: number; // Referrals that already paid, i.e. rewards earned
+}
+
+export const referralLeaderboard = (customers: Customer[]): LeaderboardRow[] => {
+  const rows = new Map<string, LeaderboardRow>();
+  customers.forEach(c => {
+    if (!c.referredBy) return;
+    const referrer = customers.find(r => r.id === c.referredBy);
+    if (!referrer) return;
+    const row = rows.get(referrer.id) || { customer: referrer, referred: 0, converted: 0 };
+    row.referred += 1;
+    if (c.referralRewardedAt) row.converted += 1;
+    rows.set(referrer.id, row);
+  });
+  return [...rows.values()].sort((a, b) => b.converted - a.converted || b.referred - a.referred || a.customer.name.localeCompare(b.customer.name));
+};
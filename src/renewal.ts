@@ -0,0 +1,66 @@
+import { Customer, Plan, Renewal, Server, PaymentMethod } from './types';
+import { addMonths, format } from 'date-fns';
+import { parseLocalDate, isActiveOn, startOfToday } from './dates';
+
+export interface RenewalInput {
+  serverId: string;
+  planId: string;
+  amount: number;
+  creditUsed?: number; // Taken from the customer's account credit, on top of `amount`
+  paymentMethod?: PaymentMethod;
+  amountDue?: number; // What the renewal costs when only part of it (`amount`) is paid now
+}
+
+export const PAYMENT_METHOD_LABELS: Record<PaymentMethod, string> = {
+  pix: 'Pix',
+  cash: 'Dinheiro',
+  card: 'Cartão',
+  transfer: 'Transferência'
+};
+
+export const DEFAULT_PAYMENT_METHOD: PaymentMethod = 'pix';
+
+// Splits a price between the customer's account credit and what is paid now.
+export const payWithCredit = (price: number, credit = 0) => {
+  const creditUsed = Math.max(0, Math.min(credit, price));
+  return { amount: price - creditUsed, creditUsed };
+};
+
+// Due date after renewing: counted from the current due date while the
+// customer is still active, from today once it has lapsed.
+export const nextDueDate = (customer: Customer, plan: Plan, today = startOfToday()) => {
+  const base = isActiveOn(customer.dueDate, today) ? parseLocalDate(customer.dueDate) : today;
+  return format(addMonths(base, plan.months), 'yyyy-MM-dd');
+};
+
+// The customer update and the renewal record that together make up one renewal.
+export const buildRenewal = (customer: Customer, plan: Plan, server: Server | undefined, input: RenewalInput, today = startOfToday()) => {
+  const dueDate = nextDueDate(customer, plan, today);
+  const price = Math.max(input.amount, input.amountDue ?? 0);
+  const customerPatch: Partial<Customer> = {
+    serverId: input.serverId,
+    planId: input.planId,
+    amountPaid: price,
+    dueDate
+  };
+  const creditUsed = Math.min(input.creditUsed || 0, customer.credit || 0);
+  if (creditUsed > 0) {
+    const remaining = (customer.credit || 0) - creditUsed;
+    customerPatch.credit = remaining > 0 ? remaining : undefined;
+    customerPatch.amountPaid = price + creditUsed;
+  }
+  const renewal: Omit<Renewal, 'id'> = {
+    customerId: customer.id,
+    serverId: input.serverId,
+    planId: input.planId,
+    amount: input.amount,
+    cost: (server?.costPerActive || 0) * plan.months,
+    date: new Date().toISOString(),
+    previousDueDate: customer.dueDate,
+    newDueDate: dueDate,
+    creditUsed: creditUsed > 0 ? creditUsed : undefined,
+    paymentMethod: input.paymentMethod,
+    amountDue: price > input.amount ? price : undefined
+  };
+  return { customerPatch, renewal };
+};
@@ -0,0 +1,36 @@
+import { AppData, AuditChange, EntityRecord } from './types';
+
+const stampOf = (record: EntityRecord | null) =>
+  record && 'updatedAt' in record ? record.updatedAt || '' : '';
+
+const findLocal = (current: AppData, change: AuditChange): EntityRecord | null => {
+  if (change.entity === 'settings') {
+    return change.id === 'whatsappMessage' ? { id: change.id, value: current.whatsappMessage } : null;
+  }
+  return (current[change.entity] as EntityRecord[]).find(item => item.id === change.id) || null;
+};
+
+// Decides, record by record, which changes made elsewhere (another tab, the sync
+// server) win over the local copy. Upserts win when they are at least as recent
+// as the local record; deletions only win when the local record was not edited
+// after the version that was deleted. The returned changes have `before` set to
+// the local record so they can be applied directly.
+export const mergeIncoming = (current: AppData, changes: AuditChange[]) => {
+  const accepted: AuditChange[] = [];
+  changes.forEach(c => {
+    const local = findLocal(current, c);
+    if (c.entity === 'settings') {
+      if (c.after && JSON.stringify(local) !== JSON.stringify(c.after)) accepted.push({ ...c, before: local });
+      return;
+    }
+    if (c.after) {
+      if (local && stampOf(local) > stampOf(c.after)) return;
+      if (local && JSON.stringify(local) === JSON.stringify(c.after)) return;
+      accepted.push({ ...c, before: local });
+    } else if (local) {
+      if (stampOf(local) > stampOf(c.before)) return;
+      accepted.push({ ...c, before: local });
+    }
+  });
+  return accepted;
+};
@@ -0,0 +1,125 @@
+import { AppData, CollectionName } from './types';
+import { openDb, readStore, readRecord, sealRecords, transactionDone, getSetting, putSetting, COLLECTIONS } from './db';
+import { v4 as uuidv4 } from 'uuid';
+import { format, startOfWeek } from 'date-fns';
+
+export type RestorePointReason = 'daily' | 'manual' | 'clearAll' | 'import' | 'restore';
+
+export const REASON_LABELS: Record<RestorePointReason, string> = {
+  daily: 'Automático diário',
+  manual: 'Manual',
+  clearAll: 'Antes de Limpar Tudo',
+  import: 'Antes de importar backup',
+  restore: 'Antes de restaurar'
+};
+
+export interface RestorePoint {
+  id: string;
+  createdAt: string;
+  reason: RestorePointReason;
+  counts: Record<CollectionName, number>;
+}
+
+export interface RetentionPolicy {
+  daily: number;  // Days (with restore points) kept in full
+  weekly: number; // Older weeks kept as their newest point
+}
+
+export const DEFAULT_RETENTION: RetentionPolicy = { daily: 7, weekly: 4 };
+
+export const getRetentionPolicy = async () =>
+  (await getSetting<RetentionPolicy>('retentionPolicy')) || DEFAULT_RETENTION;
+
+export const setRetentionPolicy = (policy: RetentionPolicy) => putSetting('retentionPolicy', policy);
+
+// Newest first
+export const listRestorePoints = async () => {
+  const points = await readStore<RestorePoint>('restorePoints');
+  return points.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+};
+
+export const getRestorePointData = async (id: string) => {
+  const record = await readRecord<{ id: string; data: AppData }>('restorePointData', id);
+  if (!record) throw new Error('Ponto de restauração não encontrado.');
+  return record.data as AppData;
+};
+
+// Every point of the newest `daily` days survives; beyond that, only the newest
+// point of each of the next `weekly` weeks does.
+export const selectRetained = (points: RestorePoint[], policy: RetentionPolicy) => {
+  const sorted = points.slice().sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  const keep = new Set<string>();
+  const days: string[] = [];
+  const weeks = new Set<string>();
+
+  sorted.forEach(point => {
+    const date = new Date(point.createdAt);
+    const day = format(date, 'yyyy-MM-dd');
+    if (days.includes(day) || days.length < policy.daily) {
+      if (!days.includes(day)) days.push(day);
+      keep.add(point.id);
+      return;
+    }
+    const week = format(startOfWeek(date), 'yyyy-MM-dd');
+    if (!weeks.has(week) && weeks.size < policy.weekly) {
+      weeks.add(week);
+      keep.add(point.id);
+    }
+  });
+
+  return keep;
+};
+
+export const pruneRestorePoints = async () => {
+  const [points, policy] = await Promise.all([listRestorePoints(), getRetentionPolicy()]);
+  const keep = selectRetained(points, policy);
+  const expired = points.filter(p => !keep.has(p.id));
+  if (expired.length === 0) return;
+
+  const db = await openDb();
+  const tx = db.transaction(['restorePoints', 'restorePointData'], 'readwrite');
+  expired.forEach(p => {
+    tx.objectStore('restorePoints').delete(p.id);
+    tx.objectStore('restorePointData').delete(p.id);
+  });
+  await transactionDone(tx);
+};
+
+export const createRestorePoint = async (data: AppData, reason: RestorePointReason) => {
+  const point: RestorePoint = {
+    id: uuidv4(),
+    createdAt: new Date().toISOString(),
+    reason,
+    counts: Object.fromEntries(COLLECTIONS.map(name => [name, data[name].length])) as Record<CollectionName, number>
+  };
+
+  const [payload] = await sealRecords('restorePointData', [{ id: point.id, data }]);
+  const db = await openDb();
+  const tx = db.transaction(['restorePoints', 'restorePointData'], 'readwrite');
+  tx.objectStore('restorePoints').put(point);
+  tx.objectStore('restorePointData').put(payload);
+  await transactionDone(tx);
+
+  await pruneRestorePoints();
+  return point;
+};
+
+const isEmpty = (data: AppData) => data.customers.length === 0 && data.renewals.length === 0;
+
+let dailyCheck: Promise<RestorePoint | null> | null = null;
+
+// Takes today's automatic point unless one already exists. Empty datasets are
+// skipped so a fresh start never pushes older real data out of retention.
+
+export const ensureDailyRestorePoint = (data: AppData) => {
+  if (isEmpty(data)) return Promise.resolve(null);
+  if (!dailyCheck) {
+    dailyCheck = (async () => {
+      const today = format(new Date(), 'yyyy-MM-dd');
+      const points = await listRestorePoints();
+      const hasToday = points.some(p => p.reason === 'daily' && format(new Date(p.createdAt), 'yyyy-MM-dd') === today);
+      return hasToday ? null : createRestorePoint(data, 'daily');
+    })().finally(() => { dailyCheck = null; });
+  }
+  return dailyCheck;
+};
@@ -0,0 +1,122 @@
+import { useState, useEffect } from 'react';
+import { Customer, LifecycleState } from './types';
+import { getSetting, putSetting } from './db';
+import { differenceInDays } from 'date-fns';
+import { parseLocalDate, isActiveOn } from './dates';
+import { Lifecycles, isActiveState } from './lifecycle';
+
+export type CustomerStatus = 'active' | 'expired';
+
+/**
+ * Conditions for picking customers; every condition that is set must match.
+ * Dates are YYYY-MM-DD, like `Customer.dueDate`.
+ */
+export interface CustomerFilter {
+  tags?: string[]; // Customer must have all of them
+  serverId?: string;
+  planId?: string;
+  status?: CustomerStatus;
+  lifecycle?: LifecycleState;
+  dueFrom?: string;
+  dueTo?: string;
+  amountMin?: number;
+  amountMax?: number;
+  overdueMin?: number;
+  overdueMax?: number;
+}
+
+export interface Segment {
+  id: string;
+  name: string;
+  filter: CustomerFilter;
+  createdAt: string;
+}
+
+export const STATUS_LABELS: Record<CustomerStatus, string> = {
+  active: 'Ativos',
+  expired: 'Vencidos'
+};
+
+export const TAG_SUGGESTIONS = ['família', 'revendedor', 'pagador atrasado', 'indicação'];
+
+export const normalizeTag = (tag: string) => tag.trim().replace(/\s+/g, ' ').toLowerCase();
+
+// Every tag in use, most used first, for pickers and suggestions.
+export const allTags = (customers: Customer[]) => {
+  const counts = new Map<string, number>();
+  customers.forEach(c => c.tags?.forEach(tag => counts.set(tag, (counts.get(tag) || 0) + 1)));
+  return [...counts.keys()].sort((a, b) => counts.get(b)! - counts.get(a)! || a.localeCompare(b));
+};
+
+export const daysOverdue = (customer: Customer, today: Date) =>
+  Math.max(0, differenceInDays(today, parseLocalDate(customer.dueDate)));
+
+// `state` is the customer's lifecycle state, when known (see lifecycle.ts)
+export const matchesFilter = (customer: Customer, filter: CustomerFilter, today: Date, state?: LifecycleState) => {
+  if (filter.tags?.length && !filter.tags.every(tag => customer.tags?.includes(tag))) return false;
+  if (filter.serverId && customer.serverId !== filter.serverId) return false;
+  if (filter.planId && customer.planId !== filter.planId) return false;
+  if (filter.status) {
+    const active = state ? isActiveState(state) : isActiveOn(customer.dueDate, today);
+    if ((active ? 'active' : 'expired') !== filter.status) return false;
+  }
+  if (filter.lifecycle && state !== filter.lifecycle) return false;
+  if (filter.dueFrom && !(customer.dueDate >= filter.dueFrom)) return false;
+  if (filter.dueTo && !(customer.dueDate <= filter.dueTo)) return false;
+  if (filter.amountMin !== undefined && customer.amountPaid < filter.amountMin) return false;
+  if (filter.amountMax !== undefined && customer.amountPaid > filter.amountMax) return false;
+  if (filter.overdueMin !== undefined || filter.overdueMax !== undefined) {
+    const overdue = daysOverdue(customer, today);
+    if (filter.overdueMin !== undefined && overdue < filter.overdueMin) return false;
+    if (filter.overdueMax !== undefined && overdue > filter.overdueMax) return false;
+  }
+  return true;
+};
+
+export const applyFilter = (customers: Customer[], filter: CustomerFilter, today: Date, lifecycles?: Lifecycles) =>
+  customers.filter(c => matchesFilter(c, filter, today, lifecycles?.get(c.id)));
+
+// Number of conditions set, shown on the filter button.
+export const countConditions = (filter: CustomerFilter) => {
+  let count = filter.tags?.length ? 1 : 0;
+  if (filter.serverId) count++;
+  if (filter.planId) count++;
+  if (filter.status) count++;
+  if (filter.lifecycle) count++;
+  if (filter.dueFrom || filter.dueTo) count++;
+  if (filter.amountMin !== undefined || filter.amountMax !== undefined) count++;
+  if (filter.overdueMin !== undefined || filter.overdueMax !== undefined) count++;
+  return count;
+};
+
+export const sameFilter = (a: CustomerFilter, b: CustomerFilter) =>
+  JSON.stringify(a, Object.keys(a).sort()) === JSON.stringify(b, Object.keys(b).sort());
+
+const getSegments = async () => (await getSetting<Segment[]>('segments')) || [];
+
+// Saved segments are a device setting, like the trash retention.
+export const useSegments = () => {
+  const [segments, setSegments] = useState<Segment[]>([]);
+
+  useEffect(() => {
+    getSegments()
+      .then(setSegments)
+      .catch(err => console.error('Erro ao carregar segmentos:', err));
+  }, []);
+
+  const persist = (next: Segment[]) => {
+    setSegments(next);
+    putSetting('segments', next).catch(err => console.error('Erro ao salvar segmentos:', err));
+  };
+
+  const saveSegment = (segment: Segment) => {
+    const exists = segments.some(s => s.id === segment.id);
+    persist(exists ? segments.map(s => s.id === segment.id ? segment : s) : [...segments, segment]);
+  };
+
+  const deleteSegment = (id: string) => persist(segments.filter(s => s.id !== id));
+
+  return { segments, saveSegment, deleteSegment };
+};
+
+export type Segments = ReturnType<typeof useSegments>;
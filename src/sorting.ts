@@ -0,0 +1,74 @@
+import { Customer, Server } from './types';
+import { parseLocalDate } from './dates';
+import { daysOverdue } from './segments';
+
+export type SortKey = 'dueDate' | 'name' | 'amount' | 'server' | 'overdue' | 'lifetimeValue';
+export type SortDirection = 'asc' | 'desc';
+
+export interface CustomerSort {
+  key: SortKey;
+  direction: SortDirection;
+}
+
+export const SORT_LABELS: Record<SortKey, string> = {
+  dueDate: 'Vencimento',
+  name: 'Nome',
+  amount: 'Valor',
+  server: 'Servidor',
+  overdue: 'Dias vencido',
+  lifetimeValue: 'Valor total pago'
+};
+
+// Direction picked when switching to a key: the most useful end first
+export const DEFAULT_DIRECTIONS: Record<SortKey, SortDirection> = {
+  dueDate: 'asc',
+  name: 'asc',
+  amount: 'desc',
+  server: 'asc',
+  overdue: 'desc',
+  lifetimeValue: 'desc'
+};
+
+export const DEFAULT_SORT: CustomerSort = { key: 'dueDate', direction: 'asc' };
+
+// Lookups shared by every comparison, built once per sort
+export interface SortContext {
+  servers: Map<string, Server>;
+  lifetimeValues: Map<string, { value: number }>;
+  today: Date;
+}
+
+const byName = (a: Customer, b: Customer) => a.name.localeCompare(b.name, 'pt-BR');
+
+/**
+ * Sorted copy of `customers`. Customers with an invalid due date go last
+ * whichever the direction, and ties fall back to the name.
+ */
+export const sortCustomers = (customers: Customer[], sort: CustomerSort, context: SortContext) => {
+  const sign = sort.direction === 'asc' ? 1 : -1;
+  const serverName = (c: Customer) => context.servers.get(c.serverId)?.name || '';
+
+  const keyed = customers.map(customer => {
+    const due = parseLocalDate(customer.dueDate).getTime();
+    let value: number | string;
+    switch (sort.key) {
+      case 'dueDate': value = due; break;
+      case 'name': value = ''; break;
+      case 'amount': value = customer.amountPaid; break;
+      case 'server': value = serverName(customer); break;
+      case 'overdue': value = daysOverdue(customer, context.today); break;
+      case 'lifetimeValue': value = context.lifetimeValues.get(customer.id)?.value || 0; break;
+    }
+    return { customer, value, invalid: isNaN(due) };
+  });
+
+  return keyed
+    .sort((a, b) => {
+      if (a.invalid !== b.invalid) return a.invalid ? 1 : -1;
+      const diff = typeof a.value === 'string'
+        ? a.value.localeCompare(b.value as string, 'pt-BR')
+        : (a.value as number) - (b.value as number);
+      return (diff || (sort.key === 'name' ? byName(a.customer, b.customer) : 0)) * sign || byName(a.customer, b.customer);
+    })
+    .map(item => item.customer);
+};
@@ -0,0 +1,116 @@
+import { Customer, Server, Plan, Renewal } from './types';
+import { differenceInDays, format } from 'date-fns';
+import * as XLSX from 'xlsx';
+import { parseLocalDate, isActiveOn, startOfToday } from './dates';
+import { formatPhone } from './phone';
+
+export const SHEET_NAME = 'Clientes';
+
+export type ExportFormat = 'xlsx' | 'csv';
+
+export interface SheetContext {
+  servers: Server[];
+  plans: Plan[];
+  renewals: Renewal[];
+  today: Date;
+}
+
+export interface SheetColumn {
+  id: string;
+  header: string;
+  // Computed columns are for reading only; the importer has no field for them
+  derived?: boolean;
+  value: (customer: Customer, context: SheetContext) => string | number;
+}
+
+const formatDate = (value: string) => {
+  const date = parseLocalDate(value);
+  return isNaN(date.getTime()) ? '' : format(date, 'dd/MM/yyyy');
+};
+
+/**
+ * Column layout shared by the template, the import and the export, so an
+ * exported sheet can be imported back as-is. Derived headers avoid the words
+ * the importer looks for when suggesting a mapping.
+ */
+export const SHEET_COLUMNS: SheetColumn[] = [
+  { id: 'name', header: 'Nome', value: c => c.name },
+  { id: 'phone', header: 'Telefone', value: c => formatPhone(c.phone) },
+  { id: 'server', header: 'Servidor', value: (c, { servers }) => servers.find(s => s.id === c.serverId)?.name || '' },
+  { id: 'plan', header: 'Plano', value: (c, { plans }) => plans.find(p => p.id === c.planId)?.name || '' },
+  { id: 'amount', header: 'Valor', value: c => c.amountPaid },
+  { id: 'dueDate', header: 'Vencimento (DD/MM/AAAA)', value: c => formatDate(c.dueDate) },
+  { id: 'username', header: 'Usuário', value: c => c.username || '' },
+  { id: 'password', header: 'Senha', value: c => c.password || '' },
+  { id: 'screens', header: 'Telas', value: c => c.screens ?? '' },
+  { id: 'device', header: 'Dispositivo/App', value: c => c.device || '' },
+  { id: 'macAddress', header: 'MAC', value: c => c.macAddress || '' },
+  { id: 'notes', header: 'Observações', value: c => c.notes || '' },
+  { id: 'tags', header: 'Etiquetas', value: c => c.tags?.join(', ') || '' },
+  {
+    id: 'status', header: 'Situação', derived: true,
+    value: (c, { today }) => isActiveOn(c.dueDate, today) ? 'Ativo' : 'Vencido'
+  },
+  {
+    id: 'daysToDue', header: 'Dias restantes', derived: true,
+    value: (c, { today }) => {
+      const due = parseLocalDate(c.dueDate);
+      return isNaN(due.getTime()) ? '' : differenceInDays(due, today);
+    }
+  },
+  {
+    id: 'lifetimePaid', header: 'Total pago', derived: true,
+    value: (c, { renewals }) => renewals.filter(r => r.customerId === c.id).reduce((sum, r) => sum + r.amount, 0)
+  },
+  {
+    id: 'renewalCount', header: 'Renovações', derived: true,
+    value: (c, { renewals }) => renewals.filter(r => r.customerId === c.id).length
+  }
+];
+
+export const CUSTOMER_HEADERS = SHEET_COLUMNS.filter(c => !c.derived).map(c => c.header);
+
+export const DEFAULT_EXPORT_COLUMNS = SHEET_COLUMNS.filter(c => !c.derived).map(c => c.id);
+
+export const DEVICE_SUGGESTIONS = ['Smart TV', 'TV Box', 'Fire Stick', 'Celular', 'Computador', 'IBO Player', 'XCloud', 'Smarters', 'SS IPTV'];
+
+const downloadText = (content: string, fileName: string, type: string) => {
+  const blob = new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  URL.revokeObjectURL(url);
+};
+
+// CSV uses ";" and a BOM, which is what Excel expects for Brazilian locales.
+export const writeSheet = (rows: (string | number)[][], fileName: string, fileFormat: ExportFormat = 'xlsx') => {
+  const ws = XLSX.utils.aoa_to_sheet(rows);
+  if (fileFormat === 'csv') {
+    downloadText('\ufeff' + XLSX.utils.sheet_to_csv(ws, { FS: ';' }), fileName, 'text/csv;charset=utf-8');
+    return;
+  }
+  const wb = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(wb, ws, SHEET_NAME);
+  XLSX.writeFile(wb, fileName);
+};
+
+export const customerRows = (customers: Customer[], columns: SheetColumn[], context: SheetContext) => [
+  columns.map(c => c.header),
+  ...customers.map(customer => columns.map(column => column.value(customer, context)))
+];
+
+export const exportCustomers = (
+  customers: Customer[],
+  context: Omit<SheetContext, 'today'>,
+  columnIds: string[] = DEFAULT_EXPORT_COLUMNS,
+  fileFormat: ExportFormat = 'xlsx'
+) => {
+  const columns = SHEET_COLUMNS.filter(c => columnIds.includes(c.id));
+  writeSheet(
+    customerRows(customers, columns, { ...context, today: startOfToday() }),
+    `clientes_${format(new Date(), 'yyyy-MM-dd')}.${fileFormat}`,
+    fileFormat
+  );
+};
@@ -1,140 +1,758 @@
-import { useState, useEffect } from 'react';
-import { Customer, Server, Plan, Renewal, ManualAddition } from './types';
+import { useState, useEffect, useRef, useMemo } from 'react';
+import { AppData, AuditChange, AuditEntry, Customer, Server, Plan, Renewal, ManualAddition, PaymentMethod, CollectionName, EntityRecord } from './types';
 import { v4 as uuidv4 } from 'uuid';
+import { loadAll, readCollections, saveCollectionDiff, putSetting, appendAuditEntry, requestPersistentStorage, COLLECTIONS, DEFAULT_WHATSAPP_MESSAGE } from './db';
+import { change, changedFields, fieldValue } from './audit';
+import { ensureDailyRestorePoint } from './restorePoints';
+import { createTabSync, TabSync } from './tabSync';
+import { mergeIncoming } from './replication';
+import { findReferences, hasReferences, ReferencedCollection } from './integrity';
+import { getTrashRetentionDays, expiredTrash } from './trash';
+import { buildRenewal, RenewalInput } from './renewal';
+import { startOfToday, parseLocalDate } from './dates';
+import { BulkAction, BULK_AUDIT_ACTIONS, bulkPatch } from './bulk';
+import { ImportPlan } from './importer';
+import { TRIAL_EXPIRY_CHECK_MS, dueForExpiry, isOpenTrial } from './trials';
+import { ReferralReward, DEFAULT_REFERRAL_REWARD, getReferralReward, setReferralReward, referrerToReward, rewardPatch } from './referrals';
+import { LifecycleThresholds, DEFAULT_LIFECYCLE_THRESHOLDS, getLifecycleThresholds, setLifecycleThresholds, computeLifecycles } from './lifecycle';
+import { format } from 'date-fns';
+import { useSyncEngine } from './sync';
+import { customerBalances, openRenewals, allocatePayment } from './debts';
 
-export const useStore = () => {
-  const [customers, setCustomers] = useState<Customer[]>(() => {
-    const saved = localStorage.getItem('arf_customers');
-    return saved ? JSON.parse(saved) : [];
-  });
+const now = () => new Date().toISOString();
 
-  const [servers, setServers] = useState<Server[]>(() => {
-    const saved = localStorage.getItem('arf_servers');
-    return saved ? JSON.parse(saved) : [];
-  });
+// How many steps can be undone within a session
+const MAX_UNDO = 50;
 
-  const [plans, setPlans] = useState<Plan[]>(() => {
-    const saved = localStorage.getItem('arf_plans');
-    const defaultPlans = [
-      { id: '1', name: 'Mensal', months: 1, defaultPrice: 30 },
-      { id: '2', name: 'Trimestral', months: 3, defaultPrice: 80 },
-      { id: 'gratuito', name: 'Gratuito', months: 1, defaultPrice: 0 }
-    ];
-    if (!saved) return defaultPlans;
-    const loaded = JSON.parse(saved);
-    // Ensure 'Gratuito' is always there
-    if (!loaded.find((p: Plan) => p.id === 'gratuito')) {
-      return [...loaded, { id: 'gratuito', name: 'Gratuito', months: 1, defaultPrice: 0 }];
+// How often the daily restore point is checked while the app stays open
+const RESTORE_POINT_CHECK_MS = 60 * 60 * 1000;
+
+// How often expired customers are purged from the trash
+const TRASH_PURGE_CHECK_MS = 60 * 60 * 1000;
+
+// How often the current day is checked, so lifecycle states follow the calendar
+const LIFECYCLE_DAY_CHECK_MS = 60 * 60 * 1000;
+
+// Lifecycle changes are recorded once the data has settled after an edit
+const LIFECYCLE_RECORD_DELAY_MS = 2000;
+
+const reportPersistError = (err: unknown) => console.error('Erro ao salvar dados:', err);
+
+// Mirrors a collection into IndexedDB once the initial load has finished.
+const usePersistedCollection = <T extends { id: string }>(name: CollectionName, items: T[], ready: boolean) => {
+  const persisted = useRef<T[] | null>(null);
+  useEffect(() => {
+    if (!ready) return;
+    if (persisted.current && persisted.current !== items) {
+      saveCollectionDiff(name, persisted.current, items).catch(reportPersistError);
     }
-    return loaded;
-  });
+    persisted.current = items;
+  }, [name, items, ready]);
+};
 
-  const [renewals, setRenewals] = useState<Renewal[]>(() => {
-    const saved = localStorage.getItem('arf_renewals');
-    return saved ? JSON.parse(saved) : [];
+// Applies record-level changes to a collection, keeping untouched records as-is.
+const applyToCollection = <T extends { id: string }>(items: T[], changes: AuditChange[]) => {
+  if (changes.length === 0) return items;
+  const byId = new Map(changes.map(c => [c.id, c]));
+  const next: T[] = [];
+  items.forEach(item => {
+    const c = byId.get(item.id);
+    if (!c) {
+      next.push(item);
+    } else {
+      byId.delete(item.id);
+      if (c.after) next.push(c.after as unknown as T);
+    }
   });
+  byId.forEach(c => { if (c.after) next.push(c.after as unknown as T); });
+  return next;
+};
 
-  const [manualAdditions, setManualAdditions] = useState<ManualAddition[]>(() => {
-    const saved = localStorage.getItem('arf_manual_additions');
-    return saved ? JSON.parse(saved) : [];
+// Every change between two versions of a collection, matched by id.
+const diffCollection = <T extends EntityRecord>(entity: CollectionName, prev: T[], next: T[]) => {
+  const prevById = new Map(prev.map(item => [item.id, item]));
+  const nextIds = new Set(next.map(item => item.id));
+  const changes: AuditChange[] = [];
+  next.forEach(item => {
+    const before = prevById.get(item.id) || null;
+    if (before !== item) changes.push(change(entity, before, item));
   });
-
-  const [whatsappMessage, setWhatsappMessage] = useState<string>(() => {
-    return localStorage.getItem('arf_message_v2') ||
-      'Olá {nome}! Seu acesso está vencendo {dias} ({vencimento}). O valor para renovação é {valor}. Como deseja prosseguir?';
+  prev.forEach(item => {
+    if (!nextIds.has(item.id)) changes.push(change(entity, item, null));
   });
+  return changes;
+};
 
-  // Persistence
-  useEffect(() => {
-    localStorage.setItem('arf_customers', JSON.stringify(customers));
-  }, [customers]);
+// Worked out again from the data, so undo and redo leave them alone
+const DERIVED_FIELDS = ['lifecycle', 'lifecycleSince'];
 
-  useEffect(() => {
-    localStorage.setItem('arf_servers', JSON.stringify(servers));
-  }, [servers]);
+const editedFields = (c: AuditChange) => changedFields(c).filter(field => !DERIVED_FIELDS.includes(field));
+
+const invertChanges = (changes: AuditChange[]) =>
+  changes.slice().reverse().map(c => ({ ...c, before: c.after, after: c.before }));
+
+export const useStore = () => {
+  const [loading, setLoading] = useState(true);
+  const [customers, setCustomers] = useState<Customer[]>([]);
+  const [servers, setServers] = useState<Server[]>([]);
+  const [plans, setPlans] = useState<Plan[]>([]);
+  const [renewals, setRenewals] = useState<Renewal[]>([]);
+  const [manualAdditions, setManualAdditions] = useState<ManualAddition[]>([]);
+  const [whatsappMessage, setWhatsappMessageState] = useState<string>(DEFAULT_WHATSAPP_MESSAGE);
+  const [referralReward, setReferralRewardState] = useState<ReferralReward>(DEFAULT_REFERRAL_REWARD);
+  const [lifecycleThresholds, setLifecycleThresholdsState] = useState<LifecycleThresholds>(DEFAULT_LIFECYCLE_THRESHOLDS);
+  const [today, setToday] = useState(() => format(new Date(), 'yyyy-MM-dd'));
+
+  const [undoStack, setUndoStack] = useState<AuditEntry[]>([]);
+  const [redoStack, setRedoStack] = useState<AuditEntry[]>([]);
+  const [auditRevision, setAuditRevision] = useState(0);
+
+  // Latest data, readable synchronously by actions. Updated eagerly on every
+  // commit so several actions fired in the same event see each other's changes.
+  const dataRef = useRef<AppData>({ customers, servers, plans, renewals, manualAdditions, whatsappMessage });
+  dataRef.current = { customers, servers, plans, renewals, manualAdditions, whatsappMessage };
 
   useEffect(() => {
-    localStorage.setItem('arf_plans', JSON.stringify(plans));
-  }, [plans]);
+    let cancelled = false;
+    loadAll()
+      .then(data => {
+        if (cancelled) return;
+        setCustomers(data.customers);
+        setServers(data.servers);
+        setPlans(data.plans);
+        setRenewals(data.renewals);
+        setManualAdditions(data.manualAdditions);
+        setWhatsappMessageState(data.whatsappMessage);
+        setLoading(false);
+      })
+      .catch(err => {
+        console.error('Erro ao carregar dados:', err);
+        alert('Não foi possível abrir o banco de dados local. Verifique se o navegador permite armazenamento.');
+      });
+    requestPersistentStorage().catch(() => undefined);
+    getReferralReward().then(reward => { if (!cancelled) setReferralRewardState(reward); }).catch(() => undefined);
+    getLifecycleThresholds().then(thresholds => { if (!cancelled) setLifecycleThresholdsState(thresholds); }).catch(() => undefined);
+    return () => { cancelled = true; };
+  }, []);
+
+  // Persistence
+  usePersistedCollection('customers', customers, !loading);
+  usePersistedCollection('servers', servers, !loading);
+  usePersistedCollection('plans', plans, !loading);
+  usePersistedCollection('renewals', renewals, !loading);
+  usePersistedCollection('manualAdditions', manualAdditions, !loading);
 
   useEffect(() => {
-    localStorage.setItem('arf_renewals', JSON.stringify(renewals));
-  }, [renewals]);
+    if (loading) return;
+    putSetting('whatsappMessage', whatsappMessage).catch(reportPersistError);
+  }, [whatsappMessage, loading]);
 
+  // Automatic daily restore point, checked at startup and then periodically
   useEffect(() => {
-    localStorage.setItem('arf_manual_additions', JSON.stringify(manualAdditions));
-  }, [manualAdditions]);
+    if (loading) return;
+    const check = () => {
+      ensureDailyRestorePoint(dataRef.current).catch(err => console.error('Erro ao criar ponto de restauração:', err));
+    };
+    check();
+    const timer = setInterval(check, RESTORE_POINT_CHECK_MS);
+    return () => clearInterval(timer);
+  }, [loading]);
+
+  // Open trials live in their own list and stay out of every customer count
+  const visibleCustomers = useMemo(() => customers.filter(c => !c.deletedAt && !isOpenTrial(c)), [customers]);
+  const trials = useMemo(() => customers.filter(c => !c.deletedAt && isOpenTrial(c)), [customers]);
+  const trashedCustomers = useMemo(() => customers.filter(c => c.deletedAt), [customers]);
+
+  // What every visible customer still owes; debts of trashed customers stay out of the totals
+  const balances = useMemo(() => {
+    const visible = new Set(visibleCustomers.map(c => c.id));
+    return customerBalances(renewals.filter(r => visible.has(r.customerId)));
+  }, [visibleCustomers, renewals]);
+
+  // Lifecycle state of every visible customer, computed in one place for all screens
+  const lifecycles = useMemo(
+    () => computeLifecycles(visibleCustomers, renewals, lifecycleThresholds, parseLocalDate(today)),
+    [visibleCustomers, renewals, lifecycleThresholds, today]
+  );
+
+  const setters: { [K in CollectionName]: (updater: (prev: AppData[K]) => AppData[K]) => void } = {
+    customers: setCustomers,
+    servers: setServers,
+    plans: setPlans,
+    renewals: setRenewals,
+    manualAdditions: setManualAdditions
+  };
+
+  const applyChanges = (changes: AuditChange[]) => {
+    const next = { ...dataRef.current };
+    COLLECTIONS.forEach(<K extends CollectionName>(name: K) => {
+      const own = changes.filter(c => c.entity === name);
+      if (own.length === 0) return;
+      next[name] = applyToCollection(next[name] as EntityRecord[], own) as AppData[K];
+      setters[name](prev => applyToCollection(prev as EntityRecord[], own) as AppData[K]);
+    });
+    changes.filter(c => c.entity === 'settings').forEach(c => {
+      if (c.id === 'whatsappMessage' && c.after && 'value' in c.after) {
+        next.whatsappMessage = String(c.after.value);
+        setWhatsappMessageState(next.whatsappMessage);
+      }
+    });
+    dataRef.current = next;
+  };
+
+  // Changes made in other tabs, merged record by record (see mergeIncoming).
+  // They are already logged by the tab that made them, so they skip the audit log.
+  const applyRemote = (changes: AuditChange[]) => {
+    const accepted = mergeIncoming(dataRef.current, changes);
+    if (accepted.length === 0) return;
+    applyChanges(accepted);
+    setAuditRevision(rev => rev + 1);
+  };
+
+  const tabSyncRef = useRef<TabSync | null>(null);
+  const applyRemoteRef = useRef(applyRemote);
+  applyRemoteRef.current = applyRemote;
 
   useEffect(() => {
-    localStorage.setItem('arf_message_v2', whatsappMessage);
-  }, [whatsappMessage]);
+    if (loading) return;
+
+    // Reads everything back from the database and merges what other tabs changed
+    const catchUp = () => {
+      readCollections()
+        .then(stored => {
+          // Records gone from the database were deleted by another tab meanwhile
+          const changes = COLLECTIONS.flatMap(name => {
+            const records = stored[name] as EntityRecord[];
+            const storedIds = new Set(records.map(record => record.id));
+            const removed = (dataRef.current[name] as EntityRecord[]).filter(record => !storedIds.has(record.id));
+            return [
+              ...records.map(record => change(name, null, record)),
+              ...removed.map(record => change(name, record, null))
+            ];
+          });
+          changes.push(change('settings', null, { id: 'whatsappMessage', value: stored.whatsappMessage }));
+          applyRemoteRef.current(changes);
+        })
+        .catch(err => console.error('Erro ao sincronizar abas:', err));
+    };
+
+    const tabSync = createTabSync(changes => applyRemoteRef.current(changes), catchUp);
+    tabSyncRef.current = tabSync;
+
+    // A tab that was asleep may have missed messages: catch up from the database.
+    const handleVisibility = () => {
+      if (document.visibilityState === 'visible') catchUp();
+    };
+    document.addEventListener('visibilitychange', handleVisibility);
+
+    return () => {
+      tabSync.close();
+      tabSyncRef.current = null;
+      document.removeEventListener('visibilitychange', handleVisibility);
+    };
+  }, [loading]);
+
+  // Changes pulled from the sync server are shared with the other open tabs too,
+  // since only the tab holding the sync lock talks to the server.
+  const applyServerChanges = (changes: AuditChange[]) => {
+    const accepted = mergeIncoming(dataRef.current, changes);
+    if (accepted.length === 0) return;
+    applyChanges(accepted);
+    tabSyncRef.current?.publish(accepted);
+    setAuditRevision(rev => rev + 1);
+  };
+
+  const sync = useSyncEngine({
+    ready: !loading,
+    getData: () => dataRef.current,
+    applyRemote: applyServerChanges
+  });
+
+  const logEntry = (entry: AuditEntry) => {
+    appendAuditEntry(entry)
+      .then(() => setAuditRevision(rev => rev + 1))
+      .catch(reportPersistError);
+  };
+
+  // Single entry point for mutations: applies, logs and makes them undoable.
+  // Derived values the app records by itself (every tab and device works them
+  // out on its own) stay off the undo stack and are not shared, so undo keeps
+  // stepping through the user's own actions and nothing is re-sent for them.
+  const commit = (action: string, changes: AuditChange[], derived = false) => {
+    const effective = changes.filter(c => c.before !== c.after);
+    if (effective.length === 0) return;
+    applyChanges(effective);
+    const entry: AuditEntry = { id: uuidv4(), timestamp: now(), action, changes: effective };
+    logEntry(entry);
+    if (derived) return;
+    tabSyncRef.current?.publish(effective);
+    sync.notifyLocalChanges(effective);
+    setUndoStack(prev => [...prev.slice(-(MAX_UNDO - 1)), entry]);
+    setRedoStack([]);
+  };
+
+  // Re-applies the `after` side of `changes`, stamped as a fresh edit. Records
+  // edited again since (here, in another tab or on another device) only get
+  // back the fields this step changed; when one of those fields changed too,
+  // nothing is replayed and false is returned.
+  const replay = (action: 'undo' | 'redo', source: AuditEntry, changes: AuditChange[]) => {
+    const current = dataRef.current;
+    const restored: AuditChange[] = [];
+    for (const c of changes) {
+      const existing = c.entity === 'settings'
+        ? { id: c.id, value: current.whatsappMessage }
+        : (current[c.entity] as EntityRecord[]).find(item => item.id === c.id) || null;
+      const unchanged = existing && c.before
+        ? editedFields(change(c.entity, existing, c.before)).length === 0
+        : existing === c.before;
+      if (unchanged) {
+        const after = c.after && c.entity !== 'settings' ? { ...c.after, updatedAt: now() } as EntityRecord : c.after;
+        restored.push({ ...c, before: existing, after });
+        continue;
+      }
+      if (!existing || !c.before || !c.after || c.entity === 'settings') return false;
+      const fields = editedFields(c);
+      const conflict = fields.some(field => JSON.stringify(fieldValue(existing, field)) !== JSON.stringify(fieldValue(c.before, field)));
+      if (conflict) return false;
+      const restoredFields = Object.fromEntries(fields.map(field => [field, fieldValue(c.after, field)]));
+      restored.push({ ...c, before: existing, after: { ...existing, ...restoredFields, updatedAt: now() } as EntityRecord });
+    }
+    applyChanges(restored);
+    tabSyncRef.current?.publish(restored);
+    sync.notifyLocalChanges(restored);
+    logEntry({ id: uuidv4(), timestamp: now(), action, changes: restored, revertsEntryId: source.id });
+    return true;
+  };
+
+  // A step that can no longer be replayed is dropped, so the ones before it stay reachable
+  const undo = () => {
+    const entry = undoStack[undoStack.length - 1];
+    if (!entry) return;
+    const replayed = replay('undo', entry, invertChanges(entry.changes));
+    setUndoStack(prev => prev.slice(0, -1));
+    if (replayed) {
+      setRedoStack(prev => [...prev, entry]);
+    } else {
+      alert('Não foi possível desfazer: os dados foram alterados depois desta ação.');
+    }
+  };
+
+  const redo = () => {
+    const entry = redoStack[redoStack.length - 1];
+    if (!entry) return;
+    const replayed = replay('redo', entry, entry.changes);
+    setRedoStack(prev => prev.slice(0, -1));
+    if (replayed) {
+      setUndoStack(prev => [...prev, entry]);
+    } else {
+      alert('Não foi possível refazer: os dados foram alterados depois desta ação.');
+    }
+  };
+
+  const findIn = <K extends CollectionName>(name: K, id: string) =>
+    (dataRef.current[name] as EntityRecord[]).find(item => item.id === id) || null;
+
+  const updateIn = <K extends CollectionName>(action: string, name: K, id: string, patch: Partial<AppData[K][number]>) => {
+    const before = findIn(name, id);
+    if (!before) return;
+    commit(action, [change(name, before, { ...before, ...patch, updatedAt: now() } as EntityRecord)]);
+  };
+
+  const deleteFrom = (action: string, name: CollectionName, id: string) => {
+    const before = findIn(name, id);
+    if (!before) return;
+    commit(action, [change(name, before, null)]);
+  };
 
   // Actions
-  const addCustomer = (c: Omit<Customer, 'id'>) => {
-    setCustomers(prev => [...prev, { ...c, id: uuidv4() }]);
+  const addCustomer = (c: Omit<Customer, 'id'> & { id?: string }) => {
+    commit('addCustomer', [change('customers', null, { ...c, id: c.id || uuidv4(), updatedAt: now() })]);
   };
 
   const updateCustomer = (id: string, c: Partial<Customer>) => {
-    setCustomers(prev => prev.map(item => item.id === id ? { ...item, ...c } : item));
+    updateIn('updateCustomer', 'customers', id, c);
   };
 
+  // Customers are only moved to the trash; their renewals are untouched so a
+  // restore brings the full history back.
   const deleteCustomer = (id: string) => {
-    setCustomers(prev => prev.filter(item => item.id !== id));
+    updateIn('deleteCustomer', 'customers', id, { deletedAt: now() });
+  };
+
+  // Remembers that today's WhatsApp reminder went out
+  const markNotified = (id: string) => {
+    updateIn('notifyCustomer', 'customers', id, { lastNotifiedDate: format(new Date(), 'yyyy-MM-dd') });
+  };
+
+  const restoreCustomer = (id: string) => {
+    updateIn('restoreCustomer', 'customers', id, { deletedAt: undefined });
+  };
+
+  // Permanent removal from the trash. Renewals are kept: they are money that
+  // was actually received and still count towards the totals.
+  const purgeCustomers = (ids: string[], action = 'purgeCustomers') => {
+    const trashed = dataRef.current.customers.filter(c => c.deletedAt && ids.includes(c.id));
+    commit(action, trashed.map(c => change('customers', c, null)));
   };
 
   const bulkUpdateCustomers = (updater: (prev: Customer[]) => Customer[]) => {
-    setCustomers(updater);
+    const prev = dataRef.current.customers;
+    const before = new Set(prev);
+    const next = updater(prev).map(item => before.has(item) ? item : { ...item, updatedAt: now() });
+    commit('bulkUpdateCustomers', diffCollection('customers', prev, next));
   };
 
   const addServer = (s: Omit<Server, 'id'>) => {
-    setServers(prev => [...prev, { ...s, id: uuidv4() }]);
+    commit('addServer', [change('servers', null, { ...s, id: uuidv4(), updatedAt: now() })]);
   };
 
   const updateServer = (id: string, s: Partial<Server>) => {
-    setServers(prev => prev.map(item => item.id === id ? { ...item, ...s } : item));
+    updateIn('updateServer', 'servers', id, s);
+  };
+
+  // Deletes a server or plan. Anything still pointing at it is moved to
+  // `reassignTo` in the same entry; without a target the deletion is refused.
+  const deleteReferenced = (action: string, name: ReferencedCollection, id: string, reassignTo?: string) => {
+    const before = findIn(name, id);
+    if (!before) return false;
+    const refs = findReferences(dataRef.current, name, id);
+    if (hasReferences(refs) && (!reassignTo || reassignTo === id || !findIn(name, reassignTo))) return false;
+    const key = name === 'servers' ? 'serverId' : 'planId';
+    const stamp = now();
+    commit(action, [
+      ...refs.customers.map(c => change('customers', c, { ...c, [key]: reassignTo, updatedAt: stamp })),
+      ...refs.renewals.map(r => change('renewals', r, { ...r, [key]: reassignTo, updatedAt: stamp })),
+      change(name, before, null)
+    ]);
+    return true;
+  };
+
+  const deleteServer = (id: string, reassignTo?: string) => deleteReferenced('deleteServer', 'servers', id, reassignTo);
+
+  // Archived servers and plans stay resolvable for old customers and renewals
+  // but are no longer offered for new ones.
+  const archiveServer = (id: string) => {
+    updateIn('archiveServer', 'servers', id, { archivedAt: now() });
   };
 
-  const deleteServer = (id: string) => {
-    setServers(prev => prev.filter(item => item.id !== id));
+  const unarchiveServer = (id: string) => {
+    updateIn('unarchiveServer', 'servers', id, { archivedAt: undefined });
   };
 
   const addPlan = (p: Omit<Plan, 'id'>) => {
-    setPlans(prev => [...prev, { ...p, id: uuidv4() }]);
+    commit('addPlan', [change('plans', null, { ...p, id: uuidv4(), updatedAt: now() })]);
   };
 
   const updatePlan = (id: string, p: Partial<Plan>) => {
-    setPlans(prev => prev.map(item => item.id === id ? { ...item, ...p } : item));
+    updateIn('updatePlan', 'plans', id, p);
   };
 
-  const deletePlan = (id: string) => {
+  const deletePlan = (id: string, reassignTo?: string) => {
+    if (id === 'gratuito') return false;
+    return deleteReferenced('deletePlan', 'plans', id, reassignTo);
+  };
+
+  const archivePlan = (id: string) => {
     if (id === 'gratuito') return;
-    setPlans(prev => prev.filter(item => item.id !== id));
+    updateIn('archivePlan', 'plans', id, { archivedAt: now() });
+  };
+
+  const unarchivePlan = (id: string) => {
+    updateIn('unarchivePlan', 'plans', id, { archivedAt: undefined });
   };
 
   const addRenewal = (r: Omit<Renewal, 'id'>) => {
-    setRenewals(prev => [...prev, { ...r, id: uuidv4() }]);
+    commit('addRenewal', [change('renewals', null, { ...r, id: uuidv4(), updatedAt: now() })]);
+  };
+
+  const updateReferralReward = (reward: ReferralReward) => {
+    setReferralRewardState(reward);
+    setReferralReward(reward).catch(reportPersistError);
+  };
+
+  const updateLifecycleThresholds = (thresholds: LifecycleThresholds) => {
+    setLifecycleThresholdsState(thresholds);
+    setLifecycleThresholds(thresholds).catch(reportPersistError);
+  };
+
+  // Adds the referral rewards earned by the renewals paid (or paid off) in
+  // `changes`: the referrer gets its days or credit and the referred customer
+  // is marked so it only counts once. Part of the same entry, so undo takes
+  // it back too.
+  const withReferralRewards = (changes: AuditChange[]) => {
+    const { customers } = dataRef.current;
+    const latest = new Map<string, Customer>();
+    changes.forEach(c => { if (c.entity === 'customers' && c.after) latest.set(c.id, c.after as Customer); });
+    const current = (id: string) => latest.get(id) || customers.find(c => c.id === id);
+    const stamp = now();
+    changes
+      .filter(c => c.entity === 'renewals' && c.after)
+      .forEach(c => {
+        const renewal = c.after as Renewal;
+        const customer = current(renewal.customerId);
+        if (!customer) return;
+        const received = renewal.amount - ((c.before as Renewal | null)?.amount || 0);
+        const referrer = referrerToReward(customer, received, customers, referralReward);
+        if (!referrer) return;
+        const base = current(referrer.id)!;
+        latest.set(customer.id, { ...customer, referralRewardedAt: stamp, updatedAt: stamp });
+        latest.set(referrer.id, { ...base, ...rewardPatch(base, referralReward), updatedAt: stamp });
+      });
+    const before = (id: string) =>
+      changes.find(c => c.entity === 'customers' && c.id === id)?.before ?? customers.find(c => c.id === id) ?? null;
+    return [
+      ...[...latest].map(([id, after]) => change('customers', before(id), after)),
+      ...changes.filter(c => c.entity !== 'customers')
+    ];
+  };
+
+  // Extends the customer and records the payment as a single, undoable step.
+  const renewCustomer = (customerId: string, input: RenewalInput) => {
+    const { customers, servers, plans } = dataRef.current;
+    const customer = customers.find(c => c.id === customerId);
+    const plan = plans.find(p => p.id === input.planId);
+    if (!customer || !plan) return null;
+    const { customerPatch, renewal } = buildRenewal(customer, plan, servers.find(s => s.id === input.serverId), input);
+    const stamp = now();
+    const record: Renewal = { ...renewal, id: uuidv4(), updatedAt: stamp };
+    commit('renewCustomer', withReferralRewards([
+      change('customers', customer, { ...customer, ...customerPatch, updatedAt: stamp }),
+      change('renewals', null, record)
+    ]));
+    return record;
+  };
+
+  // Applies a payment to what the customer owes, oldest renewal first (or to
+  // the one given), as a single, undoable step. Returns the renewals paid into.
+  const addPayment = (customerId: string, amount: number, method?: PaymentMethod, renewalId?: string) => {
+    const open = openRenewals(customerId, dataRef.current.renewals).filter(r => !renewalId || r.id === renewalId);
+    const stamp = now();
+    const updated = allocatePayment(open, amount, method, stamp).map(r => ({ ...r, updatedAt: stamp }));
+    if (updated.length === 0) return [];
+    commit('addPayment', withReferralRewards(
+      updated.map(after => change('renewals', open.find(r => r.id === after.id)!, after))
+    ));
+    return updated;
+  };
+
+  // A new customer together with its first payment, as a single, undoable
+  // step that also rewards whoever referred it.
+  const addCustomerWithRenewal = (c: Omit<Customer, 'id'>, r: Omit<Renewal, 'id' | 'customerId'>) => {
+    const stamp = now();
+    const customer: Customer = { ...c, id: uuidv4(), updatedAt: stamp };
+    commit('addCustomer', withReferralRewards([
+      change('customers', null, customer),
+      change('renewals', null, { ...r, customerId: customer.id, id: uuidv4(), updatedAt: stamp })
+    ]));
+  };
+
+  const startTrial = (c: Omit<Customer, 'id'>) => {
+    commit('startTrial', [change('customers', null, { ...c, id: uuidv4(), updatedAt: now() })]);
+  };
+
+  // Turns a trial into a paying customer. The paid period starts now, not
+  // at the end of the trial, and is recorded as a regular renewal.
+  const convertTrial = (customerId: string, input: RenewalInput) => {
+    const { customers, servers, plans } = dataRef.current;
+    const customer = customers.find(c => c.id === customerId);
+    const plan = plans.find(p => p.id === input.planId);
+    if (!customer || !plan || !isOpenTrial(customer)) return null;
+    const today = startOfToday();
+    const { customerPatch, renewal } = buildRenewal(
+      { ...customer, dueDate: format(today, 'yyyy-MM-dd') }, plan, servers.find(s => s.id === input.serverId), input, today
+    );
+    const stamp = now();
+    const record: Renewal = { ...renewal, previousDueDate: customer.dueDate, id: uuidv4(), updatedAt: stamp };
+    commit('convertTrial', withReferralRewards([
+      change('customers', customer, { ...customer, ...customerPatch, convertedAt: stamp, updatedAt: stamp }),
+      change('renewals', null, record)
+    ]));
+    return record;
+  };
+
+  // Applies one action to many customers as a single entry, so one undo
+  // reverts the whole batch. Returns how many customers were changed.
+  const bulkApply = (ids: string[], action: BulkAction) => {
+    const { customers, servers, plans } = dataRef.current;
+    const selected = customers.filter(c => !c.deletedAt && ids.includes(c.id));
+    const stamp = now();
+    const changes: AuditChange[] = [];
+    selected.forEach(customer => {
+      if (action.kind === 'renew') {
+        const plan = plans.find(p => p.id === action.planId);
+        if (!plan) return;
+        const serverId = action.serverId || customer.serverId;
+        const { customerPatch, renewal } = buildRenewal(customer, plan, servers.find(s => s.id === serverId), {
+          serverId,
+          planId: plan.id,
+          amount: action.amount ?? plan.defaultPrice
+        });
+        changes.push(
+          change('customers', customer, { ...customer, ...customerPatch, updatedAt: stamp }),
+          change('renewals', null, { ...renewal, id: uuidv4(), updatedAt: stamp })
+        );
+        return;
+      }
+      const patch = action.kind === 'delete' ? { deletedAt: stamp } : bulkPatch(customer, action, plans);
+      if (patch) changes.push(change('customers', customer, { ...customer, ...patch, updatedAt: stamp }));
+    });
+    commit(BULK_AUDIT_ACTIONS[action.kind], action.kind === 'renew' ? withReferralRewards(changes) : changes);
+    return changes.filter(c => c.entity === 'customers').length;
+  };
+
+  // Keeps one customer with the chosen values and moves every renewal (and
+  // every referral) of the others to it before removing them, all as one
+  // undoable entry.
+  const mergeCustomers = (survivorId: string, mergedIds: string[], values: Partial<Customer>) => {
+    const { customers, renewals } = dataRef.current;
+    const survivor = customers.find(c => c.id === survivorId);
+    const merged = customers.filter(c => c.id !== survivorId && mergedIds.includes(c.id));
+    if (!survivor || merged.length === 0) return;
+    const ids = merged.map(c => c.id);
+    const stamp = now();
+    const kept = { ...survivor, ...values, updatedAt: stamp };
+    // A customer can't be its own referrer
+    if (kept.referredBy && (kept.referredBy === survivorId || ids.includes(kept.referredBy))) kept.referredBy = undefined;
+    commit('mergeCustomers', [
+      change('customers', survivor, kept),
+      ...customers
+        .filter(c => c.id !== survivorId && !ids.includes(c.id) && c.referredBy && ids.includes(c.referredBy))
+        .map(c => change('customers', c, { ...c, referredBy: survivorId, updatedAt: stamp })),
+      ...renewals.filter(r => ids.includes(r.customerId)).map(r => change('renewals', r, { ...r, customerId: survivorId, updatedAt: stamp })),
+      ...merged.map(c => change('customers', c, null))
+    ]);
+  };
+
+  // Spreadsheet import: new customers, updates to matched ones and optional
+  // renewal history, all in one undoable entry.
+  const importCustomers = ({ create, update, renewals: newRenewals }: ImportPlan) => {
+    const stamp = now();
+    const changes: AuditChange[] = [
+      ...create.map(c => change('customers', null, { ...c, updatedAt: stamp })),
+      ...newRenewals.map(r => change('renewals', null, { ...r, id: uuidv4(), updatedAt: stamp }))
+    ];
+    update.forEach(({ id, patch }) => {
+      const before = findIn('customers', id);
+      if (before) changes.push(change('customers', before, { ...before, ...patch, updatedAt: stamp }));
+    });
+    commit('importCustomers', changes);
   };
 
   const addManualAddition = (a: Omit<ManualAddition, 'id'>) => {
-    setManualAdditions(prev => [...prev, { ...a, id: uuidv4() }]);
+    commit('addManualAddition', [change('manualAdditions', null, { ...a, id: uuidv4(), updatedAt: now() })]);
   };
 
   const updateManualAddition = (id: string, a: Partial<ManualAddition>) => {
-    setManualAdditions(prev => prev.map(item => item.id === id ? { ...item, ...a } : item));
+    updateIn('updateManualAddition', 'manualAdditions', id, a);
   };
 
   const deleteManualAddition = (id: string) => {
-    setManualAdditions(prev => prev.filter(item => item.id !== id));
+    deleteFrom('deleteManualAddition', 'manualAdditions', id);
   };
 
+  const setWhatsappMessage = (message: string) => {
+    const current = dataRef.current.whatsappMessage;
+    if (message === current) return;
+    commit('setWhatsappMessage', [change('settings', { id: 'whatsappMessage', value: current }, { id: 'whatsappMessage', value: message })]);
+  };
+
+  // Swaps in a whole dataset at once (backup restore)
+  // Backups and restore points carry old timestamps: whatever they bring back is
+  // stamped as a fresh edit, so other tabs and the sync server don't discard it.
+  // Deletions are stamped when queued for sync (see toSyncChanges).
+  const importData = (data: AppData) => {
+    const current = dataRef.current;
+    const stamp = now();
+    const changes = COLLECTIONS.flatMap(name => diffCollection(name, current[name] as EntityRecord[], data[name] as EntityRecord[]))
+      .filter(c => JSON.stringify(c.before) !== JSON.stringify(c.after))
+      .map(c => c.after ? { ...c, after: { ...c.after, updatedAt: stamp } as EntityRecord } : c);
+    if (data.whatsappMessage !== current.whatsappMessage) {
+      changes.push(change('settings', { id: 'whatsappMessage', value: current.whatsappMessage }, { id: 'whatsappMessage', value: data.whatsappMessage }));
+    }
+    commit('importData', changes);
+  };
+
+  // Customers past the trash retention period are purged at startup and then periodically
+  const purgeCustomersRef = useRef(purgeCustomers);
+  purgeCustomersRef.current = purgeCustomers;
+
+  useEffect(() => {
+    if (loading) return;
+    const check = () => {
+      getTrashRetentionDays()
+        .then(days => {
+          const expired = expiredTrash(dataRef.current.customers, days);
+          if (expired.length > 0) purgeCustomersRef.current(expired.map(c => c.id), 'purgeTrash');
+        })
+        .catch(err => console.error('Erro ao esvaziar a lixeira:', err));
+    };
+    check();
+    const timer = setInterval(check, TRASH_PURGE_CHECK_MS);
+    return () => clearInterval(timer);
+  }, [loading]);
+
+  // Trials whose time ran out are marked as expired at startup and then periodically
+  const commitRef = useRef(commit);
+  commitRef.current = commit;
+
+  useEffect(() => {
+    if (loading) return;
+    const check = () => {
+      const expired = dueForExpiry(dataRef.current.customers);
+      if (expired.length === 0) return;
+      const stamp = now();
+      commitRef.current('expireTrials', expired.map(c => change('customers', c, { ...c, trialExpiredAt: stamp, updatedAt: stamp })));
+    };
+    check();
+    const timer = setInterval(check, TRIAL_EXPIRY_CHECK_MS);
+    return () => clearInterval(timer);
+  }, [loading]);
+
+  // The day is checked periodically so states move on at midnight with the app open
+  useEffect(() => {
+    if (loading) return;
+    const timer = setInterval(() => setToday(format(new Date(), 'yyyy-MM-dd')), LIFECYCLE_DAY_CHECK_MS);
+    return () => clearInterval(timer);
+  }, [loading]);
+
+  // Customers whose state differs from the one on record get the new state and
+  // the moment it was entered, so the change shows up in their history. Being
+  // derived, it leaves `updatedAt` alone: it must not win over real edits when
+  // merging, nor make every customer look changed since the last backup.
+  useEffect(() => {
+    if (loading) return;
+    const timer = setTimeout(() => {
+      const current = dataRef.current.customers.filter(c => !c.deletedAt && !isOpenTrial(c));
+      const states = computeLifecycles(current, dataRef.current.renewals, lifecycleThresholds, parseLocalDate(today));
+      const stamp = now();
+      const changes = current
+        .filter(c => c.lifecycle !== states.get(c.id))
+        .map(c => change('customers', c, { ...c, lifecycle: states.get(c.id), lifecycleSince: stamp }));
+      if (changes.length > 0) commitRef.current('updateLifecycle', changes, true);
+    }, LIFECYCLE_RECORD_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [lifecycles, loading]);
+
   return {
-    customers, addCustomer, updateCustomer, deleteCustomer, bulkUpdateCustomers,
-    servers, addServer, updateServer, deleteServer, setServers,
-    plans, addPlan, updatePlan, deletePlan, setPlans,
-    renewals, addRenewal, setRenewals,
-    manualAdditions, addManualAddition, updateManualAddition, deleteManualAddition, setManualAdditions,
+    customers: visibleCustomers, addCustomer, addCustomerWithRenewal, updateCustomer, deleteCustomer, bulkUpdateCustomers, bulkApply, importCustomers, mergeCustomers,
+    trials, startTrial, convertTrial,
+    referralReward, updateReferralReward,
+    lifecycles, lifecycleThresholds, updateLifecycleThresholds,
+    allCustomers: customers, trashedCustomers, restoreCustomer, purgeCustomers,
+    servers, addServer, updateServer, deleteServer, archiveServer, unarchiveServer,
+    plans, addPlan, updatePlan, deletePlan, archivePlan, unarchivePlan,
+    renewals, addRenewal, renewCustomer, markNotified,
+    balances, addPayment,
+    manualAdditions, addManualAddition, updateManualAddition, deleteManualAddition,
     whatsappMessage, setWhatsappMessage,
-    loading: false,
+    importData,
+    sync,
+    undo, redo,
+    canUndo: undoStack.length > 0,
+    canRedo: redoStack.length > 0,
+    lastAction: undoStack[undoStack.length - 1]?.action,
+    auditRevision,
+    loading,
     authLoading: false
   };
 };
@@ -0,0 +1,297 @@
+import { useState, useEffect, useRef } from 'react';
+import { AppData, AuditChange, EntityRecord, SyncChange, SyncRequest, SyncResponse } from './types';
+import { openDb, readStore, sealRecords, transactionDone, promisify, getSetting, putSetting, COLLECTIONS } from './db';
+import { v4 as uuidv4 } from 'uuid';
+
+export interface SyncConfig {
+  enabled: boolean;
+  serverUrl: string;
+  token: string;
+}
+
+export type SyncStatus = 'disabled' | 'idle' | 'syncing' | 'offline' | 'error';
+
+export interface SyncInfo {
+  status: SyncStatus;
+  lastSyncAt: string | null;
+  pending: number;
+  error?: string;
+}
+
+interface SyncMeta {
+  clientId: string;
+  serverUrl: string;
+  cursor: number;
+  lastSyncAt: string | null;
+}
+
+interface OutboxEntry extends SyncChange {
+  key: string;
+}
+
+export const DEFAULT_SYNC_CONFIG: SyncConfig = { enabled: false, serverUrl: '', token: '' };
+
+// Background sync cadence, plus a short delay after local edits to batch them
+const SYNC_INTERVAL_MS = 30 * 1000;
+const SYNC_DEBOUNCE_MS = 2000;
+
+// Web Lock held while a tab talks to the server. Every open tab shares the
+// outbox, so only one of them syncs at a time; the others skip that round.
+const SYNC_LOCK = 'arf_canais_sync';
+
+const withSyncLock = async (task: () => Promise<void>) => {
+  if (!('locks' in navigator)) return task();
+  await navigator.locks.request(SYNC_LOCK, { ifAvailable: true }, lock => lock ? task() : undefined);
+};
+
+export const STATUS_LABELS: Record<SyncStatus, string> = {
+  disabled: 'Desativada',
+  idle: 'Sincronizado',
+  syncing: 'Sincronizando...',
+  offline: 'Sem conexão',
+  error: 'Erro'
+};
+
+const now = () => new Date().toISOString();
+
+const outboxKey = (change: Pick<SyncChange, 'entity' | 'id'>) => `${change.entity}:${change.id}`;
+
+// A deletion is stamped when it is queued, and never earlier than the version it
+// removes, so the tombstone wins over the copies held by the server and other devices.
+const stampOf = (record: EntityRecord | null) => (record && 'updatedAt' in record && record.updatedAt) || '';
+
+export const toSyncChanges = (changes: AuditChange[]): SyncChange[] =>
+  changes.map(c => {
+    const stamp = now();
+    const deleted = stampOf(c.before);
+    return {
+      entity: c.entity,
+      id: c.id,
+      record: c.after,
+      updatedAt: c.after ? stampOf(c.after) || stamp : deleted > stamp ? deleted : stamp
+    };
+  });
+
+// Server deletions carry their own timestamp as the deleted version, so a local
+// edit made after the deletion survives it (see mergeIncoming).
+export const fromSyncChanges = (changes: SyncChange[]): AuditChange[] =>
+  changes.map(c => ({
+    entity: c.entity,
+    id: c.id,
+    before: c.record ? null : { id: c.id, updatedAt: c.updatedAt } as EntityRecord,
+    after: c.record
+  }));
+
+const getMeta = async (serverUrl: string): Promise<SyncMeta> => {
+  const meta = await getSetting<SyncMeta>('syncMeta');
+  if (meta && meta.serverUrl === serverUrl) return meta;
+  // New server (or first run): start from scratch
+  return { clientId: meta?.clientId || uuidv4(), serverUrl, cursor: 0, lastSyncAt: null };
+};
+
+export const enqueueChanges = async (changes: SyncChange[]) => {
+  if (changes.length === 0) return;
+  const sealed = await sealRecords('syncOutbox', changes.map(change => ({ ...change, key: outboxKey(change) } satisfies OutboxEntry)));
+  const db = await openDb();
+  const tx = db.transaction('syncOutbox', 'readwrite');
+  const store = tx.objectStore('syncOutbox');
+  sealed.forEach(entry => store.put(entry));
+  await transactionDone(tx);
+};
+
+export const countPending = async () => {
+  const db = await openDb();
+  return promisify(db.transaction('syncOutbox', 'readonly').objectStore('syncOutbox').count());
+};
+
+// Queues the whole dataset, used when sync is turned on or pointed at a new server.
+const enqueueAll = (data: AppData) => {
+  const stamp = now();
+  const records: SyncChange[] = COLLECTIONS.flatMap(name =>
+    (data[name] as EntityRecord[]).map(record => ({
+      entity: name,
+      id: record.id,
+      record,
+      updatedAt: ('updatedAt' in record && record.updatedAt) || stamp
+    }))
+  );
+  records.push({ entity: 'settings', id: 'whatsappMessage', record: { id: 'whatsappMessage', value: data.whatsappMessage }, updatedAt: stamp });
+  return enqueueChanges(records);
+};
+
+export class SyncHttpError extends Error {
+  constructor(public status: number) {
+    super(status === 401 ? 'Token de acesso recusado pelo servidor.' : `Servidor respondeu com erro ${status}.`);
+  }
+}
+
+// One push/pull round trip. Returns the changes other devices made since the last sync.
+const runSync = async (config: SyncConfig) => {
+  const meta = await getMeta(config.serverUrl);
+  const outbox = await readStore<OutboxEntry>('syncOutbox');
+  const body: SyncRequest = {
+    clientId: meta.clientId,
+    cursor: meta.cursor,
+    changes: outbox.map(({ key, ...change }) => change)
+  };
+
+  const response = await fetch(`${config.serverUrl.replace(/\/+$/, '')}/sync`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(config.token ? { Authorization: `Bearer ${config.token}` } : {})
+    },
+    body: JSON.stringify(body)
+  });
+  if (!response.ok) throw new SyncHttpError(response.status);
+  const result = await response.json() as SyncResponse;
+
+  // Drop what was pushed, unless the record changed again while we were waiting
+  const sent = new Map(outbox.map(entry => [entry.key, entry.updatedAt]));
+  const delivered = (await readStore<OutboxEntry>('syncOutbox')).filter(entry => sent.get(entry.key) === entry.updatedAt);
+  const db = await openDb();
+  const tx = db.transaction('syncOutbox', 'readwrite');
+  const store = tx.objectStore('syncOutbox');
+  delivered.forEach(entry => store.delete(entry.key));
+  await transactionDone(tx);
+
+  await putSetting('syncMeta', { ...meta, cursor: result.cursor, lastSyncAt: now() } satisfies SyncMeta);
+  return result.changes;
+};
+
+interface SyncEngineOptions {
+  ready: boolean;
+  getData: () => AppData;
+  applyRemote: (changes: AuditChange[]) => void;
+}
+
+// Offline-first replication with the optional sync server. Local commits are
+// queued in the outbox and pushed in the background whenever a connection exists.
+export const useSyncEngine = ({ ready, getData, applyRemote }: SyncEngineOptions) => {
+  const [config, setConfig] = useState<SyncConfig>(DEFAULT_SYNC_CONFIG);
+  const [info, setInfo] = useState<SyncInfo>({ status: 'disabled', lastSyncAt: null, pending: 0 });
+  const configRef = useRef(config);
+  configRef.current = config;
+  const runningRef = useRef(false);
+  const queueRef = useRef<Promise<void>>(Promise.resolve());
+  const debounceRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const optionsRef = useRef({ getData, applyRemote });
+  optionsRef.current = { getData, applyRemote };
+
+  const refreshPending = () => {
+    countPending()
+      .then(pending => setInfo(prev => ({ ...prev, pending })))
+      .catch(() => undefined);
+  };
+
+  // The settings may have been changed in another tab: the saved ones always win.
+  const reloadConfig = async () => {
+    const saved = (await getSetting<SyncConfig>('syncConfig')) || DEFAULT_SYNC_CONFIG;
+    if (JSON.stringify(saved) !== JSON.stringify(configRef.current)) {
+      setConfig(saved);
+      configRef.current = saved;
+      setInfo(prev => ({ ...prev, status: saved.enabled ? 'idle' : 'disabled', error: undefined }));
+    }
+    return saved;
+  };
+
+  const syncNow = async () => {
+    if (runningRef.current) return;
+    const current = await reloadConfig();
+    if (!current.enabled || !current.serverUrl) return;
+    if (!navigator.onLine) {
+      setInfo(prev => ({ ...prev, status: 'offline' }));
+      return;
+    }
+    runningRef.current = true;
+    try {
+      await withSyncLock(async () => {
+        setInfo(prev => ({ ...prev, status: 'syncing', error: undefined }));
+        try {
+          const remote = await runSync(current);
+          if (remote.length > 0) optionsRef.current.applyRemote(fromSyncChanges(remote));
+          const pending = await countPending();
+          setInfo({ status: 'idle', lastSyncAt: now(), pending });
+        } catch (err) {
+          // fetch only rejects with a TypeError when the server can't be reached
+          const unreachable = err instanceof TypeError;
+          if (!unreachable) console.error('Erro na sincronização:', err);
+          setInfo(prev => ({
+            ...prev,
+            status: unreachable ? 'offline' : 'error',
+            error: unreachable ? undefined : (err as Error).message
+          }));
+        }
+      });
+    } finally {
+      runningRef.current = false;
+    }
+  };
+
+  const syncNowRef = useRef(syncNow);
+  syncNowRef.current = syncNow;
+
+  useEffect(() => {
+    if (!ready) return;
+    Promise.all([getSetting<SyncConfig>('syncConfig'), getSetting<SyncMeta>('syncMeta')])
+      .then(([saved, meta]) => {
+        const loaded = saved || DEFAULT_SYNC_CONFIG;
+        setConfig(loaded);
+        configRef.current = loaded;
+        setInfo(prev => ({
+          ...prev,
+          status: loaded.enabled ? 'idle' : 'disabled',
+          lastSyncAt: meta && meta.serverUrl === loaded.serverUrl ? meta.lastSyncAt : null
+        }));
+        refreshPending();
+        syncNowRef.current();
+      })
+      .catch(err => console.error('Erro ao carregar sincronização:', err));
+  }, [ready]);
+
+  useEffect(() => {
+    if (!ready || !config.enabled) return;
+    const timer = setInterval(() => syncNowRef.current(), SYNC_INTERVAL_MS);
+    const handleOnline = () => syncNowRef.current();
+    const handleOffline = () => setInfo(prev => ({ ...prev, status: 'offline' }));
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      clearInterval(timer);
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, [ready, config.enabled]);
+
+  // Called by the store for every local commit (never for changes received from elsewhere).
+  // Queued one commit after the other, so the outbox keeps the latest version of each record.
+  const notifyLocalChanges = (changes: AuditChange[]) => {
+    queueRef.current = queueRef.current
+      .then(reloadConfig)
+      .then(async current => {
+        if (!current.enabled) return;
+        await enqueueChanges(toSyncChanges(changes));
+        refreshPending();
+        if (debounceRef.current) clearTimeout(debounceRef.current);
+        debounceRef.current = setTimeout(() => syncNowRef.current(), SYNC_DEBOUNCE_MS);
+      })
+      .catch(err => console.error('Erro ao enfileirar sincronização:', err));
+  };
+
+  const configure = async (next: SyncConfig) => {
+    const previous = configRef.current;
+    await putSetting('syncConfig', next);
+    const startsFresh = next.enabled && (!previous.enabled || previous.serverUrl !== next.serverUrl);
+    if (startsFresh) await enqueueAll(optionsRef.current.getData());
+    setConfig(next);
+    configRef.current = next;
+    if (!next.enabled) {
+      setInfo(prev => ({ ...prev, status: 'disabled', error: undefined }));
+      return;
+    }
+    refreshPending();
+    await syncNow();
+  };
+
+  return { config, info, configure, syncNow, notifyLocalChanges };
+};
@@ -0,0 +1,71 @@
+import { AuditChange } from './types';
+import { v4 as uuidv4 } from 'uuid';
+
+const CHANNEL_NAME = 'arf_canais_sync';
+// Fallback transport for browsers without BroadcastChannel
+const STORAGE_KEY = 'arf_tab_sync';
+// The sending tab saves its records right after publishing: give the write time to land
+const STORAGE_READ_DELAY_MS = 500;
+
+interface TabSyncMessage {
+  source: string;
+  changes: AuditChange[];
+}
+
+// What goes through localStorage: no record contents, which would sit there
+// in plain text even with the data encrypted at rest.
+interface TabSyncNotice {
+  source: string;
+  nonce: string;
+}
+
+export interface TabSync {
+  publish: (changes: AuditChange[]) => void;
+  close: () => void;
+}
+
+// Relays committed changes between tabs/windows of the same browser profile.
+// Without BroadcastChannel, other tabs are only told that something changed
+// and `onStale` re-reads the data from IndexedDB.
+export const createTabSync = (onChanges: (changes: AuditChange[]) => void, onStale: () => void): TabSync => {
+  const source = uuidv4();
+
+  const receive = (message: TabSyncMessage | null) => {
+    if (!message || message.source === source || !Array.isArray(message.changes)) return;
+    onChanges(message.changes);
+  };
+
+  if (typeof BroadcastChannel !== 'undefined') {
+    const channel = new BroadcastChannel(CHANNEL_NAME);
+    channel.onmessage = (event: MessageEvent<TabSyncMessage>) => receive(event.data);
+    return {
+      publish: (changes) => channel.postMessage({ source, changes } satisfies TabSyncMessage),
+      close: () => channel.close()
+    };
+  }
+
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  const handleStorage = (event: StorageEvent) => {
+    if (event.key !== STORAGE_KEY || !event.newValue) return;
+    try {
+      const notice = JSON.parse(event.newValue) as TabSyncNotice;
+      if (notice.source === source) return;
+      if (timer) clearTimeout(timer);
+      timer = setTimeout(onStale, STORAGE_READ_DELAY_MS);
+    } catch (err) {
+      console.error('Mensagem de sincronização inválida:', err);
+    }
+  };
+  window.addEventListener('storage', handleStorage);
+  return {
+    publish: () => {
+      // The storage event only fires on other tabs, and only when the value changes
+      localStorage.setItem(STORAGE_KEY, JSON.stringify({ source, nonce: uuidv4() } satisfies TabSyncNotice));
+      localStorage.removeItem(STORAGE_KEY);
+    },
+    close: () => {
+      if (timer) clearTimeout(timer);
+      window.removeEventListener('storage', handleStorage);
+    }
+  };
+};
@@ -0,0 +1,103 @@
+import { AuditEntry, Customer, Renewal, RenewalPayment } from './types';
+import { differenceInDays, differenceInMonths } from 'date-fns';
+import { parseLocalDate } from './dates';
+import { changedFields, fieldValue } from './audit';
+
+export type TimelineKind = 'created' | 'renewal' | 'serverMove' | 'planChange' | 'notification' | 'edit' | 'trash' | 'restore' | 'merge' | 'trialConverted' | 'trialExpired' | 'referralReward' | 'lifecycle' | 'payment';
+
+export interface TimelineEvent {
+  id: string;
+  kind: TimelineKind;
+  date: string;
+  renewal?: Renewal;
+  payment?: RenewalPayment; // For payments made after the renewal, which is in `renewal`
+  // Field-level changes, for audit-based events
+  fields?: { field: string; before: unknown; after: unknown }[];
+  action?: string;
+}
+
+export interface CustomerMetrics {
+  firstSeen: string | null;
+  tenureMonths: number;
+  renewalCount: number;
+  totalPaid: number;
+  totalCost: number;
+  profit: number;
+  averageDaysLate: number | null;
+}
+
+const classify = (action: string, fields: NonNullable<TimelineEvent['fields']>): TimelineKind => {
+  const names = fields.map(f => f.field);
+  if (action === 'mergeCustomers') return 'merge';
+  if (action === 'convertTrial') return 'trialConverted';
+  if (action === 'expireTrials') return 'trialExpired';
+  if (action === 'updateLifecycle') return 'lifecycle';
+  if (names.includes('deletedAt')) return fields.find(f => f.field === 'deletedAt')!.after ? 'trash' : 'restore';
+  if (action === 'notifyCustomer' || (names.length === 1 && names[0] === 'lastNotifiedDate')) return 'notification';
+  if (names.includes('serverId')) return 'serverMove';
+  if (names.includes('planId')) return 'planChange';
+  return 'edit';
+};
+
+// Everything that happened to a customer, newest first. Renewals and their
+// later payments come from the renewal records; the rest is reconstructed from
+// the change history.
+export const buildTimeline = (customer: Customer, renewals: Renewal[], auditLog: AuditEntry[]): TimelineEvent[] => {
+  const events: TimelineEvent[] = renewals
+    .filter(r => r.customerId === customer.id)
+    .flatMap(r => [
+      { id: r.id, kind: 'renewal' as const, date: r.date, renewal: r },
+      ...(r.payments || []).map(p => ({ id: p.id, kind: 'payment' as const, date: p.date, renewal: r, payment: p }))
+    ]);
+
+  auditLog.forEach(entry => {
+    // A customer changed by a renewal (or payment) entry without being the one paying got a referral reward
+    const renewedIds = new Set(entry.changes
+      .filter(c => c.entity === 'renewals' && c.after)
+      .map(c => (c.after as Renewal).customerId));
+    const rewarded = renewedIds.size > 0 && !renewedIds.has(customer.id);
+    // The renewal record already tells this story
+    if (!rewarded && (entry.action === 'renewCustomer' || entry.action === 'bulkRenew' || entry.action === 'addPayment')) return;
+    entry.changes.forEach((c, index) => {
+      if (c.entity !== 'customers' || c.id !== customer.id) return;
+      const id = `${entry.id}:${index}`;
+      if (!c.before && c.after) {
+        events.push({ id, kind: 'created', date: entry.timestamp, action: entry.action });
+        return;
+      }
+      if (!c.before || !c.after) return;
+      const fields = changedFields(c).map(field => ({
+        field,
+        before: fieldValue(c.before, field),
+        after: fieldValue(c.after, field)
+      }));
+      if (fields.length === 0) return;
+      events.push({ id, kind: rewarded ? 'referralReward' : classify(entry.action, fields), date: entry.timestamp, fields, action: entry.action });
+    });
+  });
+
+  return events.sort((a, b) => b.date.localeCompare(a.date));
+};
+
+export const customerMetrics = (customer: Customer, renewals: Renewal[], timeline: TimelineEvent[], today = new Date()): CustomerMetrics => {
+  const own = renewals.filter(r => r.customerId === customer.id);
+  const totalPaid = own.reduce((sum, r) => sum + r.amount, 0);
+  const totalCost = own.reduce((sum, r) => sum + (r.cost || 0), 0);
+
+  const firstSeen = timeline.length > 0 ? timeline[timeline.length - 1].date : null;
+
+  // Lateness is only known for renewals that recorded the due date they replaced
+  const lateness = own
+    .filter(r => r.previousDueDate)
+    .map(r => Math.max(0, differenceInDays(new Date(r.date), parseLocalDate(r.previousDueDate))));
+
+  return {
+    firstSeen,
+    tenureMonths: firstSeen ? differenceInMonths(today, new Date(firstSeen)) : 0,
+    renewalCount: own.length,
+    totalPaid,
+    totalCost,
+    profit: totalPaid - totalCost,
+    averageDaysLate: lateness.length > 0 ? lateness.reduce((sum, d) => sum + d, 0) / lateness.length : null
+  };
+};
@@ -0,0 +1,19 @@
+import { Customer } from './types';
+import { getSetting, putSetting } from './db';
+import { differenceInDays } from 'date-fns';
+
+// Days a deleted customer stays in the trash before being purged for good
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+export const getTrashRetentionDays = async () =>
+  (await getSetting<number>('trashRetentionDays')) ?? DEFAULT_TRASH_RETENTION_DAYS;
+
+export const setTrashRetentionDays = (days: number) => putSetting('trashRetentionDays', days);
+
+export const isDeleted = (customer: Customer) => !!customer.deletedAt;
+
+export const daysUntilPurge = (customer: Customer, retentionDays: number, today = new Date()) =>
+  retentionDays - differenceInDays(today, new Date(customer.deletedAt!));
+
+export const expiredTrash = (customers: Customer[], retentionDays: number, today = new Date()) =>
+  customers.filter(c => c.deletedAt && daysUntilPurge(c, retentionDays, today) <= 0);
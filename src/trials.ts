@@ -0,0 +1,154 @@
+import { Customer, Server } from './types';
+import { addDays, addHours, differenceInMinutes, format, startOfMonth, subDays, subMonths } from 'date-fns';
+
+// Plan kept on a customer while it is on trial
+export const TRIAL_PLAN_ID = 'gratuito';
+
+// How often running trials are checked for expiry while the app stays open
+export const TRIAL_EXPIRY_CHECK_MS = 60 * 1000;
+
+export type TrialUnit = 'hours' | 'days';
+
+export const TRIAL_UNIT_LABELS: Record<TrialUnit, string> = {
+  hours: 'Horas',
+  days: 'Dias'
+};
+
+// One-tap durations offered when starting a trial
+export const TRIAL_PRESETS: { amount: number; unit: TrialUnit; label: string }[] = [
+  { amount: 4, unit: 'hours', label: '4 horas' },
+  { amount: 24, unit: 'hours', label: '24 horas' },
+  { amount: 3, unit: 'days', label: '3 dias' }
+];
+
+export type TrialStatus = 'running' | 'expired' | 'converted';
+
+export const TRIAL_STATUS_LABELS: Record<TrialStatus, string> = {
+  running: 'Em teste',
+  expired: 'Expirado',
+  converted: 'Convertido'
+};
+
+// Length offered for a new trial, and assumed for one saved without an end
+export const DEFAULT_TRIAL_LENGTH: { amount: number; unit: TrialUnit } = { amount: 24, unit: 'hours' };
+
+export const trialEnd = (start: Date, amount: number, unit: TrialUnit) =>
+  unit === 'hours' ? addHours(start, amount) : addDays(start, amount);
+
+// When the trial ends. Records from older backups may lack `trialEndsAt`: without
+// a fallback such a trial would never expire.
+export const trialEndOf = (customer: Customer) =>
+  customer.trialEndsAt ||
+  trialEnd(new Date(customer.trialStartedAt!), DEFAULT_TRIAL_LENGTH.amount, DEFAULT_TRIAL_LENGTH.unit).toISOString();
+
+// Everything a new trial customer starts with, besides name, phone and line details
+export const trialFields = (
+  amount: number, unit: TrialUnit, start = new Date()
+): Pick<Customer, 'planId' | 'amountPaid' | 'dueDate' | 'trialStartedAt' | 'trialEndsAt'> => {
+  const end = trialEnd(start, amount, unit);
+  return {
+    planId: TRIAL_PLAN_ID,
+    amountPaid: 0,
+    dueDate: format(end, 'yyyy-MM-dd'),
+    trialStartedAt: start.toISOString(),
+    trialEndsAt: end.toISOString()
+  };
+};
+
+export const wasTrial = (customer: Customer) => !!customer.trialStartedAt;
+
+// Still on trial (running or expired) and not yet a paying customer
+export const isOpenTrial = (customer: Customer) => wasTrial(customer) && !customer.convertedAt;
+
+export const trialStatus = (customer: Customer, now = new Date()): TrialStatus => {
+  if (customer.convertedAt) return 'converted';
+  if (customer.trialExpiredAt || new Date(trialEndOf(customer)) <= now) return 'expired';
+  return 'running';
+};
+
+// Trials whose time is up but that have not been marked as expired yet
+export const dueForExpiry = (customers: Customer[], now = new Date()) =>
+  customers.filter(c => isOpenTrial(c) && !c.deletedAt && !c.trialExpiredAt && new Date(trialEndOf(c)) <= now);
+
+// "2d 5h", "3h 12min" or "12min"
+export const formatCountdown = (end: string, now = new Date()) => {
+  const minutes = Math.max(0, differenceInMinutes(new Date(end), now));
+  const days = Math.floor(minutes / (24 * 60));
+  const hours = Math.floor((minutes % (24 * 60)) / 60);
+  if (days > 0) return `${days}d ${hours}h`;
+  if (hours > 0) return `${hours}h ${minutes % 60}min`;
+  return `${minutes}min`;
+};
+
+export type ConversionPeriod = '7d' | '30d' | 'month' | 'lastMonth' | 'all';
+
+export const CONVERSION_PERIOD_LABELS: Record<ConversionPeriod, string> = {
+  '7d': 'Últimos 7 dias',
+  '30d': 'Últimos 30 dias',
+  month: 'Este mês',
+  lastMonth: 'Mês passado',
+  all: 'Tudo'
+};
+
+// [from, to) of a reporting period; trials count by when they started
+export const periodRange = (period: ConversionPeriod, now = new Date()): [Date | null, Date | null] => {
+  switch (period) {
+    case '7d': return [subDays(now, 7), null];
+    case '30d': return [subDays(now, 30), null];
+    case 'month': return [startOfMonth(now), null];
+    case 'lastMonth': return [startOfMonth(subMonths(now, 1)), startOfMonth(now)];
+    default: return [null, null];
+  }
+};
+
+export interface ConversionRow {
+  key: string;
+  label: string;
+  started: number;
+  converted: number;
+  expired: number;
+  rate: number | null; // Converted over finished (converted + expired) trials
+}
+
+const conversionRow = (key: string, label: string, trials: Customer[], now: Date): ConversionRow => {
+  const statuses = trials.map(t => trialStatus(t, now));
+  const converted = statuses.filter(s => s === 'converted').length;
+  const expired = statuses.filter(s => s === 'expired').length;
+  return {
+    key,
+    label,
+    started: trials.length,
+    converted,
+    expired,
+    rate: converted + expired > 0 ? converted / (converted + expired) : null
+  };
+};
+
+/**
+ * Conversion per server for trials started within the period. Trials still
+ * running are counted as started but left out of the rate. Deleted customers
+ * are included: an expired trial that was thrown away still did not convert.
+ */
+export const conversionByServer = (customers: Customer[], servers: Server[], period: ConversionPeriod, now = new Date()) => {
+  const [from, to] = periodRange(period, now);
+  const trials = customers.filter(c => {
+    if (!wasTrial(c)) return false;
+    const started = new Date(c.trialStartedAt!);
+    return (!from || started >= from) && (!to || started < to);
+  });
+  const serverIds = [...new Set(trials.map(t => t.serverId))];
+  const rows = serverIds
+    .map(id => conversionRow(id, servers.find(s => s.id === id)?.name || 'Servidor removido', trials.filter(t => t.serverId === id), now))
+    .sort((a, b) => b.started - a.started);
+  return { rows, total: conversionRow('total', 'Total', trials, now) };
+};
+
+// Overall conversion for each of the last `months` months, oldest first
+export const conversionByMonth = (customers: Customer[], months = 6, now = new Date()) => {
+  const trials = customers.filter(wasTrial);
+  return Array.from({ length: months }, (_, i) => {
+    const month = startOfMonth(subMonths(now, months - 1 - i));
+    const key = format(month, 'yyyy-MM');
+    return conversionRow(key, format(month, 'MM/yyyy'), trials.filter(t => format(new Date(t.trialStartedAt!), 'yyyy-MM') === key), now);
+  });
+};
@@ -2,6 +2,8 @@ export interface Server {
   id: string;
   name: string;
   costPerActive: number;
+  archivedAt?: string;
+  updatedAt?: string;
 }
 
 export interface Plan {
@@ -9,8 +11,12 @@ export interface Plan {
   name: string;
   defaultPrice: number;
   months: number;
+  archivedAt?: string;
+  updatedAt?: string;
 }
 
+export type LifecycleState = 'new' | 'active' | 'expiring' | 'grace' | 'expired' | 'churned' | 'wonBack';
+
 export interface Customer {
   id: string;
   name: string;
@@ -20,8 +26,32 @@ export interface Customer {
   amountPaid: number;
   dueDate: string;
   lastNotifiedDate?: string;
+  tags?: string[];
+  // IPTV line details, used for support
+  username?: string;
+  password?: string;
+  screens?: number;
+  device?: string;
+  macAddress?: string;
+  notes?: string;
+  // Trial (teste) lifecycle, kept after conversion for reporting
+  trialStartedAt?: string;
+  trialEndsAt?: string;
+  trialExpiredAt?: string;
+  convertedAt?: string;
+  // Referral program
+  referredBy?: string; // Id of the customer who referred this one
+  referralRewardedAt?: string; // When the referrer got its reward for this customer
+  credit?: number; // Account credit (R$) earned from referrals
+  // Last recorded lifecycle state (see lifecycle.ts) and when it was entered
+  lifecycle?: LifecycleState;
+  lifecycleSince?: string;
+  deletedAt?: string; // Set while the customer is in the trash
+  updatedAt?: string;
 }
 
+export type PaymentMethod = 'pix' | 'cash' | 'card' | 'transfer';
+
 export interface Renewal {
   id: string;
   customerId: string;
@@ -30,6 +60,22 @@ export interface Renewal {
   amount: number;
   cost: number; // Added cost
   date: string;
+  previousDueDate?: string; // Customer due date before and after this renewal
+  newDueDate?: string;
+  creditUsed?: number; // Account credit spent on top of `amount`
+  paymentMethod?: PaymentMethod;
+  // Set when the renewal was not paid in full: the total owed, while `amount`
+  // is what has been received so far (later payments included)
+  amountDue?: number;
+  payments?: RenewalPayment[]; // Payments made after the renewal itself
+  updatedAt?: string;
+}
+
+export interface RenewalPayment {
+  id: string;
+  amount: number;
+  date: string;
+  method?: PaymentMethod;
 }
 
 export interface ManualAddition {
@@ -37,6 +83,61 @@ export interface ManualAddition {
   amount: number;
   date: string;
   description: string;
+  updatedAt?: string;
+}
+
+export interface AppData {
+  customers: Customer[];
+  servers: Server[];
+  plans: Plan[];
+  renewals: Renewal[];
+  manualAdditions: ManualAddition[];
+  whatsappMessage: string;
+}
+
+export type CollectionName = 'customers' | 'servers' | 'plans' | 'renewals' | 'manualAdditions';
+
+export interface SettingValue {
+  id: string;
+  value: unknown;
+}
+
+export type AuditEntity = CollectionName | 'settings';
+
+export type EntityRecord = Customer | Server | Plan | Renewal | ManualAddition | SettingValue;
+
+export interface AuditChange {
+  entity: AuditEntity;
+  id: string;
+  before: EntityRecord | null;
+  after: EntityRecord | null;
+}
+
+export interface AuditEntry {
+  id: string;
+  timestamp: string;
+  action: string;
+  changes: AuditChange[];
+  revertsEntryId?: string; // Set on undo/redo entries
+}
+
+// Wire format shared with the sync server (server/sync-server.ts)
+export interface SyncChange {
+  entity: AuditEntity;
+  id: string;
+  record: EntityRecord | null; // null = deleted
+  updatedAt: string;
+}
+
+export interface SyncRequest {
+  clientId: string;
+  cursor: number;
+  changes: SyncChange[];
+}
+
+export interface SyncResponse {
+  cursor: number;
+  changes: SyncChange[];
 }
 
-export type Tab = 'dashboard' | 'customers' | 'servers' | 'plans' | 'storage';
+export type Tab = 'dashboard' | 'customers' | 'trials' | 'servers' | 'plans' | 'storage' | 'history' | 'trash' | 'duplicates' | 'referrals' | 'winback' | 'debtors' | 'customer';
@@ -0,0 +1,31 @@
+import { useState, useEffect } from 'react';
+
+const STORAGE_PREFIX = 'arf:view:';
+
+const readViewState = <T extends object>(key: string, initial: T): T => {
+  try {
+    const saved = sessionStorage.getItem(STORAGE_PREFIX + key);
+    return saved ? { ...initial, ...JSON.parse(saved) } : initial;
+  } catch {
+    return initial;
+  }
+};
+
+/**
+ * State of a screen (search, filters, sorting) kept in the session storage of
+ * the browser tab: it survives switching screens and reloading, but a new tab
+ * starts clean. Values must be plain JSON.
+ */
+export const useViewState = <T extends object>(key: string, initial: T) => {
+  const [state, setState] = useState<T>(() => readViewState(key, initial));
+
+  useEffect(() => {
+    try {
+      sessionStorage.setItem(STORAGE_PREFIX + key, JSON.stringify(state));
+    } catch {
+      // Storage disabled or full: the state just lasts until the screen closes
+    }
+  }, [key, state]);
+
+  return [state, setState] as const;
+};
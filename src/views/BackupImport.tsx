@@ -0,0 +1,179 @@
+import { useState } from 'react';
+import { AlertTriangle, FileWarning } from 'lucide-react';
+import { AppData, CollectionName, Customer, Server, Plan, Renewal, ManualAddition } from '../types';
+import { COLLECTIONS } from '../db';
+import { BackupDiff, ParsedBackup, ImportMode, ConflictChoice, COLLECTION_LABELS, conflictKey } from '../backup';
+import { format } from 'date-fns';
+
+interface BackupImportProps {
+  parsed: ParsedBackup;
+  diff: BackupDiff;
+  onCancel: () => void;
+  onConfirm: (mode: ImportMode, choices: Record<string, ConflictChoice>) => void;
+}
+
+const formatCurrency = (val: number) => new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(val);
+
+const describeRecord = (collection: CollectionName, record: AppData[CollectionName][number]) => {
+  switch (collection) {
+    case 'customers': {
+      const customer = record as Customer;
+      return `${customer.name} • vence ${customer.dueDate} • ${formatCurrency(customer.amountPaid)}`;
+    }
+    case 'servers': {
+      const server = record as Server;
+      return `${server.name} • ${formatCurrency(server.costPerActive)}/ativo`;
+    }
+    case 'plans': {
+      const plan = record as Plan;
+      return `${plan.name} • ${plan.months}m • ${formatCurrency(plan.defaultPrice)}`;
+    }
+    case 'renewals': {
+      const renewal = record as Renewal;
+      return `${renewal.date?.slice(0, 10)} • ${formatCurrency(renewal.amount)}`;
+    }
+    case 'manualAdditions': {
+      const addition = record as ManualAddition;
+      return `${addition.description || 'Sem descrição'} • ${formatCurrency(addition.amount)}`;
+    }
+  }
+};
+
+export function BackupImport({ parsed, diff, onCancel, onConfirm }: BackupImportProps) {
+  const [mode, setMode] = useState<ImportMode>('merge');
+  const [choices, setChoices] = useState<Record<string, ConflictChoice>>({});
+
+  const totalConflicts = COLLECTIONS.reduce((acc, name) => acc + diff[name].conflicts.length, 0);
+  const included = COLLECTIONS.filter(name => parsed.collections[name]);
+
+  const setAllChoices = (choice: ConflictChoice) => {
+    const next: Record<string, ConflictChoice> = {};
+    COLLECTIONS.forEach(name => diff[name].conflicts.forEach(pair => {
+      next[conflictKey(name, pair.incoming.id)] = choice;
+    }));
+    setChoices(next);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm overflow-y-auto">
+      <div className="bg-[#1a1a1a] rounded-3xl border border-white/10 p-6 w-full max-w-lg shadow-2xl my-8">
+        <h3 className="text-xl font-bold text-white mb-1 uppercase tracking-widest">Importar Backup</h3>
+        <p className="text-gray-400 text-xs mb-6">
+          Versão {parsed.version}
+          {parsed.exportDate && <> • exportado em {format(new Date(parsed.exportDate), 'dd/MM/yyyy HH:mm')}</>}
+        </p>
+
+        <div className="bg-[#0f0f0f] rounded-2xl border border-white/5 overflow-hidden mb-4">
+          <div className="grid grid-cols-5 gap-2 px-4 py-2 text-[10px] uppercase tracking-wider text-gray-500 border-b border-white/5">
+            <span className="col-span-1">Dados</span>
+            <span className="text-right">Novos</span>
+            <span className="text-right">Alterados</span>
+            <span className="text-right">Conflitos</span>
+            <span className="text-right">Inválidos</span>
+          </div>
+          {included.map(name => (
+            <div key={name} className="grid grid-cols-5 gap-2 px-4 py-2 text-sm border-b border-white/5 last:border-0">
+              <span className="text-gray-300 text-xs truncate">{COLLECTION_LABELS[name]}</span>
+              <span className="text-right font-mono text-green-400">{diff[name].added.length}</span>
+              <span className="text-right font-mono text-blue-400">{diff[name].changed.length}</span>
+              <span className="text-right font-mono text-yellow-500">{diff[name].conflicts.length}</span>
+              <span className="text-right font-mono text-red-400">{parsed.invalid.filter(i => i.collection === name).length}</span>
+            </div>
+          ))}
+        </div>
+
+        {parsed.invalid.length > 0 && (
+          <div className="bg-red-500/10 border border-red-500/20 rounded-2xl p-4 mb-4">
+            <div className="flex items-center space-x-2 text-red-400 text-xs font-bold uppercase tracking-wider mb-2">
+              <FileWarning size={14} />
+              <span>{parsed.invalid.length} registros inválidos serão ignorados</span>
+            </div>
+            <div className="max-h-32 overflow-y-auto space-y-1">
+              {parsed.invalid.map(item => (
+                <div key={`${item.collection}-${item.index}`} className="text-[11px] text-red-300/80">
+                  {COLLECTION_LABELS[item.collection]} #{item.index + 1}{item.id ? ` (${item.id.slice(0, 8)})` : ''}: {item.errors.join(', ')}
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <div className="grid grid-cols-2 gap-2 mb-4">
+          <button
+            onClick={() => setMode('merge')}
+            className={`p-3 rounded-xl border text-left transition-colors ${mode === 'merge' ? 'border-[#c8a646] bg-[#c8a646]/10' : 'border-white/10 hover:bg-white/5'}`}
+          >
+            <div className="text-sm font-bold text-white">Mesclar por ID</div>
+            <div className="text-[10px] text-gray-500">Adiciona novos e atualiza alterados</div>
+          </button>
+          <button
+            onClick={() => setMode('replace')}
+            className={`p-3 rounded-xl border text-left transition-colors ${mode === 'replace' ? 'border-red-500 bg-red-500/10' : 'border-white/10 hover:bg-white/5'}`}
+          >
+            <div className="text-sm font-bold text-white">Substituir Tudo</div>
+            <div className="text-[10px] text-gray-500">Apaga os dados atuais das listas importadas</div>
+          </button>
+        </div>
+
+        {mode === 'merge' && totalConflicts > 0 && (
+          <div className="bg-yellow-500/10 border border-yellow-500/20 rounded-2xl p-4 mb-4">
+            <div className="flex items-center justify-between mb-3">
+              <div className="flex items-center space-x-2 text-yellow-500 text-xs font-bold uppercase tracking-wider">
+                <AlertTriangle size={14} />
+                <span>{totalConflicts} conflitos</span>
+              </div>
+              <div className="flex space-x-2 text-[10px] uppercase font-bold">
+                <button onClick={() => setAllChoices('local')} className="text-gray-400 hover:text-white">Manter todos</button>
+                <button onClick={() => setAllChoices('incoming')} className="text-gray-400 hover:text-white">Usar backup</button>
+              </div>
+            </div>
+            <p className="text-[11px] text-gray-400 mb-3">Estes registros foram alterados aqui depois que o backup foi gerado. Escolha qual versão manter.</p>
+            <div className="max-h-64 overflow-y-auto space-y-2">
+              {COLLECTIONS.flatMap(name => diff[name].conflicts.map(pair => {
+                const key = conflictKey(name, pair.incoming.id);
+                const choice = choices[key] || 'local';
+                return (
+                  <div key={key} className="bg-[#0f0f0f] rounded-xl p-3 border border-white/5">
+                    <div className="text-[10px] uppercase tracking-wider text-gray-500 mb-2">{COLLECTION_LABELS[name]}</div>
+                    {(['local', 'incoming'] as ConflictChoice[]).map(option => (
+                      <label key={option} className="flex items-start space-x-2 text-xs py-1 cursor-pointer">
+                        <input
+                          type="radio"
+                          name={key}
+                          checked={choice === option}
+                          onChange={() => setChoices({ ...choices, [key]: option })}
+                          className="mt-0.5 accent-[#c8a646]"
+                        />
+                        <span className={choice === option ? 'text-white' : 'text-gray-500'}>
+                          <span className="font-bold">{option === 'local' ? 'Atual: ' : 'Backup: '}</span>
+                          {describeRecord(name, option === 'local' ? pair.local : pair.incoming)}
+                        </span>
+                      </label>
+                    ))}
+                  </div>
+                );
+              }))}
+            </div>
+          </div>
+        )}
+
+        <div className="flex space-x-3 mt-6">
+          <button
+            onClick={onCancel}
+            className="flex-1 py-3 rounded-xl border border-white/10 text-white font-medium hover:bg-white/5 transition-colors"
+          >
+            Cancelar
+          </button>
+          <button
+            onClick={() => onConfirm(mode, choices)}
+            className={`flex-1 py-3 rounded-xl font-bold transition-colors ${mode === 'replace'
+              ? 'bg-red-500/20 text-red-500 hover:bg-red-500/30'
+              : 'bg-[#c8a646] text-[#0f0f0f] hover:bg-[#e8c666] shadow-lg shadow-[#c8a646]/20'}`}
+          >
+            {mode === 'replace' ? 'Substituir' : 'Mesclar'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
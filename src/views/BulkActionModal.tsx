@@ -0,0 +1,200 @@
+import { useState } from 'react';
+import { Customer, Server, Plan } from '../types';
+import { BulkAction, BulkKind, BULK_LABELS, describeBulkAction } from '../bulk';
+import { selectable } from '../integrity';
+import { TagInput } from './TagInput';
+
+interface BulkActionModalProps {
+  kind: BulkKind;
+  selected: Customer[];
+  servers: Server[];
+  plans: Plan[];
+  tags: string[];
+  onConfirm: (action: BulkAction) => void;
+  onClose: () => void;
+}
+
+const formatCurrency = (val: number) => new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(val);
+
+const parseAmount = (value: string) => {
+  if (!value.trim()) return undefined;
+  const amount = parseFloat(value.replace(',', '.'));
+  return isNaN(amount) ? NaN : amount;
+};
+
+// Collects the parameters for a bulk action, then shows what will happen before applying it.
+export function BulkActionModal({ kind, selected, servers, plans, tags, onConfirm, onClose }: BulkActionModalProps) {
+  const activePlans = selectable(plans);
+  const activeServers = selectable(servers);
+  const [planId, setPlanId] = useState(activePlans[0]?.id || '');
+  const [serverId, setServerId] = useState(kind === 'moveServer' ? activeServers[0]?.id || '' : '');
+  const [amount, setAmount] = useState('');
+  const [days, setDays] = useState('7');
+  const [chosenTags, setChosenTags] = useState<string[]>([]);
+  const [pending, setPending] = useState<BulkAction | null>(null);
+  const [error, setError] = useState('');
+
+  const buildAction = (): BulkAction | string => {
+    const parsedAmount = parseAmount(amount);
+    if (parsedAmount !== undefined && isNaN(parsedAmount)) return 'Valor inválido.';
+    switch (kind) {
+      case 'renew':
+        if (!planId) return 'Escolha um plano.';
+        return { kind, planId, serverId: serverId || undefined, amount: parsedAmount };
+      case 'moveServer':
+        if (!serverId) return 'Escolha um servidor.';
+        return { kind, serverId };
+      case 'changePlan':
+        if (!planId) return 'Escolha um plano.';
+        return { kind, planId, amount: parsedAmount };
+      case 'extendDueDate': {
+        const n = parseInt(days, 10);
+        if (!(n > 0)) return 'Informe um número de dias maior que zero.';
+        return { kind, days: n };
+      }
+      case 'addTags':
+      case 'removeTags':
+        if (chosenTags.length === 0) return 'Escolha ao menos uma etiqueta.';
+        return { kind, tags: chosenTags };
+      case 'delete':
+        return { kind };
+    }
+  };
+
+  const review = () => {
+    const action = buildAction();
+    if (typeof action === 'string') return setError(action);
+    setError('');
+    setPending(action);
+  };
+
+  // Deleting needs no parameters, so it goes straight to the summary
+  const step = pending || (kind === 'delete' ? { kind } as BulkAction : null);
+
+  const labelClass = 'block text-xs font-medium text-gray-400 uppercase tracking-wider mb-2';
+  const inputClass = 'w-full bg-[#0f0f0f] border border-white/10 rounded-xl px-4 py-3 text-white focus:outline-none focus:border-[#c8a646]';
+  const selectedPlan = plans.find(p => p.id === planId);
+  const usedTags = [...new Set(selected.flatMap(c => c.tags || []))];
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm overflow-y-auto">
+      <div className="bg-[#1a1a1a] rounded-3xl border border-white/10 p-6 w-full max-w-sm shadow-2xl my-8">
+        <h3 className="text-xl font-bold text-white mb-2 uppercase tracking-widest">{BULK_LABELS[kind]}</h3>
+        <p className="text-gray-400 text-sm mb-6">{selected.length} {selected.length === 1 ? 'cliente selecionado' : 'clientes selecionados'}</p>
+
+        {step ? (
+          <>
+            <div className="bg-[#0f0f0f] rounded-xl border border-white/10 p-4 mb-4 text-sm text-white">
+              {describeBulkAction(step, servers, plans, formatCurrency)}.
+            </div>
+            <div className="max-h-40 overflow-y-auto space-y-1 mb-4">
+              {selected.slice(0, 50).map(c => (
+                <div key={c.id} className="text-xs text-gray-400 truncate">• {c.name}</div>
+              ))}
+              {selected.length > 50 && <div className="text-xs text-gray-500">e mais {selected.length - 50}...</div>}
+            </div>
+            <p className="text-[10px] text-gray-500 mb-6">Tudo é aplicado de uma vez e pode ser desfeito com um único Desfazer.</p>
+            <div className="flex space-x-3">
+              <button
+                onClick={() => kind === 'delete' ? onClose() : setPending(null)}
+                className="flex-1 py-3 rounded-xl border border-white/10 text-white font-medium hover:bg-white/5 transition-colors"
+              >
+                {kind === 'delete' ? 'Cancelar' : 'Voltar'}
+              </button>
+              <button
+                onClick={() => onConfirm(step)}
+                className={`flex-1 py-3 rounded-xl font-bold transition-colors ${kind === 'delete' ? 'bg-red-500/20 text-red-500 hover:bg-red-500/30' : 'bg-[#c8a646] text-[#0f0f0f] hover:bg-[#e8c666] shadow-lg shadow-[#c8a646]/20'}`}
+              >
+                Confirmar
+              </button>
+            </div>
+          </>
+        ) : (
+          <>
+            <div className="space-y-4">
+              {(kind === 'renew' || kind === 'changePlan') && (
+                <div>
+                  <label className={labelClass}>Plano</label>
+                  <select value={planId} onChange={e => setPlanId(e.target.value)} className={`${inputClass} appearance-none`}>
+                    {activePlans.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                  </select>
+                </div>
+              )}
+              {(kind === 'renew' || kind === 'moveServer') && (
+                <div>
+                  <label className={labelClass}>Servidor</label>
+                  <select value={serverId} onChange={e => setServerId(e.target.value)} className={`${inputClass} appearance-none`}>
+                    {kind === 'renew' && <option value="">Manter o servidor de cada cliente</option>}
+                    {activeServers.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+                  </select>
+                </div>
+              )}
+              {(kind === 'renew' || kind === 'changePlan') && (
+                <div>
+                  <label className={labelClass}>Valor (R$)</label>
+                  <input
+                    type="text"
+                    inputMode="decimal"
+                    value={amount}
+                    onChange={e => setAmount(e.target.value)}
+                    placeholder={`Padrão do plano (${formatCurrency(selectedPlan?.defaultPrice || 0)})`}
+                    className={inputClass}
+                  />
+                </div>
+              )}
+              {kind === 'extendDueDate' && (
+                <div>
+                  <label className={labelClass}>Dias a mais</label>
+                  <input type="number" min="1" value={days} onChange={e => setDays(e.target.value)} className={inputClass} />
+                </div>
+              )}
+              {kind === 'addTags' && (
+                <div>
+                  <label className={labelClass}>Etiquetas</label>
+                  <TagInput tags={chosenTags} suggestions={tags} onChange={setChosenTags} />
+                </div>
+              )}
+              {kind === 'removeTags' && (
+                <div>
+                  <label className={labelClass}>Etiquetas</label>
+                  {usedTags.length === 0 ? (
+                    <p className="text-xs text-gray-500">Nenhum cliente selecionado tem etiquetas.</p>
+                  ) : (
+                    <div className="flex flex-wrap gap-2">
+                      {usedTags.map(tag => (
+                        <button
+                          key={tag}
+                          type="button"
+                          onClick={() => setChosenTags(chosenTags.includes(tag) ? chosenTags.filter(t => t !== tag) : [...chosenTags, tag])}
+                          className={`text-xs px-3 py-1.5 rounded-lg transition-colors ${chosenTags.includes(tag) ? 'bg-red-500/20 text-red-400 font-bold' : 'bg-white/5 text-gray-400 hover:text-white'}`}
+                        >
+                          {tag}
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              )}
+              {error && <p className="text-red-400 text-xs">{error}</p>}
+            </div>
+
+            <div className="flex space-x-3 mt-8">
+              <button
+                onClick={onClose}
+                className="flex-1 py-3 rounded-xl border border-white/10 text-white font-medium hover:bg-white/5 transition-colors"
+              >
+                Cancelar
+              </button>
+              <button
+                onClick={review}
+                className="flex-1 py-3 rounded-xl bg-[#c8a646] text-[#0f0f0f] font-bold hover:bg-[#e8c666] transition-colors shadow-lg shadow-[#c8a646]/20"
+              >
+                Continuar
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
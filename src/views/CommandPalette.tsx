@@ -0,0 +1,110 @@
+import React, { useState, useMemo, useEffect, useRef } from 'react';
+import { Search, User, Server as ServerIcon, Receipt, RefreshCw, Zap, CornerDownLeft } from 'lucide-react';
+import { PaletteData, PaletteGroup, PaletteResult, PaletteTarget, GROUP_LABELS, searchPalette } from '../palette';
+
+interface CommandPaletteProps {
+  data: PaletteData;
+  onSelect: (target: PaletteTarget) => void;
+  onClose: () => void;
+}
+
+const GROUP_ICONS: Record<PaletteGroup, typeof Search> = {
+  actions: Zap,
+  customers: User,
+  servers: ServerIcon,
+  plans: Receipt,
+  renewals: RefreshCw
+};
+
+export function CommandPalette({ data, onSelect, onClose }: CommandPaletteProps) {
+  const [query, setQuery] = useState('');
+  const [activeIndex, setActiveIndex] = useState(0);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  const results = useMemo(() => searchPalette(query, data), [query, data]);
+
+  useEffect(() => setActiveIndex(0), [query]);
+
+  // Keeps the highlighted row in view while moving with the arrow keys
+  useEffect(() => {
+    listRef.current?.querySelector(`[data-index="${activeIndex}"]`)?.scrollIntoView({ block: 'nearest' });
+  }, [activeIndex]);
+
+  const choose = (result: PaletteResult | undefined) => {
+    if (!result) return;
+    onSelect(result.target);
+    onClose();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setActiveIndex(i => results.length === 0 ? 0 : (i + 1) % results.length);
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setActiveIndex(i => results.length === 0 ? 0 : (i - 1 + results.length) % results.length);
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      choose(results[activeIndex]);
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      onClose();
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-start justify-center p-4 pt-[10vh] bg-black/80 backdrop-blur-sm" onClick={onClose}>
+      <div className="bg-[#1a1a1a] rounded-3xl border border-white/10 w-full max-w-lg shadow-2xl overflow-hidden" onClick={e => e.stopPropagation()}>
+        <div className="relative border-b border-white/5">
+          <Search className="absolute left-5 top-1/2 transform -translate-y-1/2 text-gray-500" size={18} />
+          <input
+            type="text"
+            autoFocus
+            value={query}
+            onChange={e => setQuery(e.target.value)}
+            onKeyDown={handleKeyDown}
+            placeholder='Buscar cliente, telefone, servidor... ou "renovar nome"'
+            className="w-full bg-transparent pl-12 pr-16 py-4 text-white focus:outline-none"
+          />
+          <kbd className="hidden sm:block absolute right-5 top-1/2 transform -translate-y-1/2 text-[10px] text-gray-500 border border-white/10 rounded px-1.5 py-0.5">ESC</kbd>
+        </div>
+
+        <div ref={listRef} className="max-h-[60vh] overflow-y-auto py-2">
+          {results.length === 0 ? (
+            <p className="text-center text-sm text-gray-500 py-8">Nada encontrado para "{query}".</p>
+          ) : (
+            results.map((result, index) => {
+              const Icon = GROUP_ICONS[result.group];
+              const startsGroup = index === 0 || results[index - 1].group !== result.group;
+              return (
+                <React.Fragment key={result.id}>
+                  {startsGroup && (
+                    <div className="px-5 pt-3 pb-1 text-[10px] font-bold text-gray-500 uppercase tracking-wider">{GROUP_LABELS[result.group]}</div>
+                  )}
+                  <button
+                    data-index={index}
+                    onClick={() => choose(result)}
+                    onMouseMove={() => setActiveIndex(index)}
+                    className={`w-full flex items-center space-x-3 px-5 py-2.5 text-left transition-colors ${index === activeIndex ? 'bg-[#c8a646]/10' : ''}`}
+                  >
+                    <Icon size={16} className={index === activeIndex ? 'text-[#c8a646] shrink-0' : 'text-gray-500 shrink-0'} />
+                    <div className="min-w-0 flex-1">
+                      <div className="text-sm text-white truncate">{result.title}</div>
+                      {result.subtitle && <div className="text-xs text-gray-500 truncate">{result.subtitle}</div>}
+                    </div>
+                    {index === activeIndex && <CornerDownLeft size={14} className="hidden sm:block text-gray-500 shrink-0" />}
+                  </button>
+                </React.Fragment>
+              );
+            })
+          )}
+        </div>
+
+        <div className="hidden sm:flex items-center justify-between px-5 py-2 border-t border-white/5 text-[10px] text-gray-500">
+          <span>↑↓ navegar • Enter abrir • Esc fechar</span>
+          <span>Ctrl+K</span>
+        </div>
+      </div>
+    </div>
+  );
+}
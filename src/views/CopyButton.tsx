@@ -0,0 +1,38 @@
+import { useState, useEffect } from 'react';
+import { Copy, Check } from 'lucide-react';
+
+interface CopyButtonProps {
+  value: string;
+  title?: string;
+}
+
+export function CopyButton({ value, title = 'Copiar' }: CopyButtonProps) {
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => {
+    if (!copied) return;
+    const timer = setTimeout(() => setCopied(false), 1500);
+    return () => clearTimeout(timer);
+  }, [copied]);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(value);
+      setCopied(true);
+    } catch (err) {
+      console.error('Erro ao copiar:', err);
+      alert('Não foi possível copiar. Copie manualmente: ' + value);
+    }
+  };
+
+  return (
+    <button
+      type="button"
+      onClick={handleCopy}
+      title={title}
+      className={`p-1 rounded transition-colors ${copied ? 'text-green-400' : 'text-gray-500 hover:text-white'}`}
+    >
+      {copied ? <Check size={12} /> : <Copy size={12} />}
+    </button>
+  );
+}
@@ -0,0 +1,35 @@
+import { payWithCredit } from '../renewal';
+
+interface CreditOptionProps {
+  credit: number;
+  price: string; // As typed in the renewal form
+  checked: boolean;
+  onChange: (checked: boolean) => void;
+}
+
+const formatCurrency = (val: number) => new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(val);
+
+// "Use account credit" switch for the renewal forms, with what is left to pay
+export function CreditOption({ credit, price, checked, onChange }: CreditOptionProps) {
+  const parsed = parseFloat(price.replace(',', '.'));
+  const { amount, creditUsed } = payWithCredit(isNaN(parsed) ? 0 : parsed, credit);
+
+  return (
+    <div className="bg-[#c8a646]/5 border border-[#c8a646]/20 rounded-xl p-3">
+      <label className="flex items-center space-x-2 text-sm text-gray-300 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={checked}
+          onChange={e => onChange(e.target.checked)}
+          className="accent-[#c8a646]"
+        />
+        <span>Usar crédito de indicação ({formatCurrency(credit)})</span>
+      </label>
+      {checked && (
+        <div className="text-xs text-gray-400 mt-2">
+          {formatCurrency(creditUsed)} do crédito • a pagar <span className="text-white font-bold">{formatCurrency(amount)}</span>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,324 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { ArrowLeft, RefreshCw, Server as ServerIcon, Receipt, MessageCircle, Edit2, UserPlus, Trash2, RotateCcw, Phone, Calendar, Tv, GitMerge, UserCheck, Hourglass, Gift, Wallet, Activity, FileText, HandCoins } from 'lucide-react';
+import { AuditEntry, Customer, Server, Plan, Renewal, LifecycleState, PaymentMethod } from '../types';
+import { getAuditLog } from '../db';
+import { FIELD_LABELS } from '../audit';
+import { buildTimeline, customerMetrics, TimelineEvent, TimelineKind } from '../timeline';
+import { parseLocalDate, isActiveOn, startOfToday } from '../dates';
+import { format } from 'date-fns';
+import { CopyButton } from './CopyButton';
+import { formatPhone, isValidPhone } from '../phone';
+import { ReferralNode, referralTree, countTree } from '../referrals';
+import { LIFECYCLE_LABELS, LIFECYCLE_COLORS } from '../lifecycle';
+import { PAYMENT_METHOD_LABELS } from '../renewal';
+import { ReceiptModal } from './ReceiptModal';
+import { PaymentModal } from './PaymentModal';
+import { openRenewals, renewalBalance } from '../debts';
+
+interface CustomerDetailProps {
+  customer: Customer;
+  servers: Server[];
+  plans: Plan[];
+  renewals: Renewal[];
+  // Every customer, to resolve referrals
+  customers: Customer[];
+  // Current state of every visible customer (trash and open trials are left out)
+  lifecycles: Map<string, LifecycleState>;
+  addPayment: (customerId: string, amount: number, method?: PaymentMethod, renewalId?: string) => Renewal[];
+  auditRevision: number;
+  onBack: () => void;
+  openCustomer: (id: string) => void;
+}
+
+const KIND_STYLES: Record<TimelineKind, { label: string; icon: typeof RefreshCw; color: string }> = {
+  created: { label: 'Cliente cadastrado', icon: UserPlus, color: 'text-[#c8a646] bg-[#c8a646]/10' },
+  renewal: { label: 'Renovação', icon: RefreshCw, color: 'text-green-400 bg-green-500/10' },
+  serverMove: { label: 'Mudou de servidor', icon: ServerIcon, color: 'text-blue-400 bg-blue-500/10' },
+  planChange: { label: 'Mudou de plano', icon: Receipt, color: 'text-purple-400 bg-purple-500/10' },
+  notification: { label: 'Aviso pelo WhatsApp', icon: MessageCircle, color: 'text-green-400 bg-green-600/10' },
+  edit: { label: 'Dados editados', icon: Edit2, color: 'text-gray-400 bg-white/5' },
+  trash: { label: 'Movido para a lixeira', icon: Trash2, color: 'text-red-400 bg-red-500/10' },
+  restore: { label: 'Restaurado da lixeira', icon: RotateCcw, color: 'text-blue-400 bg-blue-500/10' },
+  merge: { label: 'Cadastros mesclados', icon: GitMerge, color: 'text-purple-400 bg-purple-500/10' },
+  trialConverted: { label: 'Teste convertido em cliente', icon: UserCheck, color: 'text-green-400 bg-green-500/10' },
+  trialExpired: { label: 'Teste expirado', icon: Hourglass, color: 'text-red-400 bg-red-500/10' },
+  referralReward: { label: 'Recompensa por indicação', icon: Gift, color: 'text-[#c8a646] bg-[#c8a646]/10' },
+  lifecycle: { label: 'Mudou de situação', icon: Activity, color: 'text-blue-400 bg-blue-500/10' },
+  payment: { label: 'Pagamento recebido', icon: HandCoins, color: 'text-green-400 bg-green-500/10' }
+};
+
+export function CustomerDetail({ customer, servers, plans, renewals, customers, lifecycles, addPayment, auditRevision, onBack, openCustomer }: CustomerDetailProps) {
+  const [auditLog, setAuditLog] = useState<AuditEntry[]>([]);
+  const [receiptRenewal, setReceiptRenewal] = useState<Renewal | null>(null);
+  // Payment being recorded, on the whole balance or on one renewal
+  const [paying, setPaying] = useState<{ balance: number; renewalId?: string } | null>(null);
+
+  useEffect(() => {
+    getAuditLog()
+      .then(setAuditLog)
+      .catch(err => console.error('Erro ao carregar histórico do cliente:', err));
+  }, [auditRevision]);
+
+  const timeline = useMemo(() => buildTimeline(customer, renewals, auditLog), [customer, renewals, auditLog]);
+  const metrics = useMemo(() => customerMetrics(customer, renewals, timeline), [customer, renewals, timeline]);
+  const referrals = useMemo(() => referralTree(customer.id, customers), [customer.id, customers]);
+  const referrer = customers.find(c => c.id === customer.referredBy);
+  const unpaid = useMemo(() => openRenewals(customer.id, renewals), [customer.id, renewals]);
+  const balance = unpaid.reduce((sum, r) => sum + Math.round(renewalBalance(r) * 100), 0) / 100;
+
+  const formatCurrency = (val: number) => new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(val);
+  const formatDueDate = (value: unknown) => {
+    const date = parseLocalDate(String(value));
+    return isNaN(date.getTime()) ? '—' : format(date, 'dd/MM/yyyy');
+  };
+  const serverName = (id: unknown) => servers.find(s => s.id === id)?.name || 'Servidor removido';
+  const planName = (id: unknown) => plans.find(p => p.id === id)?.name || 'Plano removido';
+
+  const formatField = (field: string, value: unknown) => {
+    if (value === undefined || value === null || value === '') return '—';
+    if (field === 'serverId') return serverName(value);
+    if (field === 'planId') return planName(value);
+    if (field === 'dueDate' || field === 'lastNotifiedDate') return formatDueDate(value);
+    if ((field === 'amountPaid' || field === 'credit') && typeof value === 'number') return formatCurrency(value);
+    if (field === 'lifecycle') return LIFECYCLE_LABELS[value as LifecycleState] || String(value);
+    if (field === 'paymentMethod') return PAYMENT_METHOD_LABELS[value as PaymentMethod] || String(value);
+    if (field === 'referredBy') return customers.find(c => c.id === value)?.name || 'Cliente removido';
+    if (Array.isArray(value)) return value.length > 0 ? value.join(', ') : '—';
+    return String(value);
+  };
+
+  const server = servers.find(s => s.id === customer.serverId);
+  const plan = plans.find(p => p.id === customer.planId);
+  const isActive = isActiveOn(customer.dueDate, startOfToday());
+  const lifecycle = lifecycles.get(customer.id);
+
+  const renderDetails = (event: TimelineEvent) => {
+    if (event.payment && event.renewal) {
+      const p = event.payment;
+      return (
+        <>
+          <div>
+            <span className="text-green-400">{formatCurrency(p.amount)}</span>
+            {p.method && <> • {PAYMENT_METHOD_LABELS[p.method]}</>}
+          </div>
+          <div>Da renovação de {format(new Date(event.renewal.date), 'dd/MM/yyyy')} • {planName(event.renewal.planId)}</div>
+        </>
+      );
+    }
+    if (event.renewal) {
+      const r = event.renewal;
+      return (
+        <>
+          <div>{planName(r.planId)} • {serverName(r.serverId)}</div>
+          <div>
+            <span className="text-green-400">{formatCurrency(r.amount)}</span>
+            {!!r.creditUsed && <> + <span className="text-[#c8a646]">{formatCurrency(r.creditUsed)} de crédito</span></>}
+            {r.paymentMethod && <> • {PAYMENT_METHOD_LABELS[r.paymentMethod]}</>}
+            {' '}• custo <span className="text-red-400">{formatCurrency(r.cost || 0)}</span>
+          </div>
+          {r.newDueDate && (
+            <div>Vencimento {r.previousDueDate ? `${formatDueDate(r.previousDueDate)} → ` : ''}{formatDueDate(r.newDueDate)}</div>
+          )}
+          {renewalBalance(r) > 0 && (
+            <div>Em aberto <span className="text-yellow-400 font-bold">{formatCurrency(renewalBalance(r))}</span> de {formatCurrency(r.amountDue || 0)}</div>
+          )}
+          <div className="flex items-center space-x-4 mt-1">
+            {r.amount > 0 && (
+              <button
+                onClick={() => setReceiptRenewal(r)}
+                className="inline-flex items-center space-x-1 text-[#c8a646] font-bold hover:text-[#e8c666] transition-colors"
+              >
+                <FileText size={12} />
+                <span>Recibo</span>
+              </button>
+            )}
+            {renewalBalance(r) > 0 && !customer.deletedAt && (
+              <button
+                onClick={() => setPaying({ balance: renewalBalance(r), renewalId: r.id })}
+                className="inline-flex items-center space-x-1 text-yellow-400 font-bold hover:text-yellow-300 transition-colors"
+              >
+                <HandCoins size={12} />
+                <span>Receber</span>
+              </button>
+            )}
+          </div>
+        </>
+      );
+    }
+    if (event.kind === 'notification' || event.kind === 'trash' || event.kind === 'restore' || event.kind === 'trialExpired') return null;
+    // The state on its own tells the story; when it was entered is the event date
+    const fields = event.kind === 'lifecycle' ? event.fields?.filter(f => f.field === 'lifecycle') : event.fields;
+    return fields?.map(f => (
+      <div key={f.field}>
+        {FIELD_LABELS[f.field] || f.field}: <span className="text-gray-500 line-through">{formatField(f.field, f.before)}</span> → <span className="text-white">{formatField(f.field, f.after)}</span>
+      </div>
+    ));
+  };
+
+  // Referral tree, indented by level
+  const renderReferrals = (nodes: ReferralNode[], depth: number): React.ReactNode => nodes.map(node => (
+    <div key={node.customer.id}>
+      <div className="flex items-center justify-between gap-3 text-sm py-1" style={{ paddingLeft: depth * 16 }}>
+        <button onClick={() => openCustomer(node.customer.id)} className="text-left text-white truncate hover:text-[#c8a646] transition-colors">
+          {depth > 0 && <span className="text-gray-600 mr-1">└</span>}{node.customer.name}
+        </button>
+        <span className={`text-[10px] font-bold uppercase tracking-wider shrink-0 ${node.customer.referralRewardedAt ? 'text-green-400' : 'text-gray-500'}`}>
+          {node.customer.referralRewardedAt ? 'Recompensada' : 'Aguardando pagamento'}
+        </span>
+      </div>
+      {renderReferrals(node.children, depth + 1)}
+    </div>
+  ));
+
+  return (
+    <div className="pb-24 space-y-6">
+      <button onClick={onBack} className="flex items-center space-x-2 text-sm text-gray-400 hover:text-white transition-colors">
+        <ArrowLeft size={16} />
+        <span>Voltar</span>
+      </button>
+
+      <div className="bg-[#1a1a1a] p-5 rounded-2xl border border-white/5 shadow-lg">
+        <div className="flex items-start justify-between">
+          <div className="min-w-0">
+            <h2 className="text-xl font-bold text-white truncate">{customer.name}</h2>
+            <div className="text-xs text-[#c8a646] uppercase tracking-wider mt-1">{server?.name || 'Sem servidor'} • {plan?.name || 'Sem plano'}</div>
+          </div>
+          <span className={`text-[10px] font-bold uppercase tracking-wider px-3 py-1 rounded-full shrink-0 ${customer.deletedAt ? 'text-red-400 bg-red-500/10' : lifecycle ? LIFECYCLE_COLORS[lifecycle] : isActive ? 'text-green-400 bg-green-500/10' : 'text-red-400 bg-red-500/10'}`}>
+            {customer.deletedAt ? 'Na lixeira' : lifecycle ? LIFECYCLE_LABELS[lifecycle] : isActive ? 'Ativo' : 'Vencido'}
+          </span>
+        </div>
+        <div className="flex flex-wrap gap-x-4 gap-y-1 mt-4 text-xs text-gray-400">
+          <span className="flex items-center space-x-1"><Phone size={12} /><span className={isValidPhone(customer.phone) ? undefined : 'text-red-400'}>{formatPhone(customer.phone) || '—'}</span></span>
+          <span className="flex items-center space-x-1"><Calendar size={12} /><span>Vence {formatDueDate(customer.dueDate)}</span></span>
+          {referrer && (
+            <span className="flex items-center space-x-1">
+              <Gift size={12} />
+              <span>Indicado por <button onClick={() => openCustomer(referrer.id)} className="text-white hover:text-[#c8a646] transition-colors">{referrer.name}</button></span>
+            </span>
+          )}
+          {!!customer.credit && (
+            <span className="flex items-center space-x-1 text-[#c8a646]"><Wallet size={12} /><span>Crédito {formatCurrency(customer.credit)}</span></span>
+          )}
+        </div>
+        {(customer.username || customer.password || customer.device || !!customer.screens || customer.macAddress) && (
+          <div className="flex flex-wrap items-center gap-x-4 gap-y-1 mt-2 text-xs text-gray-400">
+            {customer.username && (
+              <span className="flex items-center space-x-1">
+                <span>Usuário: <span className="text-white font-mono">{customer.username}</span></span>
+                <CopyButton value={customer.username} title="Copiar usuário" />
+              </span>
+            )}
+            {customer.password && (
+              <span className="flex items-center space-x-1">
+                <span>Senha: <span className="text-white font-mono">{customer.password}</span></span>
+                <CopyButton value={customer.password} title="Copiar senha" />
+              </span>
+            )}
+            {customer.device && <span className="flex items-center space-x-1"><Tv size={12} /><span>{customer.device}</span></span>}
+            {!!customer.screens && <span>{customer.screens} {customer.screens === 1 ? 'tela' : 'telas'}</span>}
+            {customer.macAddress && <span>MAC <span className="text-white font-mono">{customer.macAddress}</span></span>}
+          </div>
+        )}
+        {customer.notes && <p className="mt-3 text-xs text-gray-400 whitespace-pre-line break-words">{customer.notes}</p>}
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+        <div className="bg-[#1a1a1a] p-4 rounded-2xl border border-white/5">
+          <div className="text-[10px] uppercase tracking-wider text-gray-500 mb-1">Cliente há</div>
+          <div className="text-lg font-semibold text-white">
+            {metrics.firstSeen ? `${metrics.tenureMonths} ${metrics.tenureMonths === 1 ? 'mês' : 'meses'}` : '—'}
+          </div>
+          {metrics.firstSeen && <div className="text-[10px] text-gray-500">desde {format(new Date(metrics.firstSeen), 'dd/MM/yyyy')}</div>}
+        </div>
+        <div className="bg-[#1a1a1a] p-4 rounded-2xl border border-white/5">
+          <div className="text-[10px] uppercase tracking-wider text-gray-500 mb-1">Total pago</div>
+          <div className="text-lg font-semibold text-green-400">{formatCurrency(metrics.totalPaid)}</div>
+          <div className="text-[10px] text-gray-500">{metrics.renewalCount} renovações</div>
+        </div>
+        <div className="bg-[#1a1a1a] p-4 rounded-2xl border border-[#c8a646]/20">
+          <div className="text-[10px] uppercase tracking-wider text-[#c8a646] mb-1">Lucro gerado</div>
+          <div className="text-lg font-bold text-white">{formatCurrency(metrics.profit)}</div>
+          <div className="text-[10px] text-gray-500">custo {formatCurrency(metrics.totalCost)}</div>
+        </div>
+        <div className="bg-[#1a1a1a] p-4 rounded-2xl border border-white/5">
+          <div className="text-[10px] uppercase tracking-wider text-gray-500 mb-1">Atraso médio</div>
+          <div className="text-lg font-semibold text-white">
+            {metrics.averageDaysLate === null ? '—' : `${metrics.averageDaysLate.toFixed(1).replace('.', ',')} dias`}
+          </div>
+        </div>
+      </div>
+
+      {balance > 0 && (
+        <div className="bg-yellow-500/5 p-4 rounded-2xl border border-yellow-500/20 flex items-center justify-between gap-4">
+          <div>
+            <div className="text-[10px] uppercase tracking-wider text-yellow-400 mb-1">Saldo em aberto</div>
+            <div className="text-lg font-bold text-white">{formatCurrency(balance)}</div>
+            <div className="text-[10px] text-gray-500">{unpaid.length} {unpaid.length === 1 ? 'renovação' : 'renovações'} sem pagamento completo</div>
+          </div>
+          {!customer.deletedAt && (
+            <button
+              onClick={() => setPaying({ balance })}
+              className="px-4 py-2 rounded-xl bg-[#c8a646] text-[#0f0f0f] text-sm font-bold hover:bg-[#e8c666] transition-colors shrink-0"
+            >
+              Receber
+            </button>
+          )}
+        </div>
+      )}
+
+      {referrals.length > 0 && (
+        <div>
+          <h3 className="text-sm font-bold text-white uppercase tracking-widest mb-4">Indicações ({countTree(referrals)})</h3>
+          <div className="bg-[#1a1a1a] p-4 rounded-2xl border border-white/5 space-y-1">{renderReferrals(referrals, 0)}</div>
+        </div>
+      )}
+
+      <div>
+        <h3 className="text-sm font-bold text-white uppercase tracking-widest mb-4">Linha do tempo</h3>
+        {timeline.length === 0 ? (
+          <div className="text-center py-8 text-gray-500 text-sm">Nenhum registro para este cliente.</div>
+        ) : (
+          <div className="space-y-3">
+            {timeline.map(event => {
+              const style = KIND_STYLES[event.kind];
+              const Icon = style.icon;
+              return (
+                <div key={event.id} className="bg-[#1a1a1a] p-4 rounded-2xl border border-white/5 flex items-start space-x-3">
+                  <div className={`p-2 rounded-full shrink-0 ${style.color}`}>
+                    <Icon size={16} />
+                  </div>
+                  <div className="min-w-0 flex-1">
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="text-sm font-bold text-white">{style.label}</span>
+                      <span className="text-[10px] text-gray-500 shrink-0">{format(new Date(event.date), 'dd/MM/yyyy HH:mm')}</span>
+                    </div>
+                    <div className="text-xs text-gray-400 mt-1 space-y-0.5 break-words">{renderDetails(event)}</div>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      {receiptRenewal && (
+        <ReceiptModal
+          renewal={receiptRenewal}
+          customer={customer}
+          servers={servers}
+          plans={plans}
+          onClose={() => setReceiptRenewal(null)}
+        />
+      )}
+
+      {paying && (
+        <PaymentModal
+          customer={customer}
+          balance={paying.balance}
+          onConfirm={(amount, method) => addPayment(customer.id, amount, method, paying.renewalId)}
+          onClose={() => setPaying(null)}
+        />
+      )}
+    </div>
+  );
+}
@@ -1,20 +1,60 @@
-import React, { useState, useMemo, useRef } from 'react';
+import React, { useState, useMemo, useRef, useEffect } from 'react';
 import { Customer, Server, Plan, Renewal } from '../types';
-import { Plus, Edit2, Trash2, Search, Filter, Calendar, Phone, CheckCircle, XCircle, RefreshCw, Upload, Download } from 'lucide-react';
+import { Plus, Edit2, Trash2, Search, Filter, Calendar, Phone, CheckCircle, XCircle, RefreshCw, Upload, Download, FileSpreadsheet, Tv, KeyRound, StickyNote, SlidersHorizontal, CheckSquare, Square, X, CopyCheck, Gift, ArrowDownWideNarrow, ArrowUpNarrowWide, HandCoins } from 'lucide-react';
 import { format, addMonths, isAfter, differenceInDays } from 'date-fns';
 import { v4 as uuidv4 } from 'uuid';
-import * as XLSX from 'xlsx';
+import { selectable, indexById } from '../integrity';
+import { RenewalInput } from '../renewal';
+import { CUSTOMER_HEADERS, DEVICE_SUGGESTIONS, writeSheet } from '../spreadsheet';
+import { CopyButton } from './CopyButton';
+import { TagInput } from './TagInput';
+import { ReferrerSelect } from './ReferrerSelect';
+import { RenewModal } from './RenewModal';
+import { ReceiptModal } from './ReceiptModal';
+import { FilterBuilder } from './FilterBuilder';
+import { SegmentSidebar } from './SegmentSidebar';
+import { BulkActionModal } from './BulkActionModal';
+import { ImportWizard } from './ImportWizard';
+import { ExportModal } from './ExportModal';
+import { SheetData, ImportPlan, readSheet } from '../importer';
+import { formatPhone, isValidPhone, parsePhone, phoneDigits, whatsappUrl } from '../phone';
+import { BulkAction, BulkKind, BULK_LABELS, BULK_AUDIT_ACTIONS } from '../bulk';
+import { CustomerFilter, Segments, TAG_SUGGESTIONS, allTags, applyFilter, countConditions, sameFilter } from '../segments';
+import { Lifecycles, LIFECYCLE_LABELS, LIFECYCLE_COLORS, isActiveState, lifetimeValues } from '../lifecycle';
+import { CustomerSort, SortKey, SORT_LABELS, DEFAULT_SORT, DEFAULT_DIRECTIONS, sortCustomers } from '../sorting';
+import { useViewState } from '../viewState';
+import { VirtualList } from './VirtualList';
+import { PaletteIntent } from '../palette';
+import { Balances } from '../debts';
 
 interface CustomersProps {
   customers: Customer[];
+  allCustomers: Customer[]; // Trials and trashed customers too, for the import duplicate check
   servers: Server[];
   plans: Plan[];
+  renewals: Renewal[];
   whatsappMessage: string;
-  addCustomer: (c: Customer) => void;
   updateCustomer: (id: string, c: Partial<Customer>) => void;
   deleteCustomer: (id: string) => void;
-  bulkUpdateCustomers: (updater: (prev: Customer[]) => Customer[]) => void;
-  addRenewal: (r: Omit<Renewal, 'id'>) => void;
+  importCustomers: (plan: ImportPlan) => void;
+  trashCount: number;
+  openTrash: () => void;
+  openDuplicates: () => void;
+  openReferrals: () => void;
+  openDebtors: () => void;
+  openCustomer: (id: string) => void;
+  addCustomerWithRenewal: (c: Omit<Customer, 'id'>, r: Omit<Renewal, 'id' | 'customerId'>) => void;
+  renewCustomer: (customerId: string, input: RenewalInput) => Renewal | null;
+  markNotified: (id: string) => void;
+  segments: Segments;
+  lifecycles: Lifecycles;
+  balances: Balances;
+  // Action picked in the command palette, carried out once the screen opens
+  intent: PaletteIntent | null;
+  onIntentHandled: () => void;
+  bulkApply: (ids: string[], action: BulkAction) => number;
+  undo: () => void;
+  lastAction?: string;
 }
 
 // Utility to parse YYYY-MM-DD safely as local midnight
@@ -27,43 +67,96 @@ const parseLocalDate = (dateStr: string | undefined | null) => {
   return new Date(y, m - 1, d);
 };
 
+// Search, filters and sorting, kept while switching screens
+interface CustomersView {
+  searchQuery: string;
+  filter: CustomerFilter;
+  sort: CustomerSort;
+}
+
+const INITIAL_VIEW: CustomersView = { searchQuery: '', filter: {}, sort: DEFAULT_SORT };
+
+const customerKey = (customer: Customer) => customer.id;
+
+// IPTV line details as edited in the form (all text inputs)
+const lineForm = (customer?: Customer) => ({
+  username: customer?.username || '',
+  password: customer?.password || '',
+  screens: customer?.screens?.toString() || '',
+  device: customer?.device || '',
+  macAddress: customer?.macAddress || '',
+  notes: customer?.notes || ''
+});
+
+const lineFields = (form: ReturnType<typeof lineForm>): Partial<Customer> => {
+  const screens = parseInt(form.screens, 10);
+  return {
+    username: form.username.trim() || undefined,
+    password: form.password.trim() || undefined,
+    screens: screens > 0 ? screens : undefined,
+    device: form.device.trim() || undefined,
+    macAddress: form.macAddress.trim().toUpperCase() || undefined,
+    notes: form.notes.trim() || undefined
+  };
+};
+
 export function Customers({
-  customers, servers, plans, whatsappMessage,
-  addCustomer, updateCustomer, deleteCustomer,
-  bulkUpdateCustomers, addRenewal
+  customers, allCustomers, servers, plans, renewals, whatsappMessage,
+  updateCustomer, deleteCustomer,
+  importCustomers, addCustomerWithRenewal, renewCustomer, markNotified, trashCount, openTrash, openDuplicates, openReferrals, openDebtors, openCustomer, segments, lifecycles, balances, intent, onIntentHandled,
+  bulkApply, undo, lastAction
 }: CustomersProps) {
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [editingCustomer, setEditingCustomer] = useState<Customer | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const phoneInputRef = useRef<HTMLInputElement>(null);
 
   // Delete Confirmation State
   const [customerToDelete, setCustomerToDelete] = useState<Customer | null>(null);
 
-  // Renew State
-  const [renewData, setRenewData] = useState<{
-    customerId: string;
-    serverId: string;
-    planId: string;
-    amountPaid: string;
-  } | null>(null);
+  // Customer being renewed
+  const [renewingId, setRenewingId] = useState<string | null>(null);
+  // Receipt of the renewal just confirmed
+  const [receiptRenewal, setReceiptRenewal] = useState<Renewal | null>(null);
 
   // Filters
-  const [searchQuery, setSearchQuery] = useState('');
-  const [serverFilter, setServerFilter] = useState('all');
-  const [statusFilter, setStatusFilter] = useState('all');
+  const [view, setView] = useViewState('customers', INITIAL_VIEW);
+  const { searchQuery, filter, sort } = view;
+  const setSearchQuery = (query: string) => setView(prev => ({ ...prev, searchQuery: query }));
+  const setFilter = (next: CustomerFilter) => setView(prev => ({ ...prev, filter: next }));
+  const setSortKey = (key: SortKey) => setView(prev => ({ ...prev, sort: { key, direction: DEFAULT_DIRECTIONS[key] } }));
+  const toggleSortDirection = () =>
+    setView(prev => ({ ...prev, sort: { ...prev.sort, direction: prev.sort.direction === 'asc' ? 'desc' : 'asc' } }));
+  const [isFilterOpen, setIsFilterOpen] = useState(false);
+
+  // Bulk selection
+  const [selectionMode, setSelectionMode] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [bulkKind, setBulkKind] = useState<BulkKind | null>(null);
+  const [bulkResult, setBulkResult] = useState<{ kind: BulkKind; count: number } | null>(null);
+
+  const [importSheet, setImportSheet] = useState<{ sheet: SheetData; fileName: string } | null>(null);
+  const [exportSource, setExportSource] = useState<{ customers: Customer[]; label: string } | null>(null);
 
   // Form State
   const [formData, setFormData] = useState({
     name: '',
     phone: '',
-    serverId: servers.length > 0 ? servers[0].id : '',
-    planId: plans.length > 0 ? plans[0].id : '',
-    amountPaid: plans.length > 0 ? plans[0].defaultPrice.toString() : '0',
-    dueDate: format(addMonths(new Date(), plans.length > 0 ? plans[0].months : 1), 'yyyy-MM-dd')
+    serverId: selectable(servers)[0]?.id || '',
+    planId: selectable(plans)[0]?.id || '',
+    amountPaid: selectable(plans)[0]?.defaultPrice.toString() || '0',
+    dueDate: format(addMonths(new Date(), selectable(plans)[0]?.months || 1), 'yyyy-MM-dd'),
+    tags: [] as string[],
+    referredBy: '',
+    ...lineForm()
   });
+  const parsedPhone = parsePhone(formData.phone);
+  // Old numbers that don't parse can be kept as they are while other fields are edited
+  const keepsLegacyPhone = !!editingCustomer && !parsedPhone.valid && formData.phone === editingCustomer.phone;
 
-  const today = new Date();
-  today.setHours(0, 0, 0, 0);
+  // Same Date object all day long, so the memoized list isn't rebuilt on every render
+  const todayKey = format(new Date(), 'yyyy-MM-dd');
+  const today = useMemo(() => parseLocalDate(todayKey), [todayKey]);
 
   const formatCurrency = (val: number) => new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(val);
 
@@ -80,44 +173,35 @@ export function Customers({
     }
   };
 
-  const handleRenewPlanChange = (planId: string) => {
-    if (!renewData) return;
-    const plan = plans.find(p => p.id === planId);
-    if (plan) {
-      setRenewData({
-        ...renewData,
-        planId,
-        amountPaid: plan.defaultPrice.toString()
-      });
-    }
-  };
-
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     const amount = parseFloat(formData.amountPaid.replace(',', '.'));
     if (isNaN(amount)) return;
+    if (!parsedPhone.valid && !keepsLegacyPhone) {
+      phoneInputRef.current?.focus();
+      return;
+    }
 
     const data = {
       name: formData.name,
-      phone: formData.phone,
+      phone: parsedPhone.valid ? parsedPhone.e164 : formData.phone,
       serverId: formData.serverId,
       planId: formData.planId,
       amountPaid: amount,
       dueDate: formData.dueDate,
+      tags: formData.tags.length > 0 ? formData.tags : undefined,
+      referredBy: formData.referredBy || undefined,
+      ...lineFields(formData)
     };
 
     if (editingCustomer) {
       updateCustomer(editingCustomer.id, data);
     } else {
-      const newId = uuidv4();
-      addCustomer({ ...data, id: newId });
-
       const server = servers.find(s => s.id === data.serverId);
       const plan = plans.find(p => p.id === data.planId);
       const cost = (server?.costPerActive || 0) * (plan?.months || 1);
 
-      addRenewal({
-        customerId: newId,
+      addCustomerWithRenewal(data, {
         serverId: data.serverId,
         planId: data.planId,
         amount: data.amountPaid,
@@ -129,13 +213,10 @@ export function Customers({
   };
 
   const downloadTemplate = () => {
-    const ws = XLSX.utils.aoa_to_sheet([
-      ['Nome', 'Telefone', 'Servidor', 'Plano', 'Valor', 'Vencimento (DD/MM/AAAA)'],
-      ['João Silva', '5511999999999', servers[0]?.name || 'Servidor 1', plans[0]?.name || 'Mensal', plans[0]?.defaultPrice || '35', format(addMonths(new Date(), 1), 'dd/MM/yyyy')]
-    ]);
-    const wb = XLSX.utils.book_new();
-    XLSX.utils.book_append_sheet(wb, ws, 'Clientes');
-    XLSX.writeFile(wb, 'modelo_clientes.xlsx');
+    writeSheet([
+      CUSTOMER_HEADERS,
+      ['João Silva', '5511999999999', servers[0]?.name || 'Servidor 1', plans[0]?.name || 'Mensal', plans[0]?.defaultPrice || '35', format(addMonths(new Date(), 1), 'dd/MM/yyyy'), 'joao123', 'senha123', 1, 'Smart TV', '00:1A:2B:3C:4D:5E', '', 'família']
+    ], 'modelo_clientes.xlsx');
   };
 
   const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -145,121 +226,11 @@ export function Customers({
     const reader = new FileReader();
     reader.onload = (event) => {
       try {
-        const data = new Uint8Array(event.target?.result as ArrayBuffer);
-        const workbook = XLSX.read(data, { type: 'array', cellDates: true });
-        const firstSheetName = workbook.SheetNames[0];
-        const worksheet = workbook.Sheets[firstSheetName];
-
-        // Use raw objects to allow flexible parsing of both strings and numbers
-        const jsonData = XLSX.utils.sheet_to_json(worksheet, { defval: '' }) as any[];
-
-        const newCustomers: Customer[] = [];
-        const newRenewals: Omit<Renewal, 'id'>[] = [];
-
-        jsonData.forEach((row) => {
-          // Flexible header matching in case user slightly changes case
-          const getFieldValue = (possibleNames: string[]) => {
-            for (const name of possibleNames) {
-              for (const key in row) {
-                if (key.toLowerCase().includes(name.toLowerCase())) {
-                  return row[key];
-                }
-              }
-            }
-            return '';
-          };
-
-          const nome = String(getFieldValue(['Nome']) || '').trim();
-          const telefoneRaw = String(getFieldValue(['Telefone', 'Celular', 'WhatsApp']) || '').trim();
-          const servidorNome = String(getFieldValue(['Servidor']) || '').trim();
-          const planoNome = String(getFieldValue(['Plano']) || '').trim();
-          const valorRaw = String(getFieldValue(['Valor', 'Preço']) || '').trim();
-          const vencimentoRaw = getFieldValue(['Vencimento', 'Data', 'Vence']);
-
-          if (!nome) return; // Skip empty rows
-
-          // Clean phone
-          const phone = telefoneRaw.replace(/\D/g, '');
-
-          // Match Server
-          let serverId = servers[0]?.id || '';
-          const matchedServer = servers.find(s => s.name.toLowerCase() === servidorNome.toLowerCase());
-          if (matchedServer) serverId = matchedServer.id;
-
-          // Match Plan
-          let planId = plans[0]?.id || '';
-          let planMonths = plans[0]?.months || 1;
-          const matchedPlan = plans.find(p => p.name.toLowerCase() === planoNome.toLowerCase());
-          if (matchedPlan) {
-            planId = matchedPlan.id;
-            planMonths = matchedPlan.months;
-          }
-
-          // Parse Value
-          let amountPaid = matchedPlan ? matchedPlan.defaultPrice : 0;
-          if (valorRaw) {
-            const parsedVal = parseFloat(valorRaw.replace(',', '.').replace(/[^\d.-]/g, ''));
-            if (!isNaN(parsedVal)) amountPaid = parsedVal;
-          }
-
-          // Parse Date
-          let dueDate = format(addMonths(new Date(), planMonths), 'yyyy-MM-dd');
-
-          if (vencimentoRaw instanceof Date) {
-            // SheetJS dates can have timezone offsets. For "due dates", we just want the calendar date.
-            // We use the Date object properties to get the actual numbers.
-            const day = vencimentoRaw.getDate();
-            const month = vencimentoRaw.getMonth() + 1;
-            const year = vencimentoRaw.getFullYear();
-            dueDate = `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
-          } else if (vencimentoRaw) {
-            const vencStr = String(vencimentoRaw).trim();
-            // Handle DD/MM/YYYY format string
-            const parts = vencStr.split('/');
-            if (parts.length === 3) {
-              const day = String(parts[0]).padStart(2, '0');
-              const month = String(parts[1]).padStart(2, '0');
-              const year = parts[2];
-              dueDate = `${year}-${month}-${day}`;
-            } else if (!isNaN(Number(vencStr))) {
-              // Handle Excel serial date (number)
-              const parsedDate = XLSX.SSF.parse_date_code(Number(vencStr));
-              const day = String(parsedDate.d).padStart(2, '0');
-              const month = String(parsedDate.m).padStart(2, '0');
-              const year = parsedDate.y;
-              dueDate = `${year}-${month}-${day}`;
-            }
-          }
-
-          const customerId = uuidv4();
-          newCustomers.push({
-            id: customerId,
-            name: nome,
-            phone,
-            serverId,
-            planId,
-            amountPaid,
-            dueDate
-          });
-
-          // Generate corresponding renewal history
-          const cost = (matchedServer?.costPerActive || servers[0]?.costPerActive || 0) * planMonths;
-          newRenewals.push({
-            customerId,
-            serverId,
-            planId,
-            amount: amountPaid,
-            cost: cost,
-            date: new Date().toISOString()
-          });
-        });
-
-        if (newCustomers.length > 0) {
-          bulkUpdateCustomers(prev => [...prev, ...newCustomers]);
-          newRenewals.forEach(addRenewal);
-          alert(`${newCustomers.length} clientes importados com sucesso!`);
+        const sheet = readSheet(event.target?.result as ArrayBuffer);
+        if (sheet.rows.length === 0) {
+          alert('Nenhuma linha encontrada na planilha.');
         } else {
-          alert('Nenhum cliente válido encontrado na planilha.');
+          setImportSheet({ sheet, fileName: file.name });
         }
       } catch (error) {
         console.error('Erro ao processar arquivo:', error);
@@ -280,22 +251,28 @@ export function Customers({
       setEditingCustomer(customer);
       setFormData({
         name: customer.name,
-        phone: customer.phone,
+        phone: formatPhone(customer.phone),
         serverId: customer.serverId,
         planId: customer.planId,
         amountPaid: customer.amountPaid.toString(),
-        dueDate: customer.dueDate
+        dueDate: customer.dueDate,
+        tags: customer.tags || [],
+        referredBy: customer.referredBy || '',
+        ...lineForm(customer)
       });
     } else {
       setEditingCustomer(null);
-      const defaultPlan = plans[0];
+      const defaultPlan = selectable(plans)[0];
       setFormData({
         name: '',
         phone: '',
-        serverId: servers.length > 0 ? servers[0].id : '',
+        serverId: selectable(servers)[0]?.id || '',
         planId: defaultPlan?.id || '',
         amountPaid: defaultPlan?.defaultPrice.toString() || '0',
-        dueDate: format(addMonths(new Date(), defaultPlan?.months || 1), 'yyyy-MM-dd')
+        dueDate: format(addMonths(new Date(), defaultPlan?.months || 1), 'yyyy-MM-dd'),
+        tags: [],
+        referredBy: '',
+        ...lineForm()
       });
     }
     setIsModalOpen(true);
@@ -313,71 +290,79 @@ export function Customers({
     }
   };
 
-  const openRenewModal = (customer: Customer) => {
-    setRenewData({
-      customerId: customer.id,
-      serverId: customer.serverId,
-      planId: customer.planId,
-      amountPaid: customer.amountPaid.toString()
-    });
-  };
+  const openRenewModal = (customer: Customer) => setRenewingId(customer.id);
 
-  const confirmRenew = () => {
-    if (renewData) {
-      const customer = customers.find(c => c.id === renewData.customerId);
-      const plan = plans.find(p => p.id === renewData.planId);
-      if (customer && plan) {
-        const currentDueDate = parseLocalDate(customer.dueDate);
-        const isActive = isAfter(currentDueDate, today) || differenceInDays(currentDueDate, today) === 0;
-
-        // If active, add to current due date. If expired, add to today.
-        const baseDate = isActive ? currentDueDate : today;
-        const newDueDate = format(addMonths(baseDate, plan.months), 'yyyy-MM-dd');
-
-        updateCustomer(customer.id, {
-          serverId: renewData.serverId,
-          planId: renewData.planId,
-          amountPaid: parseFloat(renewData.amountPaid.replace(',', '.')),
-          dueDate: newDueDate
-        });
-
-        const server = servers.find(s => s.id === renewData.serverId);
-        const cost = (server?.costPerActive || 0) * (plan?.months || 1);
-
-        addRenewal({
-          customerId: customer.id,
-          serverId: renewData.serverId,
-          planId: renewData.planId,
-          amount: parseFloat(renewData.amountPaid.replace(',', '.')),
-          cost: cost,
-          date: new Date().toISOString()
-        });
-      }
-      setRenewData(null);
+  useEffect(() => {
+    if (!intent || intent.kind === 'exportBackup') return;
+    if (intent.kind === 'newCustomer') {
+      openModal();
+    } else {
+      const customer = customers.find(c => c.id === intent.customerId);
+      if (customer) openRenewModal(customer);
     }
+    onIntentHandled();
+  }, [intent]);
+
+  const renewingCustomer = renewingId ? customers.find(c => c.id === renewingId) : undefined;
+
+  const handleRenewed = (renewal: Renewal | null) => {
+    setRenewingId(null);
+    if (renewal && renewal.amount > 0) setReceiptRenewal(renewal);
+  };
+
+  const tagOptions = useMemo(() => allTags(customers), [customers]);
+  const tagSuggestions = useMemo(() => [...new Set([...tagOptions, ...TAG_SUGGESTIONS])], [tagOptions]);
+
+  const segmentCounts = useMemo(() => Object.fromEntries(
+    segments.segments.map(segment => [segment.id, applyFilter(customers, segment.filter, today, lifecycles).length])
+  ), [customers, segments.segments, today, lifecycles]);
+
+  // The sidebar highlights whichever saved segment the current filter matches
+  const activeSegment = countConditions(filter) > 0
+    ? segments.segments.find(segment => sameFilter(segment.filter, filter)) || null
+    : null;
+
+  const saveSegment = (name: string, segmentFilter: CustomerFilter) => {
+    segments.saveSegment({ id: uuidv4(), name, filter: segmentFilter, createdAt: new Date().toISOString() });
+    setFilter(segmentFilter);
+    setIsFilterOpen(false);
+  };
+
+  const selectedCustomers = useMemo(() => customers.filter(c => selectedIds.has(c.id)), [customers, selectedIds]);
+
+  const toggleSelected = (id: string) => {
+    const next = new Set(selectedIds);
+    if (next.has(id)) next.delete(id); else next.add(id);
+    setSelectedIds(next);
   };
 
+  const exitSelection = () => {
+    setSelectionMode(false);
+    setSelectedIds(new Set());
+  };
+
+  const confirmBulk = (action: BulkAction) => {
+    const count = bulkApply(selectedCustomers.map(c => c.id), action);
+    setBulkKind(null);
+    setBulkResult({ kind: action.kind, count });
+    if (action.kind === 'delete') setSelectedIds(new Set());
+  };
+
+  const serverById = useMemo(() => indexById(servers), [servers]);
+  const planById = useMemo(() => indexById(plans), [plans]);
+  const valueByCustomer = useMemo(() => lifetimeValues(renewals), [renewals]);
+
   // Filter and sort customers
   const filteredCustomers = useMemo(() => {
-    return customers.filter(c => {
-      const matchesSearch = c.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
-        c.phone.includes(searchQuery);
-      const matchesServer = serverFilter === 'all' || c.serverId === serverFilter;
-
-      const dueDate = parseLocalDate(c.dueDate);
-      const isActive = isAfter(dueDate, today) || differenceInDays(dueDate, today) === 0;
-      const status = isActive ? 'Ativo' : 'Vencido';
-      const matchesStatus = statusFilter === 'all' || status.toLowerCase() === statusFilter;
-
-      return matchesSearch && matchesServer && matchesStatus;
-    }).sort((a, b) => {
-      const dateA = parseLocalDate(a.dueDate).getTime();
-      const dateB = parseLocalDate(b.dueDate).getTime();
-      if (isNaN(dateA)) return 1;
-      if (isNaN(dateB)) return -1;
-      return dateA - dateB;
-    });
-  }, [customers, searchQuery, serverFilter, statusFilter, today]);
+    const query = searchQuery.toLowerCase();
+    const queryDigits = phoneDigits(searchQuery);
+    const matches = applyFilter(customers, filter, today, lifecycles).filter(c =>
+      c.name.toLowerCase().includes(query) ||
+      (queryDigits !== '' && phoneDigits(c.phone).includes(queryDigits)) ||
+      [c.username, c.macAddress, c.device, c.notes, ...(c.tags || [])].some(value => value?.toLowerCase().includes(query))
+    );
+    return sortCustomers(matches, sort, { servers: serverById, lifetimeValues: valueByCustomer, today });
+  }, [customers, searchQuery, filter, sort, today, lifecycles, serverById, valueByCustomer]);
 
   return (
     <div className="pb-24 space-y-6">
@@ -386,11 +371,49 @@ export function Customers({
         <div className="flex space-x-2 relative">
           <input
             type="file"
-            accept=".xlsx, .xls"
+            accept=".xlsx, .xls, .csv"
             ref={fileInputRef}
             onChange={handleFileUpload}
             className="hidden"
           />
+          <button
+            onClick={openTrash}
+            title="Lixeira"
+            className="relative bg-[#1a1a1a] text-gray-400 p-2 rounded-full border border-white/10 hover:bg-white/5 transition-colors"
+          >
+            <Trash2 size={20} />
+            {trashCount > 0 && (
+              <span className="absolute -top-1 -right-1 bg-red-500 text-white text-[9px] font-bold rounded-full min-w-4 h-4 px-1 flex items-center justify-center">
+                {trashCount}
+              </span>
+            )}
+          </button>
+          <button
+            onClick={openDuplicates}
+            title="Duplicados"
+            className="bg-[#1a1a1a] text-gray-400 p-2 rounded-full border border-white/10 hover:bg-white/5 transition-colors"
+          >
+            <CopyCheck size={20} />
+          </button>
+          <button
+            onClick={openReferrals}
+            title="Indicações"
+            className="bg-[#1a1a1a] text-gray-400 p-2 rounded-full border border-white/10 hover:bg-white/5 transition-colors"
+          >
+            <Gift size={20} />
+          </button>
+          <button
+            onClick={openDebtors}
+            title="Devedores"
+            className="relative bg-[#1a1a1a] text-gray-400 p-2 rounded-full border border-white/10 hover:bg-white/5 transition-colors"
+          >
+            <HandCoins size={20} />
+            {balances.size > 0 && (
+              <span className="absolute -top-1 -right-1 bg-yellow-500 text-[#0f0f0f] text-[9px] font-bold rounded-full min-w-4 h-4 px-1 flex items-center justify-center">
+                {balances.size}
+              </span>
+            )}
+          </button>
           <button
             onClick={downloadTemplate}
             title="Baixar Modelo Excel"
@@ -398,13 +421,30 @@ export function Customers({
           >
             <Download size={20} />
           </button>
+          <button
+            onClick={() => setExportSource({
+              customers: filteredCustomers,
+              label: activeSegment ? `segmento ${activeSegment.name}` : countConditions(filter) > 0 || searchQuery ? 'filtro atual' : 'todos'
+            })}
+            title="Exportar planilha"
+            className="bg-[#1a1a1a] text-blue-400 p-2 rounded-full border border-white/10 hover:bg-white/5 transition-colors"
+          >
+            <FileSpreadsheet size={20} />
+          </button>
           <button
             onClick={() => fileInputRef.current?.click()}
-            title="Importar Excel"
+            title="Importar planilha"
             className="bg-[#1a1a1a] text-green-400 p-2 rounded-full border border-white/10 hover:bg-white/5 transition-colors"
           >
             <Upload size={20} />
           </button>
+          <button
+            onClick={() => selectionMode ? exitSelection() : setSelectionMode(true)}
+            title={selectionMode ? 'Sair da seleção' : 'Selecionar vários'}
+            className={`p-2 rounded-full border transition-colors ${selectionMode ? 'bg-[#c8a646]/10 text-[#c8a646] border-[#c8a646]/50' : 'bg-[#1a1a1a] text-gray-400 border-white/10 hover:bg-white/5'}`}
+          >
+            <CheckSquare size={20} />
+          </button>
           <button
             onClick={() => openModal()}
             title="Adicionar Novo"
@@ -415,137 +455,367 @@ export function Customers({
         </div>
       </div>
 
-      {/* Filters */}
-      <div className="space-y-3">
-        <div className="relative">
-          <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-500" size={18} />
-          <input
-            type="text"
-            placeholder="Buscar por nome..."
-            value={searchQuery}
-            onChange={e => setSearchQuery(e.target.value)}
-            className="w-full bg-[#1a1a1a] border border-white/10 rounded-xl pl-10 pr-4 py-3 text-white focus:outline-none focus:border-[#c8a646] transition-colors"
-          />
-        </div>
+      <div className="md:flex md:gap-6 space-y-4 md:space-y-0">
+        <SegmentSidebar
+          segments={segments.segments}
+          counts={segmentCounts}
+          totalCount={customers.length}
+          activeId={activeSegment?.id ?? null}
+          onSelect={segment => setFilter(segment ? segment.filter : {})}
+          onDelete={segments.deleteSegment}
+        />
+
+        <div className="flex-1 min-w-0 space-y-6">
+          {/* Filters */}
+          <div className="space-y-3">
+            <div className="relative">
+              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-500" size={18} />
+              <input
+                type="text"
+                placeholder="Buscar por nome, usuário, MAC..."
+                value={searchQuery}
+                onChange={e => setSearchQuery(e.target.value)}
+                className="w-full bg-[#1a1a1a] border border-white/10 rounded-xl pl-10 pr-4 py-3 text-white focus:outline-none focus:border-[#c8a646] transition-colors"
+              />
+            </div>
 
-        <div className="flex space-x-2">
-          <div className="relative flex-1">
-            <Filter className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-500" size={16} />
-            <select
-              value={serverFilter}
-              onChange={e => setServerFilter(e.target.value)}
-              className="w-full bg-[#1a1a1a] border border-white/10 rounded-xl pl-9 pr-4 py-2 text-sm text-white focus:outline-none appearance-none"
-            >
-              <option value="all">Todos Servidores</option>
-              {servers.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
-            </select>
+            <div className="flex space-x-2">
+              <div className="relative flex-1">
+                <Filter className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-500" size={16} />
+                <select
+                  value={filter.serverId || 'all'}
+                  onChange={e => setFilter({ ...filter, serverId: e.target.value === 'all' ? undefined : e.target.value })}
+                  className="w-full bg-[#1a1a1a] border border-white/10 rounded-xl pl-9 pr-4 py-2 text-sm text-white focus:outline-none appearance-none"
+                >
+                  <option value="all">Todos Servidores</option>
+                  {servers.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+                </select>
+              </div>
+              <select
+                value={filter.status || 'all'}
+                onChange={e => setFilter({ ...filter, status: e.target.value === 'all' ? undefined : e.target.value as CustomerFilter['status'] })}
+                className="flex-1 bg-[#1a1a1a] border border-white/10 rounded-xl px-4 py-2 text-sm text-white focus:outline-none appearance-none"
+              >
+                <option value="all">Todos Status</option>
+                <option value="active">Ativos</option>
+                <option value="expired">Vencidos</option>
+              </select>
+              <button
+                onClick={() => setIsFilterOpen(true)}
+                title="Mais filtros"
+                className={`relative bg-[#1a1a1a] border rounded-xl px-3 transition-colors ${countConditions(filter) > 0 ? 'border-[#c8a646]/50 text-[#c8a646]' : 'border-white/10 text-gray-400 hover:text-white'}`}
+              >
+                <SlidersHorizontal size={16} />
+                {countConditions(filter) > 0 && (
+                  <span className="absolute -top-1.5 -right-1.5 bg-[#c8a646] text-[#0f0f0f] text-[9px] font-bold rounded-full min-w-4 h-4 px-1 flex items-center justify-center">
+                    {countConditions(filter)}
+                  </span>
+                )}
+              </button>
+            </div>
+            <div className="flex space-x-2">
+              <select
+                value={sort.key}
+                onChange={e => setSortKey(e.target.value as SortKey)}
+                title="Ordenar por"
+                className="flex-1 bg-[#1a1a1a] border border-white/10 rounded-xl px-4 py-2 text-sm text-white focus:outline-none appearance-none"
+              >
+                {(Object.keys(SORT_LABELS) as SortKey[]).map(key => <option key={key} value={key}>Ordenar: {SORT_LABELS[key]}</option>)}
+              </select>
+              <button
+                onClick={toggleSortDirection}
+                title={sort.direction === 'asc' ? 'Crescente' : 'Decrescente'}
+                className="bg-[#1a1a1a] border border-white/10 rounded-xl px-3 text-gray-400 hover:text-white transition-colors"
+              >
+                {sort.direction === 'asc' ? <ArrowUpNarrowWide size={16} /> : <ArrowDownWideNarrow size={16} />}
+              </button>
+            </div>
+            {countConditions(filter) > 0 && (
+              <div className="flex items-center justify-between text-xs text-gray-500">
+                <span>{filteredCustomers.length} de {customers.length} clientes</span>
+                <button onClick={() => setFilter({})} className="text-[#c8a646] hover:text-white transition-colors">Limpar filtros</button>
+              </div>
+            )}
           </div>
-          <select
-            value={statusFilter}
-            onChange={e => setStatusFilter(e.target.value)}
-            className="flex-1 bg-[#1a1a1a] border border-white/10 rounded-xl px-4 py-2 text-sm text-white focus:outline-none appearance-none"
-          >
-            <option value="all">Todos Status</option>
-            <option value="ativo">Ativos</option>
-            <option value="vencido">Vencidos</option>
-          </select>
-        </div>
-      </div>
 
-      {/* Customer List */}
-      <div className="space-y-3">
-        {filteredCustomers.length === 0 ? (
-          <div className="text-center py-12 text-gray-500">
-            <p>Nenhum cliente encontrado.</p>
-          </div>
-        ) : (
-          filteredCustomers.map(customer => {
-            const server = servers.find(s => s.id === customer.serverId);
-            const plan = plans.find(p => p.id === customer.planId);
-            const dRaw = parseLocalDate(customer.dueDate);
-            const customerDueDate = isNaN(dRaw.getTime()) ? new Date() : dRaw;
-            const daysDiff = differenceInDays(customerDueDate, today);
-            const isActive = isAfter(customerDueDate, today) || daysDiff === 0;
-
-            return (
-              <div key={customer.id} className="bg-[#1a1a1a] rounded-2xl border border-white/5 p-4 shadow-lg">
-                <div className="flex justify-between items-start mb-3">
-                  <div>
-                    <h3 className="text-lg font-bold text-white flex items-center space-x-2">
-                      <span>{customer.name}</span>
-                      {isActive ? (
-                        <CheckCircle size={14} className="text-green-500" />
-                      ) : (
-                        <XCircle size={14} className="text-red-500" />
-                      )}
-                      {daysDiff === 7 && customer.lastNotifiedDate !== format(today, 'yyyy-MM-dd') && (
-                        <span className="bg-[#c8a646] text-[#0f0f0f] text-[10px] font-bold px-1.5 py-0.5 rounded">
-                          NOTIFICAR
-                        </span>
-                      )}
-                    </h3>
-                    <div className="text-xs text-[#c8a646] uppercase tracking-wider mt-1">{server?.name} • {plan?.name}</div>
-                  </div>
-                  <div className="flex space-x-2">
-                    <button
-                      onClick={() => {
-                        const message = whatsappMessage
-                          .replace('{nome}', customer.name)
-                          .replace('{valor}', formatCurrency(customer.amountPaid))
-                          .replace('{dias}', daysDiff === 0 ? 'hoje' : `${daysDiff} dias`)
-                          .replace('{vencimento}', (() => {
+          {bulkResult && (
+            <div className="flex items-center justify-between gap-3 bg-green-500/10 border border-green-500/20 rounded-xl px-4 py-3 text-sm text-green-400">
+              <span>{BULK_LABELS[bulkResult.kind]}: {bulkResult.count} {bulkResult.count === 1 ? 'cliente alterado' : 'clientes alterados'}.</span>
+              <span className="flex items-center space-x-3 shrink-0">
+                {lastAction === BULK_AUDIT_ACTIONS[bulkResult.kind] && (
+                  <button onClick={() => { undo(); setBulkResult(null); }} className="font-bold text-white hover:text-[#c8a646] transition-colors">Desfazer</button>
+                )}
+                <button onClick={() => setBulkResult(null)} title="Fechar" className="text-gray-400 hover:text-white"><X size={14} /></button>
+              </span>
+            </div>
+          )}
+
+          {selectionMode && (
+            <div className="bg-[#1a1a1a] border border-[#c8a646]/30 rounded-2xl p-4 space-y-3">
+              <div className="flex items-center justify-between text-sm">
+                <span className="text-white font-bold">{selectedCustomers.length} {selectedCustomers.length === 1 ? 'selecionado' : 'selecionados'}</span>
+                <span className="flex items-center space-x-3 text-xs">
+                  <button
+                    onClick={() => setSelectedIds(new Set([...selectedIds, ...filteredCustomers.map(c => c.id)]))}
+                    className="text-[#c8a646] hover:text-white transition-colors"
+                  >
+                    Selecionar todos filtrados ({filteredCustomers.length})
+                  </button>
+                  {selectedIds.size > 0 && (
+                    <button onClick={() => setSelectedIds(new Set())} className="text-gray-400 hover:text-white transition-colors">Limpar</button>
+                  )}
+                </span>
+              </div>
+              <div className="flex flex-wrap gap-2">
+                {(Object.keys(BULK_LABELS) as BulkKind[]).map(kind => (
+                  <button
+                    key={kind}
+                    disabled={selectedCustomers.length === 0}
+                    onClick={() => setBulkKind(kind)}
+                    className={`text-xs font-bold px-3 py-2 rounded-lg transition-colors disabled:opacity-40 ${kind === 'delete' ? 'bg-red-500/10 text-red-400 hover:bg-red-500/20' : 'bg-white/5 text-gray-300 hover:bg-white/10 hover:text-white'}`}
+                  >
+                    {BULK_LABELS[kind]}
+                  </button>
+                ))}
+                <button
+                  disabled={selectedCustomers.length === 0}
+                  onClick={() => setExportSource({ customers: selectedCustomers, label: 'seleção' })}
+                  className="text-xs font-bold px-3 py-2 rounded-lg bg-white/5 text-blue-400 hover:bg-white/10 transition-colors disabled:opacity-40"
+                >
+                  Exportar seleção
+                </button>
+              </div>
+            </div>
+          )}
+
+          {/* Customer List */}
+          <div className="space-y-3">
+            {filteredCustomers.length === 0 ? (
+              <div className="text-center py-12 text-gray-500">
+                <p>Nenhum cliente encontrado.</p>
+              </div>
+            ) : (
+              <VirtualList items={filteredCustomers} getKey={customerKey} estimatedHeight={150} gap={12} renderItem={customer => {
+                const server = serverById.get(customer.serverId);
+                const plan = planById.get(customer.planId);
+                const dRaw = parseLocalDate(customer.dueDate);
+                const customerDueDate = isNaN(dRaw.getTime()) ? new Date() : dRaw;
+                const daysDiff = differenceInDays(customerDueDate, today);
+                const lifecycle = lifecycles.get(customer.id);
+                const balance = balances.get(customer.id);
+                const isActive = lifecycle ? isActiveState(lifecycle) : isAfter(customerDueDate, today) || daysDiff === 0;
+
+                return (
+                  <div className={`bg-[#1a1a1a] rounded-2xl border p-4 shadow-lg ${selectedIds.has(customer.id) ? 'border-[#c8a646]/50' : 'border-white/5'}`}>
+                    <div className="flex justify-between items-start mb-3">
+                      <div>
+                        <h3 className="text-lg font-bold text-white flex items-center space-x-2">
+                          {selectionMode && (
+                            <button onClick={() => toggleSelected(customer.id)} title="Selecionar" className="text-[#c8a646] shrink-0">
+                              {selectedIds.has(customer.id) ? <CheckSquare size={18} /> : <Square size={18} />}
+                            </button>
+                          )}
+                          <button onClick={() => openCustomer(customer.id)} className="text-left hover:text-[#c8a646] transition-colors">{customer.name}</button>
+                          {isActive ? (
+                            <CheckCircle size={14} className="text-green-500" />
+                          ) : (
+                            <XCircle size={14} className="text-red-500" />
+                          )}
+                          {lifecycle && (
+                            <button
+                              onClick={() => setFilter({ ...filter, lifecycle })}
+                              title="Filtrar por esta situação"
+                              className={`text-[10px] font-bold uppercase px-1.5 py-0.5 rounded ${LIFECYCLE_COLORS[lifecycle]}`}
+                            >
+                              {LIFECYCLE_LABELS[lifecycle]}
+                            </button>
+                          )}
+                          {balance && (
+                            <button
+                              onClick={openDebtors}
+                              title="Saldo em aberto"
+                              className="bg-yellow-500/10 text-yellow-400 text-[10px] font-bold uppercase px-1.5 py-0.5 rounded"
+                            >
+                              Deve {formatCurrency(balance)}
+                            </button>
+                          )}
+                          {daysDiff === 7 && customer.lastNotifiedDate !== format(today, 'yyyy-MM-dd') && (
+                            <span className="bg-[#c8a646] text-[#0f0f0f] text-[10px] font-bold px-1.5 py-0.5 rounded">
+                              NOTIFICAR
+                            </span>
+                          )}
+                          {!isValidPhone(customer.phone) && (
+                            <span className="bg-red-500/10 text-red-400 text-[10px] font-bold px-1.5 py-0.5 rounded" title={customer.phone || 'Sem telefone'}>
+                              TEL. INVÁLIDO
+                            </span>
+                          )}
+                        </h3>
+                        <div className="text-xs text-[#c8a646] uppercase tracking-wider mt-1">{server?.name || 'Sem servidor'} • {plan?.name || 'Sem plano'}</div>
+                        {customer.tags && customer.tags.length > 0 && (
+                          <div className="flex flex-wrap gap-1 mt-2">
+                            {customer.tags.map(tag => (
+                              <button
+                                key={tag}
+                                onClick={() => setFilter({ ...filter, tags: [...new Set([...(filter.tags || []), tag])] })}
+                                title="Filtrar por esta etiqueta"
+                                className="text-[10px] text-gray-300 bg-white/5 hover:bg-white/10 px-2 py-0.5 rounded-md transition-colors"
+                              >
+                                {tag}
+                              </button>
+                            ))}
+                          </div>
+                        )}
+                      </div>
+                      <div className="flex space-x-2">
+                        <button
+                          onClick={() => {
+                            const message = whatsappMessage
+                              .replace('{nome}', customer.name)
+                              .replace('{valor}', formatCurrency(customer.amountPaid))
+                              .replace('{dias}', daysDiff === 0 ? 'hoje' : `${daysDiff} dias`)
+                              .replace('{vencimento}', (() => {
+                                try {
+                                  const d = parseLocalDate(customer.dueDate);
+                                  return isNaN(d.getTime()) ? 'Data Inválida' : format(d, 'dd/MM/yyyy');
+                                } catch {
+                                  return 'Data Inválida';
+                                }
+                              })());
+
+                            markNotified(customer.id);
+                            window.open(whatsappUrl(customer.phone, message), '_blank');
+                          }}
+                          className={`p-2 rounded-full transition-colors ${daysDiff === 7 && customer.lastNotifiedDate !== format(today, 'yyyy-MM-dd') ? 'bg-green-600/30 text-green-400 animate-pulse' : 'bg-white/5 text-gray-400 hover:text-white'}`}
+                          title="WhatsApp"
+                        >
+                          <Phone size={16} />
+                        </button>
+                        <button onClick={() => openRenewModal(customer)} className="p-2 text-green-400 hover:text-green-300 transition-colors bg-green-500/10 rounded-full" title="Renovar">
+                          <RefreshCw size={16} />
+                        </button>
+                        <button onClick={() => openModal(customer)} className="p-2 text-gray-400 hover:text-white transition-colors bg-white/5 rounded-full" title="Editar">
+                          <Edit2 size={16} />
+                        </button>
+                        <button onClick={() => setCustomerToDelete(customer)} className="p-2 text-red-400 hover:text-red-300 transition-colors bg-red-500/10 rounded-full" title="Excluir">
+                          <Trash2 size={16} />
+                        </button>
+                      </div>
+                    </div>
+
+                    <div className="grid grid-cols-2 gap-2 mt-4">
+                      <div className="flex items-center space-x-2 text-sm text-gray-400">
+                        <Calendar size={14} />
+                        <span className={!isActive ? 'text-red-400 font-medium' : daysDiff <= 7 ? 'text-yellow-500 font-medium' : ''}>
+                          {(() => {
                             try {
                               const d = parseLocalDate(customer.dueDate);
                               return isNaN(d.getTime()) ? 'Data Inválida' : format(d, 'dd/MM/yyyy');
                             } catch {
                               return 'Data Inválida';
                             }
-                          })());
-
-                        updateCustomer(customer.id, { lastNotifiedDate: format(today, 'yyyy-MM-dd') });
-                        window.open(`https://wa.me/${customer.phone.replace(/\D/g, '')}?text=${encodeURIComponent(message)}`, '_blank');
-                      }}
-                      className={`p-2 rounded-full transition-colors ${daysDiff === 7 && customer.lastNotifiedDate !== format(today, 'yyyy-MM-dd') ? 'bg-green-600/30 text-green-400 animate-pulse' : 'bg-white/5 text-gray-400 hover:text-white'}`}
-                      title="WhatsApp"
-                    >
-                      <Phone size={16} />
-                    </button>
-                    <button onClick={() => openRenewModal(customer)} className="p-2 text-green-400 hover:text-green-300 transition-colors bg-green-500/10 rounded-full" title="Renovar">
-                      <RefreshCw size={16} />
-                    </button>
-                    <button onClick={() => openModal(customer)} className="p-2 text-gray-400 hover:text-white transition-colors bg-white/5 rounded-full" title="Editar">
-                      <Edit2 size={16} />
-                    </button>
-                    <button onClick={() => setCustomerToDelete(customer)} className="p-2 text-red-400 hover:text-red-300 transition-colors bg-red-500/10 rounded-full" title="Excluir">
-                      <Trash2 size={16} />
-                    </button>
-                  </div>
-                </div>
-
-                <div className="grid grid-cols-2 gap-2 mt-4">
-                  <div className="flex items-center space-x-2 text-sm text-gray-400">
-                    <Calendar size={14} />
-                    <span className={!isActive ? 'text-red-400 font-medium' : daysDiff <= 7 ? 'text-yellow-500 font-medium' : ''}>
-                      {(() => {
-                        try {
-                          const d = parseLocalDate(customer.dueDate);
-                          return isNaN(d.getTime()) ? 'Data Inválida' : format(d, 'dd/MM/yyyy');
-                        } catch {
-                          return 'Data Inválida';
-                        }
-                      })()}
-                    </span>
-                  </div>
-                  <div className="flex items-center justify-end space-x-2 text-sm font-medium text-white">
-                    {formatCurrency(customer.amountPaid)}
+                          })()}
+                        </span>
+                      </div>
+                      <div className="flex items-center justify-end space-x-2 text-sm font-medium text-white">
+                        {formatCurrency(customer.amountPaid)}
+                      </div>
+                    </div>
+
+                    {(customer.username || customer.password || customer.device || !!customer.screens || customer.macAddress || customer.notes) && (
+                      <div className="mt-3 pt-3 border-t border-white/5 space-y-1.5 text-xs text-gray-400">
+                        {(customer.username || customer.password) && (
+                          <div className="flex flex-wrap items-center gap-x-4 gap-y-1">
+                            <KeyRound size={12} className="text-gray-500" />
+                            {customer.username && (
+                              <span className="flex items-center space-x-1">
+                                <span>Usuário: <span className="text-white font-mono">{customer.username}</span></span>
+                                <CopyButton value={customer.username} title="Copiar usuário" />
+                              </span>
+                            )}
+                            {customer.password && (
+                              <span className="flex items-center space-x-1">
+                                <span>Senha: <span className="text-white font-mono">{customer.password}</span></span>
+                                <CopyButton value={customer.password} title="Copiar senha" />
+                              </span>
+                            )}
+                          </div>
+                        )}
+                        {(customer.device || !!customer.screens || customer.macAddress) && (
+                          <div className="flex flex-wrap items-center gap-x-4 gap-y-1">
+                            <Tv size={12} className="text-gray-500" />
+                            {customer.device && <span>{customer.device}</span>}
+                            {!!customer.screens && <span>{customer.screens} {customer.screens === 1 ? 'tela' : 'telas'}</span>}
+                            {customer.macAddress && (
+                              <span className="flex items-center space-x-1">
+                                <span>MAC <span className="text-white font-mono">{customer.macAddress}</span></span>
+                                <CopyButton value={customer.macAddress} title="Copiar MAC" />
+                              </span>
+                            )}
+                          </div>
+                        )}
+                        {customer.notes && (
+                          <div className="flex items-start space-x-2">
+                            <StickyNote size={12} className="text-gray-500 mt-0.5 shrink-0" />
+                            <span className="whitespace-pre-line break-words">{customer.notes}</span>
+                          </div>
+                        )}
+                      </div>
+                    )}
                   </div>
-                </div>
-              </div>
-            );
-          })
-        )}
+                );
+              }} />
+            )}
+          </div>
+        </div>
       </div>
 
+      {importSheet && (
+        <ImportWizard
+          sheet={importSheet.sheet}
+          fileName={importSheet.fileName}
+          customers={allCustomers}
+          servers={servers}
+          plans={plans}
+          onImport={importCustomers}
+          onClose={() => setImportSheet(null)}
+        />
+      )}
+
+      {exportSource && (
+        <ExportModal
+          customers={exportSource.customers}
+          sourceLabel={exportSource.label}
+          servers={servers}
+          plans={plans}
+          renewals={renewals}
+          onClose={() => setExportSource(null)}
+        />
+      )}
+
+      {bulkKind && (
+        <BulkActionModal
+          kind={bulkKind}
+          selected={selectedCustomers}
+          servers={servers}
+          plans={plans}
+          tags={tagSuggestions}
+          onConfirm={confirmBulk}
+          onClose={() => setBulkKind(null)}
+        />
+      )}
+
+      {isFilterOpen && (
+        <FilterBuilder
+          filter={filter}
+          servers={servers}
+          plans={plans}
+          tags={tagOptions}
+          onApply={next => { setFilter(next); setIsFilterOpen(false); }}
+          onSaveSegment={saveSegment}
+          onClose={() => setIsFilterOpen(false)}
+        />
+      )}
+
       {/* Delete Confirmation Modal */}
       {customerToDelete && (
         <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm">
@@ -554,7 +824,7 @@ export function Customers({
               Excluir Cliente
             </h3>
             <p className="text-gray-400 text-sm mb-6">
-              Tem certeza que deseja excluir o cliente <span className="text-white font-bold">{customerToDelete.name}</span>? Esta ação não pode ser desfeita.
+              Mover o cliente <span className="text-white font-bold">{customerToDelete.name}</span> para a lixeira? Ele pode ser restaurado com todo o histórico de renovações.
             </p>
             <div className="flex space-x-3">
               <button
@@ -575,63 +845,25 @@ export function Customers({
       )}
 
       {/* Renew Modal */}
-      {renewData && (
-        <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm">
-          <div className="bg-[#1a1a1a] rounded-3xl border border-white/10 p-6 w-full max-w-sm shadow-2xl">
-            <h3 className="text-xl font-bold text-white mb-6 uppercase tracking-widest">
-              Renovar Plano
-            </h3>
-
-            <div className="space-y-4">
-              <div>
-                <label className="block text-xs font-medium text-gray-400 uppercase tracking-wider mb-2">Servidor</label>
-                <select
-                  value={renewData.serverId}
-                  onChange={e => setRenewData({ ...renewData, serverId: e.target.value })}
-                  className="w-full bg-[#0f0f0f] border border-white/10 rounded-xl px-4 py-3 text-white focus:outline-none focus:border-[#c8a646] appearance-none"
-                >
-                  {servers.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
-                </select>
-              </div>
-
-              <div>
-                <label className="block text-xs font-medium text-gray-400 uppercase tracking-wider mb-2">Plano</label>
-                <select
-                  value={renewData.planId}
-                  onChange={e => handleRenewPlanChange(e.target.value)}
-                  className="w-full bg-[#0f0f0f] border border-white/10 rounded-xl px-4 py-3 text-white focus:outline-none focus:border-[#c8a646] appearance-none"
-                >
-                  {plans.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
-                </select>
-              </div>
-
-              <div>
-                <label className="block text-xs font-medium text-gray-400 uppercase tracking-wider mb-2">Valor (R$)</label>
-                <input
-                  type="text"
-                  value={renewData.amountPaid}
-                  onChange={e => setRenewData({ ...renewData, amountPaid: e.target.value })}
-                  className="w-full bg-[#0f0f0f] border border-white/10 rounded-xl px-4 py-3 text-white focus:outline-none focus:border-[#c8a646]"
-                />
-              </div>
+      {renewingCustomer && (
+        <RenewModal
+          customer={renewingCustomer}
+          servers={servers}
+          plans={plans}
+          renewCustomer={renewCustomer}
+          onRenewed={handleRenewed}
+          onClose={() => setRenewingId(null)}
+        />
+      )}
 
-              <div className="flex space-x-3 mt-8 pt-4">
-                <button
-                  onClick={() => setRenewData(null)}
-                  className="flex-1 py-3 rounded-xl border border-white/10 text-white font-medium hover:bg-white/5 transition-colors"
-                >
-                  Cancelar
-                </button>
-                <button
-                  onClick={confirmRenew}
-                  className="flex-1 py-3 rounded-xl bg-[#c8a646] text-[#0f0f0f] font-bold hover:bg-[#e8c666] transition-colors shadow-lg shadow-[#c8a646]/20"
-                >
-                  Confirmar
-                </button>
-              </div>
-            </div>
-          </div>
-        </div>
+      {receiptRenewal && (
+        <ReceiptModal
+          renewal={receiptRenewal}
+          customer={customers.find(c => c.id === receiptRenewal.customerId)}
+          servers={servers}
+          plans={plans}
+          onClose={() => setReceiptRenewal(null)}
+        />
       )}
 
       {/* Form Modal */}
@@ -658,14 +890,19 @@ export function Customers({
                 <div className="relative">
                   <Phone className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-500" size={18} />
                   <input
+                    ref={phoneInputRef}
                     type="tel"
                     required
                     value={formData.phone}
                     onChange={e => setFormData({ ...formData, phone: e.target.value })}
-                    placeholder="5511999999999"
-                    className="w-full bg-[#0f0f0f] border border-white/10 rounded-xl pl-10 pr-4 py-3 text-white focus:outline-none focus:border-[#c8a646]"
+                    onBlur={() => parsedPhone.valid && setFormData({ ...formData, phone: formatPhone(formData.phone) })}
+                    placeholder="(11) 99999-9999"
+                    className={`w-full bg-[#0f0f0f] border rounded-xl pl-10 pr-4 py-3 text-white focus:outline-none focus:border-[#c8a646] ${formData.phone && !parsedPhone.valid ? 'border-red-500/50' : 'border-white/10'}`}
                   />
                 </div>
+                {formData.phone && !parsedPhone.valid && (
+                  <div className="text-xs text-red-400 mt-1">{parsedPhone.error}</div>
+                )}
               </div>
 
               <div>
@@ -677,7 +914,7 @@ export function Customers({
                   className="w-full bg-[#0f0f0f] border border-white/10 rounded-xl px-4 py-3 text-white focus:outline-none focus:border-[#c8a646] appearance-none"
                 >
                   <option value="" disabled>Selecione um servidor</option>
-                  {servers.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+                  {selectable(servers, formData.serverId).map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
                 </select>
               </div>
 
@@ -689,7 +926,7 @@ export function Customers({
                   onChange={e => handlePlanChange(e.target.value)}
                   className="w-full bg-[#0f0f0f] border border-white/10 rounded-xl px-4 py-3 text-white focus:outline-none focus:border-[#c8a646] appearance-none"
                 >
-                  {plans.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                  {selectable(plans, formData.planId).map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
                 </select>
               </div>
 
@@ -716,6 +953,100 @@ export function Customers({
                 </div>
               </div>
 
+              <div>
+                <label className="block text-xs font-medium text-gray-400 uppercase tracking-wider mb-2">Etiquetas</label>
+                <TagInput
+                  tags={formData.tags}
+                  suggestions={tagSuggestions}
+                  onChange={tags => setFormData({ ...formData, tags })}
+                />
+              </div>
+
+              <div>
+                <label className="block text-xs font-medium text-gray-400 uppercase tracking-wider mb-2">Indicado por</label>
+                <ReferrerSelect
+                  value={formData.referredBy}
+                  onChange={referredBy => setFormData({ ...formData, referredBy })}
+                  customers={customers}
+                  customerId={editingCustomer?.id}
+                />
+              </div>
+
+              <div className="pt-2 border-t border-white/5">
+                <div className="text-[10px] font-bold text-[#c8a646] uppercase tracking-widest mt-2 mb-4">Dados da linha</div>
+                <div className="space-y-4">
+                  <div className="grid grid-cols-2 gap-4">
+                    <div>
+                      <label className="block text-xs font-medium text-gray-400 uppercase tracking-wider mb-2">Usuário</label>
+                      <input
+                        type="text"
+                        autoComplete="off"
+                        value={formData.username}
+                        onChange={e => setFormData({ ...formData, username: e.target.value })}
+                        className="w-full bg-[#0f0f0f] border border-white/10 rounded-xl px-4 py-3 text-white focus:outline-none focus:border-[#c8a646]"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-xs font-medium text-gray-400 uppercase tracking-wider mb-2">Senha</label>
+                      <input
+                        type="text"
+                        autoComplete="off"
+                        value={formData.password}
+                        onChange={e => setFormData({ ...formData, password: e.target.value })}
+                        className="w-full bg-[#0f0f0f] border border-white/10 rounded-xl px-4 py-3 text-white focus:outline-none focus:border-[#c8a646]"
+                      />
+                    </div>
+                  </div>
+
+                  <div className="grid grid-cols-3 gap-4">
+                    <div>
+                      <label className="block text-xs font-medium text-gray-400 uppercase tracking-wider mb-2">Telas</label>
+                      <input
+                        type="number"
+                        min="1"
+                        value={formData.screens}
+                        onChange={e => setFormData({ ...formData, screens: e.target.value })}
+                        className="w-full bg-[#0f0f0f] border border-white/10 rounded-xl px-4 py-3 text-white focus:outline-none focus:border-[#c8a646]"
+                      />
+                    </div>
+                    <div className="col-span-2">
+                      <label className="block text-xs font-medium text-gray-400 uppercase tracking-wider mb-2">Dispositivo/App</label>
+                      <input
+                        type="text"
+                        list="device-suggestions"
+                        value={formData.device}
+                        onChange={e => setFormData({ ...formData, device: e.target.value })}
+                        className="w-full bg-[#0f0f0f] border border-white/10 rounded-xl px-4 py-3 text-white focus:outline-none focus:border-[#c8a646]"
+                      />
+                      <datalist id="device-suggestions">
+                        {DEVICE_SUGGESTIONS.map(d => <option key={d} value={d} />)}
+                      </datalist>
+                    </div>
+                  </div>
+
+                  <div>
+                    <label className="block text-xs font-medium text-gray-400 uppercase tracking-wider mb-2">MAC</label>
+                    <input
+                      type="text"
+                      value={formData.macAddress}
+                      onChange={e => setFormData({ ...formData, macAddress: e.target.value })}
+                      placeholder="00:1A:2B:3C:4D:5E"
+                      className="w-full bg-[#0f0f0f] border border-white/10 rounded-xl px-4 py-3 text-white font-mono focus:outline-none focus:border-[#c8a646]"
+                    />
+                  </div>
+
+                  <div>
+                    <label className="block text-xs font-medium text-gray-400 uppercase tracking-wider mb-2">Observações</label>
+                    <textarea
+                      rows={3}
+                      value={formData.notes}
+                      onChange={e => setFormData({ ...formData, notes: e.target.value })}
+                      className="w-full bg-[#0f0f0f] border border-white/10 rounded-xl px-4 py-3 text-white focus:outline-none focus:border-[#c8a646] resize-none"
+                    />
+                  </div>
+                </div>
+              </div>
+
               <div className="flex space-x-3 mt-8 pt-4">
                 <button
                   type="button"
@@ -1,16 +1,27 @@
 import { useState, useMemo } from 'react';
 import { Customer, Server, Plan, Renewal, ManualAddition } from '../types';
-import { differenceInDays, isAfter, format, addMonths, startOfMonth, endOfMonth, isWithinInterval } from 'date-fns';
-import { TrendingUp, TrendingDown, DollarSign, AlertCircle, MessageCircle, RefreshCw } from 'lucide-react';
+import { differenceInDays, format, startOfMonth, endOfMonth, isWithinInterval } from 'date-fns';
+import { TrendingUp, TrendingDown, DollarSign, AlertCircle, MessageCircle, RefreshCw, Activity, UserX, ChevronRight, HandCoins } from 'lucide-react';
+import { RenewalInput } from '../renewal';
+import { RenewModal } from './RenewModal';
+import { ReceiptModal } from './ReceiptModal';
+import { whatsappUrl, isValidPhone } from '../phone';
+import { Balances, renewalBalance, totalBalance, receivedBetween } from '../debts';
+import { Lifecycles, LIFECYCLE_STATES, LIFECYCLE_LABELS, LIFECYCLE_COLORS, isActiveState, countByState } from '../lifecycle';
 
 interface DashboardProps {
   customers: Customer[];
   servers: Server[];
   plans: Plan[];
   whatsappMessage: string;
-  updateCustomer: (id: string, c: Partial<Customer>) => void;
   renewals: Renewal[];
-  addRenewal: (r: Omit<Renewal, 'id'>) => void;
+  renewCustomer: (customerId: string, input: RenewalInput) => Renewal | null;
+  markNotified: (id: string) => void;
+  openCustomer: (id: string) => void;
+  openWinBack: () => void;
+  openDebtors: () => void;
+  lifecycles: Lifecycles;
+  balances: Balances;
   manualAdditions: ManualAddition[];
 }
 
@@ -24,22 +35,19 @@ const parseLocalDate = (dateStr: string | undefined | null) => {
   return new Date(y, m - 1, d);
 };
 
-export function Dashboard({ customers, servers, plans, whatsappMessage, updateCustomer, renewals, addRenewal, manualAdditions }: DashboardProps) {
+export function Dashboard({ customers, servers, plans, whatsappMessage, renewals, renewCustomer, markNotified, manualAdditions, openCustomer, openWinBack, openDebtors, lifecycles, balances }: DashboardProps) {
   const today = new Date();
   today.setHours(0, 0, 0, 0);
 
-  // Renew State
-  const [renewData, setRenewData] = useState<{
-    customerId: string;
-    serverId: string;
-    planId: string;
-    amountPaid: string;
-  } | null>(null);
+  // Customer being renewed
+  const [renewingId, setRenewingId] = useState<string | null>(null);
+  // Receipt of the renewal just confirmed
+  const [receiptRenewal, setReceiptRenewal] = useState<Renewal | null>(null);
 
   // Calculate stats
   const { grossValue, totalPaidToServers, netValue, serverStats, expiringCustomers } = useMemo(() => {
-    // 1. Total Gross (from all renewals)
-    const totalGross = renewals.reduce((acc, r) => acc + r.amount, 0);
+    // 1. Total Gross (cash received, from all renewals)
+    const totalGross = receivedBetween(renewals);
 
     // 2. Total Server Cost (from all renewals)
     const totalCost = renewals.reduce((acc, r) => acc + (r.cost || 0), 0);
@@ -47,26 +55,30 @@ export function Dashboard({ customers, servers, plans, whatsappMessage, updateCu
     // 3. Total Manual Additions
     const totalManualAdditions = manualAdditions.reduce((acc, a) => acc + a.amount, 0);
 
-    const stats: Record<string, { name: string; active: number; monthlyGross: number; monthlyCost: number; accumulatedTotal: number }> = {};
+    const stats: Record<string, { name: string; active: number; monthlyGross: number; monthlyCost: number; accumulatedTotal: number; receivable: number }> = {};
     const expiring: Customer[] = [];
 
     servers.forEach(s => {
       // Calculate accumulated total for this server (all-time)
       const serverRenewals = renewals.filter(r => r.serverId === s.id);
-      const accumulatedTotal = serverRenewals.reduce((acc, r) => acc + r.amount, 0);
+      const accumulatedTotal = receivedBetween(serverRenewals);
 
       // Calculate total gross for this server
-      const serverTotalGross = serverRenewals.reduce((acc, r) => acc + r.amount, 0);
+      const serverTotalGross = receivedBetween(serverRenewals);
 
       // Calculate total cost for this server
       const serverTotalCost = serverRenewals.reduce((acc, r) => acc + (r.cost || 0), 0);
 
+      // Still owed by this server's customers (trashed customers are left out, as in the balances)
+      const receivable = serverRenewals.reduce((acc, r) => acc + (balances.has(r.customerId) ? renewalBalance(r) : 0), 0);
+
       stats[s.id] = {
         name: s.name,
         active: 0,
         monthlyGross: serverTotalGross,
         monthlyCost: serverTotalCost,
-        accumulatedTotal
+        accumulatedTotal,
+        receivable
       };
     });
 
@@ -75,17 +87,21 @@ export function Dashboard({ customers, servers, plans, whatsappMessage, updateCu
         const dueDate = parseLocalDate(c.dueDate);
         if (isNaN(dueDate.getTime())) return;
 
-        const isActive = isAfter(dueDate, today) || differenceInDays(dueDate, today) === 0;
-
-        if (isActive) {
+        const state = lifecycles.get(c.id);
+        if (state && isActiveState(state)) {
           if (stats[c.serverId]) {
             stats[c.serverId].active += 1;
+          } else {
+            // Left over from a server deleted before deletions were reference-checked
+            stats.orphaned ??= { name: 'Sem servidor', active: 0, monthlyGross: 0, monthlyCost: 0, accumulatedTotal: 0, receivable: 0 };
+            stats.orphaned.active += 1;
           }
         }
 
-        // Expiring in next 7 days or expired in last 7 days
+        // Expiring or in the grace period, plus anyone due within a week either way,
+        // so customers just past the grace period don't drop off the dashboard
         const daysUntilDue = differenceInDays(dueDate, today);
-        if (daysUntilDue >= -7 && daysUntilDue <= 7) {
+        if (state === 'expiring' || state === 'grace' || (daysUntilDue >= -7 && daysUntilDue <= 7)) {
           expiring.push(c);
         }
       } catch (e) {
@@ -109,72 +125,28 @@ export function Dashboard({ customers, servers, plans, whatsappMessage, updateCu
       serverStats: Object.values(stats),
       expiringCustomers: expiring
     };
-  }, [customers, servers, renewals, manualAdditions, today]);
+  }, [customers, servers, renewals, manualAdditions, lifecycles, balances, today]);
+
+  const lifecycleCounts = useMemo(() => countByState(lifecycles), [lifecycles]);
+  const receivables = useMemo(() => totalBalance(balances), [balances]);
 
   const formatCurrency = (val: number) => new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(val);
 
-  const handleRenewPlanChange = (planId: string) => {
-    if (!renewData) return;
-    const plan = plans.find(p => p.id === planId);
-    if (plan) {
-      setRenewData({
-        ...renewData,
-        planId,
-        amountPaid: plan.defaultPrice.toString()
-      });
-    }
-  };
+  const openRenewModal = (customer: Customer) => setRenewingId(customer.id);
 
-  const openRenewModal = (customer: Customer) => {
-    setRenewData({
-      customerId: customer.id,
-      serverId: customer.serverId,
-      planId: customer.planId,
-      amountPaid: customer.amountPaid.toString()
-    });
-  };
+  const renewingCustomer = renewingId ? customers.find(c => c.id === renewingId) : undefined;
 
-  const confirmRenew = () => {
-    if (renewData) {
-      const customer = customers.find(c => c.id === renewData.customerId);
-      const plan = plans.find(p => p.id === renewData.planId);
-      if (customer && plan) {
-        const currentDueDate = parseLocalDate(customer.dueDate);
-        const isActive = isAfter(currentDueDate, today) || differenceInDays(currentDueDate, today) === 0;
-
-        // If active, add to current due date. If expired, add to today.
-        const baseDate = isActive ? currentDueDate : today;
-        const newDueDate = format(addMonths(baseDate, plan.months), 'yyyy-MM-dd');
-
-        updateCustomer(customer.id, {
-          serverId: renewData.serverId,
-          planId: renewData.planId,
-          amountPaid: parseFloat(renewData.amountPaid.replace(',', '.')),
-          dueDate: newDueDate
-        });
-
-        const server = servers.find(s => s.id === renewData.serverId);
-        const cost = (server?.costPerActive || 0) * (plan?.months || 1);
-
-        addRenewal({
-          customerId: customer.id,
-          serverId: renewData.serverId,
-          planId: renewData.planId,
-          amount: parseFloat(renewData.amountPaid.replace(',', '.')),
-          cost: cost,
-          date: new Date().toISOString()
-        });
-      }
-      setRenewData(null);
-    }
+  const handleRenewed = (renewal: Renewal | null) => {
+    setRenewingId(null);
+    if (renewal && renewal.amount > 0) setReceiptRenewal(renewal);
   };
 
   const pendingNotifications = useMemo(() => {
-    return expiringCustomers.filter(c => {
+    return customers.filter(c => {
       const days = differenceInDays(parseLocalDate(c.dueDate), today);
       return days === 7 && c.lastNotifiedDate !== format(today, 'yyyy-MM-dd');
     });
-  }, [expiringCustomers, today]);
+  }, [customers, today]);
 
   return (
     <div className="space-y-6 pb-24">
@@ -207,8 +179,8 @@ export function Dashboard({ customers, servers, plans, whatsappMessage, updateCu
                   }
                 })());
 
-              updateCustomer(first.id, { lastNotifiedDate: format(today, 'yyyy-MM-dd') });
-              window.open(`https://wa.me/${first.phone.replace(/\D/g, '')}?text=${encodeURIComponent(message)}`, '_blank');
+              markNotified(first.id);
+              window.open(whatsappUrl(first.phone, message), '_blank');
             }}
             className="bg-[#0f0f0f] text-white px-4 py-2 rounded-xl text-xs font-bold hover:bg-black/80 transition-colors"
           >
@@ -232,7 +204,7 @@ export function Dashboard({ customers, servers, plans, whatsappMessage, updateCu
         <div className="bg-[#1a1a1a] p-4 rounded-2xl border border-white/5 shadow-lg">
           <div className="flex items-center space-x-2 text-gray-400 mb-2">
             <TrendingUp size={16} />
-            <span className="text-[10px] font-bold uppercase tracking-wider">Bruto Total</span>
+            <span className="text-[10px] font-bold uppercase tracking-wider">Bruto Recebido</span>
           </div>
           <div className="text-xl font-bold text-white">{formatCurrency(grossValue)}</div>
         </div>
@@ -244,6 +216,48 @@ export function Dashboard({ customers, servers, plans, whatsappMessage, updateCu
           </div>
           <div className="text-xl font-bold text-red-400">{formatCurrency(totalPaidToServers)}</div>
         </div>
+
+        <button
+          onClick={openDebtors}
+          className="col-span-2 bg-[#1a1a1a] p-4 rounded-2xl border border-white/5 shadow-lg flex items-center justify-between text-left hover:bg-white/5 transition-colors"
+        >
+          <div>
+            <div className="flex items-center space-x-2 text-gray-400 mb-2">
+              <HandCoins size={16} />
+              <span className="text-[10px] font-bold uppercase tracking-wider">A Receber</span>
+            </div>
+            <div className="text-xl font-bold text-yellow-400">{formatCurrency(receivables)}</div>
+          </div>
+          <span className="flex items-center space-x-1 text-xs text-gray-500">
+            <span>{balances.size} {balances.size === 1 ? 'devedor' : 'devedores'}</span>
+            <ChevronRight size={16} />
+          </span>
+        </button>
+      </div>
+
+      {/* Lifecycle */}
+      <div className="bg-[#1a1a1a] rounded-2xl border border-white/5 overflow-hidden shadow-lg">
+        <div className="p-4 border-b border-white/5 flex items-center space-x-2">
+          <Activity size={18} className="text-[#c8a646]" />
+          <h3 className="text-sm font-medium uppercase tracking-wider text-gray-400">Situação dos Clientes</h3>
+        </div>
+        <div className="grid grid-cols-4 gap-2 p-4">
+          {LIFECYCLE_STATES.map(state => (
+            <div key={state} className={`p-2 rounded-xl text-center ${LIFECYCLE_COLORS[state]}`}>
+              <div className="text-lg font-bold">{lifecycleCounts[state]}</div>
+              <div className="text-[9px] font-bold uppercase tracking-wider">{LIFECYCLE_LABELS[state]}</div>
+            </div>
+          ))}
+        </div>
+        {lifecycleCounts.churned > 0 && (
+          <button onClick={openWinBack} className="w-full p-4 border-t border-white/5 flex items-center justify-between text-sm hover:bg-white/5 transition-colors">
+            <span className="flex items-center space-x-2 text-white">
+              <UserX size={16} className="text-gray-400" />
+              <span>Recuperar {lifecycleCounts.churned} {lifecycleCounts.churned === 1 ? 'cliente perdido' : 'clientes perdidos'}</span>
+            </span>
+            <ChevronRight size={16} className="text-gray-500" />
+          </button>
+        )}
       </div>
 
       {/* Server List */}
@@ -265,10 +279,13 @@ export function Dashboard({ customers, servers, plans, whatsappMessage, updateCu
                     <div className="text-sm font-bold text-red-400">{formatCurrency(stat.monthlyCost)}</div>
                   </div>
                   <div className="bg-[#0f0f0f] p-3 rounded-xl border border-[#c8a646]/20">
-                    <div className="text-[10px] uppercase tracking-wider text-gray-500 mb-1">Bruto Total</div>
+                    <div className="text-[10px] uppercase tracking-wider text-gray-500 mb-1">Bruto Recebido</div>
                     <div className="text-sm font-bold text-white">{formatCurrency(stat.monthlyGross)}</div>
                   </div>
                 </div>
+                {stat.receivable > 0 && (
+                  <div className="text-xs text-gray-500 mt-2">A receber <span className="text-yellow-400 font-bold">{formatCurrency(stat.receivable)}</span></div>
+                )}
               </div>
             ))}
           </div>
@@ -303,23 +320,26 @@ export function Dashboard({ customers, servers, plans, whatsappMessage, updateCu
                   }
                 })());
 
-              const encodedMessage = encodeURIComponent(message);
-
               const handleWhatsAppClick = () => {
-                updateCustomer(c.id, { lastNotifiedDate: format(today, 'yyyy-MM-dd') });
-                window.open(`https://wa.me/${c.phone.replace(/\D/g, '')}?text=${encodedMessage}`, '_blank');
+                markNotified(c.id);
+                window.open(whatsappUrl(c.phone, message), '_blank');
               };
 
               return (
                 <div key={c.id} className="p-4 flex items-center justify-between">
                   <div>
                     <div className="font-medium text-white flex items-center space-x-2">
-                      <span>{c.name}</span>
+                      <button onClick={() => openCustomer(c.id)} className="text-left hover:text-[#c8a646] transition-colors">{c.name}</button>
                       {isSevenDayMark && !alreadyNotified && (
                         <span className="bg-[#c8a646] text-[#0f0f0f] text-[10px] font-bold px-1.5 py-0.5 rounded animate-pulse">
                           NOTIFICAR
                         </span>
                       )}
+                      {!isValidPhone(c.phone) && (
+                        <span className="bg-red-500/10 text-red-400 text-[10px] font-bold px-1.5 py-0.5 rounded" title={c.phone || 'Sem telefone'}>
+                          TEL. INVÁLIDO
+                        </span>
+                      )}
                     </div>
                     <div className="text-xs text-gray-400 mt-1 flex items-center space-x-2">
                       <span>{server?.name}</span>
@@ -353,63 +373,25 @@ export function Dashboard({ customers, servers, plans, whatsappMessage, updateCu
       )}
 
       {/* Renew Modal */}
-      {renewData && (
-        <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm">
-          <div className="bg-[#1a1a1a] rounded-3xl border border-white/10 p-6 w-full max-w-sm shadow-2xl">
-            <h3 className="text-xl font-bold text-white mb-6 uppercase tracking-widest">
-              Renovar Plano
-            </h3>
-
-            <div className="space-y-4">
-              <div>
-                <label className="block text-xs font-medium text-gray-400 uppercase tracking-wider mb-2">Servidor</label>
-                <select
-                  value={renewData.serverId}
-                  onChange={e => setRenewData({ ...renewData, serverId: e.target.value })}
-                  className="w-full bg-[#0f0f0f] border border-white/10 rounded-xl px-4 py-3 text-white focus:outline-none focus:border-[#c8a646] appearance-none"
-                >
-                  {servers.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
-                </select>
-              </div>
-
-              <div>
-                <label className="block text-xs font-medium text-gray-400 uppercase tracking-wider mb-2">Plano</label>
-                <select
-                  value={renewData.planId}
-                  onChange={e => handleRenewPlanChange(e.target.value)}
-                  className="w-full bg-[#0f0f0f] border border-white/10 rounded-xl px-4 py-3 text-white focus:outline-none focus:border-[#c8a646] appearance-none"
-                >
-                  {plans.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
-                </select>
-              </div>
-
-              <div>
-                <label className="block text-xs font-medium text-gray-400 uppercase tracking-wider mb-2">Valor (R$)</label>
-                <input
-                  type="text"
-                  value={renewData.amountPaid}
-                  onChange={e => setRenewData({ ...renewData, amountPaid: e.target.value })}
-                  className="w-full bg-[#0f0f0f] border border-white/10 rounded-xl px-4 py-3 text-white focus:outline-none focus:border-[#c8a646]"
-                />
-              </div>
+      {renewingCustomer && (
+        <RenewModal
+          customer={renewingCustomer}
+          servers={servers}
+          plans={plans}
+          renewCustomer={renewCustomer}
+          onRenewed={handleRenewed}
+          onClose={() => setRenewingId(null)}
+        />
+      )}
 
-              <div className="flex space-x-3 mt-8 pt-4">
-                <button
-                  onClick={() => setRenewData(null)}
-                  className="flex-1 py-3 rounded-xl border border-white/10 text-white font-medium hover:bg-white/5 transition-colors"
-                >
-                  Cancelar
-                </button>
-                <button
-                  onClick={confirmRenew}
-                  className="flex-1 py-3 rounded-xl bg-[#c8a646] text-[#0f0f0f] font-bold hover:bg-[#e8c666] transition-colors shadow-lg shadow-[#c8a646]/20"
-                >
-                  Confirmar
-                </button>
-              </div>
-            </div>
-          </div>
-        </div>
+      {receiptRenewal && (
+        <ReceiptModal
+          renewal={receiptRenewal}
+          customer={customers.find(c => c.id === receiptRenewal.customerId)}
+          servers={servers}
+          plans={plans}
+          onClose={() => setReceiptRenewal(null)}
+        />
       )}
     </div>
   );
@@ -0,0 +1,101 @@
+import { useState, useMemo } from 'react';
+import { HandCoins, MessageCircle } from 'lucide-react';
+import { format } from 'date-fns';
+import { Customer, Server, Renewal, PaymentMethod } from '../types';
+import { Balances, DEBT_MESSAGE, debtorList, totalBalance } from '../debts';
+import { whatsappUrl, isValidPhone } from '../phone';
+import { PaymentModal } from './PaymentModal';
+
+interface DebtorsProps {
+  customers: Customer[];
+  servers: Server[];
+  renewals: Renewal[];
+  balances: Balances;
+  addPayment: (customerId: string, amount: number, method?: PaymentMethod) => Renewal[];
+  openCustomer: (id: string) => void;
+}
+
+export function Debtors({ customers, servers, renewals, balances, addPayment, openCustomer }: DebtorsProps) {
+  const rows = useMemo(() => debtorList(customers, renewals, balances), [customers, renewals, balances]);
+  const total = useMemo(() => totalBalance(balances, rows.map(row => row.customer.id)), [balances, rows]);
+  const [paying, setPaying] = useState<{ customer: Customer; balance: number } | null>(null);
+
+  const formatCurrency = (val: number) => new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(val);
+  const formatSince = (value?: string) => {
+    const date = value ? new Date(value) : new Date(NaN);
+    return isNaN(date.getTime()) ? 'data inválida' : format(date, 'dd/MM/yyyy');
+  };
+
+  const chargeMessage = (customer: Customer, balance: number) =>
+    DEBT_MESSAGE.replace('{nome}', customer.name).replace('{valor}', formatCurrency(balance));
+
+  return (
+    <div className="pb-24 space-y-6">
+      <div className="flex items-center space-x-3 mb-6">
+        <HandCoins size={28} className="text-[#c8a646]" />
+        <h2 className="text-xl font-bold text-white uppercase tracking-widest">Devedores</h2>
+      </div>
+
+      <div className="bg-[#1a1a1a] p-4 rounded-2xl border border-white/5 flex items-center justify-between gap-4">
+        <p className="text-xs text-gray-400">
+          Clientes renovados sem pagar tudo, das maiores dívidas para as menores. Cada pagamento quita primeiro a renovação mais antiga.
+        </p>
+        <div className="text-right shrink-0">
+          <div className="text-lg font-bold text-white">{rows.length}</div>
+          <div className="text-[10px] text-yellow-400 uppercase tracking-wider">{formatCurrency(total)}</div>
+        </div>
+      </div>
+
+      {rows.length === 0 ? (
+        <div className="text-center py-12 text-gray-500">
+          <HandCoins size={48} className="mx-auto mb-4 opacity-20" />
+          <p>Nenhum cliente com saldo em aberto.</p>
+        </div>
+      ) : (
+        <div className="bg-[#1a1a1a] rounded-2xl border border-white/5 divide-y divide-white/5">
+          {rows.map(({ customer, balance, openRenewals, since }) => {
+            const server = servers.find(s => s.id === customer.serverId);
+            return (
+              <div key={customer.id} className="p-4 flex items-center justify-between gap-3">
+                <div className="min-w-0">
+                  <button onClick={() => openCustomer(customer.id)} className="block text-left text-white font-medium truncate hover:text-[#c8a646] transition-colors">
+                    {customer.name}
+                  </button>
+                  <div className="text-xs text-gray-500 truncate">
+                    {server?.name || 'Sem servidor'} • {openRenewals.length} {openRenewals.length === 1 ? 'renovação' : 'renovações'} em aberto desde {formatSince(since)}
+                  </div>
+                </div>
+                <div className="flex items-center space-x-2 shrink-0">
+                  <div className="text-sm font-bold text-yellow-400 mr-1">{formatCurrency(balance)}</div>
+                  <button
+                    onClick={() => setPaying({ customer, balance })}
+                    className="px-3 py-2 rounded-xl bg-[#c8a646] text-[#0f0f0f] text-xs font-bold hover:bg-[#e8c666] transition-colors"
+                  >
+                    Receber
+                  </button>
+                  <button
+                    onClick={() => window.open(whatsappUrl(customer.phone, chargeMessage(customer, balance)), '_blank')}
+                    disabled={!isValidPhone(customer.phone)}
+                    className="p-2 rounded-full bg-green-600/20 text-green-500 hover:bg-green-600/30 transition-colors disabled:opacity-30"
+                    title={isValidPhone(customer.phone) ? 'Cobrar pelo WhatsApp' : 'Telefone inválido'}
+                  >
+                    <MessageCircle size={18} />
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {paying && (
+        <PaymentModal
+          customer={paying.customer}
+          balance={paying.balance}
+          onConfirm={(amount, method) => addPayment(paying.customer.id, amount, method)}
+          onClose={() => setPaying(null)}
+        />
+      )}
+    </div>
+  );
+}
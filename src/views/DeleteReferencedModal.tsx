@@ -0,0 +1,104 @@
+import { useState } from 'react';
+import { AlertTriangle } from 'lucide-react';
+import { References, hasReferences, selectable } from '../integrity';
+
+interface DeleteReferencedModalProps {
+  kind: 'server' | 'plan';
+  record: { id: string; name: string; archivedAt?: string };
+  references: References;
+  // Other records the references can be moved to
+  candidates: { id: string; name: string; archivedAt?: string }[];
+  onDelete: (reassignTo?: string) => void;
+  onArchive: () => void;
+  onClose: () => void;
+}
+
+const LABELS = {
+  server: { title: 'Excluir Servidor', target: 'Mover para o servidor', none: 'Nenhum outro servidor disponível.' },
+  plan: { title: 'Excluir Plano', target: 'Mover para o plano', none: 'Nenhum outro plano disponível.' }
+};
+
+// How many affected customers are listed by name before collapsing into a count
+const MAX_LISTED = 8;
+
+export function DeleteReferencedModal({ kind, record, references, candidates, onDelete, onArchive, onClose }: DeleteReferencedModalProps) {
+  const labels = LABELS[kind];
+  const options = selectable(candidates.filter(c => c.id !== record.id));
+  const [target, setTarget] = useState(options[0]?.id || '');
+  const inUse = hasReferences(references);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm">
+      <div className="bg-[#1a1a1a] rounded-3xl border border-white/10 p-6 w-full max-w-sm shadow-2xl max-h-[90vh] overflow-y-auto">
+        <h3 className="text-xl font-bold text-white mb-2 uppercase tracking-widest">{labels.title}</h3>
+
+        {!inUse ? (
+          <p className="text-gray-400 text-sm mb-6">
+            Excluir <span className="text-white font-bold">{record.name}</span>? Nenhum cliente ou renovação usa este registro.
+          </p>
+        ) : (
+          <>
+            <div className="flex items-start space-x-3 bg-yellow-500/10 border border-yellow-500/20 rounded-xl p-3 mb-4">
+              <AlertTriangle size={18} className="text-yellow-400 shrink-0 mt-0.5" />
+              <p className="text-xs text-yellow-200">
+                <span className="font-bold">{record.name}</span> está em uso por {references.customers.length} cliente(s) e {references.renewals.length} renovação(ões).
+              </p>
+            </div>
+
+            {references.customers.length > 0 && (
+              <div className="bg-[#0f0f0f] rounded-xl border border-white/5 p-3 mb-4 text-xs text-gray-300 space-y-1">
+                {references.customers.slice(0, MAX_LISTED).map(c => <div key={c.id} className="truncate">{c.name}</div>)}
+                {references.customers.length > MAX_LISTED && (
+                  <div className="text-gray-500">e mais {references.customers.length - MAX_LISTED}...</div>
+                )}
+              </div>
+            )}
+
+            <label className="block text-xs font-medium text-gray-400 uppercase tracking-wider mb-2">{labels.target}</label>
+            {options.length === 0 ? (
+              <p className="text-xs text-gray-500 mb-4">{labels.none}</p>
+            ) : (
+              <select
+                value={target}
+                onChange={e => setTarget(e.target.value)}
+                className="w-full bg-[#0f0f0f] border border-white/10 rounded-xl px-4 py-3 text-white focus:outline-none focus:border-[#c8a646] appearance-none mb-4"
+              >
+                {options.map(o => <option key={o.id} value={o.id}>{o.name}</option>)}
+              </select>
+            )}
+
+            {!record.archivedAt && (
+              <p className="text-[10px] text-gray-500 mb-6">
+                Ou arquive: o registro some das opções de cadastro, mas o histórico continua mostrando o nome.
+              </p>
+            )}
+          </>
+        )}
+
+        <div className="space-y-3">
+          <button
+            onClick={() => onDelete(inUse ? target : undefined)}
+            disabled={inUse && !target}
+            className="w-full py-3 rounded-xl bg-red-500 text-white font-bold hover:bg-red-600 transition-colors shadow-lg shadow-red-500/20 disabled:opacity-50"
+          >
+            {inUse ? 'Mover e excluir' : 'Excluir'}
+          </button>
+          {inUse && !record.archivedAt && (
+            <button
+              onClick={onArchive}
+              className="w-full py-3 rounded-xl bg-[#c8a646] text-[#0f0f0f] font-bold hover:bg-[#e8c666] transition-colors"
+            >
+              Arquivar
+            </button>
+          )}
+          <button
+            onClick={onClose}
+            className="w-full py-3 rounded-xl border border-white/10 text-white font-medium hover:bg-white/5 transition-colors"
+          >
+            Cancelar
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,216 @@
+import { useState, useEffect, useMemo } from 'react';
+import { Users, Phone, Type, GitMerge, EyeOff } from 'lucide-react';
+import { Customer, Server, Plan, Renewal } from '../types';
+import { FIELD_LABELS } from '../audit';
+import { parseLocalDate } from '../dates';
+import {
+  DuplicateGroup, MERGE_FIELDS, MergeField, MergeSources, findDuplicateGroups, suggestSurvivor, defaultMergeSources,
+  mergedValues, mergedTags, getIgnoredDuplicates, setIgnoredDuplicates
+} from '../duplicates';
+import { formatPhone } from '../phone';
+import { format } from 'date-fns';
+
+interface DuplicatesProps {
+  customers: Customer[];
+  servers: Server[];
+  plans: Plan[];
+  renewals: Renewal[];
+  mergeCustomers: (survivorId: string, mergedIds: string[], values: Partial<Customer>) => void;
+  openCustomer: (id: string) => void;
+}
+
+const formatCurrency = (val: number) => new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(val);
+
+export function Duplicates({ customers, servers, plans, renewals, mergeCustomers, openCustomer }: DuplicatesProps) {
+  const [ignored, setIgnored] = useState<string[]>([]);
+  const [merging, setMerging] = useState<DuplicateGroup | null>(null);
+  const [survivorId, setSurvivorId] = useState('');
+  const [sources, setSources] = useState<MergeSources | null>(null);
+
+  useEffect(() => {
+    getIgnoredDuplicates().then(setIgnored).catch(() => undefined);
+  }, []);
+
+  const groups = useMemo(() => findDuplicateGroups(customers, ignored), [customers, ignored]);
+
+  const renewalCount = (id: string) => renewals.filter(r => r.customerId === id).length;
+
+  const ignoreGroup = (group: DuplicateGroup) => {
+    const next = [...ignored, group.key];
+    setIgnored(next);
+    setIgnoredDuplicates(next).catch(err => console.error('Erro ao salvar duplicados ignorados:', err));
+  };
+
+  const startMerge = (group: DuplicateGroup) => {
+    const survivor = suggestSurvivor(group.customers, renewals);
+    setMerging(group);
+    setSurvivorId(survivor.id);
+    setSources(defaultMergeSources(survivor, group.customers));
+  };
+
+  const closeMerge = () => {
+    setMerging(null);
+    setSources(null);
+  };
+
+  const confirmMerge = () => {
+    if (!merging || !sources) return;
+    mergeCustomers(
+      survivorId,
+      merging.customers.filter(c => c.id !== survivorId).map(c => c.id),
+      { ...mergedValues(sources, merging.customers), tags: mergedTags(merging.customers) }
+    );
+    closeMerge();
+  };
+
+  const displayValue = (field: MergeField, customer: Customer) => {
+    const value: Customer[MergeField] = customer[field];
+    if (value === undefined || value === '') return '—';
+    if (field === 'serverId') return servers.find(s => s.id === customer.serverId)?.name || 'Servidor removido';
+    if (field === 'planId') return plans.find(p => p.id === customer.planId)?.name || 'Plano removido';
+    if (field === 'amountPaid') return formatCurrency(customer.amountPaid);
+    if (field === 'dueDate') {
+      const date = parseLocalDate(customer.dueDate);
+      return isNaN(date.getTime()) ? customer.dueDate : format(date, 'dd/MM/yyyy');
+    }
+    if (field === 'phone') return formatPhone(customer.phone);
+    return String(value);
+  };
+
+  // Only fields where the records disagree need a choice
+  const conflicting = merging
+    ? MERGE_FIELDS.filter(field => new Set(merging.customers.map(c => displayValue(field, c))).size > 1)
+    : [];
+
+  return (
+    <div className="pb-24 space-y-6">
+      <div className="flex items-center space-x-3 mb-6">
+        <Users size={28} className="text-[#c8a646]" />
+        <h2 className="text-xl font-bold text-white uppercase tracking-widest">Duplicados</h2>
+      </div>
+
+      <p className="text-xs text-gray-400">
+        Cadastros com o mesmo telefone ou nomes muito parecidos. Ao mesclar, as renovações de todos passam para o cadastro mantido.
+      </p>
+
+      {groups.length === 0 ? (
+        <div className="text-center py-12 text-gray-500">
+          <Users size={48} className="mx-auto mb-4 opacity-20" />
+          <p>Nenhum cadastro duplicado encontrado.</p>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {groups.map(group => (
+            <div key={group.key} className="bg-[#1a1a1a] rounded-2xl border border-white/5 p-4 shadow-lg">
+              <div className="flex items-center justify-between mb-3">
+                <div className="flex items-center space-x-2">
+                  {group.reasons.includes('phone') && (
+                    <span className="flex items-center space-x-1 text-[10px] font-bold uppercase tracking-wider px-2 py-1 rounded-full text-yellow-500 bg-yellow-500/10">
+                      <Phone size={10} /><span>Mesmo telefone</span>
+                    </span>
+                  )}
+                  {group.reasons.includes('name') && (
+                    <span className="flex items-center space-x-1 text-[10px] font-bold uppercase tracking-wider px-2 py-1 rounded-full text-blue-400 bg-blue-500/10">
+                      <Type size={10} /><span>Nome parecido</span>
+                    </span>
+                  )}
+                </div>
+                <div className="flex space-x-2">
+                  <button onClick={() => ignoreGroup(group)} className="p-2 text-gray-400 hover:text-white transition-colors bg-white/5 rounded-full" title="Não são duplicados">
+                    <EyeOff size={16} />
+                  </button>
+                  <button onClick={() => startMerge(group)} className="p-2 text-[#c8a646] hover:text-[#e8c666] transition-colors bg-[#c8a646]/10 rounded-full" title="Mesclar">
+                    <GitMerge size={16} />
+                  </button>
+                </div>
+              </div>
+              <div className="space-y-2">
+                {group.customers.map(customer => (
+                  <div key={customer.id} className="flex items-center justify-between gap-3 text-sm">
+                    <button onClick={() => openCustomer(customer.id)} className="text-left text-white font-medium truncate hover:text-[#c8a646] transition-colors">
+                      {customer.name}
+                    </button>
+                    <span className="text-xs text-gray-400 shrink-0">
+                      {formatPhone(customer.phone) || '—'} • vence {displayValue('dueDate', customer)} • {renewalCount(customer.id)} renov.
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {merging && sources && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm overflow-y-auto">
+          <div className="bg-[#1a1a1a] rounded-3xl border border-white/10 p-6 w-full max-w-2xl shadow-2xl my-8">
+            <h3 className="text-xl font-bold text-white mb-6 uppercase tracking-widest">Mesclar Cadastros</h3>
+
+            <div className="mb-6">
+              <div className="text-xs font-medium text-gray-400 uppercase tracking-wider mb-2">Manter o cadastro</div>
+              <div className="space-y-2">
+                {merging.customers.map(customer => (
+                  <label key={customer.id} className="flex items-center space-x-3 p-3 bg-[#0f0f0f] rounded-xl border border-white/10 cursor-pointer">
+                    <input
+                      type="radio"
+                      name="survivor"
+                      checked={survivorId === customer.id}
+                      onChange={() => setSurvivorId(customer.id)}
+                      className="accent-[#c8a646]"
+                    />
+                    <span className="flex-1 min-w-0 text-sm text-white truncate">{customer.name}</span>
+                    <span className="text-xs text-gray-500 shrink-0">{renewalCount(customer.id)} renovações</span>
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            {conflicting.length > 0 && (
+              <div className="mb-6">
+                <div className="text-xs font-medium text-gray-400 uppercase tracking-wider mb-2">Valores a manter</div>
+                <div className="space-y-3">
+                  {conflicting.map(field => (
+                    <div key={field}>
+                      <div className="text-[10px] text-gray-500 uppercase tracking-wider mb-1">{FIELD_LABELS[field] || field}</div>
+                      <div className="flex flex-wrap gap-2">
+                        {merging.customers.map(customer => (
+                          <button
+                            key={customer.id}
+                            onClick={() => setSources({ ...sources, [field]: customer.id })}
+                            className={`text-xs px-3 py-2 rounded-lg transition-colors max-w-full truncate ${sources[field] === customer.id ? 'bg-[#c8a646] text-[#0f0f0f] font-bold' : 'bg-white/5 text-gray-300 hover:bg-white/10'}`}
+                          >
+                            {displayValue(field, customer)}
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            <p className="text-xs text-gray-400 mb-6">
+              {merging.customers.length - 1} {merging.customers.length === 2 ? 'cadastro será removido' : 'cadastros serão removidos'} e{' '}
+              {merging.customers.filter(c => c.id !== survivorId).reduce((sum, c) => sum + renewalCount(c.id), 0)} renovações passam para o cadastro mantido. As etiquetas de todos são somadas.
+            </p>
+
+            <div className="flex space-x-3">
+              <button
+                onClick={closeMerge}
+                className="flex-1 py-3 rounded-xl border border-white/10 text-white font-medium hover:bg-white/5 transition-colors"
+              >
+                Cancelar
+              </button>
+              <button
+                onClick={confirmMerge}
+                className="flex-1 py-3 rounded-xl bg-[#c8a646] text-[#0f0f0f] font-bold hover:bg-[#e8c666] transition-colors shadow-lg shadow-[#c8a646]/20"
+              >
+                Mesclar
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
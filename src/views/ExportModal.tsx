@@ -0,0 +1,103 @@
+import { useState } from 'react';
+import { Customer, Server, Plan, Renewal } from '../types';
+import { ExportFormat, SHEET_COLUMNS, DEFAULT_EXPORT_COLUMNS, exportCustomers } from '../spreadsheet';
+
+interface ExportModalProps {
+  customers: Customer[];
+  // What the export is made of, e.g. "filtro atual" or "seleção"
+  sourceLabel: string;
+  servers: Server[];
+  plans: Plan[];
+  renewals: Renewal[];
+  onClose: () => void;
+}
+
+export function ExportModal({ customers, sourceLabel, servers, plans, renewals, onClose }: ExportModalProps) {
+  const [columnIds, setColumnIds] = useState<string[]>(DEFAULT_EXPORT_COLUMNS);
+  const [fileFormat, setFileFormat] = useState<ExportFormat>('xlsx');
+
+  const toggle = (id: string) =>
+    setColumnIds(columnIds.includes(id) ? columnIds.filter(c => c !== id) : [...columnIds, id]);
+
+  const handleExport = () => {
+    exportCustomers(customers, { servers, plans, renewals }, columnIds, fileFormat);
+    onClose();
+  };
+
+  const renderColumns = (derived: boolean) => (
+    <div className="grid grid-cols-2 gap-2">
+      {SHEET_COLUMNS.filter(c => !!c.derived === derived).map(column => (
+        <label key={column.id} className="flex items-center space-x-2 text-sm text-gray-300 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={columnIds.includes(column.id)}
+            onChange={() => toggle(column.id)}
+            className="accent-[#c8a646]"
+          />
+          <span className="truncate">{column.header}</span>
+        </label>
+      ))}
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm overflow-y-auto">
+      <div className="bg-[#1a1a1a] rounded-3xl border border-white/10 p-6 w-full max-w-md shadow-2xl my-8">
+        <h3 className="text-xl font-bold text-white mb-2 uppercase tracking-widest">Exportar Clientes</h3>
+        <p className="text-gray-400 text-sm mb-6">
+          {customers.length} {customers.length === 1 ? 'cliente' : 'clientes'} ({sourceLabel})
+        </p>
+
+        <div className="space-y-5">
+          <div>
+            <div className="flex items-center justify-between mb-3">
+              <span className="text-xs font-medium text-gray-400 uppercase tracking-wider">Colunas</span>
+              <span className="flex space-x-3 text-xs">
+                <button onClick={() => setColumnIds(SHEET_COLUMNS.map(c => c.id))} className="text-[#c8a646] hover:text-white transition-colors">Todas</button>
+                <button onClick={() => setColumnIds(DEFAULT_EXPORT_COLUMNS)} className="text-gray-400 hover:text-white transition-colors">Padrão</button>
+              </span>
+            </div>
+            {renderColumns(false)}
+          </div>
+
+          <div>
+            <div className="text-xs font-medium text-gray-400 uppercase tracking-wider mb-1">Calculadas</div>
+            <p className="text-[10px] text-gray-500 mb-3">Só para consulta: são ignoradas ao importar a planilha de volta.</p>
+            {renderColumns(true)}
+          </div>
+
+          <div>
+            <div className="text-xs font-medium text-gray-400 uppercase tracking-wider mb-3">Formato</div>
+            <div className="grid grid-cols-2 gap-2">
+              {(['xlsx', 'csv'] as ExportFormat[]).map(option => (
+                <button
+                  key={option}
+                  onClick={() => setFileFormat(option)}
+                  className={`py-2 rounded-xl text-sm font-bold transition-colors ${fileFormat === option ? 'bg-[#c8a646] text-[#0f0f0f]' : 'bg-white/5 text-gray-400'}`}
+                >
+                  {option === 'xlsx' ? 'Excel (.xlsx)' : 'CSV (.csv)'}
+                </button>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        <div className="flex space-x-3 mt-8">
+          <button
+            onClick={onClose}
+            className="flex-1 py-3 rounded-xl border border-white/10 text-white font-medium hover:bg-white/5 transition-colors"
+          >
+            Cancelar
+          </button>
+          <button
+            onClick={handleExport}
+            disabled={columnIds.length === 0 || customers.length === 0}
+            className="flex-1 py-3 rounded-xl bg-[#c8a646] text-[#0f0f0f] font-bold hover:bg-[#e8c666] transition-colors shadow-lg shadow-[#c8a646]/20 disabled:opacity-50"
+          >
+            Exportar
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,214 @@
+import { useState } from 'react';
+import { Server, Plan, LifecycleState } from '../types';
+import { CustomerFilter, CustomerStatus, STATUS_LABELS } from '../segments';
+import { selectable } from '../integrity';
+import { LIFECYCLE_STATES, LIFECYCLE_LABELS } from '../lifecycle';
+
+interface FilterBuilderProps {
+  filter: CustomerFilter;
+  servers: Server[];
+  plans: Plan[];
+  tags: string[];
+  onApply: (filter: CustomerFilter) => void;
+  onSaveSegment: (name: string, filter: CustomerFilter) => void;
+  onClose: () => void;
+}
+
+const toInput = (value?: number) => value === undefined ? '' : String(value);
+
+const toNumber = (value: string) => {
+  const parsed = parseFloat(value.replace(',', '.'));
+  return isNaN(parsed) ? undefined : parsed;
+};
+
+export function FilterBuilder({ filter, servers, plans, tags, onApply, onSaveSegment, onClose }: FilterBuilderProps) {
+  const [selectedTags, setSelectedTags] = useState<string[]>(filter.tags || []);
+  const [serverId, setServerId] = useState(filter.serverId || '');
+  const [planId, setPlanId] = useState(filter.planId || '');
+  const [status, setStatus] = useState<CustomerStatus | ''>(filter.status || '');
+  const [lifecycle, setLifecycle] = useState<LifecycleState | ''>(filter.lifecycle || '');
+  const [dueFrom, setDueFrom] = useState(filter.dueFrom || '');
+  const [dueTo, setDueTo] = useState(filter.dueTo || '');
+  const [amountMin, setAmountMin] = useState(toInput(filter.amountMin));
+  const [amountMax, setAmountMax] = useState(toInput(filter.amountMax));
+  const [overdueMin, setOverdueMin] = useState(toInput(filter.overdueMin));
+  const [overdueMax, setOverdueMax] = useState(toInput(filter.overdueMax));
+  const [segmentName, setSegmentName] = useState('');
+
+  // Only the conditions actually set end up in the filter
+  const buildFilter = (): CustomerFilter => {
+    const next: CustomerFilter = {
+      tags: selectedTags.length > 0 ? selectedTags : undefined,
+      serverId: serverId || undefined,
+      planId: planId || undefined,
+      status: status || undefined,
+      lifecycle: lifecycle || undefined,
+      dueFrom: dueFrom || undefined,
+      dueTo: dueTo || undefined,
+      amountMin: toNumber(amountMin),
+      amountMax: toNumber(amountMax),
+      overdueMin: toNumber(overdueMin),
+      overdueMax: toNumber(overdueMax)
+    };
+    (Object.keys(next) as (keyof CustomerFilter)[]).forEach(key => next[key] === undefined && delete next[key]);
+    return next;
+  };
+
+  const clear = () => {
+    setSelectedTags([]);
+    setServerId('');
+    setPlanId('');
+    setStatus('');
+    setLifecycle('');
+    setDueFrom('');
+    setDueTo('');
+    setAmountMin('');
+    setAmountMax('');
+    setOverdueMin('');
+    setOverdueMax('');
+  };
+
+  const toggleTag = (tag: string) =>
+    setSelectedTags(selectedTags.includes(tag) ? selectedTags.filter(t => t !== tag) : [...selectedTags, tag]);
+
+  const handleSave = () => {
+    if (!segmentName.trim()) return;
+    onSaveSegment(segmentName.trim(), buildFilter());
+  };
+
+  const labelClass = 'block text-xs font-medium text-gray-400 uppercase tracking-wider mb-2';
+  const inputClass = 'w-full bg-[#0f0f0f] border border-white/10 rounded-xl px-4 py-3 text-white focus:outline-none focus:border-[#c8a646]';
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm overflow-y-auto">
+      <div className="bg-[#1a1a1a] rounded-3xl border border-white/10 p-6 w-full max-w-md shadow-2xl my-8">
+        <h3 className="text-xl font-bold text-white mb-6 uppercase tracking-widest">Filtros</h3>
+
+        <div className="space-y-4">
+          <div>
+            <label className={labelClass}>Etiquetas</label>
+            {tags.length === 0 ? (
+              <p className="text-xs text-gray-500">Nenhuma etiqueta cadastrada ainda.</p>
+            ) : (
+              <div className="flex flex-wrap gap-2">
+                {tags.map(tag => (
+                  <button
+                    key={tag}
+                    type="button"
+                    onClick={() => toggleTag(tag)}
+                    className={`text-xs px-3 py-1.5 rounded-lg transition-colors ${selectedTags.includes(tag) ? 'bg-[#c8a646] text-[#0f0f0f] font-bold' : 'bg-white/5 text-gray-400 hover:text-white'}`}
+                  >
+                    {tag}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className={labelClass}>Servidor</label>
+              <select value={serverId} onChange={e => setServerId(e.target.value)} className={`${inputClass} appearance-none`}>
+                <option value="">Todos</option>
+                {selectable(servers, serverId).map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className={labelClass}>Plano</label>
+              <select value={planId} onChange={e => setPlanId(e.target.value)} className={`${inputClass} appearance-none`}>
+                <option value="">Todos</option>
+                {selectable(plans, planId).map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+              </select>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className={labelClass}>Status</label>
+              <select value={status} onChange={e => setStatus(e.target.value as CustomerStatus | '')} className={`${inputClass} appearance-none`}>
+                <option value="">Todos</option>
+                {(Object.keys(STATUS_LABELS) as CustomerStatus[]).map(s => <option key={s} value={s}>{STATUS_LABELS[s]}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className={labelClass}>Situação</label>
+              <select value={lifecycle} onChange={e => setLifecycle(e.target.value as LifecycleState | '')} className={`${inputClass} appearance-none`}>
+                <option value="">Todas</option>
+                {LIFECYCLE_STATES.map(s => <option key={s} value={s}>{LIFECYCLE_LABELS[s]}</option>)}
+              </select>
+            </div>
+          </div>
+
+          <div>
+            <label className={labelClass}>Vencimento entre</label>
+            <div className="grid grid-cols-2 gap-4">
+              <input type="date" value={dueFrom} onChange={e => setDueFrom(e.target.value)} className={inputClass} />
+              <input type="date" value={dueTo} onChange={e => setDueTo(e.target.value)} className={inputClass} />
+            </div>
+          </div>
+
+          <div>
+            <label className={labelClass}>Valor (R$)</label>
+            <div className="grid grid-cols-2 gap-4">
+              <input type="text" inputMode="decimal" placeholder="Mínimo" value={amountMin} onChange={e => setAmountMin(e.target.value)} className={inputClass} />
+              <input type="text" inputMode="decimal" placeholder="Máximo" value={amountMax} onChange={e => setAmountMax(e.target.value)} className={inputClass} />
+            </div>
+          </div>
+
+          <div>
+            <label className={labelClass}>Dias em atraso</label>
+            <div className="grid grid-cols-2 gap-4">
+              <input type="number" min="0" placeholder="De" value={overdueMin} onChange={e => setOverdueMin(e.target.value)} className={inputClass} />
+              <input type="number" min="0" placeholder="Até" value={overdueMax} onChange={e => setOverdueMax(e.target.value)} className={inputClass} />
+            </div>
+          </div>
+
+          <div className="pt-4 border-t border-white/5">
+            <label className={labelClass}>Salvar como segmento</label>
+            <div className="flex space-x-2">
+              <input
+                type="text"
+                placeholder="Ex.: Revendedores vencidos"
+                value={segmentName}
+                onChange={e => setSegmentName(e.target.value)}
+                className={inputClass}
+              />
+              <button
+                type="button"
+                onClick={handleSave}
+                disabled={!segmentName.trim()}
+                className="px-4 rounded-xl bg-white/5 text-[#c8a646] font-bold hover:bg-white/10 transition-colors disabled:opacity-50"
+              >
+                Salvar
+              </button>
+            </div>
+          </div>
+        </div>
+
+        <div className="flex space-x-3 mt-8">
+          <button
+            type="button"
+            onClick={clear}
+            className="py-3 px-4 rounded-xl text-gray-400 font-medium hover:text-white transition-colors"
+          >
+            Limpar
+          </button>
+          <button
+            type="button"
+            onClick={onClose}
+            className="flex-1 py-3 rounded-xl border border-white/10 text-white font-medium hover:bg-white/5 transition-colors"
+          >
+            Cancelar
+          </button>
+          <button
+            type="button"
+            onClick={() => onApply(buildFilter())}
+            className="flex-1 py-3 rounded-xl bg-[#c8a646] text-[#0f0f0f] font-bold hover:bg-[#e8c666] transition-colors shadow-lg shadow-[#c8a646]/20"
+          >
+            Aplicar
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,189 @@
+import { useState, useEffect, useMemo } from 'react';
+import { History as HistoryIcon, Search, Filter, ChevronDown, ChevronUp } from 'lucide-react';
+import { AuditEntry, AuditChange, AuditEntity, Server, Plan, LifecycleState, PaymentMethod, RenewalPayment } from '../types';
+import { getAuditLog } from '../db';
+import { ACTION_LABELS, ENTITY_LABELS, FIELD_LABELS, actionLabel, changedFields, entrySummary, fieldValue, recordLabel } from '../audit';
+import { LIFECYCLE_LABELS } from '../lifecycle';
+import { PAYMENT_METHOD_LABELS } from '../renewal';
+import { format } from 'date-fns';
+
+interface HistoryProps {
+  servers: Server[];
+  plans: Plan[];
+  auditRevision: number;
+}
+
+const PAGE_SIZE = 50;
+
+export function History({ servers, plans, auditRevision }: HistoryProps) {
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [entityFilter, setEntityFilter] = useState<'all' | AuditEntity>('all');
+  const [actionFilter, setActionFilter] = useState('all');
+  const [visibleCount, setVisibleCount] = useState(PAGE_SIZE);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  useEffect(() => {
+    getAuditLog()
+      .then(setEntries)
+      .catch(err => console.error('Erro ao carregar histórico:', err))
+      .finally(() => setLoading(false));
+  }, [auditRevision]);
+
+  const formatCurrency = (val: number) => new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(val);
+
+  const formatValue = (field: string, value: unknown) => {
+    if (value === undefined || value === null || value === '') return '—';
+    if (field === 'serverId') return servers.find(s => s.id === value)?.name || String(value);
+    if (field === 'planId') return plans.find(p => p.id === value)?.name || String(value);
+    if (field === 'lifecycle') return LIFECYCLE_LABELS[value as LifecycleState] || String(value);
+    if (field === 'paymentMethod') return PAYMENT_METHOD_LABELS[value as PaymentMethod] || String(value);
+    if (field === 'payments' && Array.isArray(value)) {
+      return value.map((p: RenewalPayment) => {
+        const date = new Date(p.date);
+        return `${formatCurrency(p.amount)}${isNaN(date.getTime()) ? '' : ` em ${format(date, 'dd/MM/yyyy')}`}`;
+      }).join(', ');
+    }
+    if (typeof value === 'number' && ['amountPaid', 'amount', 'amountDue', 'cost', 'costPerActive', 'defaultPrice'].includes(field)) {
+      return formatCurrency(value);
+    }
+    if (typeof value === 'object') return JSON.stringify(value);
+    return String(value);
+  };
+
+  const describeChange = (c: AuditChange) => {
+    if (!c.before) return 'Criado';
+    if (!c.after) return 'Removido';
+    return null;
+  };
+
+  const actions = useMemo(() => [...new Set(entries.map(e => e.action))], [entries]);
+
+  const filteredEntries = useMemo(() => {
+    const query = searchQuery.toLowerCase();
+    return entries.filter(entry => {
+      const matchesAction = actionFilter === 'all' || entry.action === actionFilter;
+      const matchesEntity = entityFilter === 'all' || entry.changes.some(c => c.entity === entityFilter);
+      const matchesSearch = !query || entry.changes.some(c => String(recordLabel(c)).toLowerCase().includes(query));
+      return matchesAction && matchesEntity && matchesSearch;
+    });
+  }, [entries, searchQuery, entityFilter, actionFilter]);
+
+  return (
+    <div className="pb-24 space-y-6">
+      <div className="flex items-center space-x-3 mb-6">
+        <HistoryIcon size={28} className="text-[#c8a646]" />
+        <h2 className="text-xl font-bold text-white uppercase tracking-widest">Histórico de Alterações</h2>
+      </div>
+
+      {/* Filters */}
+      <div className="space-y-3">
+        <div className="relative">
+          <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-500" size={18} />
+          <input
+            type="text"
+            placeholder="Buscar por nome do registro..."
+            value={searchQuery}
+            onChange={e => { setSearchQuery(e.target.value); setVisibleCount(PAGE_SIZE); }}
+            className="w-full bg-[#1a1a1a] border border-white/10 rounded-xl pl-10 pr-4 py-3 text-white focus:outline-none focus:border-[#c8a646] transition-colors"
+          />
+        </div>
+        <div className="flex space-x-2">
+          <div className="relative flex-1">
+            <Filter className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-500" size={16} />
+            <select
+              value={entityFilter}
+              onChange={e => { setEntityFilter(e.target.value as 'all' | AuditEntity); setVisibleCount(PAGE_SIZE); }}
+              className="w-full bg-[#1a1a1a] border border-white/10 rounded-xl pl-9 pr-4 py-2 text-sm text-white focus:outline-none appearance-none"
+            >
+              <option value="all">Todos os Tipos</option>
+              {(Object.keys(ENTITY_LABELS) as AuditEntity[]).map(entity => (
+                <option key={entity} value={entity}>{ENTITY_LABELS[entity]}</option>
+              ))}
+            </select>
+          </div>
+          <select
+            value={actionFilter}
+            onChange={e => { setActionFilter(e.target.value); setVisibleCount(PAGE_SIZE); }}
+            className="flex-1 bg-[#1a1a1a] border border-white/10 rounded-xl px-4 py-2 text-sm text-white focus:outline-none appearance-none"
+          >
+            <option value="all">Todas as Ações</option>
+            {actions.map(action => <option key={action} value={action}>{ACTION_LABELS[action] || action}</option>)}
+          </select>
+        </div>
+      </div>
+
+      <div className="space-y-3">
+        {loading ? (
+          <div className="text-center py-12 text-gray-500">Carregando...</div>
+        ) : filteredEntries.length === 0 ? (
+          <div className="text-center py-12 text-gray-500">
+            <HistoryIcon size={48} className="mx-auto mb-4 opacity-20" />
+            <p>Nenhuma alteração registrada.</p>
+          </div>
+        ) : (
+          filteredEntries.slice(0, visibleCount).map(entry => {
+            const isExpanded = expandedId === entry.id;
+            const isRevert = entry.action === 'undo' || entry.action === 'redo';
+            return (
+              <div key={entry.id} className="bg-[#1a1a1a] rounded-2xl border border-white/5 shadow-lg overflow-hidden">
+                <button
+                  onClick={() => setExpandedId(isExpanded ? null : entry.id)}
+                  className="w-full p-4 flex items-center justify-between text-left"
+                >
+                  <div className="min-w-0">
+                    <div className={`text-sm font-bold truncate ${isRevert ? 'text-blue-400' : 'text-white'}`}>{entrySummary(entry)}</div>
+                    <div className="text-[10px] text-gray-500 uppercase tracking-wider mt-1">
+                      {format(new Date(entry.timestamp), 'dd/MM/yyyy HH:mm:ss')} • {[...new Set(entry.changes.map(c => ENTITY_LABELS[c.entity]))].join(', ')}
+                    </div>
+                  </div>
+                  {isExpanded ? <ChevronUp size={16} className="text-gray-500 shrink-0" /> : <ChevronDown size={16} className="text-gray-500 shrink-0" />}
+                </button>
+
+                {isExpanded && (
+                  <div className="px-4 pb-4 space-y-3 max-h-96 overflow-y-auto">
+                    {entry.changes.map(c => {
+                      const status = describeChange(c);
+                      return (
+                        <div key={`${c.entity}-${c.id}`} className="bg-[#0f0f0f] rounded-xl p-3 border border-white/5">
+                          <div className="flex justify-between text-xs mb-2">
+                            <span className="text-[#c8a646] font-bold">{ENTITY_LABELS[c.entity]}: {recordLabel(c)}</span>
+                            {status && <span className={!c.after ? 'text-red-400' : 'text-green-400'}>{status}</span>}
+                          </div>
+                          <div className="space-y-1">
+                            {changedFields(c).map(field => (
+                              <div key={field} className="text-[11px] grid grid-cols-3 gap-2">
+                                <span className="text-gray-500">{FIELD_LABELS[field] || field}</span>
+                                <span className="text-red-300/70 line-through truncate">{formatValue(field, fieldValue(c.before, field))}</span>
+                                <span className="text-green-300 truncate">{formatValue(field, fieldValue(c.after, field))}</span>
+                              </div>
+                            ))}
+                          </div>
+                        </div>
+                      );
+                    })}
+                    {entry.revertsEntryId && (
+                      <div className="text-[10px] text-gray-500">
+                        Referente a: {actionLabel(entries.find(e => e.id === entry.revertsEntryId)?.action || '')}
+                      </div>
+                    )}
+                  </div>
+                )}
+              </div>
+            );
+          })
+        )}
+
+        {filteredEntries.length > visibleCount && (
+          <button
+            onClick={() => setVisibleCount(visibleCount + PAGE_SIZE)}
+            className="w-full py-3 rounded-xl border border-white/10 text-gray-400 text-sm font-medium hover:bg-white/5 transition-colors"
+          >
+            Carregar mais ({filteredEntries.length - visibleCount} restantes)
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,293 @@
+import { useState, useMemo } from 'react';
+import { AlertTriangle, CheckCircle, Copy as DuplicateIcon } from 'lucide-react';
+import { v4 as uuidv4 } from 'uuid';
+import { Customer, Server, Plan } from '../types';
+import { selectable } from '../integrity';
+import {
+  SheetData, ColumnMapping, DuplicateMode, ImportField, ImportPlan, IMPORT_FIELDS, DUPLICATE_LABELS,
+  guessMapping, parseRows, buildImportPlan
+} from '../importer';
+import { formatPhone } from '../phone';
+import { isOpenTrial } from '../trials';
+
+interface ImportWizardProps {
+  sheet: SheetData;
+  fileName: string;
+  customers: Customer[];
+  servers: Server[];
+  plans: Plan[];
+  onImport: (plan: ImportPlan) => void;
+  onClose: () => void;
+}
+
+type Step = 'mapping' | 'preview' | 'done';
+
+const STEP_LABELS: Record<Step, string> = {
+  mapping: '1. Colunas',
+  preview: '2. Conferência',
+  done: '3. Concluído'
+};
+
+export function ImportWizard({ sheet, fileName, customers, servers, plans, onImport, onClose }: ImportWizardProps) {
+  const [step, setStep] = useState<Step>('mapping');
+  const [mapping, setMapping] = useState<ColumnMapping>(() => guessMapping(sheet.headers));
+  const [defaults, setDefaults] = useState({
+    serverId: selectable(servers)[0]?.id || '',
+    planId: selectable(plans)[0]?.id || ''
+  });
+  const [defaultDuplicateMode, setDefaultDuplicateMode] = useState<DuplicateMode>('skip');
+  const [choices, setChoices] = useState<Record<number, DuplicateMode>>({});
+  const [withRenewals, setWithRenewals] = useState(false);
+  const [showOnly, setShowOnly] = useState<'all' | 'errors' | 'duplicates'>('all');
+  const [result, setResult] = useState<ImportPlan | null>(null);
+
+  const rows = useMemo(
+    () => step === 'mapping' ? [] : parseRows(sheet, mapping, defaults, { servers, plans, customers }),
+    [step, sheet, mapping, defaults, servers, plans, customers]
+  );
+
+  const effectiveChoices = useMemo(() => {
+    const all: Record<number, DuplicateMode> = {};
+    rows.forEach(row => { if (row.duplicateOf) all[row.line] = choices[row.line] || defaultDuplicateMode; });
+    return all;
+  }, [rows, choices, defaultDuplicateMode]);
+
+  const plan = useMemo(
+    () => buildImportPlan(rows, effectiveChoices, withRenewals, { servers, plans }, uuidv4),
+    [rows, effectiveChoices, withRenewals, servers, plans]
+  );
+
+  const invalidCount = rows.filter(r => r.errors.length > 0).length;
+  const duplicateCount = rows.filter(r => r.errors.length === 0 && r.duplicateOf).length;
+  const skippedCount = rows.length - invalidCount - plan.create.length - plan.update.length;
+  const missingRequired = IMPORT_FIELDS.filter(f => f.required && !mapping[f.field]);
+
+  const visibleRows = rows.filter(row =>
+    showOnly === 'all' || (showOnly === 'errors' ? row.errors.length > 0 : row.errors.length === 0 && row.duplicateOf));
+
+  const setColumn = (field: ImportField, header: string) => {
+    const next = { ...mapping };
+    if (header) next[field] = header; else delete next[field];
+    setMapping(next);
+  };
+
+  const confirm = () => {
+    onImport(plan);
+    setResult(plan);
+    setStep('done');
+  };
+
+  const labelClass = 'block text-xs font-medium text-gray-400 uppercase tracking-wider mb-2';
+  const selectClass = 'w-full bg-[#0f0f0f] border border-white/10 rounded-xl px-3 py-2 text-sm text-white focus:outline-none focus:border-[#c8a646] appearance-none';
+  const serverName = (id: string) => servers.find(s => s.id === id)?.name || '—';
+  const planName = (id: string) => plans.find(p => p.id === id)?.name || '—';
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm overflow-y-auto">
+      <div className="bg-[#1a1a1a] rounded-3xl border border-white/10 p-6 w-full max-w-2xl shadow-2xl my-8">
+        <h3 className="text-xl font-bold text-white mb-1 uppercase tracking-widest">Importar Planilha</h3>
+        <p className="text-xs text-gray-500 mb-4 truncate">{fileName} • {sheet.rows.length} linhas</p>
+
+        <div className="flex space-x-2 mb-6">
+          {(Object.keys(STEP_LABELS) as Step[]).map(s => (
+            <span key={s} className={`flex-1 text-center text-[10px] font-bold uppercase tracking-wider py-2 rounded-lg ${step === s ? 'bg-[#c8a646] text-[#0f0f0f]' : 'bg-white/5 text-gray-500'}`}>
+              {STEP_LABELS[s]}
+            </span>
+          ))}
+        </div>
+
+        {step === 'mapping' && (
+          <>
+            <p className="text-sm text-gray-400 mb-4">Indique de qual coluna da planilha vem cada informação.</p>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+              {IMPORT_FIELDS.map(({ field, label, required }) => (
+                <div key={field}>
+                  <label className={labelClass}>{label}{required ? ' *' : ''}</label>
+                  <select value={mapping[field] || ''} onChange={e => setColumn(field, e.target.value)} className={selectClass}>
+                    <option value="">Não importar</option>
+                    {sheet.headers.map(h => <option key={h} value={h}>{h}</option>)}
+                  </select>
+                </div>
+              ))}
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 mt-6 pt-4 border-t border-white/5">
+              <div>
+                <label className={labelClass}>Servidor quando vazio</label>
+                <select value={defaults.serverId} onChange={e => setDefaults({ ...defaults, serverId: e.target.value })} className={selectClass}>
+                  <option value="">Marcar como erro</option>
+                  {selectable(servers).map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+                </select>
+              </div>
+              <div>
+                <label className={labelClass}>Plano quando vazio</label>
+                <select value={defaults.planId} onChange={e => setDefaults({ ...defaults, planId: e.target.value })} className={selectClass}>
+                  <option value="">Marcar como erro</option>
+                  {selectable(plans).map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                </select>
+              </div>
+            </div>
+
+            {missingRequired.length > 0 && (
+              <p className="text-red-400 text-xs mt-4">Escolha a coluna de: {missingRequired.map(f => f.label).join(', ')}.</p>
+            )}
+
+            <div className="flex space-x-3 mt-8">
+              <button onClick={onClose} className="flex-1 py-3 rounded-xl border border-white/10 text-white font-medium hover:bg-white/5 transition-colors">
+                Cancelar
+              </button>
+              <button
+                onClick={() => setStep('preview')}
+                disabled={missingRequired.length > 0}
+                className="flex-1 py-3 rounded-xl bg-[#c8a646] text-[#0f0f0f] font-bold hover:bg-[#e8c666] transition-colors shadow-lg shadow-[#c8a646]/20 disabled:opacity-50"
+              >
+                Conferir linhas
+              </button>
+            </div>
+          </>
+        )}
+
+        {step === 'preview' && (
+          <>
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-2 mb-4 text-center">
+              <div className="bg-[#0f0f0f] rounded-xl p-3">
+                <div className="text-lg font-bold text-green-400">{plan.create.length}</div>
+                <div className="text-[10px] text-gray-500 uppercase tracking-wider">Novos</div>
+              </div>
+              <div className="bg-[#0f0f0f] rounded-xl p-3">
+                <div className="text-lg font-bold text-blue-400">{plan.update.length}</div>
+                <div className="text-[10px] text-gray-500 uppercase tracking-wider">Atualizados</div>
+              </div>
+              <div className="bg-[#0f0f0f] rounded-xl p-3">
+                <div className="text-lg font-bold text-gray-400">{skippedCount}</div>
+                <div className="text-[10px] text-gray-500 uppercase tracking-wider">Ignorados</div>
+              </div>
+              <div className="bg-[#0f0f0f] rounded-xl p-3">
+                <div className="text-lg font-bold text-red-400">{invalidCount}</div>
+                <div className="text-[10px] text-gray-500 uppercase tracking-wider">Com erro</div>
+              </div>
+            </div>
+
+            {duplicateCount > 0 && (
+              <div className="flex items-center justify-between gap-3 bg-yellow-500/10 border border-yellow-500/20 rounded-xl px-4 py-3 mb-4 text-xs text-yellow-500">
+                <span>{duplicateCount} {duplicateCount === 1 ? 'linha tem telefone já cadastrado' : 'linhas têm telefone já cadastrado'}.</span>
+                <select
+                  value={defaultDuplicateMode}
+                  onChange={e => { setDefaultDuplicateMode(e.target.value as DuplicateMode); setChoices({}); }}
+                  className="bg-[#0f0f0f] border border-white/10 rounded-lg px-2 py-1 text-white focus:outline-none"
+                >
+                  {(Object.keys(DUPLICATE_LABELS) as DuplicateMode[]).map(mode => <option key={mode} value={mode}>{DUPLICATE_LABELS[mode]} (todos)</option>)}
+                </select>
+              </div>
+            )}
+
+            <div className="flex space-x-2 mb-3">
+              {(['all', 'errors', 'duplicates'] as const).map(option => (
+                <button
+                  key={option}
+                  onClick={() => setShowOnly(option)}
+                  className={`text-xs px-3 py-1.5 rounded-lg transition-colors ${showOnly === option ? 'bg-white/10 text-white font-bold' : 'text-gray-500 hover:text-white'}`}
+                >
+                  {option === 'all' ? 'Todas' : option === 'errors' ? 'Com erro' : 'Duplicadas'}
+                </button>
+              ))}
+            </div>
+
+            <div className="max-h-80 overflow-y-auto space-y-2 pr-1">
+              {visibleRows.length === 0 ? (
+                <div className="text-center py-8 text-gray-500 text-sm">Nenhuma linha.</div>
+              ) : visibleRows.map(row => (
+                <div key={row.line} className={`bg-[#0f0f0f] rounded-xl border p-3 text-xs ${row.errors.length > 0 ? 'border-red-500/30' : row.duplicateOf ? 'border-yellow-500/30' : 'border-white/5'}`}>
+                  <div className="flex items-start justify-between gap-2">
+                    <div className="min-w-0">
+                      <div className="flex items-center space-x-2">
+                        <span className="text-gray-600">#{row.line}</span>
+                        <span className="text-white font-bold truncate">{row.customer.name || '(sem nome)'}</span>
+                        {row.errors.length === 0 && !row.duplicateOf && <CheckCircle size={12} className="text-green-500 shrink-0" />}
+                      </div>
+                      <div className="text-gray-400 mt-1">
+                        {formatPhone(row.customer.phone) || '—'} • {serverName(row.customer.serverId)} • {planName(row.customer.planId)} • {row.customer.amountPaid.toFixed(2).replace('.', ',')} • vence {row.customer.dueDate.split('-').reverse().join('/')}
+                      </div>
+                    </div>
+                    {row.errors.length === 0 && row.duplicateOf && (
+                      <select
+                        value={effectiveChoices[row.line]}
+                        onChange={e => setChoices({ ...choices, [row.line]: e.target.value as DuplicateMode })}
+                        className="bg-[#1a1a1a] border border-white/10 rounded-lg px-2 py-1 text-white focus:outline-none shrink-0"
+                      >
+                        {(Object.keys(DUPLICATE_LABELS) as DuplicateMode[]).map(mode => <option key={mode} value={mode}>{DUPLICATE_LABELS[mode]}</option>)}
+                      </select>
+                    )}
+                  </div>
+                  {row.errors.map(error => (
+                    <div key={error} className="flex items-center space-x-1 text-red-400 mt-1">
+                      <AlertTriangle size={10} />
+                      <span>{error}</span>
+                    </div>
+                  ))}
+                  {row.errors.length === 0 && row.duplicateOf && (
+                    <div className="flex items-center space-x-1 text-yellow-500 mt-1">
+                      <DuplicateIcon size={10} />
+                      <span>
+                        Mesmo telefone de {row.duplicateOf.name}
+                        {row.duplicateOf.deletedAt ? ' (na lixeira)' : isOpenTrial(row.duplicateOf) ? ' (em teste)' : ''}
+                      </span>
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+
+            <label className="flex items-start space-x-3 p-3 mt-4 bg-[#0f0f0f] rounded-xl border border-white/10 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={withRenewals}
+                onChange={e => setWithRenewals(e.target.checked)}
+                className="mt-1 accent-[#c8a646]"
+              />
+              <span>
+                <span className="block text-sm text-white">Gerar histórico de renovação</span>
+                <span className="block text-[10px] text-gray-500 mt-1">
+                  Registra uma renovação para cada cliente novo, com o valor da planilha e data no início do período atual. Deixe desmarcado para não contar esses valores como receita.
+                </span>
+              </span>
+            </label>
+
+            <div className="flex space-x-3 mt-6">
+              <button onClick={() => setStep('mapping')} className="flex-1 py-3 rounded-xl border border-white/10 text-white font-medium hover:bg-white/5 transition-colors">
+                Voltar
+              </button>
+              <button
+                onClick={confirm}
+                disabled={plan.create.length + plan.update.length === 0}
+                className="flex-1 py-3 rounded-xl bg-[#c8a646] text-[#0f0f0f] font-bold hover:bg-[#e8c666] transition-colors shadow-lg shadow-[#c8a646]/20 disabled:opacity-50"
+              >
+                Importar {plan.create.length + plan.update.length}
+              </button>
+            </div>
+          </>
+        )}
+
+        {step === 'done' && result && (
+          <>
+            <div className="text-center py-6">
+              <CheckCircle size={40} className="mx-auto mb-4 text-green-500" />
+              <p className="text-white font-bold">Importação concluída</p>
+              <p className="text-sm text-gray-400 mt-2">
+                {result.create.length} novos, {result.update.length} atualizados
+                {result.renewals.length > 0 ? `, ${result.renewals.length} renovações registradas` : ''}.
+              </p>
+              <p className="text-[10px] text-gray-500 mt-2">Use Desfazer para reverter toda a importação.</p>
+            </div>
+            <button
+              onClick={onClose}
+              className="w-full py-3 rounded-xl bg-[#c8a646] text-[#0f0f0f] font-bold hover:bg-[#e8c666] transition-colors shadow-lg shadow-[#c8a646]/20"
+            >
+              Fechar
+            </button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,54 @@
+import { useState } from 'react';
+import { Activity } from 'lucide-react';
+import { LifecycleThresholds, THRESHOLD_LABELS } from '../lifecycle';
+
+interface LifecycleSettingsProps {
+  thresholds: LifecycleThresholds;
+  onChange: (thresholds: LifecycleThresholds) => void;
+}
+
+const FIELDS = Object.keys(THRESHOLD_LABELS) as (keyof LifecycleThresholds)[];
+
+export function LifecycleSettings({ thresholds, onChange }: LifecycleSettingsProps) {
+  const [inputs, setInputs] = useState(() =>
+    Object.fromEntries(FIELDS.map(field => [field, thresholds[field].toString()])) as Record<keyof LifecycleThresholds, string>
+  );
+
+  // Only whole, non-negative day counts are saved; anything else stays in the field until fixed
+  const handleChange = (field: keyof LifecycleThresholds, value: string) => {
+    setInputs({ ...inputs, [field]: value });
+    const days = parseInt(value, 10);
+    if (isNaN(days) || days < 0 || String(days) !== value.trim()) return;
+    onChange({ ...thresholds, [field]: days });
+  };
+
+  return (
+    <section>
+      <div className="flex items-center space-x-3 mb-6">
+        <Activity size={28} className="text-[#c8a646]" />
+        <h2 className="text-xl font-bold text-white uppercase tracking-widest">Situação dos Clientes</h2>
+      </div>
+
+      <div className="bg-[#1a1a1a] p-5 rounded-2xl border border-white/5 shadow-lg space-y-3">
+        <p className="text-sm text-gray-400">
+          Prazos usados para classificar os clientes em novo, ativo, vencendo, carência, vencido, perdido e recuperado.
+        </p>
+        {FIELDS.map(field => (
+          <div key={field} className="flex items-center justify-between gap-4">
+            <span className="text-xs text-gray-400">{THRESHOLD_LABELS[field]}</span>
+            <input
+              type="text"
+              inputMode="numeric"
+              value={inputs[field]}
+              onChange={e => handleChange(field, e.target.value)}
+              className="w-20 bg-[#0f0f0f] border border-white/10 rounded-xl px-3 py-2 text-white text-center focus:outline-none focus:border-[#c8a646]"
+            />
+          </div>
+        ))}
+        {thresholds.churnDays <= thresholds.graceDays && (
+          <p className="text-xs text-yellow-500">Com o prazo de perdido menor que a carência, nenhum cliente fica como vencido.</p>
+        )}
+      </div>
+    </section>
+  );
+}
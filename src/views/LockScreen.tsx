@@ -0,0 +1,91 @@
+import React, { useState, ReactNode } from 'react';
+import { Lock, Layout } from 'lucide-react';
+import { AppLock, LockKind, useAppLock } from '../lock';
+
+interface LockScreenProps {
+  kind: LockKind;
+  unlock: (secret: string) => Promise<boolean>;
+}
+
+export function LockScreen({ kind, unlock }: LockScreenProps) {
+  const [secret, setSecret] = useState('');
+  const [error, setError] = useState('');
+  const [checking, setChecking] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!secret || checking) return;
+    setChecking(true);
+    setError('');
+    try {
+      if (!(await unlock(secret))) {
+        setError(kind === 'pin' ? 'PIN incorreto.' : 'Senha incorreta.');
+        setSecret('');
+      }
+    } catch (err) {
+      console.error('Erro ao desbloquear:', err);
+      setError('Não foi possível desbloquear.');
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-[#0f0f0f] text-white flex items-center justify-center p-4">
+      <form onSubmit={handleSubmit} className="bg-[#1a1a1a] rounded-3xl border border-white/10 p-8 w-full max-w-sm shadow-2xl text-center">
+        <div className="flex items-center justify-center space-x-3 mb-8">
+          <div className="bg-[#c8a646] p-2 rounded-xl">
+            <Layout className="text-[#0f0f0f]" size={24} />
+          </div>
+          <span className="text-xl font-bold tracking-tighter uppercase italic">ARF Canais</span>
+        </div>
+
+        <Lock size={32} className="mx-auto mb-4 text-[#c8a646]" />
+        <p className="text-gray-400 text-sm mb-6">{kind === 'pin' ? 'Digite o PIN para continuar' : 'Digite a senha para continuar'}</p>
+
+        <input
+          type="password"
+          inputMode={kind === 'pin' ? 'numeric' : undefined}
+          autoComplete="current-password"
+          autoFocus
+          value={secret}
+          onChange={e => setSecret(kind === 'pin' ? e.target.value.replace(/\D/g, '') : e.target.value)}
+          className={`w-full bg-[#0f0f0f] border border-white/10 rounded-xl px-4 py-3 text-white focus:outline-none focus:border-[#c8a646] transition-colors ${kind === 'pin' ? 'text-center text-2xl tracking-[0.5em]' : ''}`}
+        />
+        {error && <p className="text-red-400 text-xs mt-3">{error}</p>}
+
+        <button
+          type="submit"
+          disabled={!secret || checking}
+          className="w-full mt-6 py-3 rounded-xl bg-[#c8a646] text-[#0f0f0f] font-bold hover:bg-[#e8c666] transition-colors shadow-lg shadow-[#c8a646]/20 disabled:opacity-50"
+        >
+          {checking ? 'Verificando...' : 'Desbloquear'}
+        </button>
+      </form>
+    </div>
+  );
+}
+
+interface LockGateProps {
+  children: (lock: AppLock) => ReactNode;
+}
+
+// Keeps the app unmounted until the first unlock (encrypted data can't be read
+// before that), then only hides it while locked so no state is lost.
+export function LockGate({ children }: LockGateProps) {
+  const lock = useAppLock();
+  const [unlockedOnce, setUnlockedOnce] = useState(false);
+
+  if (lock.status === 'unlocked' && !unlockedOnce) setUnlockedOnce(true);
+
+  if (lock.status === 'loading') {
+    return <div className="min-h-screen bg-[#0f0f0f]" />;
+  }
+
+  return (
+    <>
+      {lock.status === 'locked' && lock.config && <LockScreen kind={lock.config.kind} unlock={lock.unlock} />}
+      {unlockedOnce && <div hidden={lock.status === 'locked'}>{children(lock)}</div>}
+    </>
+  );
+}
@@ -0,0 +1,237 @@
+import { useState } from 'react';
+import { Lock, Unlock } from 'lucide-react';
+import { AppLock, LockKind, DEFAULT_IDLE_MINUTES, validateSecret, verifySecret } from '../lock';
+
+interface LockSettingsProps {
+  lock: AppLock;
+}
+
+const IDLE_OPTIONS = [1, 5, 15, 30, 60, 0];
+
+export function LockSettings({ lock }: LockSettingsProps) {
+  const { config } = lock;
+  const [isOpen, setIsOpen] = useState(false);
+  const [currentSecret, setCurrentSecret] = useState('');
+  const [kind, setKind] = useState<LockKind>(config?.kind || 'pin');
+  const [secret, setSecret] = useState('');
+  const [secretConfirm, setSecretConfirm] = useState('');
+  const [idleMinutes, setIdleMinutes] = useState(config?.idleMinutes ?? DEFAULT_IDLE_MINUTES);
+  const [encryptData, setEncryptData] = useState(config?.encryptData ?? false);
+  const [error, setError] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const open = () => {
+    setKind(config?.kind || 'pin');
+    setIdleMinutes(config?.idleMinutes ?? DEFAULT_IDLE_MINUTES);
+    setEncryptData(config?.encryptData ?? false);
+    setCurrentSecret('');
+    setSecret('');
+    setSecretConfirm('');
+    setError('');
+    setIsOpen(true);
+  };
+
+  // Changes to an existing lock always need the current secret; leaving the
+  // new one blank keeps it.
+  const checkCurrent = async () => {
+    if (!config) return true;
+    if (await verifySecret(config, currentSecret)) return true;
+    setError(config.kind === 'pin' ? 'PIN atual incorreto.' : 'Senha atual incorreta.');
+    return false;
+  };
+
+  const handleSave = async () => {
+    setError('');
+    const changingSecret = !config || secret !== '' || kind !== config.kind;
+    if (changingSecret) {
+      const invalid = validateSecret(kind, secret);
+      if (invalid) return setError(invalid);
+      if (secret !== secretConfirm) return setError('A confirmação não confere.');
+    }
+    setSaving(true);
+    try {
+      if (!(await checkCurrent())) return;
+      await lock.configure({ kind, secret: changingSecret ? secret : currentSecret, idleMinutes, encryptData });
+      setIsOpen(false);
+    } catch (err) {
+      console.error('Erro ao salvar bloqueio:', err);
+      setError('Não foi possível salvar o bloqueio.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDisable = async () => {
+    setError('');
+    setSaving(true);
+    try {
+      if (!(await checkCurrent())) return;
+      await lock.disable();
+      setIsOpen(false);
+    } catch (err) {
+      console.error('Erro ao remover bloqueio:', err);
+      setError('Não foi possível remover o bloqueio.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const inputClass = 'w-full bg-[#0f0f0f] border border-white/10 rounded-xl px-4 py-3 text-white focus:outline-none focus:border-[#c8a646] transition-colors';
+  const filterSecret = (value: string) => kind === 'pin' ? value.replace(/\D/g, '') : value;
+
+  return (
+    <div className="bg-[#1a1a1a] p-6 rounded-3xl border border-white/5 shadow-lg">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center space-x-3">
+          {config ? <Lock size={24} className="text-[#c8a646]" /> : <Unlock size={24} className="text-[#c8a646]" />}
+          <h2 className="text-xl font-bold text-white uppercase tracking-widest">Bloqueio</h2>
+        </div>
+        <span className={`text-[10px] font-bold uppercase tracking-wider px-3 py-1 rounded-full ${config ? 'text-green-400 bg-green-500/10' : 'text-gray-500 bg-white/5'}`}>
+          {config ? 'Ativo' : 'Desativado'}
+        </span>
+      </div>
+
+      <p className="text-xs text-gray-400 mb-4">
+        {config
+          ? `Protegido por ${config.kind === 'pin' ? 'PIN' : 'senha'}${config.idleMinutes > 0 ? `, bloqueia após ${config.idleMinutes} min sem uso` : ''}${config.encryptData ? '. Dados criptografados no aparelho.' : '.'}`
+          : 'Peça um PIN ou senha ao abrir o app e depois de um tempo sem uso.'}
+      </p>
+
+      <div className="flex gap-3">
+        <button
+          onClick={open}
+          className="flex-1 bg-[#c8a646] text-[#0f0f0f] font-bold py-3 rounded-xl hover:bg-[#e8c666] transition-colors"
+        >
+          {config ? 'Alterar' : 'Ativar bloqueio'}
+        </button>
+        {config && (
+          <button
+            onClick={lock.lockNow}
+            className="flex-1 bg-white/5 text-white font-bold py-3 rounded-xl hover:bg-white/10 transition-colors"
+          >
+            Bloquear agora
+          </button>
+        )}
+      </div>
+
+      {isOpen && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm">
+          <div className="bg-[#1a1a1a] rounded-3xl border border-white/10 p-6 w-full max-w-sm shadow-2xl max-h-[90vh] overflow-y-auto">
+            <h3 className="text-xl font-bold text-white mb-6 uppercase tracking-widest">Bloqueio do App</h3>
+
+            <div className="space-y-4">
+              {config && (
+                <div>
+                  <label className="block text-xs font-medium text-gray-400 uppercase tracking-wider mb-2">
+                    {config.kind === 'pin' ? 'PIN atual' : 'Senha atual'}
+                  </label>
+                  <input
+                    type="password"
+                    inputMode={config.kind === 'pin' ? 'numeric' : undefined}
+                    value={currentSecret}
+                    onChange={e => setCurrentSecret(e.target.value)}
+                    className={inputClass}
+                  />
+                </div>
+              )}
+
+              <div className="grid grid-cols-2 gap-2">
+                {(['pin', 'password'] as LockKind[]).map(option => (
+                  <button
+                    key={option}
+                    type="button"
+                    onClick={() => { setKind(option); setSecret(''); setSecretConfirm(''); }}
+                    className={`py-2 rounded-xl text-sm font-bold transition-colors ${kind === option ? 'bg-[#c8a646] text-[#0f0f0f]' : 'bg-white/5 text-gray-400'}`}
+                  >
+                    {option === 'pin' ? 'PIN' : 'Senha'}
+                  </button>
+                ))}
+              </div>
+
+              <div>
+                <label className="block text-xs font-medium text-gray-400 uppercase tracking-wider mb-2">
+                  {kind === 'pin' ? 'Novo PIN' : 'Nova senha'}{config && kind === config.kind ? ' (opcional)' : ''}
+                </label>
+                <input
+                  type="password"
+                  inputMode={kind === 'pin' ? 'numeric' : undefined}
+                  autoComplete="new-password"
+                  value={secret}
+                  onChange={e => setSecret(filterSecret(e.target.value))}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-gray-400 uppercase tracking-wider mb-2">Confirmar</label>
+                <input
+                  type="password"
+                  inputMode={kind === 'pin' ? 'numeric' : undefined}
+                  autoComplete="new-password"
+                  value={secretConfirm}
+                  onChange={e => setSecretConfirm(filterSecret(e.target.value))}
+                  className={inputClass}
+                />
+              </div>
+
+              <div>
+                <label className="block text-xs font-medium text-gray-400 uppercase tracking-wider mb-2">Bloquear após</label>
+                <select
+                  value={idleMinutes}
+                  onChange={e => setIdleMinutes(Number(e.target.value))}
+                  className={`${inputClass} appearance-none`}
+                >
+                  {IDLE_OPTIONS.map(minutes => (
+                    <option key={minutes} value={minutes}>{minutes === 0 ? 'Só ao abrir o app' : `${minutes} min sem uso`}</option>
+                  ))}
+                </select>
+              </div>
+
+              <label className="flex items-start space-x-3 p-3 bg-[#0f0f0f] rounded-xl border border-white/10 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={encryptData}
+                  onChange={e => setEncryptData(e.target.checked)}
+                  className="mt-1 accent-[#c8a646]"
+                />
+                <span>
+                  <span className="block text-sm text-white">Criptografar dados no aparelho</span>
+                  <span className="block text-[10px] text-gray-500 mt-1">
+                    Clientes, renovações, histórico e pontos de restauração ficam ilegíveis sem o {kind === 'pin' ? 'PIN' : 'senha'}. Se esquecer, os dados não podem ser recuperados.
+                  </span>
+                </span>
+              </label>
+
+              {error && <p className="text-red-400 text-xs">{error}</p>}
+            </div>
+
+            <div className="space-y-3 mt-6">
+              <button
+                onClick={handleSave}
+                disabled={saving}
+                className="w-full py-3 rounded-xl bg-[#c8a646] text-[#0f0f0f] font-bold hover:bg-[#e8c666] transition-colors shadow-lg shadow-[#c8a646]/20 disabled:opacity-50"
+              >
+                {saving ? 'Salvando...' : 'Salvar'}
+              </button>
+              {config && (
+                <button
+                  onClick={handleDisable}
+                  disabled={saving}
+                  className="w-full py-3 rounded-xl bg-red-500/20 text-red-500 font-bold hover:bg-red-500/30 transition-colors disabled:opacity-50"
+                >
+                  Remover bloqueio
+                </button>
+              )}
+              <button
+                onClick={() => setIsOpen(false)}
+                disabled={saving}
+                className="w-full py-3 rounded-xl border border-white/10 text-white font-medium hover:bg-white/5 transition-colors"
+              >
+                Cancelar
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
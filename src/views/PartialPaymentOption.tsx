@@ -0,0 +1,46 @@
+interface PartialPaymentOptionProps {
+  due: number; // What the renewal costs, after any credit used
+  checked: boolean;
+  received: string; // As typed in the renewal form
+  onChange: (checked: boolean) => void;
+  onReceivedChange: (received: string) => void;
+}
+
+const formatCurrency = (val: number) => new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(val);
+
+// "Paid only part of it" switch for the renewal forms, with what stays open
+export function PartialPaymentOption({ due, checked, received, onChange, onReceivedChange }: PartialPaymentOptionProps) {
+  const parsed = parseFloat(received.replace(',', '.'));
+  const invalid = isNaN(parsed) || parsed < 0 || parsed > due;
+
+  return (
+    <div className="bg-white/5 border border-white/10 rounded-xl p-3">
+      <label className="flex items-center space-x-2 text-sm text-gray-300 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={checked}
+          onChange={e => onChange(e.target.checked)}
+          className="accent-[#c8a646]"
+        />
+        <span>Pagamento parcial ou a prazo</span>
+      </label>
+      {checked && (
+        <div className="mt-3 space-y-2">
+          <label className="block text-xs font-medium text-gray-400 uppercase tracking-wider">Recebido agora (R$)</label>
+          <input
+            type="text"
+            inputMode="decimal"
+            value={received}
+            onChange={e => onReceivedChange(e.target.value)}
+            className="w-full bg-[#0f0f0f] border border-white/10 rounded-xl px-4 py-3 text-white focus:outline-none focus:border-[#c8a646]"
+          />
+          <div className="text-xs text-gray-400">
+            {invalid
+              ? <span className="text-red-400">Informe um valor entre {formatCurrency(0)} e {formatCurrency(due)}.</span>
+              : <>Fica em aberto <span className="text-yellow-400 font-bold">{formatCurrency(due - parsed)}</span></>}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,28 @@
+import { PaymentMethod } from '../types';
+import { PAYMENT_METHOD_LABELS } from '../renewal';
+
+interface PaymentMethodSelectProps {
+  value: PaymentMethod;
+  onChange: (method: PaymentMethod) => void;
+}
+
+// How the customer paid, for the renewal forms (printed on the receipt)
+export function PaymentMethodSelect({ value, onChange }: PaymentMethodSelectProps) {
+  return (
+    <div>
+      <label className="block text-xs font-medium text-gray-400 uppercase tracking-wider mb-2">Forma de pagamento</label>
+      <div className="grid grid-cols-4 gap-2">
+        {(Object.keys(PAYMENT_METHOD_LABELS) as PaymentMethod[]).map(method => (
+          <button
+            key={method}
+            type="button"
+            onClick={() => onChange(method)}
+            className={`py-2 rounded-xl text-xs font-bold transition-colors ${value === method ? 'bg-[#c8a646] text-[#0f0f0f]' : 'bg-white/5 text-gray-400'}`}
+          >
+            {PAYMENT_METHOD_LABELS[method]}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,74 @@
+import { useState } from 'react';
+import { Customer, PaymentMethod } from '../types';
+import { DEFAULT_PAYMENT_METHOD } from '../renewal';
+import { PaymentMethodSelect } from './PaymentMethodSelect';
+
+interface PaymentModalProps {
+  customer: Customer;
+  balance: number; // What is still owed, on the renewal or on the whole account
+  onConfirm: (amount: number, method: PaymentMethod) => void;
+  onClose: () => void;
+}
+
+const formatCurrency = (val: number) => new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(val);
+
+// Records money received towards an outstanding balance
+export function PaymentModal({ customer, balance, onConfirm, onClose }: PaymentModalProps) {
+  const [amount, setAmount] = useState(balance.toString());
+  const [method, setMethod] = useState<PaymentMethod>(DEFAULT_PAYMENT_METHOD);
+
+  const parsed = parseFloat(amount.replace(',', '.'));
+  const isValid = !isNaN(parsed) && parsed > 0 && Math.round(parsed * 100) <= Math.round(balance * 100);
+
+  const handleConfirm = () => {
+    if (!isValid) return;
+    onConfirm(parsed, method);
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm">
+      <div className="bg-[#1a1a1a] rounded-3xl border border-white/10 p-6 w-full max-w-sm shadow-2xl">
+        <h3 className="text-xl font-bold text-white mb-2 uppercase tracking-widest">Receber Pagamento</h3>
+        <p className="text-sm text-gray-400 mb-6">
+          {customer.name} deve <span className="text-yellow-400 font-bold">{formatCurrency(balance)}</span>.
+        </p>
+
+        <div className="space-y-4">
+          <div>
+            <label className="block text-xs font-medium text-gray-400 uppercase tracking-wider mb-2">Valor recebido (R$)</label>
+            <input
+              type="text"
+              inputMode="decimal"
+              autoFocus
+              value={amount}
+              onChange={e => setAmount(e.target.value)}
+              className="w-full bg-[#0f0f0f] border border-white/10 rounded-xl px-4 py-3 text-white focus:outline-none focus:border-[#c8a646]"
+            />
+            {!isValid && amount.trim() !== '' && (
+              <p className="text-xs text-red-400 mt-2">Informe um valor até {formatCurrency(balance)}.</p>
+            )}
+          </div>
+
+          <PaymentMethodSelect value={method} onChange={setMethod} />
+
+          <div className="flex space-x-3 mt-8 pt-4">
+            <button
+              onClick={onClose}
+              className="flex-1 py-3 rounded-xl border border-white/10 text-white font-medium hover:bg-white/5 transition-colors"
+            >
+              Cancelar
+            </button>
+            <button
+              onClick={handleConfirm}
+              disabled={!isValid}
+              className="flex-1 py-3 rounded-xl bg-[#c8a646] text-[#0f0f0f] font-bold hover:bg-[#e8c666] transition-colors shadow-lg shadow-[#c8a646]/20 disabled:opacity-50"
+            >
+              Confirmar
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
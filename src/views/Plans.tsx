@@ -1,19 +1,32 @@
 import React, { useState } from 'react';
-import { Plan, ManualAddition } from '../types';
-import { Settings, Edit2, MessageSquare, PlusCircle, MinusCircle, DollarSign } from 'lucide-react';
+import { Plan, ManualAddition, Customer, Renewal } from '../types';
+import { Settings, Edit2, MessageSquare, PlusCircle, MinusCircle, DollarSign, Trash2, Archive, RotateCcw } from 'lucide-react';
+import { findReferences } from '../integrity';
+import { DeleteReferencedModal } from './DeleteReferencedModal';
+import { LifecycleSettings } from './LifecycleSettings';
+import { ReceiptSettings } from './ReceiptSettings';
+import { LifecycleThresholds } from '../lifecycle';
 
 interface PlansProps {
   plans: Plan[];
+  customers: Customer[];
+  renewals: Renewal[];
   updatePlan: (id: string, price: number) => void;
+  deletePlan: (id: string, reassignTo?: string) => boolean;
+  archivePlan: (id: string) => void;
+  unarchivePlan: (id: string) => void;
   whatsappMessage: string;
   setWhatsappMessage: (msg: string) => void;
   addManualAddition: (addition: Omit<ManualAddition, 'id'>) => void;
   manualAdditions: ManualAddition[];
+  lifecycleThresholds: LifecycleThresholds;
+  updateLifecycleThresholds: (thresholds: LifecycleThresholds) => void;
 }
 
-export function Plans({ plans, updatePlan, whatsappMessage, setWhatsappMessage, addManualAddition, manualAdditions }: PlansProps) {
+export function Plans({ plans, customers, renewals, updatePlan, deletePlan, archivePlan, unarchivePlan, whatsappMessage, setWhatsappMessage, addManualAddition, manualAdditions, lifecycleThresholds, updateLifecycleThresholds }: PlansProps) {
   const [editingPlan, setEditingPlan] = useState<Plan | null>(null);
   const [priceInput, setPriceInput] = useState('');
+  const [planToDelete, setPlanToDelete] = useState<Plan | null>(null);
   
   const [isEditingMessage, setIsEditingMessage] = useState(false);
   const [messageInput, setMessageInput] = useState('');
@@ -40,6 +53,24 @@ export function Plans({ plans, updatePlan, whatsappMessage, setWhatsappMessage,
     }
   };
 
+  const handleDeletePlan = (reassignTo?: string) => {
+    if (!planToDelete) return;
+    if (!deletePlan(planToDelete.id, reassignTo)) {
+      alert('Não foi possível excluir: escolha um plano para mover os clientes.');
+      return;
+    }
+    setPlanToDelete(null);
+  };
+
+  const handleArchivePlan = () => {
+    if (!planToDelete) return;
+    archivePlan(planToDelete.id);
+    setPlanToDelete(null);
+  };
+
+  const activePlans = plans.filter(p => !p.archivedAt);
+  const archivedPlans = plans.filter(p => p.archivedAt);
+
   const handleEditMessage = () => {
     setMessageInput(whatsappMessage);
     setIsEditingMessage(true);
@@ -82,7 +113,7 @@ export function Plans({ plans, updatePlan, whatsappMessage, setWhatsappMessage,
         </div>
 
         <div className="grid grid-cols-1 gap-4">
-          {plans.map(plan => (
+          {activePlans.map(plan => (
             <div key={plan.id} className="bg-[#1a1a1a] p-5 rounded-2xl border border-white/5 shadow-lg flex items-center justify-between">
               <div>
                 <h3 className="text-lg font-bold text-white mb-1">{plan.name}</h3>
@@ -99,12 +130,61 @@ export function Plans({ plans, updatePlan, whatsappMessage, setWhatsappMessage,
                 >
                   <Edit2 size={18} />
                 </button>
+                {plan.id !== 'gratuito' && (
+                  <button
+                    onClick={() => setPlanToDelete(plan)}
+                    className="p-2 bg-red-500/10 text-red-400 hover:text-red-300 rounded-full transition-colors"
+                  >
+                    <Trash2 size={18} />
+                  </button>
+                )}
               </div>
             </div>
           ))}
         </div>
+
+        {archivedPlans.length > 0 && (
+          <div className="pt-6">
+            <div className="flex items-center space-x-2 mb-3 text-gray-500">
+              <Archive size={16} />
+              <h3 className="text-xs font-bold uppercase tracking-widest">Arquivados</h3>
+            </div>
+            <div className="space-y-2">
+              {archivedPlans.map(plan => (
+                <div key={plan.id} className="bg-[#1a1a1a] rounded-2xl border border-white/5 p-4 flex items-center justify-between">
+                  <div className="min-w-0">
+                    <div className="text-sm font-bold text-gray-300 truncate">{plan.name}</div>
+                    <div className="text-[10px] text-gray-500 uppercase tracking-wider">
+                      {customers.filter(c => c.planId === plan.id).length} clientes • {renewals.filter(r => r.planId === plan.id).length} renovações
+                    </div>
+                  </div>
+                  <div className="flex space-x-2 shrink-0 ml-3">
+                    <button onClick={() => unarchivePlan(plan.id)} title="Reativar" className="p-2 text-blue-400 hover:text-blue-300 transition-colors bg-blue-500/10 rounded-full">
+                      <RotateCcw size={16} />
+                    </button>
+                    <button onClick={() => setPlanToDelete(plan)} title="Excluir" className="p-2 text-red-400 hover:text-red-300 transition-colors bg-red-500/10 rounded-full">
+                      <Trash2 size={16} />
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
       </section>
 
+      {planToDelete && (
+        <DeleteReferencedModal
+          kind="plan"
+          record={planToDelete}
+          references={findReferences({ customers, renewals }, 'plans', planToDelete.id)}
+          candidates={plans}
+          onDelete={handleDeletePlan}
+          onArchive={handleArchivePlan}
+          onClose={() => setPlanToDelete(null)}
+        />
+      )}
+
       {/* Add Money Section */}
       <section>
         <div className="flex items-center justify-between mb-6">
@@ -174,6 +254,10 @@ export function Plans({ plans, updatePlan, whatsappMessage, setWhatsappMessage,
         </div>
       </section>
 
+      <LifecycleSettings thresholds={lifecycleThresholds} onChange={updateLifecycleThresholds} />
+
+      <ReceiptSettings />
+
       {/* Edit Plan Modal */}
       {editingPlan && (
         <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm">
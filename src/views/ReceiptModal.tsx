@@ -0,0 +1,122 @@
+import { useState, useEffect, useMemo } from 'react';
+import { Share2, Image as ImageIcon, FileText, X } from 'lucide-react';
+import { Customer, Plan, Renewal, Server } from '../types';
+import {
+  ReceiptBranding, DEFAULT_BRANDING, getReceiptBranding, buildReceipt, drawReceipt, receiptPng, receiptPdf,
+  receiptFileName, receiptText, downloadBlob, canShareFiles
+} from '../receipts';
+import { whatsappUrl } from '../phone';
+
+interface ReceiptModalProps {
+  renewal: Renewal;
+  customer?: Customer;
+  servers: Server[];
+  plans: Plan[];
+  onClose: () => void;
+}
+
+export function ReceiptModal({ renewal, customer, servers, plans, onClose }: ReceiptModalProps) {
+  const [branding, setBranding] = useState<ReceiptBranding | null>(null);
+  const [canvas, setCanvas] = useState<HTMLCanvasElement | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+
+  const receipt = useMemo(
+    () => buildReceipt(renewal, customer, plans.find(p => p.id === renewal.planId), servers.find(s => s.id === renewal.serverId)),
+    [renewal, customer, plans, servers]
+  );
+
+  useEffect(() => {
+    getReceiptBranding().then(setBranding).catch(() => setBranding(DEFAULT_BRANDING));
+  }, []);
+
+  useEffect(() => {
+    if (!branding) return;
+    let cancelled = false;
+    drawReceipt(receipt, branding)
+      .then(drawn => { if (!cancelled) setCanvas(drawn); })
+      .catch(err => console.error('Erro ao gerar recibo:', err));
+    return () => { cancelled = true; };
+  }, [receipt, branding]);
+
+  const preview = useMemo(() => canvas?.toDataURL('image/png'), [canvas]);
+
+  const run = async (task: (canvas: HTMLCanvasElement, branding: ReceiptBranding) => Promise<void>) => {
+    if (!canvas || !branding) return;
+    setIsWorking(true);
+    try {
+      await task(canvas, branding);
+    } catch (err) {
+      // Closing the share sheet without picking an app is not an error
+      if (err instanceof DOMException && err.name === 'AbortError') return;
+      console.error('Erro ao gerar recibo:', err);
+      alert('Não foi possível gerar o recibo.');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  // Share sheet with the image where available; otherwise the image is saved
+  // and the text version goes out through WhatsApp.
+  const handleShare = () => run(async (drawn, brand) => {
+    const file = new File([await receiptPng(drawn)], receiptFileName(receipt, 'png'), { type: 'image/png' });
+    const text = receiptText(receipt, brand);
+    if (canShareFiles(file)) {
+      await navigator.share({ files: [file], title: `Recibo ${receipt.number}`, text });
+      return;
+    }
+    downloadBlob(file, file.name);
+    window.open(whatsappUrl(customer?.phone || '', text), '_blank');
+  });
+
+  const handlePng = () => run(async drawn => downloadBlob(await receiptPng(drawn), receiptFileName(receipt, 'png')));
+
+  const handlePdf = () => run(async drawn => downloadBlob(await receiptPdf(drawn), receiptFileName(receipt, 'pdf')));
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm overflow-y-auto">
+      <div className="bg-[#1a1a1a] rounded-3xl border border-white/10 p-6 w-full max-w-sm shadow-2xl my-8">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-xl font-bold text-white uppercase tracking-widest">Recibo</h3>
+          <button onClick={onClose} title="Fechar" className="p-2 text-gray-400 hover:text-white transition-colors">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="bg-[#0f0f0f] rounded-xl border border-white/5 overflow-hidden mb-6 min-h-40 flex items-center justify-center">
+          {preview ? (
+            <img src={preview} alt={`Recibo ${receipt.number}`} className="w-full" />
+          ) : (
+            <span className="text-xs text-gray-500">Gerando recibo...</span>
+          )}
+        </div>
+
+        <button
+          onClick={handleShare}
+          disabled={!canvas || isWorking}
+          className="w-full py-3 rounded-xl bg-[#c8a646] text-[#0f0f0f] font-bold hover:bg-[#e8c666] transition-colors shadow-lg shadow-[#c8a646]/20 flex items-center justify-center space-x-2 disabled:opacity-50"
+        >
+          <Share2 size={18} />
+          <span>Compartilhar</span>
+        </button>
+        <div className="grid grid-cols-2 gap-3 mt-3">
+          <button
+            onClick={handlePng}
+            disabled={!canvas || isWorking}
+            className="py-3 rounded-xl border border-white/10 text-white font-medium hover:bg-white/5 transition-colors flex items-center justify-center space-x-2 disabled:opacity-50"
+          >
+            <ImageIcon size={16} />
+            <span>Imagem</span>
+          </button>
+          <button
+            onClick={handlePdf}
+            disabled={!canvas || isWorking}
+            className="py-3 rounded-xl border border-white/10 text-white font-medium hover:bg-white/5 transition-colors flex items-center justify-center space-x-2 disabled:opacity-50"
+          >
+            <FileText size={16} />
+            <span>PDF</span>
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,97 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { FileText, Upload, Trash2 } from 'lucide-react';
+import { ReceiptBranding, DEFAULT_BRANDING, getReceiptBranding, setReceiptBranding, loadLogo } from '../receipts';
+
+// Business name, contact and logo printed on the renewal receipts (per device)
+export function ReceiptSettings() {
+  const [branding, setBranding] = useState<ReceiptBranding>(DEFAULT_BRANDING);
+  const [loaded, setLoaded] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    getReceiptBranding()
+      .then(setBranding)
+      .catch(err => console.error('Erro ao carregar dados do recibo:', err))
+      .finally(() => setLoaded(true));
+  }, []);
+
+  const save = (next: ReceiptBranding) => {
+    setBranding(next);
+    setReceiptBranding(next).catch(err => console.error('Erro ao salvar dados do recibo:', err));
+  };
+
+  const handleLogoChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      save({ ...branding, logo: await loadLogo(file) });
+    } catch {
+      alert('Não foi possível ler a imagem do logo.');
+    }
+  };
+
+  return (
+    <section>
+      <div className="flex items-center space-x-3 mb-6">
+        <FileText size={28} className="text-[#c8a646]" />
+        <h2 className="text-xl font-bold text-white uppercase tracking-widest">Recibos</h2>
+      </div>
+
+      <div className="bg-[#1a1a1a] p-5 rounded-2xl border border-white/5 shadow-lg space-y-4">
+        <p className="text-sm text-gray-400">Dados impressos nos recibos em PDF e imagem gerados a cada renovação.</p>
+        <div>
+          <label className="block text-xs font-medium text-gray-400 uppercase tracking-wider mb-2">Nome do negócio</label>
+          <input
+            type="text"
+            value={branding.businessName}
+            disabled={!loaded}
+            onChange={e => save({ ...branding, businessName: e.target.value })}
+            className="w-full bg-[#0f0f0f] border border-white/10 rounded-xl px-4 py-3 text-white focus:outline-none focus:border-[#c8a646]"
+          />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-400 uppercase tracking-wider mb-2">Contato (opcional)</label>
+          <input
+            type="text"
+            value={branding.contact || ''}
+            disabled={!loaded}
+            onChange={e => save({ ...branding, contact: e.target.value || undefined })}
+            placeholder="WhatsApp, Instagram..."
+            className="w-full bg-[#0f0f0f] border border-white/10 rounded-xl px-4 py-3 text-white focus:outline-none focus:border-[#c8a646]"
+          />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-400 uppercase tracking-wider mb-2">Logo</label>
+          <div className="flex items-center gap-3">
+            <div className="w-16 h-16 rounded-xl bg-[#0f0f0f] border border-white/10 flex items-center justify-center overflow-hidden shrink-0">
+              {branding.logo ? (
+                <img src={branding.logo} alt="Logo" className="max-w-full max-h-full" />
+              ) : (
+                <span className="text-[10px] text-gray-600">Sem logo</span>
+              )}
+            </div>
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              disabled={!loaded}
+              className="flex-1 py-3 rounded-xl border border-white/10 text-white font-medium hover:bg-white/5 transition-colors flex items-center justify-center space-x-2"
+            >
+              <Upload size={16} />
+              <span>{branding.logo ? 'Trocar' : 'Enviar'}</span>
+            </button>
+            {branding.logo && (
+              <button
+                onClick={() => save({ ...branding, logo: undefined })}
+                title="Remover logo"
+                className="p-3 rounded-xl border border-white/10 text-red-400 hover:bg-red-500/10 transition-colors"
+              >
+                <Trash2 size={16} />
+              </button>
+            )}
+          </div>
+          <input ref={fileInputRef} type="file" accept="image/*" onChange={handleLogoChange} className="hidden" />
+        </div>
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,97 @@
+import { useState, useMemo } from 'react';
+import { Gift, Trophy } from 'lucide-react';
+import { Customer } from '../types';
+import { ReferralReward, ReferralRewardKind, REWARD_KIND_LABELS, describeReward, referralLeaderboard } from '../referrals';
+
+interface ReferralsProps {
+  // Customers and trials, without the trash
+  customers: Customer[];
+  referralReward: ReferralReward;
+  updateReferralReward: (reward: ReferralReward) => void;
+  openCustomer: (id: string) => void;
+}
+
+const MEDAL_COLORS = ['text-[#c8a646]', 'text-gray-300', 'text-orange-400'];
+
+export function Referrals({ customers, referralReward, updateReferralReward, openCustomer }: ReferralsProps) {
+  const [amount, setAmount] = useState(referralReward.amount.toString());
+
+  const leaderboard = useMemo(() => referralLeaderboard(customers), [customers]);
+  const pending = customers.filter(c => c.referredBy && !c.referralRewardedAt).length;
+
+  const handleKindChange = (kind: ReferralRewardKind) => updateReferralReward({ ...referralReward, kind });
+
+  const handleAmountChange = (value: string) => {
+    setAmount(value);
+    const parsed = parseFloat(value.replace(',', '.'));
+    if (isNaN(parsed) || parsed < 0) return;
+    updateReferralReward({ ...referralReward, amount: parsed });
+  };
+
+  return (
+    <div className="pb-24 space-y-6">
+      <div className="flex items-center space-x-3 mb-6">
+        <Gift size={28} className="text-[#c8a646]" />
+        <h2 className="text-xl font-bold text-white uppercase tracking-widest">Indicações</h2>
+      </div>
+
+      <div className="bg-[#1a1a1a] p-4 rounded-2xl border border-white/5 space-y-4">
+        <p className="text-xs text-gray-400">
+          Quando um cliente indicado faz a primeira renovação paga, quem indicou ganha a recompensa automaticamente:
+          dias somados ao vencimento ou crédito para a próxima renovação.
+        </p>
+        <div className="grid grid-cols-2 gap-2">
+          {(Object.keys(REWARD_KIND_LABELS) as ReferralRewardKind[]).map(kind => (
+            <button
+              key={kind}
+              onClick={() => handleKindChange(kind)}
+              className={`py-2 rounded-xl text-sm font-bold transition-colors ${referralReward.kind === kind ? 'bg-[#c8a646] text-[#0f0f0f]' : 'bg-white/5 text-gray-400'}`}
+            >
+              {REWARD_KIND_LABELS[kind]}
+            </button>
+          ))}
+        </div>
+        <div className="flex items-center justify-between gap-4">
+          <span className="text-xs text-gray-400">{referralReward.kind === 'days' ? 'Dias por indicação' : 'Crédito por indicação (R$)'}</span>
+          <input
+            type="text"
+            inputMode="decimal"
+            value={amount}
+            onChange={e => handleAmountChange(e.target.value)}
+            className="w-24 bg-[#0f0f0f] border border-white/10 rounded-xl px-3 py-2 text-white text-center focus:outline-none focus:border-[#c8a646]"
+          />
+        </div>
+        <div className="text-xs text-gray-500">
+          Recompensa atual: <span className="text-white">{describeReward(referralReward)}</span> • {pending} {pending === 1 ? 'indicação aguardando' : 'indicações aguardando'} o primeiro pagamento
+        </div>
+      </div>
+
+      <div>
+        <h3 className="text-xs font-bold text-gray-400 uppercase tracking-wider mb-3">Ranking</h3>
+        {leaderboard.length === 0 ? (
+          <div className="text-center py-12 text-gray-500">
+            <Trophy size={48} className="mx-auto mb-4 opacity-20" />
+            <p>Nenhuma indicação registrada. Use o campo "Indicado por" no cadastro do cliente.</p>
+          </div>
+        ) : (
+          <div className="bg-[#1a1a1a] rounded-2xl border border-white/5 divide-y divide-white/5">
+            {leaderboard.map((row, index) => (
+              <div key={row.customer.id} className="p-4 flex items-center justify-between gap-3">
+                <div className="flex items-center space-x-3 min-w-0">
+                  <span className={`w-6 text-center font-bold shrink-0 ${MEDAL_COLORS[index] || 'text-gray-500'}`}>{index + 1}</span>
+                  <button onClick={() => openCustomer(row.customer.id)} className="text-left text-white font-medium truncate hover:text-[#c8a646] transition-colors">
+                    {row.customer.name}
+                  </button>
+                </div>
+                <div className="text-right shrink-0">
+                  <div className="text-sm font-bold text-white">{row.converted} {row.converted === 1 ? 'paga' : 'pagas'}</div>
+                  <div className="text-[10px] text-gray-500">{row.referred} {row.referred === 1 ? 'indicação' : 'indicações'}</div>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,29 @@
+import { useMemo } from 'react';
+import { Customer } from '../types';
+import { referrerOptions } from '../referrals';
+
+interface ReferrerSelectProps {
+  value: string;
+  onChange: (referrerId: string) => void;
+  customers: Customer[];
+  // The customer being edited, left out of the options along with everyone it referred
+  customerId?: string;
+}
+
+export function ReferrerSelect({ value, onChange, customers, customerId }: ReferrerSelectProps) {
+  const options = useMemo(
+    () => referrerOptions(customers, customerId).slice().sort((a, b) => a.name.localeCompare(b.name)),
+    [customers, customerId]
+  );
+
+  return (
+    <select
+      value={value}
+      onChange={e => onChange(e.target.value)}
+      className="w-full bg-[#0f0f0f] border border-white/10 rounded-xl px-4 py-3 text-white focus:outline-none focus:border-[#c8a646] appearance-none"
+    >
+      <option value="">Ninguém</option>
+      {options.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+    </select>
+  );
+}
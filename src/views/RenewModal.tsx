@@ -0,0 +1,126 @@
+import { useState } from 'react';
+import { Customer, Server, Plan, Renewal, PaymentMethod } from '../types';
+import { selectable } from '../integrity';
+import { RenewalInput, payWithCredit, DEFAULT_PAYMENT_METHOD } from '../renewal';
+import { CreditOption } from './CreditOption';
+import { PartialPaymentOption } from './PartialPaymentOption';
+import { PaymentMethodSelect } from './PaymentMethodSelect';
+
+interface RenewModalProps {
+  customer: Customer;
+  servers: Server[];
+  plans: Plan[];
+  renewCustomer: (customerId: string, input: RenewalInput) => Renewal | null;
+  onRenewed: (renewal: Renewal | null) => void;
+  onClose: () => void;
+}
+
+const parseAmount = (value: string) => parseFloat(value.replace(',', '.'));
+
+// Renewal form shared by the dashboard and the customer list: plan, price,
+// account credit, partial payment and payment method.
+export function RenewModal({ customer, servers, plans, renewCustomer, onRenewed, onClose }: RenewModalProps) {
+  const [serverId, setServerId] = useState(customer.serverId);
+  const [planId, setPlanId] = useState(customer.planId);
+  const [amountPaid, setAmountPaid] = useState(customer.amountPaid.toString());
+  const [useCredit, setUseCredit] = useState(!!customer.credit);
+  const [paymentMethod, setPaymentMethod] = useState<PaymentMethod>(DEFAULT_PAYMENT_METHOD);
+  const [partial, setPartial] = useState(false);
+  const [amountReceived, setAmountReceived] = useState('0');
+
+  const credit = customer.credit || 0;
+  const price = parseAmount(amountPaid);
+  const { amount, creditUsed } = payWithCredit(isNaN(price) ? 0 : price, useCredit ? credit : 0);
+  // Paid in part (or not at all yet): the rest stays as the customer's balance
+  const received = partial ? parseAmount(amountReceived) : amount;
+  const isValid = !isNaN(price) && price >= 0 && !isNaN(received) && received >= 0 && received <= amount;
+
+  const handlePlanChange = (id: string) => {
+    const plan = plans.find(p => p.id === id);
+    if (!plan) return;
+    setPlanId(id);
+    setAmountPaid(plan.defaultPrice.toString());
+  };
+
+  const confirm = () => {
+    if (!isValid) return;
+    onRenewed(renewCustomer(customer.id, { serverId, planId, paymentMethod, amount: received, amountDue: amount, creditUsed }));
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm">
+      <div className="bg-[#1a1a1a] rounded-3xl border border-white/10 p-6 w-full max-w-sm shadow-2xl">
+        <h3 className="text-xl font-bold text-white mb-6 uppercase tracking-widest">
+          Renovar Plano
+        </h3>
+
+        <div className="space-y-4">
+          <div>
+            <label className="block text-xs font-medium text-gray-400 uppercase tracking-wider mb-2">Servidor</label>
+            <select
+              value={serverId}
+              onChange={e => setServerId(e.target.value)}
+              className="w-full bg-[#0f0f0f] border border-white/10 rounded-xl px-4 py-3 text-white focus:outline-none focus:border-[#c8a646] appearance-none"
+            >
+              {selectable(servers, serverId).map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-xs font-medium text-gray-400 uppercase tracking-wider mb-2">Plano</label>
+            <select
+              value={planId}
+              onChange={e => handlePlanChange(e.target.value)}
+              className="w-full bg-[#0f0f0f] border border-white/10 rounded-xl px-4 py-3 text-white focus:outline-none focus:border-[#c8a646] appearance-none"
+            >
+              {selectable(plans, planId).map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-xs font-medium text-gray-400 uppercase tracking-wider mb-2">Valor (R$)</label>
+            <input
+              type="text"
+              value={amountPaid}
+              onChange={e => setAmountPaid(e.target.value)}
+              className="w-full bg-[#0f0f0f] border border-white/10 rounded-xl px-4 py-3 text-white focus:outline-none focus:border-[#c8a646]"
+            />
+            {(isNaN(price) || price < 0) && (
+              <p className="text-xs text-red-400 mt-2">Informe um valor válido.</p>
+            )}
+          </div>
+
+          {!!credit && (
+            <CreditOption credit={credit} price={amountPaid} checked={useCredit} onChange={setUseCredit} />
+          )}
+
+          <PartialPaymentOption
+            due={amount}
+            checked={partial}
+            received={amountReceived}
+            onChange={setPartial}
+            onReceivedChange={setAmountReceived}
+          />
+
+          <PaymentMethodSelect value={paymentMethod} onChange={setPaymentMethod} />
+
+          <div className="flex space-x-3 mt-8 pt-4">
+            <button
+              onClick={onClose}
+              className="flex-1 py-3 rounded-xl border border-white/10 text-white font-medium hover:bg-white/5 transition-colors"
+            >
+              Cancelar
+            </button>
+            <button
+              onClick={confirm}
+              disabled={!isValid}
+              className="flex-1 py-3 rounded-xl bg-[#c8a646] text-[#0f0f0f] font-bold hover:bg-[#e8c666] transition-colors shadow-lg shadow-[#c8a646]/20 disabled:opacity-50"
+            >
+              Confirmar
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,147 @@
+import { useState, useEffect } from 'react';
+import { ArchiveRestore, Plus, RotateCcw } from 'lucide-react';
+import { AppData } from '../types';
+import {
+  RestorePoint, RetentionPolicy, REASON_LABELS, DEFAULT_RETENTION,
+  listRestorePoints, createRestorePoint, getRestorePointData, getRetentionPolicy, setRetentionPolicy, pruneRestorePoints
+} from '../restorePoints';
+import { format } from 'date-fns';
+
+interface RestorePointsProps {
+  currentData: AppData;
+  importData: (data: AppData) => void;
+  refreshKey: number;
+}
+
+export function RestorePoints({ currentData, importData, refreshKey }: RestorePointsProps) {
+  const [points, setPoints] = useState<RestorePoint[]>([]);
+  const [policy, setPolicy] = useState<RetentionPolicy>(DEFAULT_RETENTION);
+  const [busy, setBusy] = useState(false);
+
+  const refresh = () => {
+    listRestorePoints()
+      .then(setPoints)
+      .catch(err => console.error('Erro ao listar pontos de restauração:', err));
+  };
+
+  useEffect(refresh, [refreshKey]);
+
+  useEffect(() => {
+    getRetentionPolicy().then(setPolicy).catch(() => undefined);
+  }, []);
+
+  const handleCreate = async () => {
+    setBusy(true);
+    try {
+      await createRestorePoint(currentData, 'manual');
+      refresh();
+    } catch (err) {
+      console.error('Erro ao criar ponto de restauração:', err);
+      alert('Não foi possível criar o ponto de restauração.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleRestore = async (point: RestorePoint) => {
+    const when = format(new Date(point.createdAt), "dd/MM/yyyy 'às' HH:mm");
+    if (!confirm(`Restaurar os dados de ${when}? O estado atual será salvo como um novo ponto antes.`)) return;
+    setBusy(true);
+    try {
+      const data = await getRestorePointData(point.id);
+      await createRestorePoint(currentData, 'restore');
+      importData(data);
+      refresh();
+      alert('Dados restaurados com sucesso!');
+    } catch (err) {
+      console.error('Erro ao restaurar:', err);
+      alert('Não foi possível restaurar este ponto.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handlePolicyChange = async (next: RetentionPolicy) => {
+    setPolicy(next);
+    if (next.daily < 1 || next.weekly < 0) return;
+    try {
+      await setRetentionPolicy(next);
+      await pruneRestorePoints();
+      refresh();
+    } catch (err) {
+      console.error('Erro ao salvar retenção:', err);
+    }
+  };
+
+  return (
+    <div className="bg-[#1a1a1a] p-6 rounded-3xl border border-white/5 shadow-lg">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center space-x-3">
+          <ArchiveRestore size={24} className="text-[#c8a646]" />
+          <h2 className="text-xl font-bold text-white uppercase tracking-widest">Restauração</h2>
+        </div>
+        <button
+          onClick={handleCreate}
+          disabled={busy}
+          title="Criar ponto agora"
+          className="bg-[#c8a646] text-[#0f0f0f] p-2 rounded-full hover:bg-[#e8c666] transition-colors shadow-lg shadow-[#c8a646]/20 disabled:opacity-50"
+        >
+          <Plus size={20} />
+        </button>
+      </div>
+
+      <p className="text-xs text-gray-400 mb-4">
+        Uma cópia completa é salva automaticamente todo dia e antes de importar ou limpar os dados.
+      </p>
+
+      <div className="grid grid-cols-2 gap-3 mb-6">
+        <div>
+          <label className="block text-[10px] font-medium text-gray-500 uppercase tracking-wider mb-2">Dias mantidos</label>
+          <input
+            type="number"
+            min={1}
+            value={policy.daily}
+            onChange={e => handlePolicyChange({ ...policy, daily: parseInt(e.target.value) || 0 })}
+            className="w-full bg-[#0f0f0f] border border-white/10 rounded-xl px-4 py-2 text-white focus:outline-none focus:border-[#c8a646]"
+          />
+        </div>
+        <div>
+          <label className="block text-[10px] font-medium text-gray-500 uppercase tracking-wider mb-2">Semanas mantidas</label>
+          <input
+            type="number"
+            min={0}
+            value={policy.weekly}
+            onChange={e => handlePolicyChange({ ...policy, weekly: parseInt(e.target.value) || 0 })}
+            className="w-full bg-[#0f0f0f] border border-white/10 rounded-xl px-4 py-2 text-white focus:outline-none focus:border-[#c8a646]"
+          />
+        </div>
+      </div>
+
+      {points.length === 0 ? (
+        <div className="text-center py-6 text-gray-500 text-sm">Nenhum ponto de restauração ainda.</div>
+      ) : (
+        <div className="space-y-2">
+          {points.map(point => (
+            <div key={point.id} className="bg-[#0f0f0f] p-3 rounded-2xl border border-white/5 flex items-center justify-between">
+              <div className="min-w-0">
+                <div className="text-sm font-bold text-white">{format(new Date(point.createdAt), 'dd/MM/yyyy HH:mm')}</div>
+                <div className="text-[10px] text-[#c8a646] uppercase tracking-wider">{REASON_LABELS[point.reason]}</div>
+                <div className="text-[10px] text-gray-500 mt-1">
+                  {point.counts.customers} clientes • {point.counts.renewals} renovações • {point.counts.servers} servidores • {point.counts.plans} planos
+                </div>
+              </div>
+              <button
+                onClick={() => handleRestore(point)}
+                disabled={busy}
+                title="Restaurar"
+                className="p-2 text-blue-400 hover:text-blue-300 transition-colors bg-blue-500/10 rounded-full shrink-0 ml-3 disabled:opacity-50"
+              >
+                <RotateCcw size={16} />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,50 @@
+import { Layers, X } from 'lucide-react';
+import { Segment } from '../segments';
+
+interface SegmentSidebarProps {
+  segments: Segment[];
+  counts: Record<string, number>;
+  totalCount: number;
+  activeId: string | null;
+  onSelect: (segment: Segment | null) => void;
+  onDelete: (id: string) => void;
+}
+
+// Saved segments with live counts: a column on wide screens, a chip row on phones.
+export function SegmentSidebar({ segments, counts, totalCount, activeId, onSelect, onDelete }: SegmentSidebarProps) {
+  const itemClass = (active: boolean) =>
+    `group flex items-center justify-between gap-2 shrink-0 md:shrink px-3 py-2 rounded-xl text-sm transition-colors cursor-pointer ${active ? 'bg-[#c8a646]/10 text-[#c8a646]' : 'bg-[#1a1a1a] md:bg-transparent text-gray-400 hover:text-white hover:bg-white/5'}`;
+
+  return (
+    <aside className="md:w-56 shrink-0">
+      <div className="hidden md:flex items-center space-x-2 text-[10px] font-bold text-gray-500 uppercase tracking-widest mb-3">
+        <Layers size={12} />
+        <span>Segmentos</span>
+      </div>
+      <div className="flex md:flex-col gap-2 md:gap-1 overflow-x-auto pb-1 md:pb-0">
+        <div onClick={() => onSelect(null)} className={itemClass(activeId === null)}>
+          <span className="truncate">Todos os clientes</span>
+          <span className="text-xs font-bold">{totalCount}</span>
+        </div>
+        {segments.map(segment => (
+          <div key={segment.id} onClick={() => onSelect(segment)} className={itemClass(activeId === segment.id)}>
+            <span className="truncate">{segment.name}</span>
+            <span className="flex items-center space-x-1">
+              <span className="text-xs font-bold">{counts[segment.id] ?? 0}</span>
+              <button
+                onClick={e => {
+                  e.stopPropagation();
+                  if (window.confirm(`Excluir o segmento "${segment.name}"?`)) onDelete(segment.id);
+                }}
+                title="Excluir segmento"
+                className="text-gray-600 hover:text-red-400 md:opacity-0 md:group-hover:opacity-100 transition-opacity"
+              >
+                <X size={12} />
+              </button>
+            </span>
+          </div>
+        ))}
+      </div>
+    </aside>
+  );
+}
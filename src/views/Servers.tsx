@@ -1,30 +1,27 @@
 import React, { useState } from 'react';
-import { Server, Customer, Plan } from '../types';
-import { Plus, Edit2, Trash2, Server as ServerIcon } from 'lucide-react';
-import { isAfter, differenceInDays } from 'date-fns';
+import { Server, Customer, Plan, Renewal } from '../types';
+import { Plus, Edit2, Trash2, Server as ServerIcon, Archive, RotateCcw } from 'lucide-react';
+import { findReferences } from '../integrity';
+import { DeleteReferencedModal } from './DeleteReferencedModal';
+import { Lifecycles, isActiveState } from '../lifecycle';
 
 interface ServersProps {
   servers: Server[];
   customers: Customer[];
   plans: Plan[];
+  renewals: Renewal[];
   addServer: (s: Omit<Server, 'id'>) => void;
   updateServer: (id: string, s: Partial<Server>) => void;
-  deleteServer: (id: string) => void;
+  deleteServer: (id: string, reassignTo?: string) => boolean;
+  archiveServer: (id: string) => void;
+  unarchiveServer: (id: string) => void;
+  lifecycles: Lifecycles;
 }
 
-// Utility to parse YYYY-MM-DD safely as local midnight
-const parseLocalDate = (dateStr: string | undefined | null) => {
-  if (!dateStr || typeof dateStr !== 'string') return new Date(NaN);
-  const parts = dateStr.split('T')[0].split('-');
-  if (parts.length !== 3) return new Date(dateStr);
-  const [y, m, d] = parts.map(Number);
-  if (isNaN(y) || isNaN(m) || isNaN(d)) return new Date(NaN);
-  return new Date(y, m - 1, d);
-};
-
-export function Servers({ servers, customers, plans, addServer, updateServer, deleteServer }: ServersProps) {
+export function Servers({ servers, customers, plans, renewals, addServer, updateServer, deleteServer, archiveServer, unarchiveServer, lifecycles }: ServersProps) {
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [editingServer, setEditingServer] = useState<Server | null>(null);
+  const [serverToDelete, setServerToDelete] = useState<Server | null>(null);
   const [formData, setFormData] = useState({ name: '', costPerActive: '' });
 
   const formatCurrency = (val: number) => new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(val);
@@ -59,8 +56,23 @@ export function Servers({ servers, customers, plans, addServer, updateServer, de
     setFormData({ name: '', costPerActive: '' });
   };
 
-  const today = new Date();
-  today.setHours(0, 0, 0, 0);
+  const handleDelete = (reassignTo?: string) => {
+    if (!serverToDelete) return;
+    if (!deleteServer(serverToDelete.id, reassignTo)) {
+      alert('Não foi possível excluir: escolha um servidor para mover os clientes.');
+      return;
+    }
+    setServerToDelete(null);
+  };
+
+  const handleArchive = () => {
+    if (!serverToDelete) return;
+    archiveServer(serverToDelete.id);
+    setServerToDelete(null);
+  };
+
+  const activeServers = servers.filter(s => !s.archivedAt);
+  const archivedServers = servers.filter(s => s.archivedAt);
 
   return (
     <div className="pb-24 space-y-4">
@@ -74,18 +86,17 @@ export function Servers({ servers, customers, plans, addServer, updateServer, de
         </button>
       </div>
 
-      {servers.length === 0 ? (
+      {activeServers.length === 0 ? (
         <div className="text-center py-12 text-gray-500">
           <ServerIcon size={48} className="mx-auto mb-4 opacity-20" />
           <p>Nenhum servidor cadastrado.</p>
         </div>
       ) : (
         <div className="space-y-4">
-          {servers.map(server => {
+          {activeServers.map(server => {
             const activeCustomers = customers.filter(c => {
-              if (c.serverId !== server.id) return false;
-              const dueDate = parseLocalDate(c.dueDate);
-              return isAfter(dueDate, today) || differenceInDays(dueDate, today) === 0;
+              const state = lifecycles.get(c.id);
+              return c.serverId === server.id && !!state && isActiveState(state);
             });
             const totalActive = activeCustomers.length;
             const totalGenerated = activeCustomers.reduce((acc, c) => acc + c.amountPaid, 0);
@@ -109,7 +120,7 @@ export function Servers({ servers, customers, plans, addServer, updateServer, de
                     <button onClick={() => openModal(server)} className="p-2 text-gray-400 hover:text-white transition-colors bg-white/5 rounded-full">
                       <Edit2 size={16} />
                     </button>
-                    <button onClick={() => deleteServer(server.id)} className="p-2 text-red-400 hover:text-red-300 transition-colors bg-red-500/10 rounded-full">
+                    <button onClick={() => setServerToDelete(server)} className="p-2 text-red-400 hover:text-red-300 transition-colors bg-red-500/10 rounded-full">
                       <Trash2 size={16} />
                     </button>
                   </div>
@@ -139,6 +150,47 @@ export function Servers({ servers, customers, plans, addServer, updateServer, de
         </div>
       )}
 
+      {archivedServers.length > 0 && (
+        <div className="pt-4">
+          <div className="flex items-center space-x-2 mb-3 text-gray-500">
+            <Archive size={16} />
+            <h3 className="text-xs font-bold uppercase tracking-widest">Arquivados</h3>
+          </div>
+          <div className="space-y-2">
+            {archivedServers.map(server => (
+              <div key={server.id} className="bg-[#1a1a1a] rounded-2xl border border-white/5 p-4 flex items-center justify-between">
+                <div className="min-w-0">
+                  <div className="text-sm font-bold text-gray-300 truncate">{server.name}</div>
+                  <div className="text-[10px] text-gray-500 uppercase tracking-wider">
+                    {customers.filter(c => c.serverId === server.id).length} clientes • {renewals.filter(r => r.serverId === server.id).length} renovações
+                  </div>
+                </div>
+                <div className="flex space-x-2 shrink-0 ml-3">
+                  <button onClick={() => unarchiveServer(server.id)} title="Reativar" className="p-2 text-blue-400 hover:text-blue-300 transition-colors bg-blue-500/10 rounded-full">
+                    <RotateCcw size={16} />
+                  </button>
+                  <button onClick={() => setServerToDelete(server)} title="Excluir" className="p-2 text-red-400 hover:text-red-300 transition-colors bg-red-500/10 rounded-full">
+                    <Trash2 size={16} />
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {serverToDelete && (
+        <DeleteReferencedModal
+          kind="server"
+          record={serverToDelete}
+          references={findReferences({ customers, renewals }, 'servers', serverToDelete.id)}
+          candidates={servers}
+          onDelete={handleDelete}
+          onArchive={handleArchive}
+          onClose={() => setServerToDelete(null)}
+        />
+      )}
+
       {/* Modal */}
       {isModalOpen && (
         <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm">
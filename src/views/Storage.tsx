@@ -1,7 +1,19 @@
 import { useState, useEffect, ChangeEvent, useMemo } from 'react';
-import { Database, Download, Upload, Trash2, HardDrive, Calendar as CalendarIcon, TrendingUp, TrendingDown, DollarSign } from 'lucide-react';
-import { Customer, Server, Plan, Renewal, ManualAddition } from '../types';
+import { Database, Download, Upload, Trash2, HardDrive, Calendar as CalendarIcon, TrendingUp, TrendingDown, DollarSign, History as HistoryIcon, Lock } from 'lucide-react';
+import { AppData, Customer, Server, Plan, Renewal, ManualAddition } from '../types';
 import { format, parseISO, isWithinInterval, startOfMonth, endOfMonth } from 'date-fns';
+import { clearDatabase, getStorageEstimate } from '../db';
+import { buildBackup, parseBackup, diffBackup, applyBackup, BackupFormatError, ParsedBackup, BackupDiff, ImportMode, ConflictChoice } from '../backup';
+import { BackupImport } from './BackupImport';
+import { RestorePoints } from './RestorePoints';
+import { SyncSettings } from './SyncSettings';
+import { LockSettings } from './LockSettings';
+import { createRestorePoint } from '../restorePoints';
+import { SyncConfig, SyncInfo } from '../sync';
+import { AppLock } from '../lock';
+import { PaletteIntent } from '../palette';
+import { encryptBackup, decryptBackup, isEncryptedBackup, EncryptedEnvelope, WrongPassphraseError } from '../crypto';
+import { receivedBetween } from '../debts';
 
 interface StorageProps {
   customers: Customer[];
@@ -9,50 +21,135 @@ interface StorageProps {
   plans: Plan[];
   renewals: Renewal[];
   manualAdditions: ManualAddition[];
-  bulkUpdateCustomers: (updater: (prev: Customer[]) => Customer[]) => void;
-  setServers: (servers: Server[]) => void;
-  setPlans: (plans: Plan[]) => void;
-  setRenewals: (renewals: Renewal[]) => void;
-  setManualAdditions: (additions: ManualAddition[]) => void;
+  whatsappMessage: string;
+  importData: (data: AppData) => void;
+  openHistory: () => void;
+  sync: {
+    config: SyncConfig;
+    info: SyncInfo;
+    configure: (config: SyncConfig) => Promise<void>;
+    syncNow: () => Promise<void>;
+  };
+  lock: AppLock;
+  intent: PaletteIntent | null;
+  onIntentHandled: () => void;
 }
 
-export function Storage({ customers, servers, plans, renewals, manualAdditions, bulkUpdateCustomers, setServers, setPlans, setRenewals, setManualAdditions }: StorageProps) {
-  const [storageSize, setStorageSize] = useState<string>('0 KB');
+export function Storage({ customers, servers, plans, renewals, manualAdditions, whatsappMessage, importData, openHistory, sync, lock, intent, onIntentHandled }: StorageProps) {
+  const [pendingImport, setPendingImport] = useState<{ parsed: ParsedBackup; diff: BackupDiff } | null>(null);
+  const [restorePointsKey, setRestorePointsKey] = useState(0);
+  const currentData: AppData = { customers, servers, plans, renewals, manualAdditions, whatsappMessage };
+
+  const [storageUsage, setStorageUsage] = useState<{ usage: number; quota: number } | null>(null);
 
   useEffect(() => {
-    const calculateSize = () => {
-      let total = 0;
-      for (const key in localStorage) {
-        if (localStorage.hasOwnProperty(key)) {
-          total += (localStorage[key].length + key.length) * 2;
-        }
-      }
-      setStorageSize((total / 1024).toFixed(2) + ' KB');
-    };
-    calculateSize();
-  }, [customers, servers, plans]);
-
-  const handleExportAll = () => {
-    const data = {
-      customers,
-      servers,
-      plans,
-      renewals,
-      manualAdditions,
-      version: '1.2',
-      exportDate: new Date().toISOString()
-    };
-    const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
+    // Writes are asynchronous, so the estimate can lag one change behind.
+    getStorageEstimate()
+      .then(setStorageUsage)
+      .catch(err => console.error('Erro ao calcular armazenamento:', err));
+  }, [customers, servers, plans, renewals, manualAdditions]);
+
+  const formatBytes = (bytes: number) => {
+    if (bytes < 1024 * 1024) return (bytes / 1024).toFixed(2) + ' KB';
+    if (bytes < 1024 * 1024 * 1024) return (bytes / (1024 * 1024)).toFixed(2) + ' MB';
+    return (bytes / (1024 * 1024 * 1024)).toFixed(2) + ' GB';
+  };
+
+  // Export options
+  const [isExportOpen, setIsExportOpen] = useState(false);
+  const [encryptExport, setEncryptExport] = useState(false);
+  const [exportPassphrase, setExportPassphrase] = useState('');
+  const [exportPassphraseConfirm, setExportPassphraseConfirm] = useState('');
+  const [isEncrypting, setIsEncrypting] = useState(false);
+
+  useEffect(() => {
+    if (intent?.kind !== 'exportBackup') return;
+    setIsExportOpen(true);
+    onIntentHandled();
+  }, [intent]);
+
+  // Encrypted file waiting for its passphrase
+  const [encryptedImport, setEncryptedImport] = useState<EncryptedEnvelope | null>(null);
+  const [importPassphrase, setImportPassphrase] = useState('');
+  const [importError, setImportError] = useState('');
+  const [isDecrypting, setIsDecrypting] = useState(false);
+
+  const downloadJson = (content: object, fileName: string) => {
+    const blob = new Blob([JSON.stringify(content, null, 2)], { type: 'application/json' });
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
     a.href = url;
-    a.download = `backup_arf_${new Date().getTime()}.json`;
+    a.download = fileName;
     document.body.appendChild(a);
     a.click();
     document.body.removeChild(a);
     URL.revokeObjectURL(url);
   };
 
+  const closeExport = () => {
+    setIsExportOpen(false);
+    setEncryptExport(false);
+    setExportPassphrase('');
+    setExportPassphraseConfirm('');
+  };
+
+  const handleExportAll = async () => {
+    const data = buildBackup(currentData);
+    if (!encryptExport) {
+      downloadJson(data, `backup_arf_${new Date().getTime()}.json`);
+      closeExport();
+      return;
+    }
+    if (exportPassphrase.length < 6) {
+      alert('A senha precisa ter pelo menos 6 caracteres.');
+      return;
+    }
+    if (exportPassphrase !== exportPassphraseConfirm) {
+      alert('As senhas não coincidem.');
+      return;
+    }
+    setIsEncrypting(true);
+    try {
+      downloadJson(await encryptBackup(data, exportPassphrase), `backup_arf_${new Date().getTime()}_protegido.json`);
+      closeExport();
+    } catch (err) {
+      console.error('Erro ao criptografar backup:', err);
+      alert('Não foi possível criptografar o backup neste navegador.');
+    } finally {
+      setIsEncrypting(false);
+    }
+  };
+
+  const previewImport = (json: unknown) => {
+    try {
+      const parsed = parseBackup(json);
+      setPendingImport({ parsed, diff: diffBackup(currentData, parsed) });
+    } catch (err) {
+      alert(err instanceof BackupFormatError ? err.message : 'Erro ao importar backup. Verifique o arquivo.');
+    }
+  };
+
+  const closeEncryptedImport = () => {
+    setEncryptedImport(null);
+    setImportPassphrase('');
+    setImportError('');
+  };
+
+  const handleDecryptImport = async () => {
+    if (!encryptedImport) return;
+    setIsDecrypting(true);
+    setImportError('');
+    try {
+      const json = await decryptBackup(encryptedImport, importPassphrase);
+      closeEncryptedImport();
+      previewImport(json);
+    } catch (err) {
+      setImportError(err instanceof WrongPassphraseError ? err.message : 'Não foi possível abrir o arquivo protegido.');
+    } finally {
+      setIsDecrypting(false);
+    }
+  };
+
   const handleImportAll = (e: ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file) return;
@@ -61,32 +158,48 @@ export function Storage({ customers, servers, plans, renewals, manualAdditions,
     reader.onload = (evt) => {
       try {
         const json = JSON.parse(evt.target?.result as string);
-        if (json.customers && Array.isArray(json.customers)) {
-          bulkUpdateCustomers(() => json.customers);
-        }
-        if (json.servers && Array.isArray(json.servers)) {
-          setServers(json.servers);
-        }
-        if (json.plans && Array.isArray(json.plans)) {
-          setPlans(json.plans);
+        if (isEncryptedBackup(json)) {
+          setEncryptedImport(json);
+        } else {
+          previewImport(json);
         }
-        if (json.renewals && Array.isArray(json.renewals)) {
-          setRenewals(json.renewals);
-        }
-        if (json.manualAdditions && Array.isArray(json.manualAdditions)) {
-          setManualAdditions(json.manualAdditions);
-        }
-        alert('Backup restaurado com sucesso!');
       } catch (err) {
         alert('Erro ao importar backup. Verifique o arquivo.');
       }
     };
     reader.readAsText(file);
+    // Allow picking the same file again after cancelling
+    e.target.value = '';
+  };
+
+  const confirmImport = async (mode: ImportMode, choices: Record<string, ConflictChoice>) => {
+    if (!pendingImport) return;
+    if (mode === 'replace' && !confirm('Os dados atuais das listas presentes no backup serão substituídos. Continuar?')) return;
+    try {
+      await createRestorePoint(currentData, 'import');
+      setRestorePointsKey(key => key + 1);
+    } catch (err) {
+      console.error('Erro ao criar ponto de restauração:', err);
+      if (!confirm('Não foi possível salvar um ponto de restauração. Importar mesmo assim?')) return;
+    }
+    importData(applyBackup(currentData, pendingImport.parsed, pendingImport.diff, mode, choices));
+    setPendingImport(null);
+    alert('Backup restaurado com sucesso!');
   };
 
-  const handleClearAll = () => {
-    if (confirm('TEM CERTEZA? Isso apagará TODOS os seus dados (Clientes, Servidores e Planos). Esta ação não pode ser desfeita.')) {
-      localStorage.clear();
+  const handleClearAll = async () => {
+    if (confirm('TEM CERTEZA? Isso apagará TODOS os seus dados (Clientes, Servidores e Planos). Um ponto de restauração será salvo antes.')) {
+      try {
+        await createRestorePoint(currentData, 'clearAll');
+      } catch (err) {
+        console.error('Erro ao criar ponto de restauração:', err);
+        if (!confirm('Não foi possível salvar um ponto de restauração. Apagar mesmo assim?')) return;
+      }
+      try {
+        await clearDatabase();
+      } catch (err) {
+        console.error('Erro ao apagar dados:', err);
+      }
       window.location.reload();
     }
   };
@@ -110,7 +223,8 @@ export function Storage({ customers, servers, plans, renewals, manualAdditions,
       return isWithinInterval(aDate, { start, end });
     });
 
-    const gross = monthRenewals.reduce((acc, r) => acc + r.amount, 0) +
+    // Partial payments count in the month they were received, not in the renewal's
+    const gross = receivedBetween(renewals, start, end) +
       monthAdditions.filter(a => a.amount > 0).reduce((acc, a) => acc + a.amount, 0);
 
     const cost = monthRenewals.reduce((acc, r) => acc + (r.cost || 0), 0) +
@@ -201,7 +315,20 @@ export function Storage({ customers, servers, plans, renewals, manualAdditions,
         <div className="grid grid-cols-2 gap-4 mb-6">
           <div className="bg-[#0f0f0f] p-4 rounded-2xl border border-white/5">
             <div className="text-[10px] uppercase tracking-wider text-gray-500 mb-1">Espaço Usado</div>
-            <div className="text-lg font-bold text-white">{storageSize}</div>
+            <div className="text-lg font-bold text-white">{storageUsage ? formatBytes(storageUsage.usage) : '—'}</div>
+            {storageUsage && storageUsage.quota > 0 && (
+              <>
+                <div className="text-[10px] text-gray-500 mt-1">
+                  de {formatBytes(storageUsage.quota)} ({((storageUsage.usage / storageUsage.quota) * 100).toFixed(1)}%)
+                </div>
+                <div className="h-1 bg-white/5 rounded-full mt-2 overflow-hidden">
+                  <div
+                    className="h-full bg-[#c8a646]"
+                    style={{ width: `${Math.min(100, Math.max(1, (storageUsage.usage / storageUsage.quota) * 100))}%` }}
+                  />
+                </div>
+              </>
+            )}
           </div>
           <div className="bg-[#0f0f0f] p-4 rounded-2xl border border-white/5">
             <div className="text-[10px] uppercase tracking-wider text-gray-500 mb-1">Total Registros</div>
@@ -211,7 +338,7 @@ export function Storage({ customers, servers, plans, renewals, manualAdditions,
 
         <div className="space-y-3">
           <button
-            onClick={handleExportAll}
+            onClick={() => setIsExportOpen(true)}
             className="w-full flex items-center justify-between p-4 bg-white/5 border border-white/10 rounded-2xl hover:bg-white/10 transition-colors group"
           >
             <div className="flex items-center space-x-3">
@@ -234,6 +361,19 @@ export function Storage({ customers, servers, plans, renewals, manualAdditions,
             <input type="file" accept=".json" onChange={handleImportAll} className="hidden" />
           </label>
 
+          <button
+            onClick={openHistory}
+            className="w-full flex items-center justify-between p-4 bg-white/5 border border-white/10 rounded-2xl hover:bg-white/10 transition-colors group"
+          >
+            <div className="flex items-center space-x-3">
+              <HistoryIcon size={20} className="text-green-400" />
+              <div className="text-left">
+                <div className="text-sm font-bold text-white">Histórico de alterações</div>
+                <div className="text-[10px] text-gray-500 uppercase tracking-wider">Ver, filtrar e desfazer mudanças</div>
+              </div>
+            </div>
+          </button>
+
           <button
             onClick={() => setShowRawData(!showRawData)}
             className="w-full flex items-center justify-between p-4 bg-white/5 border border-white/10 rounded-2xl hover:bg-white/10 transition-colors group"
@@ -255,13 +395,129 @@ export function Storage({ customers, servers, plans, renewals, manualAdditions,
               <Trash2 size={20} className="text-red-500" />
               <div className="text-left">
                 <div className="text-sm font-bold text-red-500">Limpar Tudo</div>
-                <div className="text-[10px] text-red-500/70 uppercase tracking-wider">Apagar permanentemente</div>
+                <div className="text-[10px] text-red-500/70 uppercase tracking-wider">Apagar todos os dados</div>
               </div>
             </div>
           </button>
         </div>
       </div>
 
+      <RestorePoints currentData={currentData} importData={importData} refreshKey={restorePointsKey} />
+
+      <SyncSettings config={sync.config} info={sync.info} configure={sync.configure} syncNow={sync.syncNow} />
+
+      <LockSettings lock={lock} />
+
+      {/* Export Modal */}
+      {isExportOpen && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm">
+          <div className="bg-[#1a1a1a] rounded-3xl border border-white/10 p-6 w-full max-w-sm shadow-2xl">
+            <h3 className="text-xl font-bold text-white mb-2 uppercase tracking-widest">Exportar Backup</h3>
+            <p className="text-gray-400 text-sm mb-6">O arquivo contém nomes e telefones de todos os clientes.</p>
+
+            <label className="flex items-center space-x-3 p-3 bg-[#0f0f0f] rounded-xl border border-white/10 cursor-pointer mb-4">
+              <input
+                type="checkbox"
+                checked={encryptExport}
+                onChange={e => setEncryptExport(e.target.checked)}
+                className="accent-[#c8a646]"
+              />
+              <Lock size={16} className="text-[#c8a646]" />
+              <span className="text-sm text-white">Proteger com senha</span>
+            </label>
+
+            {encryptExport && (
+              <div className="space-y-4">
+                <div>
+                  <label className="block text-xs font-medium text-gray-400 uppercase tracking-wider mb-2">Senha</label>
+                  <input
+                    type="password"
+                    value={exportPassphrase}
+                    onChange={e => setExportPassphrase(e.target.value)}
+                    className="w-full bg-[#0f0f0f] border border-white/10 rounded-xl px-4 py-3 text-white focus:outline-none focus:border-[#c8a646]"
+                    autoFocus
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-gray-400 uppercase tracking-wider mb-2">Confirmar Senha</label>
+                  <input
+                    type="password"
+                    value={exportPassphraseConfirm}
+                    onChange={e => setExportPassphraseConfirm(e.target.value)}
+                    className="w-full bg-[#0f0f0f] border border-white/10 rounded-xl px-4 py-3 text-white focus:outline-none focus:border-[#c8a646]"
+                  />
+                </div>
+                <p className="text-[10px] text-yellow-500/80">Sem a senha não é possível recuperar o backup. Guarde-a em local seguro.</p>
+              </div>
+            )}
+
+            <div className="flex space-x-3 mt-8">
+              <button
+                onClick={closeExport}
+                className="flex-1 py-3 rounded-xl border border-white/10 text-white font-medium hover:bg-white/5 transition-colors"
+              >
+                Cancelar
+              </button>
+              <button
+                onClick={handleExportAll}
+                disabled={isEncrypting}
+                className="flex-1 py-3 rounded-xl bg-[#c8a646] text-[#0f0f0f] font-bold hover:bg-[#e8c666] transition-colors shadow-lg shadow-[#c8a646]/20 disabled:opacity-50"
+              >
+                {isEncrypting ? 'Criptografando...' : 'Exportar'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Encrypted Import Modal */}
+      {encryptedImport && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm">
+          <div className="bg-[#1a1a1a] rounded-3xl border border-white/10 p-6 w-full max-w-sm shadow-2xl">
+            <h3 className="text-xl font-bold text-white mb-2 uppercase tracking-widest">Backup Protegido</h3>
+            <p className="text-gray-400 text-sm mb-6">Digite a senha usada ao exportar este arquivo.</p>
+            <form
+              onSubmit={e => { e.preventDefault(); handleDecryptImport(); }}
+              className="space-y-4"
+            >
+              <input
+                type="password"
+                value={importPassphrase}
+                onChange={e => setImportPassphrase(e.target.value)}
+                className={`w-full bg-[#0f0f0f] border rounded-xl px-4 py-3 text-white focus:outline-none focus:border-[#c8a646] ${importError ? 'border-red-500/50' : 'border-white/10'}`}
+                autoFocus
+              />
+              {importError && <p className="text-xs text-red-400">{importError}</p>}
+              <div className="flex space-x-3 mt-8">
+                <button
+                  type="button"
+                  onClick={closeEncryptedImport}
+                  className="flex-1 py-3 rounded-xl border border-white/10 text-white font-medium hover:bg-white/5 transition-colors"
+                >
+                  Cancelar
+                </button>
+                <button
+                  type="submit"
+                  disabled={isDecrypting || !importPassphrase}
+                  className="flex-1 py-3 rounded-xl bg-[#c8a646] text-[#0f0f0f] font-bold hover:bg-[#e8c666] transition-colors shadow-lg shadow-[#c8a646]/20 disabled:opacity-50"
+                >
+                  {isDecrypting ? 'Abrindo...' : 'Abrir'}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+
+      {pendingImport && (
+        <BackupImport
+          parsed={pendingImport.parsed}
+          diff={pendingImport.diff}
+          onCancel={() => setPendingImport(null)}
+          onConfirm={confirmImport}
+        />
+      )}
+
       {showRawData && (
         <div className="bg-[#0f0f0f] p-4 rounded-2xl border border-white/10 overflow-x-auto">
           <pre className="text-[10px] text-gray-400 font-mono">
@@ -297,8 +553,8 @@ export function Storage({ customers, servers, plans, renewals, manualAdditions,
             <span className="text-white font-mono">{manualAdditions.length}</span>
           </div>
           <div className="pt-4 border-t border-white/5 text-[10px] text-gray-600 leading-relaxed">
-            Os dados são armazenados localmente no seu navegador (LocalStorage).
-            Recomendamos exportar um backup regularmente para evitar perda de dados se o cache do navegador for limpo.
+            Os dados são armazenados localmente no seu navegador (IndexedDB).
+            Os pontos de restauração ficam no mesmo navegador: exporte um backup regularmente para não perder dados se o cache do navegador for limpo.
           </div>
         </div>
       </div>
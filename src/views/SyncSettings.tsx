@@ -0,0 +1,131 @@
+import { useState, useEffect } from 'react';
+import { Cloud, CloudOff, RefreshCw } from 'lucide-react';
+import { SyncConfig, SyncInfo, STATUS_LABELS } from '../sync';
+import { format } from 'date-fns';
+
+interface SyncSettingsProps {
+  config: SyncConfig;
+  info: SyncInfo;
+  configure: (config: SyncConfig) => Promise<void>;
+  syncNow: () => Promise<void>;
+}
+
+const STATUS_COLORS: Record<SyncInfo['status'], string> = {
+  disabled: 'text-gray-500 bg-white/5',
+  idle: 'text-green-400 bg-green-500/10',
+  syncing: 'text-blue-400 bg-blue-500/10',
+  offline: 'text-yellow-400 bg-yellow-500/10',
+  error: 'text-red-400 bg-red-500/10'
+};
+
+export function SyncSettings({ config, info, configure, syncNow }: SyncSettingsProps) {
+  const [serverUrl, setServerUrl] = useState(config.serverUrl);
+  const [token, setToken] = useState(config.token);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    setServerUrl(config.serverUrl);
+    setToken(config.token);
+  }, [config.serverUrl, config.token]);
+
+  const save = async (enabled: boolean) => {
+    const url = serverUrl.trim();
+    if (enabled && !/^https?:\/\//.test(url)) {
+      alert('Informe o endereço do servidor, começando com http:// ou https://');
+      return;
+    }
+    setSaving(true);
+    try {
+      await configure({ enabled, serverUrl: url, token: token.trim() });
+    } catch (err) {
+      console.error('Erro ao salvar sincronização:', err);
+      alert('Não foi possível salvar a configuração de sincronização.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const dirty = serverUrl.trim() !== config.serverUrl || token.trim() !== config.token;
+
+  return (
+    <div className="bg-[#1a1a1a] p-6 rounded-3xl border border-white/5 shadow-lg">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center space-x-3">
+          {config.enabled ? <Cloud size={24} className="text-[#c8a646]" /> : <CloudOff size={24} className="text-[#c8a646]" />}
+          <h2 className="text-xl font-bold text-white uppercase tracking-widest">Sincronização</h2>
+        </div>
+        <span className={`text-[10px] font-bold uppercase tracking-wider px-3 py-1 rounded-full ${STATUS_COLORS[info.status]}`}>
+          {STATUS_LABELS[info.status]}
+        </span>
+      </div>
+
+      <p className="text-xs text-gray-400 mb-4">
+        Opcional. Com um servidor próprio, os dados ficam iguais em todos os aparelhos. O app continua funcionando sem internet e envia as alterações quando a conexão voltar.
+      </p>
+
+      <div className="space-y-3 mb-4">
+        <div>
+          <label className="block text-[10px] font-medium text-gray-500 uppercase tracking-wider mb-2">Endereço do servidor</label>
+          <input
+            type="url"
+            placeholder="https://meuservidor.com:8787"
+            value={serverUrl}
+            onChange={e => setServerUrl(e.target.value)}
+            className="w-full bg-[#0f0f0f] border border-white/10 rounded-xl px-4 py-2 text-white focus:outline-none focus:border-[#c8a646]"
+          />
+        </div>
+        <div>
+          <label className="block text-[10px] font-medium text-gray-500 uppercase tracking-wider mb-2">Token de acesso</label>
+          <input
+            type="password"
+            placeholder="Opcional"
+            value={token}
+            onChange={e => setToken(e.target.value)}
+            className="w-full bg-[#0f0f0f] border border-white/10 rounded-xl px-4 py-2 text-white focus:outline-none focus:border-[#c8a646]"
+          />
+        </div>
+      </div>
+
+      {config.enabled && (
+        <div className="bg-[#0f0f0f] p-3 rounded-2xl border border-white/5 mb-4 text-xs text-gray-400 space-y-1">
+          <div>
+            Última sincronização:{' '}
+            <span className="text-white">{info.lastSyncAt ? format(new Date(info.lastSyncAt), 'dd/MM/yyyy HH:mm') : 'nunca'}</span>
+          </div>
+          <div>Alterações pendentes: <span className="text-white">{info.pending}</span></div>
+          {info.error && <div className="text-red-400">{info.error}</div>}
+        </div>
+      )}
+
+      <div className="flex gap-3">
+        {config.enabled ? (
+          <>
+            <button
+              onClick={() => dirty ? save(true) : syncNow()}
+              disabled={saving || info.status === 'syncing'}
+              className="flex-1 flex items-center justify-center space-x-2 bg-[#c8a646] text-[#0f0f0f] font-bold py-3 rounded-xl hover:bg-[#e8c666] transition-colors disabled:opacity-50"
+            >
+              <RefreshCw size={16} className={info.status === 'syncing' ? 'animate-spin' : ''} />
+              <span>{dirty ? 'Salvar' : 'Sincronizar agora'}</span>
+            </button>
+            <button
+              onClick={() => save(false)}
+              disabled={saving}
+              className="flex-1 bg-white/5 text-white font-bold py-3 rounded-xl hover:bg-white/10 transition-colors disabled:opacity-50"
+            >
+              Desativar
+            </button>
+          </>
+        ) : (
+          <button
+            onClick={() => save(true)}
+            disabled={saving}
+            className="flex-1 bg-[#c8a646] text-[#0f0f0f] font-bold py-3 rounded-xl hover:bg-[#e8c666] transition-colors disabled:opacity-50"
+          >
+            Ativar sincronização
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,68 @@
+import React, { useState } from 'react';
+import { X } from 'lucide-react';
+import { normalizeTag } from '../segments';
+
+interface TagInputProps {
+  tags: string[];
+  suggestions: string[];
+  onChange: (tags: string[]) => void;
+}
+
+export function TagInput({ tags, suggestions, onChange }: TagInputProps) {
+  const [draft, setDraft] = useState('');
+
+  const add = (value: string) => {
+    const tag = normalizeTag(value);
+    if (tag && !tags.includes(tag)) onChange([...tags, tag]);
+    setDraft('');
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter' || e.key === ',') {
+      e.preventDefault();
+      add(draft);
+    } else if (e.key === 'Backspace' && !draft && tags.length > 0) {
+      onChange(tags.slice(0, -1));
+    }
+  };
+
+  const available = suggestions.filter(s => !tags.includes(s));
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-center gap-2 w-full bg-[#0f0f0f] border border-white/10 rounded-xl px-3 py-2 focus-within:border-[#c8a646] transition-colors">
+        {tags.map(tag => (
+          <span key={tag} className="flex items-center space-x-1 bg-[#c8a646]/10 text-[#c8a646] text-xs px-2 py-1 rounded-lg">
+            <span>{tag}</span>
+            <button type="button" onClick={() => onChange(tags.filter(t => t !== tag))} title="Remover" className="hover:text-white">
+              <X size={12} />
+            </button>
+          </span>
+        ))}
+        <input
+          type="text"
+          value={draft}
+          onChange={e => setDraft(e.target.value)}
+          onKeyDown={handleKeyDown}
+          onBlur={() => draft && add(draft)}
+          placeholder={tags.length === 0 ? 'Adicionar etiqueta...' : ''}
+          className="flex-1 min-w-24 bg-transparent py-1 text-white text-sm focus:outline-none"
+        />
+      </div>
+      {available.length > 0 && (
+        <div className="flex flex-wrap gap-1.5 mt-2">
+          {available.slice(0, 8).map(tag => (
+            <button
+              key={tag}
+              type="button"
+              onClick={() => add(tag)}
+              className="text-[10px] text-gray-400 bg-white/5 hover:bg-white/10 hover:text-white px-2 py-1 rounded-lg transition-colors"
+            >
+              + {tag}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,144 @@
+import { useState, useEffect } from 'react';
+import { Trash2, RotateCcw } from 'lucide-react';
+import { Customer, Server, Plan, Renewal } from '../types';
+import { DEFAULT_TRASH_RETENTION_DAYS, getTrashRetentionDays, setTrashRetentionDays, daysUntilPurge } from '../trash';
+import { format } from 'date-fns';
+
+interface TrashProps {
+  trashedCustomers: Customer[];
+  servers: Server[];
+  plans: Plan[];
+  renewals: Renewal[];
+  restoreCustomer: (id: string) => void;
+  purgeCustomers: (ids: string[]) => void;
+}
+
+export function Trash({ trashedCustomers, servers, plans, renewals, restoreCustomer, purgeCustomers }: TrashProps) {
+  const [retentionDays, setRetentionDays] = useState(DEFAULT_TRASH_RETENTION_DAYS);
+  const [pendingPurge, setPendingPurge] = useState<Customer[] | null>(null);
+
+  useEffect(() => {
+    getTrashRetentionDays().then(setRetentionDays).catch(() => undefined);
+  }, []);
+
+  const handleRetentionChange = (days: number) => {
+    setRetentionDays(days);
+    if (days < 1) return;
+    setTrashRetentionDays(days).catch(err => console.error('Erro ao salvar retenção da lixeira:', err));
+  };
+
+  const sorted = trashedCustomers.slice().sort((a, b) => b.deletedAt!.localeCompare(a.deletedAt!));
+
+  const confirmPurge = () => {
+    if (!pendingPurge) return;
+    purgeCustomers(pendingPurge.map(c => c.id));
+    setPendingPurge(null);
+  };
+
+  return (
+    <div className="pb-24 space-y-6">
+      <div className="flex items-center justify-between mb-6">
+        <div className="flex items-center space-x-3">
+          <Trash2 size={28} className="text-[#c8a646]" />
+          <h2 className="text-xl font-bold text-white uppercase tracking-widest">Lixeira</h2>
+        </div>
+        {sorted.length > 0 && (
+          <button
+            onClick={() => setPendingPurge(sorted)}
+            className="text-xs font-bold uppercase tracking-wider text-red-400 bg-red-500/10 px-3 py-2 rounded-xl hover:bg-red-500/20 transition-colors"
+          >
+            Esvaziar
+          </button>
+        )}
+      </div>
+
+      <div className="bg-[#1a1a1a] p-4 rounded-2xl border border-white/5 flex items-center justify-between gap-4">
+        <p className="text-xs text-gray-400">Clientes na lixeira são excluídos definitivamente depois de</p>
+        <div className="flex items-center space-x-2 shrink-0">
+          <input
+            type="number"
+            min={1}
+            value={retentionDays}
+            onChange={e => handleRetentionChange(parseInt(e.target.value) || 0)}
+            className="w-20 bg-[#0f0f0f] border border-white/10 rounded-xl px-3 py-2 text-white text-center focus:outline-none focus:border-[#c8a646]"
+          />
+          <span className="text-xs text-gray-400">dias</span>
+        </div>
+      </div>
+
+      {sorted.length === 0 ? (
+        <div className="text-center py-12 text-gray-500">
+          <Trash2 size={48} className="mx-auto mb-4 opacity-20" />
+          <p>A lixeira está vazia.</p>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {sorted.map(customer => {
+            const server = servers.find(s => s.id === customer.serverId);
+            const plan = plans.find(p => p.id === customer.planId);
+            const renewalCount = renewals.filter(r => r.customerId === customer.id).length;
+            const remaining = Math.max(0, daysUntilPurge(customer, retentionDays));
+
+            return (
+              <div key={customer.id} className="bg-[#1a1a1a] p-4 rounded-2xl border border-white/5 flex items-center justify-between">
+                <div className="min-w-0">
+                  <div className="text-sm font-bold text-white truncate">{customer.name}</div>
+                  <div className="text-[10px] text-[#c8a646] uppercase tracking-wider mt-1">
+                    {server?.name || 'Sem servidor'} • {plan?.name || 'Sem plano'} • {renewalCount} renovações
+                  </div>
+                  <div className="text-[10px] text-gray-500 mt-1">
+                    Excluído em {format(new Date(customer.deletedAt!), 'dd/MM/yyyy HH:mm')} • some em {remaining} {remaining === 1 ? 'dia' : 'dias'}
+                  </div>
+                </div>
+                <div className="flex space-x-2 shrink-0 ml-3">
+                  <button
+                    onClick={() => restoreCustomer(customer.id)}
+                    title="Restaurar"
+                    className="p-2 text-blue-400 hover:text-blue-300 transition-colors bg-blue-500/10 rounded-full"
+                  >
+                    <RotateCcw size={16} />
+                  </button>
+                  <button
+                    onClick={() => setPendingPurge([customer])}
+                    title="Excluir definitivamente"
+                    className="p-2 text-red-400 hover:text-red-300 transition-colors bg-red-500/10 rounded-full"
+                  >
+                    <Trash2 size={16} />
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {pendingPurge && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm">
+          <div className="bg-[#1a1a1a] rounded-3xl border border-white/10 p-6 w-full max-w-sm shadow-2xl">
+            <h3 className="text-xl font-bold text-white mb-2 uppercase tracking-widest">Excluir Definitivamente</h3>
+            <p className="text-gray-400 text-sm mb-6">
+              {pendingPurge.length === 1
+                ? <>Excluir <span className="text-white font-bold">{pendingPurge[0].name}</span> para sempre?</>
+                : <>Excluir os {pendingPurge.length} clientes da lixeira para sempre?</>}
+              {' '}As renovações continuam contando no faturamento.
+            </p>
+            <div className="flex space-x-3">
+              <button
+                onClick={() => setPendingPurge(null)}
+                className="flex-1 py-3 rounded-xl border border-white/10 text-white font-medium hover:bg-white/5 transition-colors"
+              >
+                Cancelar
+              </button>
+              <button
+                onClick={confirmPurge}
+                className="flex-1 py-3 rounded-xl bg-red-500 text-white font-bold hover:bg-red-600 transition-colors shadow-lg shadow-red-500/20"
+              >
+                Excluir
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
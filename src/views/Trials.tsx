@@ -0,0 +1,452 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Hourglass, Plus, Phone, UserCheck, Trash2, KeyRound } from 'lucide-react';
+import { Customer, Server, Plan } from '../types';
+import { selectable } from '../integrity';
+import { RenewalInput } from '../renewal';
+import { formatPhone, parsePhone, whatsappUrl } from '../phone';
+import {
+  TrialUnit, TRIAL_UNIT_LABELS, TRIAL_PRESETS, TRIAL_PLAN_ID, DEFAULT_TRIAL_LENGTH, ConversionPeriod, CONVERSION_PERIOD_LABELS,
+  trialFields, trialEndOf, trialStatus, formatCountdown, conversionByServer, conversionByMonth
+} from '../trials';
+import { CopyButton } from './CopyButton';
+import { ReferrerSelect } from './ReferrerSelect';
+import { format } from 'date-fns';
+
+interface TrialsProps {
+  trials: Customer[];
+  // Every customer ever created, for the conversion report
+  allCustomers: Customer[];
+  // Paying customers, who can be picked as the referrer
+  customers: Customer[];
+  servers: Server[];
+  plans: Plan[];
+  startTrial: (c: Omit<Customer, 'id'>) => void;
+  convertTrial: (customerId: string, input: RenewalInput) => void;
+  deleteCustomer: (id: string) => void;
+  openCustomer: (id: string) => void;
+}
+
+// Countdowns are refreshed this often
+const TICK_MS = 30 * 1000;
+
+const emptyForm = (servers: Server[]) => ({
+  name: '',
+  phone: '',
+  serverId: selectable(servers)[0]?.id || '',
+  amount: DEFAULT_TRIAL_LENGTH.amount.toString(),
+  unit: DEFAULT_TRIAL_LENGTH.unit,
+  username: '',
+  password: '',
+  referredBy: ''
+});
+
+const formatRate = (rate: number | null) => rate === null ? '—' : `${Math.round(rate * 100)}%`;
+
+export function Trials({ trials, allCustomers, customers, servers, plans, startTrial, convertTrial, deleteCustomer, openCustomer }: TrialsProps) {
+  const [now, setNow] = useState(new Date());
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [formData, setFormData] = useState(() => emptyForm(servers));
+  const [converting, setConverting] = useState<{ customer: Customer; planId: string; amount: string } | null>(null);
+  const [trialToDelete, setTrialToDelete] = useState<Customer | null>(null);
+  const [period, setPeriod] = useState<ConversionPeriod>('30d');
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(new Date()), TICK_MS);
+    return () => clearInterval(timer);
+  }, []);
+
+  const paidPlans = selectable(plans).filter(p => p.id !== TRIAL_PLAN_ID);
+  const parsedPhone = parsePhone(formData.phone);
+
+  const running = trials
+    .filter(t => trialStatus(t, now) === 'running')
+    .sort((a, b) => trialEndOf(a).localeCompare(trialEndOf(b)));
+  const expired = trials
+    .filter(t => trialStatus(t, now) === 'expired')
+    .sort((a, b) => trialEndOf(b).localeCompare(trialEndOf(a)));
+
+  const report = useMemo(() => conversionByServer(allCustomers, servers, period, now), [allCustomers, servers, period, now]);
+  const monthly = useMemo(() => conversionByMonth(allCustomers, 6, now), [allCustomers, now]);
+
+  const openModal = () => {
+    setFormData(emptyForm(servers));
+    setIsModalOpen(true);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const amount = parseInt(formData.amount, 10);
+    if (!(amount > 0) || !parsedPhone.valid) return;
+    startTrial({
+      name: formData.name,
+      phone: parsedPhone.e164,
+      serverId: formData.serverId,
+      username: formData.username.trim() || undefined,
+      password: formData.password.trim() || undefined,
+      referredBy: formData.referredBy || undefined,
+      ...trialFields(amount, formData.unit)
+    });
+    setIsModalOpen(false);
+  };
+
+  const openConvert = (customer: Customer) => {
+    const plan = paidPlans[0];
+    setConverting({ customer, planId: plan?.id || '', amount: plan?.defaultPrice.toString() || '0' });
+  };
+
+  const confirmConvert = () => {
+    if (!converting) return;
+    const amount = parseFloat(converting.amount.replace(',', '.'));
+    if (isNaN(amount) || !converting.planId) return;
+    convertTrial(converting.customer.id, { serverId: converting.customer.serverId, planId: converting.planId, amount });
+    setConverting(null);
+  };
+
+  const confirmDelete = () => {
+    if (!trialToDelete) return;
+    deleteCustomer(trialToDelete.id);
+    setTrialToDelete(null);
+  };
+
+  const renderTrial = (trial: Customer) => {
+    const server = servers.find(s => s.id === trial.serverId);
+    const status = trialStatus(trial, now);
+    const endsAt = new Date(trialEndOf(trial));
+    const endingSoon = status === 'running' && endsAt.getTime() - now.getTime() < 60 * 60 * 1000;
+    return (
+      <div key={trial.id} className="bg-[#1a1a1a] rounded-2xl border border-white/5 p-4 shadow-lg">
+        <div className="flex justify-between items-start gap-3">
+          <div className="min-w-0">
+            <button onClick={() => openCustomer(trial.id)} className="text-left text-lg font-bold text-white hover:text-[#c8a646] transition-colors">
+              {trial.name}
+            </button>
+            <div className="text-xs text-[#c8a646] uppercase tracking-wider mt-1">{server?.name || 'Sem servidor'} • {formatPhone(trial.phone)}</div>
+          </div>
+          <div className="text-right shrink-0">
+            {status === 'running' ? (
+              <div className={`text-sm font-bold ${endingSoon ? 'text-red-400' : 'text-yellow-500'}`}>{formatCountdown(trialEndOf(trial), now)}</div>
+            ) : (
+              <div className="text-sm font-bold text-red-500">Expirado</div>
+            )}
+            <div className="text-[10px] text-gray-500">{status === 'running' ? 'termina' : 'terminou'} {format(endsAt, 'dd/MM HH:mm')}</div>
+          </div>
+        </div>
+
+        {(trial.username || trial.password) && (
+          <div className="flex flex-wrap items-center gap-x-4 gap-y-1 mt-3 text-xs text-gray-400">
+            <KeyRound size={12} className="text-gray-500" />
+            {trial.username && <span className="flex items-center space-x-1"><span>{trial.username}</span><CopyButton value={trial.username} title="Copiar usuário" /></span>}
+            {trial.password && <span className="flex items-center space-x-1"><span>{trial.password}</span><CopyButton value={trial.password} title="Copiar senha" /></span>}
+          </div>
+        )}
+
+        <div className="flex justify-end space-x-2 mt-4">
+          <button onClick={() => window.open(whatsappUrl(trial.phone), '_blank')} className="p-2 rounded-full bg-white/5 text-gray-400 hover:text-white transition-colors" title="WhatsApp">
+            <Phone size={16} />
+          </button>
+          <button onClick={() => setTrialToDelete(trial)} className="p-2 text-red-400 hover:text-red-300 transition-colors bg-red-500/10 rounded-full" title="Excluir">
+            <Trash2 size={16} />
+          </button>
+          <button
+            onClick={() => openConvert(trial)}
+            className="flex items-center space-x-2 px-3 py-2 text-xs font-bold uppercase tracking-wider text-green-400 bg-green-500/10 hover:bg-green-500/20 rounded-full transition-colors"
+          >
+            <UserCheck size={14} />
+            <span>Converter em cliente</span>
+          </button>
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="pb-24 space-y-6">
+      <div className="flex items-center justify-between mb-6">
+        <div className="flex items-center space-x-3">
+          <Hourglass size={28} className="text-[#c8a646]" />
+          <h2 className="text-xl font-bold text-white uppercase tracking-widest">Testes</h2>
+        </div>
+        <button
+          onClick={openModal}
+          className="bg-[#c8a646] text-[#0f0f0f] p-2 rounded-full hover:bg-[#e8c666] transition-colors shadow-lg shadow-[#c8a646]/20"
+          title="Novo teste"
+        >
+          <Plus size={20} />
+        </button>
+      </div>
+
+      <div>
+        <h3 className="text-xs font-bold text-gray-400 uppercase tracking-wider mb-3">Em teste ({running.length})</h3>
+        {running.length === 0 ? (
+          <div className="text-center py-8 text-gray-500">
+            <Hourglass size={48} className="mx-auto mb-4 opacity-20" />
+            <p>Nenhum teste em andamento.</p>
+          </div>
+        ) : (
+          <div className="space-y-3">{running.map(renderTrial)}</div>
+        )}
+      </div>
+
+      {expired.length > 0 && (
+        <div>
+          <h3 className="text-xs font-bold text-gray-400 uppercase tracking-wider mb-3">Expirados ({expired.length})</h3>
+          <div className="space-y-3">{expired.map(renderTrial)}</div>
+        </div>
+      )}
+
+      <div className="bg-[#1a1a1a] rounded-2xl border border-white/5 p-4 shadow-lg">
+        <div className="flex items-center justify-between gap-3 mb-4">
+          <h3 className="text-xs font-bold text-gray-400 uppercase tracking-wider">Conversão</h3>
+          <select
+            value={period}
+            onChange={e => setPeriod(e.target.value as ConversionPeriod)}
+            className="bg-[#0f0f0f] border border-white/10 rounded-xl px-3 py-2 text-xs text-white focus:outline-none focus:border-[#c8a646] appearance-none"
+          >
+            {(Object.keys(CONVERSION_PERIOD_LABELS) as ConversionPeriod[]).map(p => (
+              <option key={p} value={p}>{CONVERSION_PERIOD_LABELS[p]}</option>
+            ))}
+          </select>
+        </div>
+
+        {report.total.started === 0 ? (
+          <p className="text-xs text-gray-500">Nenhum teste iniciado neste período.</p>
+        ) : (
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="text-gray-500 uppercase tracking-wider text-[10px]">
+                <th className="text-left font-medium pb-2">Servidor</th>
+                <th className="text-right font-medium pb-2">Testes</th>
+                <th className="text-right font-medium pb-2">Convertidos</th>
+                <th className="text-right font-medium pb-2">Taxa</th>
+              </tr>
+            </thead>
+            <tbody>
+              {[...report.rows, report.total].map(row => (
+                <tr key={row.key} className={`border-t border-white/5 ${row.key === 'total' ? 'font-bold text-white' : 'text-gray-300'}`}>
+                  <td className="py-2 truncate">{row.label}</td>
+                  <td className="py-2 text-right">{row.started}</td>
+                  <td className="py-2 text-right">{row.converted}</td>
+                  <td className="py-2 text-right text-[#c8a646]">{formatRate(row.rate)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+        <p className="text-[10px] text-gray-500 mt-3">A taxa considera só testes já encerrados (convertidos ou expirados).</p>
+
+        <div className="grid grid-cols-6 gap-2 mt-4 pt-4 border-t border-white/5">
+          {monthly.map(month => (
+            <div key={month.key} className="text-center">
+              <div className="text-sm font-bold text-white">{formatRate(month.rate)}</div>
+              <div className="text-[10px] text-gray-500">{month.label}</div>
+              <div className="text-[10px] text-gray-600">{month.converted}/{month.started}</div>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {isModalOpen && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm overflow-y-auto">
+          <div className="bg-[#1a1a1a] rounded-3xl border border-white/10 p-6 w-full max-w-sm shadow-2xl my-8">
+            <h3 className="text-xl font-bold text-white mb-6 uppercase tracking-widest">Novo Teste</h3>
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div>
+                <label className="block text-xs font-medium text-gray-400 uppercase tracking-wider mb-2">Nome</label>
+                <input
+                  type="text"
+                  required
+                  value={formData.name}
+                  onChange={e => setFormData({ ...formData, name: e.target.value })}
+                  className="w-full bg-[#0f0f0f] border border-white/10 rounded-xl px-4 py-3 text-white focus:outline-none focus:border-[#c8a646]"
+                />
+              </div>
+
+              <div>
+                <label className="block text-xs font-medium text-gray-400 uppercase tracking-wider mb-2">WhatsApp</label>
+                <input
+                  type="tel"
+                  required
+                  value={formData.phone}
+                  onChange={e => setFormData({ ...formData, phone: e.target.value })}
+                  placeholder="(11) 99999-9999"
+                  className={`w-full bg-[#0f0f0f] border rounded-xl px-4 py-3 text-white focus:outline-none focus:border-[#c8a646] ${formData.phone && !parsedPhone.valid ? 'border-red-500/50' : 'border-white/10'}`}
+                />
+                {formData.phone && !parsedPhone.valid && (
+                  <div className="text-xs text-red-400 mt-1">{parsedPhone.error}</div>
+                )}
+              </div>
+
+              <div>
+                <label className="block text-xs font-medium text-gray-400 uppercase tracking-wider mb-2">Servidor</label>
+                <select
+                  required
+                  value={formData.serverId}
+                  onChange={e => setFormData({ ...formData, serverId: e.target.value })}
+                  className="w-full bg-[#0f0f0f] border border-white/10 rounded-xl px-4 py-3 text-white focus:outline-none focus:border-[#c8a646] appearance-none"
+                >
+                  <option value="" disabled>Selecione um servidor</option>
+                  {selectable(servers).map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+                </select>
+              </div>
+
+              <div>
+                <label className="block text-xs font-medium text-gray-400 uppercase tracking-wider mb-2">Duração</label>
+                <div className="grid grid-cols-3 gap-2 mb-2">
+                  {TRIAL_PRESETS.map(preset => (
+                    <button
+                      key={preset.label}
+                      type="button"
+                      onClick={() => setFormData({ ...formData, amount: preset.amount.toString(), unit: preset.unit })}
+                      className={`py-2 rounded-xl text-xs font-bold transition-colors ${formData.amount === preset.amount.toString() && formData.unit === preset.unit ? 'bg-[#c8a646] text-[#0f0f0f]' : 'bg-white/5 text-gray-400'}`}
+                    >
+                      {preset.label}
+                    </button>
+                  ))}
+                </div>
+                <div className="flex space-x-2">
+                  <input
+                    type="number"
+                    min={1}
+                    required
+                    value={formData.amount}
+                    onChange={e => setFormData({ ...formData, amount: e.target.value })}
+                    className="w-24 bg-[#0f0f0f] border border-white/10 rounded-xl px-4 py-3 text-white focus:outline-none focus:border-[#c8a646]"
+                  />
+                  <select
+                    value={formData.unit}
+                    onChange={e => setFormData({ ...formData, unit: e.target.value as TrialUnit })}
+                    className="flex-1 bg-[#0f0f0f] border border-white/10 rounded-xl px-4 py-3 text-white focus:outline-none focus:border-[#c8a646] appearance-none"
+                  >
+                    {(Object.keys(TRIAL_UNIT_LABELS) as TrialUnit[]).map(unit => <option key={unit} value={unit}>{TRIAL_UNIT_LABELS[unit]}</option>)}
+                  </select>
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-xs font-medium text-gray-400 uppercase tracking-wider mb-2">Indicado por</label>
+                <ReferrerSelect
+                  value={formData.referredBy}
+                  onChange={referredBy => setFormData({ ...formData, referredBy })}
+                  customers={customers}
+                />
+              </div>
+
+              <div className="grid grid-cols-2 gap-2">
+                <div>
+                  <label className="block text-xs font-medium text-gray-400 uppercase tracking-wider mb-2">Usuário</label>
+                  <input
+                    type="text"
+                    value={formData.username}
+                    onChange={e => setFormData({ ...formData, username: e.target.value })}
+                    className="w-full bg-[#0f0f0f] border border-white/10 rounded-xl px-4 py-3 text-white focus:outline-none focus:border-[#c8a646]"
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-gray-400 uppercase tracking-wider mb-2">Senha</label>
+                  <input
+                    type="text"
+                    value={formData.password}
+                    onChange={e => setFormData({ ...formData, password: e.target.value })}
+                    className="w-full bg-[#0f0f0f] border border-white/10 rounded-xl px-4 py-3 text-white focus:outline-none focus:border-[#c8a646]"
+                  />
+                </div>
+              </div>
+
+              <div className="flex space-x-3 mt-8 pt-4">
+                <button
+                  type="button"
+                  onClick={() => setIsModalOpen(false)}
+                  className="flex-1 py-3 rounded-xl border border-white/10 text-white font-medium hover:bg-white/5 transition-colors"
+                >
+                  Cancelar
+                </button>
+                <button
+                  type="submit"
+                  className="flex-1 py-3 rounded-xl bg-[#c8a646] text-[#0f0f0f] font-bold hover:bg-[#e8c666] transition-colors shadow-lg shadow-[#c8a646]/20"
+                >
+                  Iniciar
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+
+      {converting && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm">
+          <div className="bg-[#1a1a1a] rounded-3xl border border-white/10 p-6 w-full max-w-sm shadow-2xl">
+            <h3 className="text-xl font-bold text-white mb-2 uppercase tracking-widest">Converter em Cliente</h3>
+            <p className="text-gray-400 text-sm mb-6">{converting.customer.name} passa a ser cliente a partir de hoje.</p>
+
+            <div className="space-y-4">
+              <div>
+                <label className="block text-xs font-medium text-gray-400 uppercase tracking-wider mb-2">Plano</label>
+                <select
+                  value={converting.planId}
+                  onChange={e => {
+                    const plan = plans.find(p => p.id === e.target.value);
+                    setConverting({ ...converting, planId: e.target.value, amount: plan ? plan.defaultPrice.toString() : converting.amount });
+                  }}
+                  className="w-full bg-[#0f0f0f] border border-white/10 rounded-xl px-4 py-3 text-white focus:outline-none focus:border-[#c8a646] appearance-none"
+                >
+                  {paidPlans.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                </select>
+              </div>
+
+              <div>
+                <label className="block text-xs font-medium text-gray-400 uppercase tracking-wider mb-2">Valor (R$)</label>
+                <input
+                  type="text"
+                  value={converting.amount}
+                  onChange={e => setConverting({ ...converting, amount: e.target.value })}
+                  className="w-full bg-[#0f0f0f] border border-white/10 rounded-xl px-4 py-3 text-white focus:outline-none focus:border-[#c8a646]"
+                />
+              </div>
+
+              <div className="flex space-x-3 mt-8 pt-4">
+                <button
+                  onClick={() => setConverting(null)}
+                  className="flex-1 py-3 rounded-xl border border-white/10 text-white font-medium hover:bg-white/5 transition-colors"
+                >
+                  Cancelar
+                </button>
+                <button
+                  onClick={confirmConvert}
+                  disabled={!converting.planId}
+                  className="flex-1 py-3 rounded-xl bg-[#c8a646] text-[#0f0f0f] font-bold hover:bg-[#e8c666] transition-colors shadow-lg shadow-[#c8a646]/20 disabled:opacity-50"
+                >
+                  Converter
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {trialToDelete && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm">
+          <div className="bg-[#1a1a1a] rounded-3xl border border-white/10 p-6 w-full max-w-sm shadow-2xl">
+            <h3 className="text-xl font-bold text-white mb-2 uppercase tracking-widest">Excluir Teste</h3>
+            <p className="text-gray-400 text-sm mb-6">
+              {trialToDelete.name} vai para a lixeira. O teste continua contando no relatório de conversão.
+            </p>
+            <div className="flex space-x-3">
+              <button
+                onClick={() => setTrialToDelete(null)}
+                className="flex-1 py-3 rounded-xl border border-white/10 text-white font-medium hover:bg-white/5 transition-colors"
+              >
+                Cancelar
+              </button>
+              <button
+                onClick={confirmDelete}
+                className="flex-1 py-3 rounded-xl bg-red-500/20 text-red-500 font-bold hover:bg-red-500/30 transition-colors"
+              >
+                Excluir
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
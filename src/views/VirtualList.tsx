@@ -0,0 +1,111 @@
+import React, { useState, useEffect, useMemo, useRef, useLayoutEffect } from 'react';
+
+interface VirtualListProps<T> {
+  items: T[];
+  getKey: (item: T) => string;
+  renderItem: (item: T) => React.ReactNode;
+  // Height (px) assumed for rows not rendered yet, gap included
+  estimatedHeight: number;
+  // Space (px) below each row
+  gap?: number;
+  // Extra space (px) rendered above and below the viewport
+  overscan?: number;
+}
+
+/**
+ * List that only renders the rows near the viewport. It scrolls with the page:
+ * rows keep their natural, measured height and the rest of the list is
+ * stood in for by spacers above and below.
+ */
+export function VirtualList<T>({ items, getKey, renderItem, estimatedHeight, gap = 0, overscan = 800 }: VirtualListProps<T>) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const heights = useRef(new Map<string, number>());
+  const [measureVersion, setMeasureVersion] = useState(0);
+  const [viewport, setViewport] = useState({ top: 0, height: typeof window === 'undefined' ? 0 : window.innerHeight });
+
+  // Viewport position relative to the top of the list, refreshed once per frame at most
+  useLayoutEffect(() => {
+    let frame = 0;
+    const update = () => {
+      frame = 0;
+      const container = containerRef.current;
+      if (!container) return;
+      const top = -container.getBoundingClientRect().top;
+      setViewport(prev => prev.top === top && prev.height === window.innerHeight ? prev : { top, height: window.innerHeight });
+    };
+    const schedule = () => { if (!frame) frame = requestAnimationFrame(update); };
+    update();
+    window.addEventListener('scroll', schedule, { passive: true });
+    window.addEventListener('resize', schedule);
+    return () => {
+      if (frame) cancelAnimationFrame(frame);
+      window.removeEventListener('scroll', schedule);
+      window.removeEventListener('resize', schedule);
+    };
+  }, []);
+
+  const observer = useMemo(() => {
+    if (typeof ResizeObserver === 'undefined') return null;
+    return new ResizeObserver(entries => {
+      let changed = false;
+      entries.forEach(entry => {
+        const key = (entry.target as HTMLElement).dataset.key;
+        const height = (entry.target as HTMLElement).offsetHeight;
+        if (!key || heights.current.get(key) === height) return;
+        heights.current.set(key, height);
+        changed = true;
+      });
+      if (changed) setMeasureVersion(v => v + 1);
+    });
+  }, []);
+
+  useEffect(() => () => observer?.disconnect(), [observer]);
+
+  // Offset of every row from the top of the list
+  const offsets = useMemo(() => {
+    const result = new Array<number>(items.length + 1);
+    result[0] = 0;
+    items.forEach((item, index) => {
+      result[index + 1] = result[index] + (heights.current.get(getKey(item)) ?? estimatedHeight);
+    });
+    return result;
+    // measureVersion: heights live in a ref and change without new items
+  }, [items, getKey, estimatedHeight, measureVersion]);
+
+  const total = offsets[items.length];
+  const start = Math.max(0, upperBound(offsets, viewport.top - overscan) - 1);
+  const end = Math.min(items.length, upperBound(offsets, viewport.top + viewport.height + overscan));
+
+  return (
+    <div ref={containerRef} style={{ paddingTop: offsets[start], paddingBottom: total - offsets[end] }}>
+      {items.slice(start, end).map(item => {
+        const key = getKey(item);
+        return (
+          <div
+            key={key}
+            data-key={key}
+            style={{ paddingBottom: gap }}
+            ref={el => {
+              if (!el || !observer) return;
+              observer.observe(el);
+              return () => observer.unobserve(el);
+            }}
+          >
+            {renderItem(item)}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+// Index of the first offset greater than `value` (offsets are ascending)
+const upperBound = (offsets: number[], value: number) => {
+  let low = 0;
+  let high = offsets.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (offsets[mid] <= value) low = mid + 1; else high = mid;
+  }
+  return low;
+};
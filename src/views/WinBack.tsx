@@ -0,0 +1,85 @@
+import { useMemo } from 'react';
+import { UserX, MessageCircle } from 'lucide-react';
+import { differenceInDays } from 'date-fns';
+import { Customer, Server, Renewal } from '../types';
+import { Lifecycles, WINBACK_MESSAGE, winBackList } from '../lifecycle';
+import { parseLocalDate, startOfToday } from '../dates';
+import { whatsappUrl, isValidPhone } from '../phone';
+
+interface WinBackProps {
+  customers: Customer[];
+  servers: Server[];
+  renewals: Renewal[];
+  lifecycles: Lifecycles;
+  openCustomer: (id: string) => void;
+}
+
+export function WinBack({ customers, servers, renewals, lifecycles, openCustomer }: WinBackProps) {
+  const rows = useMemo(() => winBackList(customers, renewals, lifecycles), [customers, renewals, lifecycles]);
+  const totalValue = rows.reduce((sum, row) => sum + row.lifetimeValue, 0);
+  const today = startOfToday();
+
+  const formatCurrency = (val: number) => new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(val);
+
+  return (
+    <div className="pb-24 space-y-6">
+      <div className="flex items-center space-x-3 mb-6">
+        <UserX size={28} className="text-[#c8a646]" />
+        <h2 className="text-xl font-bold text-white uppercase tracking-widest">Recuperar</h2>
+      </div>
+
+      <div className="bg-[#1a1a1a] p-4 rounded-2xl border border-white/5 flex items-center justify-between gap-4">
+        <p className="text-xs text-gray-400">
+          Clientes perdidos, dos que mais já pagaram para os que menos pagaram. Comece a campanha de reativação pelo topo da lista.
+        </p>
+        <div className="text-right shrink-0">
+          <div className="text-lg font-bold text-white">{rows.length}</div>
+          <div className="text-[10px] text-gray-500 uppercase tracking-wider">{formatCurrency(totalValue)}</div>
+        </div>
+      </div>
+
+      {rows.length === 0 ? (
+        <div className="text-center py-12 text-gray-500">
+          <UserX size={48} className="mx-auto mb-4 opacity-20" />
+          <p>Nenhum cliente perdido no momento.</p>
+        </div>
+      ) : (
+        <div className="bg-[#1a1a1a] rounded-2xl border border-white/5 divide-y divide-white/5">
+          {rows.map(({ customer, lifetimeValue, renewalCount }, index) => {
+            const overdue = differenceInDays(today, parseLocalDate(customer.dueDate));
+            const server = servers.find(s => s.id === customer.serverId);
+            return (
+              <div key={customer.id} className="p-4 flex items-center justify-between gap-3">
+                <div className="flex items-center space-x-3 min-w-0">
+                  <span className="w-6 text-center font-bold text-gray-500 shrink-0">{index + 1}</span>
+                  <div className="min-w-0">
+                    <button onClick={() => openCustomer(customer.id)} className="block text-left text-white font-medium truncate hover:text-[#c8a646] transition-colors">
+                      {customer.name}
+                    </button>
+                    <div className="text-xs text-gray-500 truncate">
+                      {server?.name || 'Sem servidor'} • {isNaN(overdue) ? 'Vencimento inválido' : `Vencido há ${overdue} dias`}
+                    </div>
+                  </div>
+                </div>
+                <div className="flex items-center space-x-3 shrink-0">
+                  <div className="text-right">
+                    <div className="text-sm font-bold text-green-400">{formatCurrency(lifetimeValue)}</div>
+                    <div className="text-[10px] text-gray-500">{renewalCount} {renewalCount === 1 ? 'renovação' : 'renovações'}</div>
+                  </div>
+                  <button
+                    onClick={() => window.open(whatsappUrl(customer.phone, WINBACK_MESSAGE.replace('{nome}', customer.name)), '_blank')}
+                    disabled={!isValidPhone(customer.phone)}
+                    className="p-2 rounded-full bg-green-600/20 text-green-500 hover:bg-green-600/30 transition-colors disabled:opacity-30"
+                    title={isValidPhone(customer.phone) ? 'WhatsApp' : 'Telefone inválido'}
+                  >
+                    <MessageCircle size={18} />
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}